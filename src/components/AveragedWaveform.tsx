@@ -2,10 +2,21 @@ import { useRef, useEffect, useCallback, useState } from 'react'
 import { MdBarChart, MdPlayArrow, MdStop, MdSearch, MdReplay } from 'react-icons/md'
 import styles from './WaveformCanvas.module.css'
 import { DEFAULT_SAMPLE_RATE } from '../contexts/AudioContextProvider'
+import type { WaveformSpread } from '../utils/waveformProcessing'
+import { getTimeStep, getVisibleTimeRange, type TimeRange } from '../utils/timeAxis'
 const MARGIN = { top: 30, right: 20, bottom: 40, left: 50 }
 
 type ScaleType = 'linear' | 'dB'
 
+// ばらつきの帯の種類（sigma: 平均±1σ、ci95: 平均の95%信頼区間）
+type BandType = 'none' | 'sigma' | 'ci95'
+
+const BAND_LABELS: Record<BandType, string> = {
+  none: 'なし',
+  sigma: '±1σ',
+  ci95: '95%',
+}
+
 interface AveragedWaveformProps {
   waveformData: Float32Array | null
   keyTapCount: number
@@ -16,6 +27,9 @@ interface AveragedWaveformProps {
   keyDownTimestamps?: number[]
   keyUpTimestamps?: number[]
   sampleRate?: number
+  spread?: WaveformSpread | null  // 同期加算のばらつき（指定した場合は帯と一貫性スコアを表示）
+  zoomRange?: TimeRange | null    // 横軸ズーム範囲（onZoomChange と合わせて指定すると他のグラフと同期する）
+  onZoomChange?: (range: TimeRange | null) => void
 }
 
 // リニア値をdBに変換（0を避けるため最小値を設定）
@@ -26,17 +40,19 @@ function linearToDb(value: number, minDb: number = -60): number {
   return Math.max(db, minDb)
 }
 
-export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5, peakAlignEnabled = false, title = '同期加算平均波形', showKeyDownLine = true, keyDownTimestamps = [], keyUpTimestamps = [], sampleRate = DEFAULT_SAMPLE_RATE }: AveragedWaveformProps) {
+export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5, peakAlignEnabled = false, title = '同期加算平均波形', showKeyDownLine = true, keyDownTimestamps = [], keyUpTimestamps = [], sampleRate = DEFAULT_SAMPLE_RATE, spread = null, zoomRange, onZoomChange }: AveragedWaveformProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [scaleType, setScaleType] = useState<ScaleType>('linear')
+  const [bandType, setBandType] = useState<BandType>('sigma')
   
-  // 横軸ズーム用の状態
-  const [zoomStartMs, setZoomStartMs] = useState<number>(0)
-  const [zoomEndMs, setZoomEndMs] = useState<number | null>(null) // nullの場合は全体表示
-  const [isZoomed, setIsZoomed] = useState(false)
+  // 横軸ズーム用の状態（onZoomChange を指定した場合は親のズーム範囲を使う）
+  const [localZoomRange, setLocalZoomRange] = useState<TimeRange | null>(null) // nullの場合は全体表示
+  const [zoomDraft, setZoomDraft] = useState<TimeRange | null>(null)           // 入力中（未適用）の範囲
+  const appliedZoomRange = onZoomChange ? zoomRange ?? null : localZoomRange
+  const isZoomed = appliedZoomRange !== null
 
   const drawEmptyCanvas = useCallback((canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D) => {
     ctx.fillStyle = '#f0f8ff'
@@ -71,6 +87,7 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
     offsetMs: number, 
     isPeakAligned: boolean,
     scale: ScaleType,
+    band: BandType,
     viewStartMs: number = 0,
     viewEndMs: number | null = null
   ) => {
@@ -287,11 +304,6 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
       ctx.setLineDash([])
     }
 
-    // 波形を描画
-    ctx.strokeStyle = '#4CAF50'
-    ctx.lineWidth = 1.5
-    ctx.beginPath()
-
     // 最大振幅を計算（表示範囲のみ）
     let maxAmplitude = 0
     for (let i = startSample; i < Math.min(endSample, data.length); i++) {
@@ -303,6 +315,43 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
     // 表示範囲のサンプルのみ描画
     const drawStartSample = Math.max(0, startSample)
     const drawEndSample = Math.min(data.length, endSample)
+
+    // ばらつきの帯を描画（dBスケールでは正負で折り返すため、リニアスケールのみ）
+    if (spread && band !== 'none' && scale === 'linear' && drawEndSample > drawStartSample) {
+      const halfWidthAt = (i: number) => {
+        const sd = spread.standardDeviation[i] ?? 0
+        if (band === 'sigma') return sd
+        const count = spread.sampleCounts[i] ?? 0
+        return count > 0 ? (1.96 * sd) / Math.sqrt(count) : 0
+      }
+      const toX = (i: number) => MARGIN.left + (((i / sampleRate) * 1000 - startMs) / viewDurationMs) * plotWidth
+      const toY = (value: number) => {
+        const normalizedValue = maxAmplitude > 0 ? value / maxAmplitude : value
+        return MARGIN.top + ((1 - normalizedValue) / 2) * plotHeight
+      }
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight)
+      ctx.clip()
+      ctx.fillStyle = 'rgba(76, 175, 80, 0.25)'
+      ctx.beginPath()
+      ctx.moveTo(toX(drawStartSample), toY(data[drawStartSample] + halfWidthAt(drawStartSample)))
+      for (let i = drawStartSample + 1; i < drawEndSample; i++) {
+        ctx.lineTo(toX(i), toY(data[i] + halfWidthAt(i)))
+      }
+      for (let i = drawEndSample - 1; i >= drawStartSample; i--) {
+        ctx.lineTo(toX(i), toY(data[i] - halfWidthAt(i)))
+      }
+      ctx.closePath()
+      ctx.fill()
+      ctx.restore()
+    }
+
+    // 波形を描画
+    ctx.strokeStyle = '#4CAF50'
+    ctx.lineWidth = 1.5
+    ctx.beginPath()
     let isFirst = true
     
     for (let i = drawStartSample; i < drawEndSample; i++) {
@@ -341,7 +390,8 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
     ctx.fillStyle = '#333'
     ctx.font = '12px sans-serif'
     ctx.textAlign = 'right'
-    ctx.fillText(`同期加算: ${keyTapCount}回`, canvas.width - MARGIN.right, MARGIN.top - 5)
+    const consistencyText = spread?.consistency != null ? ` | 一貫性: ${spread.consistency.toFixed(2)}` : ''
+    ctx.fillText(`同期加算: ${keyTapCount}回${consistencyText}`, canvas.width - MARGIN.right, MARGIN.top - 5)
     
     // ズーム情報を表示
     if (viewStartMs > 0 || viewEndMs !== null) {
@@ -349,17 +399,7 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
       ctx.textAlign = 'left'
       ctx.fillText(`表示範囲: ${startMs.toFixed(0)}-${endMs.toFixed(0)}ms`, MARGIN.left, MARGIN.top - 5)
     }
-  }, [keyTapCount, showKeyDownLine, keyDownTimestamps, keyUpTimestamps, sampleRate])
-
-  // 時間軸の目盛り間隔を計算
-  function getTimeStep(durationMs: number): number {
-    if (durationMs <= 50) return 10
-    if (durationMs <= 100) return 20
-    if (durationMs <= 200) return 50
-    if (durationMs <= 500) return 100
-    if (durationMs <= 1000) return 200
-    return 500
-  }
+  }, [keyTapCount, showKeyDownLine, keyDownTimestamps, keyUpTimestamps, sampleRate, spread])
 
   // 波形を再生する関数
   const playWaveform = useCallback(() => {
@@ -411,7 +451,7 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
     sourceNodeRef.current = sourceNode
     setIsPlaying(true)
     sourceNode.start()
-  }, [waveformData])
+  }, [waveformData, sampleRate])
 
   // 再生停止
   const stopWaveform = useCallback(() => {
@@ -445,11 +485,13 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
     canvas.height = canvas.offsetHeight
 
     if (waveformData && waveformData.length > 0) {
-      drawWaveform(canvas, ctx, waveformData, windowOffsetMs, peakAlignEnabled, scaleType, zoomStartMs, isZoomed ? zoomEndMs : null)
+      // 波形が変わってもズーム範囲が波形の長さに収まるようにする
+      const viewRange = appliedZoomRange && getVisibleTimeRange(appliedZoomRange, (waveformData.length / sampleRate) * 1000)
+      drawWaveform(canvas, ctx, waveformData, windowOffsetMs, peakAlignEnabled, scaleType, bandType, viewRange?.startMs ?? 0, viewRange?.endMs ?? null)
     } else {
       drawEmptyCanvas(canvas, ctx)
     }
-  }, [waveformData, windowOffsetMs, peakAlignEnabled, scaleType, zoomStartMs, zoomEndMs, isZoomed, drawEmptyCanvas, drawWaveform])
+  }, [waveformData, windowOffsetMs, peakAlignEnabled, scaleType, bandType, appliedZoomRange, sampleRate, drawEmptyCanvas, drawWaveform])
 
   useEffect(() => {
     setupCanvas()
@@ -469,19 +511,29 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
   // 波形の全体時間
   const totalDurationMs = waveformData ? (waveformData.length / sampleRate) * 1000 : 0
 
+  // 入力欄には入力中の範囲、なければ表示中の範囲を表示する
+  const zoomInput = zoomDraft ?? getVisibleTimeRange(appliedZoomRange, totalDurationMs)
+
+  const changeZoom = useCallback((range: TimeRange | null) => {
+    setZoomDraft(null)
+    if (onZoomChange) {
+      onZoomChange(range)
+    } else {
+      setLocalZoomRange(range)
+    }
+  }, [onZoomChange])
+
   // ズームリセット
   const resetZoom = useCallback(() => {
-    setZoomStartMs(0)
-    setZoomEndMs(null)
-    setIsZoomed(false)
-  }, [])
+    changeZoom(null)
+  }, [changeZoom])
 
   // ズーム適用
   const applyZoom = useCallback(() => {
-    if (zoomEndMs !== null && zoomEndMs > zoomStartMs) {
-      setIsZoomed(true)
+    if (zoomInput.endMs > zoomInput.startMs) {
+      changeZoom(zoomInput)
     }
-  }, [zoomStartMs, zoomEndMs])
+  }, [zoomInput, changeZoom])
 
   return (
     <div className={styles.canvasContainer}>
@@ -503,6 +555,20 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
               dB
             </button>
           </div>
+          {spread && (
+            <div className={styles.scaleToggle} title="ウィンドウ間のばらつき（±1σ）または平均の95%信頼区間を帯で表示（Linearのみ）">
+              <span className={styles.scaleLabel}>ばらつき:</span>
+              {(Object.keys(BAND_LABELS) as BandType[]).map(band => (
+                <button
+                  key={band}
+                  className={`${styles.scaleButton} ${bandType === band ? styles.scaleButtonActive : ''}`}
+                  onClick={() => setBandType(band)}
+                >
+                  {BAND_LABELS[band]}
+                </button>
+              ))}
+            </div>
+          )}
           {waveformData && waveformData.length > 0 && (
             <button 
               onClick={isPlaying ? stopWaveform : playWaveform}
@@ -521,8 +587,8 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
           <span className={styles.zoomLabel}>横軸ズーム:</span>
           <input
             type="number"
-            value={zoomStartMs}
-            onChange={(e) => setZoomStartMs(Math.max(0, Number(e.target.value)))}
+            value={zoomInput.startMs}
+            onChange={(e) => setZoomDraft({ ...zoomInput, startMs: Math.max(0, Number(e.target.value)) })}
             min={0}
             max={totalDurationMs}
             step={1}
@@ -532,8 +598,8 @@ export function AveragedWaveform({ waveformData, keyTapCount, windowOffsetMs = 5
           <span>-</span>
           <input
             type="number"
-            value={zoomEndMs ?? totalDurationMs}
-            onChange={(e) => setZoomEndMs(Math.min(totalDurationMs, Number(e.target.value)))}
+            value={zoomInput.endMs}
+            onChange={(e) => setZoomDraft({ ...zoomInput, endMs: Math.min(totalDurationMs, Number(e.target.value)) })}
             min={0}
             max={totalDurationMs}
             step={1}
@@ -1,11 +1,78 @@
 import { useEffect, useRef, useMemo, useState } from 'react'
-import { MdBarChart } from 'react-icons/md'
+import { MdBarChart, MdCompareArrows } from 'react-icons/md'
 import styles from './CompareView.module.css'
 import { DEFAULT_SAMPLE_RATE } from '../contexts/AudioContextProvider'
+import { KEY_GROUPS, KEY_GROUP_LABELS, type KeyGroup } from '../utils/keyEvents'
+import { PALETTE_LABELS, getTraceStyle, type PaletteType, type TraceStyle } from '../utils/colorPalette'
+import type { WindowInfo } from '../utils/waveformProcessing'
+import {
+  formatBandFrequency,
+  getFractionalOctaveBands,
+  getLogFrequencyGrid,
+  type PowerSpectrum,
+} from '../utils/octaveBands'
+import {
+  calculateDifferenceCurve,
+  compareBandLevels,
+  compareTimeDomainMetrics,
+  type BandLevelComparison,
+  type SignificanceResult,
+} from '../utils/spectralComparison'
+import { SIGNIFICANCE_LEVEL } from '../utils/statisticalTests'
+import { NORMALIZATION_MODE_LABELS, type NormalizationMode } from '../utils/waveformNormalization'
+import {
+  TRACE_ALIGN_MODE_LABELS,
+  TRACE_LENGTH_MODE_LABELS,
+  calculateTraceTimeline,
+  sampleTrace,
+  type TraceAlignMode,
+  type TraceLengthMode,
+} from '../utils/traceAlignment'
+import { getResampledLength } from '../utils/resampler'
+import {
+  DEFAULT_SPECTRUM_SETTINGS,
+  SPECTRUM_AVERAGING_LABELS,
+  WELCH_OVERLAPS,
+  WELCH_SEGMENT_SIZES,
+  nextPowerOf2,
+  toDB,
+  type SpectrumAveraging,
+  type SpectrumSettings,
+} from '../utils/dsp'
+import { WINDOW_FUNCTION_LABELS, type WindowFunction } from '../utils/windowFunctions'
+import {
+  SMOOTHED_POINTS_PER_OCTAVE,
+  SMOOTHING_FRACTIONS,
+  SPECTRUM_VIEW_MODE_LABELS,
+  calculateSpectrumCurve,
+  calculateThirdOctaveLevels,
+  formatSmoothing,
+  type SpectrumViewMode,
+} from '../utils/spectrumView'
+import {
+  buildBandLevelCsv,
+  buildSpectrumCsv,
+  downloadCanvasImage,
+  downloadCsv,
+  formatSpectrumSettings,
+  formatSpectrumView,
+} from '../utils/plotExport'
+import { useAudioFeatures } from '../hooks/useAudioFeatures'
+import { useTraceSpectra, type TraceSpectraRequest } from '../hooks/useTraceSpectra'
 
 // 波形タイプ
 type WaveformType = 'combined' | 'attack' | 'release' | 'recording'
 
+// キーグループ別の波形
+interface KeyGroupWaveformData {
+  group: Exclude<KeyGroup, 'all'>
+  combinedWaveform: Float32Array | null
+  attackWaveform: Float32Array | null
+  releaseWaveform: Float32Array | null
+  attackWindows?: WindowInfo[]
+  releaseWindows?: WindowInfo[]
+}
+
 interface MeasurementData {
   id: number
   name: string
@@ -14,6 +81,9 @@ interface MeasurementData {
   releaseWaveform: Float32Array | null
   recordingData: Float32Array | null
   sampleRate?: number
+  attackWindows?: WindowInfo[]   // アタック音の個別ウィンドウ（打鍵ごとの有意差の検定に使用）
+  releaseWindows?: WindowInfo[]  // リリース音の個別ウィンドウ
+  keyGroupWaveforms?: KeyGroupWaveformData[]
 }
 
 interface CompareViewProps {
@@ -22,148 +92,664 @@ interface CompareViewProps {
   defaultSampleRate?: number
 }
 
-// FFT実装（Cooley-Tukey algorithm）
-function fft(real: Float64Array, imag: Float64Array): void {
-  const n = real.length
-  if (n <= 1) return
-
-  // ビットリバース並び替え
-  let j = 0
-  for (let i = 0; i < n - 1; i++) {
-    if (i < j) {
-      [real[i], real[j]] = [real[j], real[i]];
-      [imag[i], imag[j]] = [imag[j], imag[i]]
+// 表示方法（overlay: 1つのグラフに重ねて表示、grid: 測定ごとに小さいグラフを並べて表示）
+type LayoutMode = 'overlay' | 'grid'
+
+const LAYOUT_MODE_LABELS: Record<LayoutMode, string> = {
+  overlay: '重ね合わせ',
+  grid: '並べて表示',
+}
+
+// キャンバスの幅と、並べて表示するときの1つのグラフの高さ
+const CANVAS_WIDTH = 800
+const SPECTRUM_CELL_HEIGHT = 220
+const WAVEFORM_CELL_HEIGHT = 180
+
+// 比較する1つの測定の描画データ
+interface CompareTrace {
+  id: number
+  name: string
+  waveform: Float32Array
+  spectrum: Float64Array
+  style: TraceStyle
+  sampleRate: number        // 比較に使う共通のサンプルレート（waveform はこのサンプルレートに変換済み）
+  sourceSampleRate: number  // 測定のサンプルレート
+  gain: number              // 正規化で掛けたゲイン
+}
+
+// キャンバス上の描画領域
+interface PlotArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 並べて表示するときの列数と行数を求める
+ */
+function getGridLayout(count: number): { columns: number; rows: number } {
+  const columns = count <= 1 ? 1 : count <= 4 ? 2 : 3
+  return { columns, rows: Math.ceil(count / columns) }
+}
+
+/**
+ * 並べて表示するときの各グラフの描画領域を求める
+ */
+function getGridAreas(count: number, width: number, cellHeight: number): PlotArea[] {
+  const { columns } = getGridLayout(count)
+  const cellWidth = width / columns
+  return Array.from({ length: count }, (_, index) => ({
+    x: (index % columns) * cellWidth,
+    y: Math.floor(index / columns) * cellHeight,
+    width: cellWidth,
+    height: cellHeight,
+  }))
+}
+
+/**
+ * 描画領域の余白を取得する（並べて表示するときは軸タイトルを省略して余白を詰める）
+ */
+function getPlotMargin(compact: boolean) {
+  return compact
+    ? { top: 24, right: 10, bottom: 28, left: 40 }
+    : { top: 30, right: 20, bottom: 50, left: 70 }
+}
+
+/**
+ * 並べて表示するグラフの左上に測定名を描画する
+ */
+function drawPlotTitle(ctx: CanvasRenderingContext2D, area: PlotArea, trace: CompareTrace): void {
+  ctx.fillStyle = trace.style.color
+  ctx.font = 'bold 12px sans-serif'
+  ctx.textAlign = 'left'
+  ctx.fillText(trace.name, area.x + 10, area.y + 16, area.width - 20)
+}
+
+/**
+ * スペクトルの1 bin あたりの周波数を求める（スペクトルは片側なので FFT サイズの半分の長さ）
+ */
+function getFrequencyResolution(trace: CompareTrace): number {
+  return trace.sampleRate / (trace.spectrum.length * 2)
+}
+
+/**
+ * スペクトルをパワースペクトルと周波数分解能の組に変換する
+ */
+function getPowerSpectrum(trace: CompareTrace): PowerSpectrum {
+  return { power: trace.spectrum, binHz: getFrequencyResolution(trace) }
+}
+
+// 帯域の棒にレベルを表示する最小の幅 (px)
+const BAND_LABEL_MIN_WIDTH = 18
+
+// スペクトルの描画設定
+interface SpectrumPlotSettings {
+  maxFreq: number
+  freqScale: 'log' | 'linear'
+  minDB: number
+  maxDB: number
+  compact: boolean
+  viewMode: SpectrumViewMode
+  smoothing: number  // 曲線の平滑化幅（1/N オクターブの N、0 は平滑化なし）
+}
+
+/**
+ * 描画領域にスペクトルのグリッド・軸・線を描画する
+ */
+function drawSpectrumPlot(
+  ctx: CanvasRenderingContext2D,
+  area: PlotArea,
+  traces: CompareTrace[],
+  settings: SpectrumPlotSettings
+): void {
+  const { maxFreq, freqScale, minDB, maxDB, compact, viewMode, smoothing } = settings
+  const margin = getPlotMargin(compact)
+  const left = area.x + margin.left
+  const right = area.x + area.width - margin.right
+  const top = area.y + margin.top
+  const bottom = area.y + area.height - margin.bottom
+  const plotWidth = right - left
+  const plotHeight = bottom - top
+
+  const minFreq = 20
+
+  // スケール変換関数
+  const freqToX = (freq: number): number => {
+    if (freqScale === 'log') {
+      if (freq <= minFreq) return left
+      const logMin = Math.log10(minFreq)
+      const logMax = Math.log10(maxFreq)
+      const logFreq = Math.log10(freq)
+      return left + ((logFreq - logMin) / (logMax - logMin)) * plotWidth
+    } else {
+      return left + (freq / maxFreq) * plotWidth
     }
-    let k = n >> 1
-    while (k <= j) {
-      j -= k
-      k >>= 1
+  }
+  const dbToY = (db: number): number => top + ((maxDB - db) / (maxDB - minDB)) * plotHeight
+
+  // グリッド描画
+  ctx.strokeStyle = '#333'
+  ctx.lineWidth = 1
+
+  // 周波数グリッド（並べて表示するときは線を間引く）
+  const gridFreqs = freqScale === 'log'
+    ? compact
+      ? [100, 1000, 10000]
+      : [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]
+    : compact
+      ? [0, 5000, 10000, 15000, 20000]
+      : [0, 2000, 4000, 6000, 8000, 10000, 12000, 14000, 16000, 18000, 20000]
+  const dbStep = compact ? 40 : 20
+
+  ctx.beginPath()
+  for (const freq of gridFreqs) {
+    if (freq <= maxFreq) {
+      const x = freqToX(freq)
+      ctx.moveTo(x, top)
+      ctx.lineTo(x, bottom)
     }
-    j += k
   }
+  ctx.stroke()
+
+  // dBグリッド
+  ctx.beginPath()
+  for (let db = -100; db <= 0; db += dbStep) {
+    const y = dbToY(db)
+    ctx.moveTo(left, y)
+    ctx.lineTo(right, y)
+  }
+  ctx.stroke()
 
-  // バタフライ演算
-  for (let len = 2; len <= n; len <<= 1) {
-    const halfLen = len >> 1
-    const angle = -2 * Math.PI / len
-    for (let i = 0; i < n; i += len) {
-      for (let k = 0; k < halfLen; k++) {
-        const theta = angle * k
-        const cos = Math.cos(theta)
-        const sin = Math.sin(theta)
-        const idx1 = i + k
-        const idx2 = i + k + halfLen
-        const tReal = real[idx2] * cos - imag[idx2] * sin
-        const tImag = real[idx2] * sin + imag[idx2] * cos
-        real[idx2] = real[idx1] - tReal
-        imag[idx2] = imag[idx1] - tImag
-        real[idx1] += tReal
-        imag[idx1] += tImag
+  if (viewMode === 'bands') {
+    // 1/3 オクターブ帯域ごとに測定の棒を並べる（幅に余裕がある場合はレベルも表示）
+    ctx.font = '9px monospace'
+    ctx.textAlign = 'center'
+    traces.forEach((trace, traceIndex) => {
+      for (const { band, level } of calculateThirdOctaveLevels(getPowerSpectrum(trace), maxFreq)) {
+        const x0 = freqToX(band.lowHz)
+        const x1 = freqToX(Math.min(band.highHz, maxFreq))
+        const barWidth = (x1 - x0 - 2) / traces.length
+        const x = x0 + 1 + traceIndex * barWidth
+        const y = dbToY(Math.max(level, minDB))
+        ctx.fillStyle = trace.style.color
+        ctx.fillRect(x, y, Math.max(1, barWidth), bottom - y)
+        if (barWidth >= BAND_LABEL_MIN_WIDTH) {
+          ctx.fillStyle = '#ccc'
+          ctx.fillText(level.toFixed(0), x + barWidth / 2, y - 3)
+        }
       }
+    })
+  } else {
+    // 各スペクトルを描画（周波数分解能は波形の長さで変わるため、波形ごとに求める）
+    for (const trace of traces) {
+      const curve = calculateSpectrumCurve(getPowerSpectrum(trace), smoothing, freqScale === 'log' ? minFreq : 0, maxFreq)
+      ctx.strokeStyle = trace.style.color
+      ctx.setLineDash(trace.style.dash)
+      ctx.lineWidth = compact ? 1.5 : 2
+      ctx.beginPath()
+      curve.frequencies.forEach((freq, i) => {
+        const x = freqToX(freq)
+        const y = dbToY(curve.levels[i])
+        if (i === 0) {
+          ctx.moveTo(x, y)
+        } else {
+          ctx.lineTo(x, y)
+        }
+      })
+      ctx.stroke()
+    }
+    ctx.setLineDash([])
+  }
+
+  // 軸ラベル
+  ctx.fillStyle = '#888'
+  ctx.font = compact ? '10px sans-serif' : '12px sans-serif'
+  ctx.textAlign = 'center'
+
+  // 周波数ラベル
+  for (const freq of gridFreqs) {
+    if (freq <= maxFreq) {
+      const label = freq >= 1000 ? `${freq / 1000}k` : `${freq}`
+      ctx.fillText(label, freqToX(freq), bottom + (compact ? 14 : 20))
     }
   }
+
+  // dBラベル
+  ctx.textAlign = 'right'
+  for (let db = -100; db <= 0; db += dbStep) {
+    ctx.fillText(`${db}`, left - (compact ? 5 : 10), dbToY(db) + 4)
+  }
+
+  if (compact) return
+
+  // X軸タイトル
+  ctx.textAlign = 'center'
+  ctx.fillText('周波数 (Hz)', area.x + area.width / 2, area.y + area.height - 10)
+
+  // Y軸タイトル
+  ctx.save()
+  ctx.translate(area.x + 15, area.y + area.height / 2)
+  ctx.rotate(-Math.PI / 2)
+  ctx.textAlign = 'center'
+  ctx.fillText('パワー (dB)', 0, 0)
+  ctx.restore()
 }
 
-// 2のべき乗に切り上げ
-function nextPowerOf2(n: number): number {
-  return Math.pow(2, Math.ceil(Math.log2(n)))
+// 波形の描画設定
+interface WaveformPlotSettings {
+  sampleRate: number
+  lead: number          // 揃える位置より前に表示するサンプル数（TraceTimeline.lead）
+  length: number        // 時間軸のサンプル数（TraceTimeline.length）
+  maxAmplitude: number
+  compact: boolean
 }
 
-// ハニング窓
-function hanningWindow(data: Float32Array): Float32Array {
-  const n = data.length
-  const windowed = new Float32Array(n)
-  for (let i = 0; i < n; i++) {
-    const multiplier = 0.5 * (1 - Math.cos(2 * Math.PI * i / (n - 1)))
-    windowed[i] = data[i] * multiplier
+// 揃える位置と組にした波形
+interface PositionedTrace {
+  trace: CompareTrace
+  position: number
+}
+
+/**
+ * 描画領域に波形のグリッド・軸・線を描画する
+ * 時間軸は揃える位置を 0ms とする（先頭で揃える場合は波形の先頭が 0ms）
+ */
+function drawWaveformPlot(
+  ctx: CanvasRenderingContext2D,
+  area: PlotArea,
+  traces: PositionedTrace[],
+  settings: WaveformPlotSettings
+): void {
+  const { sampleRate, lead, length, maxAmplitude, compact } = settings
+  const margin = getPlotMargin(compact)
+  const left = area.x + margin.left
+  const right = area.x + area.width - margin.right
+  const top = area.y + margin.top
+  const bottom = area.y + area.height - margin.bottom
+  const plotWidth = right - left
+  const plotHeight = bottom - top
+  const durationMs = (length / sampleRate) * 1000
+  const leadMs = (lead / sampleRate) * 1000
+  const timeToX = (ms: number): number => left + ((ms + leadMs) / durationMs) * plotWidth
+
+  // グリッド描画
+  ctx.strokeStyle = '#333'
+  ctx.lineWidth = 1
+
+  // 時間グリッド（並べて表示するときは線を間引く）
+  const baseInterval = durationMs <= 50 ? 5 : durationMs <= 100 ? 10 : durationMs <= 500 ? 50 : 100
+  const timeGridIntervals = compact ? baseInterval * 2 : baseInterval
+  const firstGridTime = Math.ceil(-leadMs / timeGridIntervals) * timeGridIntervals
+  ctx.beginPath()
+  for (let t = firstGridTime; t <= durationMs - leadMs; t += timeGridIntervals) {
+    const x = timeToX(t)
+    ctx.moveTo(x, top)
+    ctx.lineTo(x, bottom)
+  }
+  ctx.stroke()
+
+  // 振幅グリッド（中央線含む）
+  ctx.beginPath()
+  const ampGridValues = compact ? [-1, 0, 1] : [-1, -0.5, 0, 0.5, 1]
+  for (const amp of ampGridValues) {
+    const y = top + ((1 - amp) / 2) * plotHeight
+    ctx.moveTo(left, y)
+    ctx.lineTo(right, y)
+  }
+  ctx.stroke()
+
+  // 中央線を強調
+  ctx.strokeStyle = '#555'
+  ctx.beginPath()
+  const centerY = top + plotHeight / 2
+  ctx.moveTo(left, centerY)
+  ctx.lineTo(right, centerY)
+  ctx.stroke()
+
+  // 各波形を描画（長い波形に合わせる場合、データのない部分は描画しない）
+  for (const { trace, position } of traces) {
+    ctx.strokeStyle = trace.style.color
+    ctx.setLineDash(trace.style.dash)
+    ctx.lineWidth = compact ? 1 : 1.5
+    ctx.beginPath()
+
+    // サンプル間引き（描画効率化）
+    const step = Math.max(1, Math.floor(length / plotWidth))
+
+    let penDown = false
+    for (let t = 0; t < length; t += step) {
+      const value = sampleTrace(trace.waveform, position, lead, t)
+      if (value === null) {
+        penDown = false
+        continue
+      }
+      const x = left + (t / length) * plotWidth
+      const y = top + ((1 - value / maxAmplitude) / 2) * plotHeight
+
+      if (penDown) {
+        ctx.lineTo(x, y)
+      } else {
+        ctx.moveTo(x, y)
+        penDown = true
+      }
+    }
+    ctx.stroke()
+  }
+  ctx.setLineDash([])
+
+  // 軸ラベル
+  ctx.fillStyle = '#888'
+  ctx.font = compact ? '10px sans-serif' : '12px sans-serif'
+  ctx.textAlign = 'center'
+
+  // 時間ラベル
+  for (let t = firstGridTime; t <= durationMs - leadMs; t += timeGridIntervals) {
+    ctx.fillText(`${t}`, timeToX(t), bottom + (compact ? 14 : 20))
+  }
+
+  // 振幅ラベル
+  ctx.textAlign = 'right'
+  for (const amp of ampGridValues) {
+    const y = top + ((1 - amp) / 2) * plotHeight
+    ctx.fillText(`${amp.toFixed(1)}`, left - (compact ? 5 : 10), y + 4)
   }
-  return windowed
+
+  if (compact) return
+
+  // X軸タイトル
+  ctx.textAlign = 'center'
+  ctx.fillText('時間 (ms)', area.x + area.width / 2, area.y + area.height - 10)
+
+  // Y軸タイトル
+  ctx.save()
+  ctx.translate(area.x + 15, area.y + area.height / 2)
+  ctx.rotate(-Math.PI / 2)
+  ctx.textAlign = 'center'
+  ctx.fillText('振幅 (正規化)', 0, 0)
+  ctx.restore()
+}
+
+// 差分スペクトルの描画設定
+interface DifferencePlotSettings {
+  frequencies: number[]
+  maxFreq: number
+  freqScale: 'log' | 'linear'
+  color: string
+  significantBands: BandLevelComparison[]  // 打鍵ごとの差が有意な帯域（背景を塗る）
 }
 
-// パワースペクトル計算
-function computePowerSpectrum(data: Float32Array, fftSize: number): Float64Array {
-  const paddedSize = Math.max(fftSize, nextPowerOf2(data.length))
-  const real = new Float64Array(paddedSize)
-  const imag = new Float64Array(paddedSize)
+/**
+ * 差分スペクトル（A − B）を描画する
+ */
+function drawDifferencePlot(
+  ctx: CanvasRenderingContext2D,
+  area: PlotArea,
+  difference: Float64Array,
+  settings: DifferencePlotSettings
+): void {
+  const { frequencies, maxFreq, freqScale, color, significantBands } = settings
+  const margin = getPlotMargin(false)
+  const left = area.x + margin.left
+  const right = area.x + area.width - margin.right
+  const top = area.y + margin.top
+  const bottom = area.y + area.height - margin.bottom
+  const plotWidth = right - left
+  const plotHeight = bottom - top
+  const minFreq = 20
+
+  const freqToX = (freq: number): number => {
+    const clamped = Math.min(Math.max(freq, minFreq), maxFreq)
+    if (freqScale === 'log') {
+      return left + (Math.log10(clamped / minFreq) / Math.log10(maxFreq / minFreq)) * plotWidth
+    }
+    return left + (clamped / maxFreq) * plotWidth
+  }
 
-  // 窓関数適用
-  const windowed = hanningWindow(data)
-  for (let i = 0; i < windowed.length; i++) {
-    real[i] = windowed[i]
+  // 縦軸は0dBを中心に対称にする（最小 ±6dB）
+  let maxAbs = 0
+  for (const value of difference) {
+    if (!isNaN(value) && Math.abs(value) > maxAbs) maxAbs = Math.abs(value)
+  }
+  const dbStep = maxAbs > 24 ? 12 : maxAbs > 12 ? 6 : 3
+  const range = Math.max(6, Math.ceil(maxAbs / dbStep) * dbStep)
+  const dbToY = (db: number): number => top + ((range - db) / (2 * range)) * plotHeight
+
+  // 打鍵ごとの差が有意な帯域
+  ctx.fillStyle = 'rgba(255, 235, 59, 0.12)'
+  for (const { band } of significantBands) {
+    const x1 = freqToX(band.lowHz)
+    const x2 = freqToX(band.highHz)
+    ctx.fillRect(x1, top, x2 - x1, plotHeight)
   }
 
-  fft(real, imag)
+  // グリッド描画
+  ctx.strokeStyle = '#333'
+  ctx.lineWidth = 1
+  const gridFreqs = freqScale === 'log'
+    ? [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]
+    : [0, 2000, 4000, 6000, 8000, 10000, 12000, 14000, 16000, 18000, 20000]
+  ctx.beginPath()
+  for (const freq of gridFreqs) {
+    if (freq <= maxFreq) {
+      const x = freqToX(freq)
+      ctx.moveTo(x, top)
+      ctx.lineTo(x, bottom)
+    }
+  }
+  for (let db = -range; db <= range; db += dbStep) {
+    const y = dbToY(db)
+    ctx.moveTo(left, y)
+    ctx.lineTo(right, y)
+  }
+  ctx.stroke()
+
+  // 0dB線を強調
+  ctx.strokeStyle = '#777'
+  ctx.beginPath()
+  ctx.moveTo(left, dbToY(0))
+  ctx.lineTo(right, dbToY(0))
+  ctx.stroke()
+
+  // 差分スペクトル（ナイキスト周波数を超える部分は途切れさせる）
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  let penDown = false
+  frequencies.forEach((freq, i) => {
+    const value = difference[i]
+    if (isNaN(value) || freq > maxFreq) {
+      penDown = false
+      return
+    }
+    const x = freqToX(freq)
+    const y = dbToY(value)
+    if (penDown) {
+      ctx.lineTo(x, y)
+    } else {
+      ctx.moveTo(x, y)
+      penDown = true
+    }
+  })
+  ctx.stroke()
+
+  // 軸ラベル
+  ctx.fillStyle = '#888'
+  ctx.font = '12px sans-serif'
+  ctx.textAlign = 'center'
+  for (const freq of gridFreqs) {
+    if (freq <= maxFreq) {
+      ctx.fillText(formatBandFrequency(freq), freqToX(freq), bottom + 20)
+    }
+  }
+  ctx.fillText('周波数 (Hz)', area.x + area.width / 2, area.y + area.height - 10)
 
-  // パワースペクトル（片側）
-  const spectrum = new Float64Array(paddedSize / 2)
-  for (let i = 0; i < spectrum.length; i++) {
-    spectrum[i] = (real[i] * real[i] + imag[i] * imag[i]) / paddedSize
+  ctx.textAlign = 'right'
+  for (let db = -range; db <= range; db += dbStep) {
+    ctx.fillText(`${db > 0 ? '+' : ''}${db}`, left - 10, dbToY(db) + 4)
   }
 
-  return spectrum
+  ctx.save()
+  ctx.translate(area.x + 15, area.y + area.height / 2)
+  ctx.rotate(-Math.PI / 2)
+  ctx.textAlign = 'center'
+  ctx.fillText('レベル差 A − B (dB)', 0, 0)
+  ctx.restore()
+}
+
+/**
+ * 符号付きの数値を表示用にフォーマットする
+ */
+function formatSigned(value: number, decimals = 1): string {
+  if (!isFinite(value)) return '-'
+  return `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`
+}
+
+/**
+ * 打鍵ごとの差を「平均差 ± 標準誤差」の形式でフォーマットする
+ */
+function formatWindowDifference(significance: SignificanceResult | null, decimals = 1): string {
+  if (!significance) return '-'
+  return `${formatSigned(significance.meanDifference, decimals)} ± ${significance.standardError.toFixed(decimals)}`
+}
+
+/**
+ * 補正後の p 値をフォーマットする
+ */
+function formatPValue(significance: SignificanceResult | null): string {
+  if (!significance) return '-'
+  if (significance.adjustedPValue < 0.001) return '< 0.001'
+  return significance.adjustedPValue.toFixed(3)
 }
 
-// dB変換
-function toDB(value: number, minDB: number = -100): number {
-  if (value <= 0) return minDB
-  const db = 10 * Math.log10(value)
-  return Math.max(db, minDB)
+/**
+ * 波形タイプ・キーグループに対応する個別ウィンドウのうち、平均化に使用したものを取得する
+ * 合成波形と元の録音には対応する個別ウィンドウがないため空配列を返す
+ */
+function getUsedWindowData(m: MeasurementData, waveformType: WaveformType, keyGroup: KeyGroup): Float32Array[] {
+  const source = keyGroup === 'all'
+    ? m
+    : m.keyGroupWaveforms?.find(g => g.group === keyGroup)
+  const windows = waveformType === 'attack'
+    ? source?.attackWindows
+    : waveformType === 'release'
+      ? source?.releaseWindows
+      : undefined
+  return (windows ?? []).filter(w => !w.excluded && !w.rejection).map(w => w.data)
 }
 
-// 比較用カラーパレット
-const COLORS = [
-  '#4CAF50', // 緑
-  '#2196F3', // 青
-  '#FF9800', // オレンジ
-  '#E91E63', // ピンク
-  '#9C27B0', // 紫
-  '#00BCD4', // シアン
-]
+/**
+ * 測定が選択されていない・すべて非表示・計算中の場合のメッセージを描画する
+ * @returns メッセージを描画した場合は true
+ */
+function drawEmptyMessage(ctx: CanvasRenderingContext2D, selectedCount: number, visibleCount: number, isAnalyzing: boolean): boolean {
+  if (visibleCount > 0) return false
+  ctx.fillStyle = '#666'
+  ctx.font = '16px sans-serif'
+  ctx.textAlign = 'center'
+  const message = selectedCount === 0
+    ? '比較する測定を選択してください'
+    : isAnalyzing ? '計算中...' : 'すべての測定が非表示になっています'
+  ctx.fillText(message, ctx.canvas.width / 2, ctx.canvas.height / 2)
+  return true
+}
 
 export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT_SAMPLE_RATE }: CompareViewProps) {
   const spectrumCanvasRef = useRef<HTMLCanvasElement>(null)
   const waveformCanvasRef = useRef<HTMLCanvasElement>(null)
+  const differenceCanvasRef = useRef<HTMLCanvasElement>(null)
   const [fftSize, setFftSize] = useState(2048)
   const [maxFreq, setMaxFreq] = useState(20000)
   const [freqScale, setFreqScale] = useState<'log' | 'linear'>('log')
   const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [hiddenIds, setHiddenIds] = useState<number[]>([])
   const [waveformType, setWaveformType] = useState<WaveformType>('combined')
-
-  // 選択した波形タイプに応じてデータを取得
+  const [keyGroup, setKeyGroup] = useState<KeyGroup>('all')
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('overlay')
+  const [palette, setPalette] = useState<PaletteType>('standard')
+  const [differenceIds, setDifferenceIds] = useState<{ a: number | null; b: number | null }>({ a: null, b: null })
+  const [smoothingFraction, setSmoothingFraction] = useState(6)
+  const [normalizationMode, setNormalizationMode] = useState<NormalizationMode>('none')
+  const [traceAlignMode, setTraceAlignMode] = useState<TraceAlignMode>('start')
+  const [traceLengthMode, setTraceLengthMode] = useState<TraceLengthMode>('truncate')
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>(DEFAULT_SPECTRUM_SETTINGS)
+  const [spectrumViewMode, setSpectrumViewMode] = useState<SpectrumViewMode>('curve')
+  const [spectrumSmoothing, setSpectrumSmoothing] = useState(0)  // 1/N オクターブの N（0 は平滑化なし）
+
+  // 選択した波形タイプ・キーグループに応じてデータを取得
   const getWaveformData = (m: MeasurementData): Float32Array | null => {
+    // 元の録音はキーグループで分けられないため常に全体を使用
+    const source = keyGroup === 'all' || waveformType === 'recording'
+      ? m
+      : m.keyGroupWaveforms?.find(g => g.group === keyGroup)
+    if (!source) return null
+
     switch (waveformType) {
-      case 'combined': return m.combinedWaveform
-      case 'attack': return m.attackWaveform
-      case 'release': return m.releaseWaveform
+      case 'combined': return source.combinedWaveform
+      case 'attack': return source.attackWaveform
+      case 'release': return source.releaseWaveform
       case 'recording': return m.recordingData
-      default: return m.combinedWaveform
+      default: return source.combinedWaveform
     }
   }
-  
-  // 測定データのサンプルレートを取得
-  const getSampleRate = (m: MeasurementData): number => {
-    return m.sampleRate || defaultSampleRate
+
+  // 選択順に割り当てる描画スタイル（非表示にしても他の測定の色が変わらないようにする）
+  const getSelectionStyle = (id: number): TraceStyle | null => {
+    const index = selectedIds.indexOf(id)
+    return index >= 0 ? getTraceStyle(palette, index) : null
   }
 
-  // 選択された測定のデータ（波形・スペクトル共通）
-  const selectedData = useMemo(() => {
+  // 選択された測定のサンプルレート
+  const selectedSampleRates = useMemo(() => {
+    return measurements
+      .filter(m => selectedIds.includes(m.id))
+      .map(m => m.sampleRate || defaultSampleRate)
+  }, [measurements, selectedIds, defaultSampleRate])
+
+  // 比較に使う共通のサンプルレート（高域の情報を失わないよう、選択された測定の最大値にする）
+  const selectedSampleRate = selectedSampleRates.length > 0 ? Math.max(...selectedSampleRates) : defaultSampleRate
+  const hasMixedSampleRates = new Set(selectedSampleRates).size > 1
+
+  // 選択された測定と、選択した波形タイプ・キーグループの波形（波形がない測定は除く）
+  const selectedWaveforms = useMemo(() => {
     return measurements
       .filter(m => selectedIds.includes(m.id) && getWaveformData(m))
-      .map((m, index) => ({
-        id: m.id,
-        name: m.name,
-        waveform: getWaveformData(m)!,
-        spectrum: computePowerSpectrum(getWaveformData(m)!, fftSize),
-        color: COLORS[index % COLORS.length],
-        sampleRate: getSampleRate(m),
-      }))
-  }, [measurements, selectedIds, fftSize, waveformType])
-  
-  // 選択された測定の代表サンプルレート（最初の選択を使用）
-  const selectedSampleRate = useMemo(() => {
-    if (selectedData.length === 0) return defaultSampleRate
-    return selectedData[0].sampleRate
-  }, [selectedData, defaultSampleRate])
+      .map(m => ({ measurement: m, waveform: getWaveformData(m)! }))
+  }, [measurements, selectedIds, waveformType, keyGroup])
+  const selectedMeasurements = useMemo(() => selectedWaveforms.map(({ measurement }) => measurement), [selectedWaveforms])
+
+  // 選択された測定の波形の解析要求（サンプルレート変換・正規化・スペクトルは Web Worker で計算する）
+  const traceRequest = useMemo((): TraceSpectraRequest => ({
+    sources: selectedWaveforms.map(({ measurement: m, waveform }) => ({ data: waveform, sampleRate: m.sampleRate || defaultSampleRate, gain: null })),
+    options: { sampleRate: selectedSampleRate, normalizationMode, fftSize, settings: spectrumSettings },
+  }), [selectedWaveforms, defaultSampleRate, selectedSampleRate, normalizationMode, fftSize, spectrumSettings])
+  const { traces: preparedTraces, isAnalyzing: isAnalyzingTraces } = useTraceSpectra(traceRequest)
+
+  // 選択された測定のデータ（波形・スペクトル共通、計算中は空）
+  const selectedData = useMemo((): CompareTrace[] => {
+    if (!preparedTraces) return []
+    return selectedMeasurements.map((m, i) => ({
+      id: m.id,
+      name: m.name,
+      waveform: preparedTraces[i].waveform,
+      spectrum: preparedTraces[i].spectrum,
+      style: getTraceStyle(palette, selectedIds.indexOf(m.id)),
+      sampleRate: selectedSampleRate,
+      sourceSampleRate: m.sampleRate || defaultSampleRate,
+      gain: preparedTraces[i].gain,
+    }))
+  }, [preparedTraces, selectedMeasurements, selectedIds, palette, selectedSampleRate, defaultSampleRate])
+
+  // 凡例で非表示にした測定を除いたデータ
+  const visibleData = useMemo(() => {
+    return selectedData.filter(data => !hiddenIds.includes(data.id))
+  }, [selectedData, hiddenIds])
+
+  // 並べて表示するときはグラフの数に応じてキャンバスを縦に伸ばす
+  const gridRows = getGridLayout(visibleData.length).rows
+  const isGridLayout = layoutMode === 'grid' && visibleData.length > 0
+  const spectrumCanvasHeight = isGridLayout ? gridRows * SPECTRUM_CELL_HEIGHT : 350
+  const waveformCanvasHeight = isGridLayout ? gridRows * WAVEFORM_CELL_HEIGHT : 300
 
   // スペクトル描画
   useEffect(() => {
@@ -175,159 +761,44 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
 
     const width = canvas.width
     const height = canvas.height
-    const margin = { top: 30, right: 20, bottom: 50, left: 70 }
-    const plotWidth = width - margin.left - margin.right
-    const plotHeight = height - margin.top - margin.bottom
 
     // クリア
     ctx.fillStyle = '#1a1a2e'
     ctx.fillRect(0, 0, width, height)
 
-    if (selectedData.length === 0) {
-      // 選択がない場合のメッセージ
-      ctx.fillStyle = '#666'
-      ctx.font = '16px sans-serif'
-      ctx.textAlign = 'center'
-      ctx.fillText('比較する測定を2つ選択してください', width / 2, height / 2)
-      return
-    }
-
-    // 周波数分解能
-    const freqResolution = selectedSampleRate / fftSize
-    const maxBin = Math.min(Math.ceil(maxFreq / freqResolution), fftSize / 2)
-    const minFreq = 20
-
-    // スケール変換関数
-    const freqToX = (freq: number): number => {
-      if (freqScale === 'log') {
-        if (freq <= minFreq) return margin.left
-        const logMin = Math.log10(minFreq)
-        const logMax = Math.log10(maxFreq)
-        const logFreq = Math.log10(freq)
-        return margin.left + ((logFreq - logMin) / (logMax - logMin)) * plotWidth
-      } else {
-        return margin.left + (freq / maxFreq) * plotWidth
-      }
-    }
+    if (drawEmptyMessage(ctx, selectedMeasurements.length, visibleData.length, isAnalyzingTraces)) return
 
-    // 全スペクトルのdB範囲を計算
-    let globalMinDB = 0
+    // 表示中の全スペクトルのdB範囲を計算（並べて表示しても縦軸を揃えて比較できるようにする）
     let globalMaxDB = -Infinity
-    for (const data of selectedData) {
+    for (const data of visibleData) {
+      const maxBin = Math.min(Math.ceil(maxFreq / getFrequencyResolution(data)), data.spectrum.length)
       for (let i = 0; i < maxBin; i++) {
         const db = toDB(data.spectrum[i])
         if (db > globalMaxDB) globalMaxDB = db
       }
     }
-    globalMinDB = -100
-    globalMaxDB = Math.max(globalMaxDB, -20)
-
-    // グリッド描画
-    ctx.strokeStyle = '#333'
-    ctx.lineWidth = 1
-
-    // 周波数グリッド（対数スケール用）
-    const gridFreqs = freqScale === 'log' 
-      ? [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]
-      : [0, 2000, 4000, 6000, 8000, 10000, 12000, 14000, 16000, 18000, 20000]
-    
-    ctx.beginPath()
-    for (const freq of gridFreqs) {
-      if (freq <= maxFreq) {
-        const x = freqToX(freq)
-        ctx.moveTo(x, margin.top)
-        ctx.lineTo(x, height - margin.bottom)
-      }
-    }
-    ctx.stroke()
-
-    // dBグリッド
-    ctx.beginPath()
-    for (let db = -100; db <= 0; db += 20) {
-      const y = margin.top + ((globalMaxDB - db) / (globalMaxDB - globalMinDB)) * plotHeight
-      ctx.moveTo(margin.left, y)
-      ctx.lineTo(width - margin.right, y)
-    }
-    ctx.stroke()
-
-    // 各スペクトルを描画
-    for (const data of selectedData) {
-      ctx.strokeStyle = data.color
-      ctx.lineWidth = 2
-      ctx.beginPath()
-
-      let firstPoint = true
-      for (let i = 1; i < maxBin; i++) {
-        const freq = i * freqResolution
-        if (freq < minFreq && freqScale === 'log') continue
-        if (freq > maxFreq) break
-
-        const db = toDB(data.spectrum[i])
-        const x = freqToX(freq)
-        const y = margin.top + ((globalMaxDB - db) / (globalMaxDB - globalMinDB)) * plotHeight
-
-        if (firstPoint) {
-          ctx.moveTo(x, y)
-          firstPoint = false
-        } else {
-          ctx.lineTo(x, y)
-        }
-      }
-      ctx.stroke()
-    }
-
-    // 軸ラベル
-    ctx.fillStyle = '#888'
-    ctx.font = '12px sans-serif'
-    ctx.textAlign = 'center'
 
-    // 周波数ラベル
-    for (const freq of gridFreqs) {
-      if (freq <= maxFreq) {
-        const x = freqToX(freq)
-        let label: string
-        if (freq >= 1000) {
-          label = `${freq / 1000}k`
-        } else {
-          label = `${freq}`
-        }
-        ctx.fillText(label, x, height - margin.bottom + 20)
-      }
+    const settings: SpectrumPlotSettings = {
+      maxFreq,
+      freqScale,
+      minDB: -100,
+      maxDB: Math.max(globalMaxDB, -20),
+      compact: layoutMode === 'grid',
+      viewMode: spectrumViewMode,
+      smoothing: spectrumSmoothing,
     }
 
-    // X軸タイトル
-    ctx.fillText('周波数 (Hz)', width / 2, height - 10)
-
-    // dBラベル
-    ctx.textAlign = 'right'
-    for (let db = -100; db <= 0; db += 20) {
-      const y = margin.top + ((globalMaxDB - db) / (globalMaxDB - globalMinDB)) * plotHeight
-      ctx.fillText(`${db}`, margin.left - 10, y + 4)
+    if (layoutMode === 'overlay') {
+      drawSpectrumPlot(ctx, { x: 0, y: 0, width, height }, visibleData, settings)
+      return
     }
 
-    // Y軸タイトル
-    ctx.save()
-    ctx.translate(15, height / 2)
-    ctx.rotate(-Math.PI / 2)
-    ctx.textAlign = 'center'
-    ctx.fillText('パワー (dB)', 0, 0)
-    ctx.restore()
-
-    // 凡例
-    const legendX = width - margin.right - 150
-    const legendY = margin.top + 10
-    ctx.font = '12px sans-serif'
-    ctx.textAlign = 'left'
-    
-    selectedData.forEach((data, index) => {
-      const y = legendY + index * 20
-      ctx.fillStyle = data.color
-      ctx.fillRect(legendX, y - 8, 16, 3)
-      ctx.fillStyle = '#ccc'
-      ctx.fillText(data.name, legendX + 22, y)
+    getGridAreas(visibleData.length, width, SPECTRUM_CELL_HEIGHT).forEach((area, index) => {
+      drawSpectrumPlot(ctx, area, [visibleData[index]], settings)
+      drawPlotTitle(ctx, area, visibleData[index])
     })
 
-  }, [selectedData, fftSize, maxFreq, freqScale])
+  }, [selectedMeasurements, visibleData, isAnalyzingTraces, maxFreq, freqScale, layoutMode, spectrumViewMode, spectrumSmoothing, spectrumCanvasHeight])
 
   // 波形描画
   useEffect(() => {
@@ -339,154 +810,184 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
 
     const width = canvas.width
     const height = canvas.height
-    const margin = { top: 30, right: 20, bottom: 50, left: 70 }
-    const plotWidth = width - margin.left - margin.right
-    const plotHeight = height - margin.top - margin.bottom
 
     // クリア
     ctx.fillStyle = '#1a1a2e'
     ctx.fillRect(0, 0, width, height)
 
-    if (selectedData.length === 0) {
-      ctx.fillStyle = '#666'
-      ctx.font = '16px sans-serif'
-      ctx.textAlign = 'center'
-      ctx.fillText('比較する測定を2つ選択してください', width / 2, height / 2)
-      return
-    }
+    if (drawEmptyMessage(ctx, selectedMeasurements.length, visibleData.length, isAnalyzingTraces)) return
 
-    // 最大サンプル数を取得（最も短い波形に合わせる）
-    const maxSamples = Math.min(...selectedData.map(d => d.waveform.length))
-    const durationMs = (maxSamples / selectedSampleRate) * 1000
+    // 揃える位置を求めて共通の時間軸に並べる
+    const timeline = calculateTraceTimeline(
+      visibleData.map(d => d.waveform),
+      traceAlignMode,
+      traceLengthMode,
+      selectedSampleRate
+    )
+    const positioned = visibleData.map((trace, i) => ({ trace, position: timeline.positions[i] }))
 
-    // 振幅の最大値を計算
+    // 表示する範囲の振幅の最大値を計算
     let maxAmplitude = 0
-    for (const data of selectedData) {
-      for (let i = 0; i < maxSamples; i++) {
-        const absValue = Math.abs(data.waveform[i])
-        if (absValue > maxAmplitude) maxAmplitude = absValue
+    for (const { trace, position } of positioned) {
+      for (let t = 0; t < timeline.length; t++) {
+        const value = sampleTrace(trace.waveform, position, timeline.lead, t)
+        if (value !== null && Math.abs(value) > maxAmplitude) maxAmplitude = Math.abs(value)
       }
     }
-    maxAmplitude = Math.max(maxAmplitude, 0.01) // 最小値を設定
 
-    // グリッド描画
-    ctx.strokeStyle = '#333'
-    ctx.lineWidth = 1
-
-    // 時間グリッド
-    const timeGridIntervals = durationMs <= 50 ? 5 : durationMs <= 100 ? 10 : durationMs <= 500 ? 50 : 100
-    ctx.beginPath()
-    for (let t = 0; t <= durationMs; t += timeGridIntervals) {
-      const x = margin.left + (t / durationMs) * plotWidth
-      ctx.moveTo(x, margin.top)
-      ctx.lineTo(x, height - margin.bottom)
+    const settings: WaveformPlotSettings = {
+      sampleRate: selectedSampleRate,
+      lead: timeline.lead,
+      length: timeline.length,
+      maxAmplitude: Math.max(maxAmplitude, 0.01), // 最小値を設定
+      compact: layoutMode === 'grid',
     }
-    ctx.stroke()
 
-    // 振幅グリッド（中央線含む）
-    ctx.beginPath()
-    const ampGridValues = [-1, -0.5, 0, 0.5, 1]
-    for (const amp of ampGridValues) {
-      const y = margin.top + ((1 - amp) / 2) * plotHeight
-      ctx.moveTo(margin.left, y)
-      ctx.lineTo(width - margin.right, y)
+    if (layoutMode === 'overlay') {
+      drawWaveformPlot(ctx, { x: 0, y: 0, width, height }, positioned, settings)
+      return
     }
-    ctx.stroke()
-
-    // 中央線を強調
-    ctx.strokeStyle = '#555'
-    ctx.beginPath()
-    const centerY = margin.top + plotHeight / 2
-    ctx.moveTo(margin.left, centerY)
-    ctx.lineTo(width - margin.right, centerY)
-    ctx.stroke()
-
-    // 各波形を描画
-    for (const data of selectedData) {
-      ctx.strokeStyle = data.color
-      ctx.lineWidth = 1.5
-      ctx.beginPath()
 
-      // サンプル間引き（描画効率化）
-      const step = Math.max(1, Math.floor(maxSamples / plotWidth))
-      
-      for (let i = 0; i < maxSamples; i += step) {
-        const x = margin.left + (i / maxSamples) * plotWidth
-        const normalizedValue = data.waveform[i] / maxAmplitude
-        const y = margin.top + ((1 - normalizedValue) / 2) * plotHeight
+    getGridAreas(positioned.length, width, WAVEFORM_CELL_HEIGHT).forEach((area, index) => {
+      drawWaveformPlot(ctx, area, [positioned[index]], settings)
+      drawPlotTitle(ctx, area, positioned[index].trace)
+    })
 
-        if (i === 0) {
-          ctx.moveTo(x, y)
-        } else {
-          ctx.lineTo(x, y)
-        }
-      }
-      ctx.stroke()
+  }, [selectedMeasurements, visibleData, isAnalyzingTraces, selectedSampleRate, layoutMode, traceAlignMode, traceLengthMode, waveformCanvasHeight])
+
+  // 差分スペクトルで比較する2つの測定（未指定・選択解除された場合は選択順の先頭2つ）
+  const differencePair = useMemo(() => {
+    if (selectedData.length < 2) return null
+    const a = selectedData.find(d => d.id === differenceIds.a) ?? selectedData[0]
+    const b = selectedData.find(d => d.id === differenceIds.b && d.id !== a.id)
+      ?? selectedData.find(d => d.id !== a.id)!
+    return { a, b }
+  }, [selectedData, differenceIds])
+
+  // 差分スペクトルで比較する A・B と個別ウィンドウの解析要求
+  // 個別ウィンドウも平均波形と同じサンプルレートに変換し、同じゲインを掛けて比較する
+  const comparisonRequest = useMemo(() => {
+    if (!differencePair) return null
+    const { a, b } = differencePair
+    const windowSources = (trace: CompareTrace) => {
+      const m = measurements.find(m => m.id === trace.id)
+      if (!m) return []
+      return getUsedWindowData(m, waveformType, keyGroup)
+        .map(data => ({ data, sampleRate: trace.sourceSampleRate, gain: trace.gain }))
     }
-
-    // 軸ラベル
-    ctx.fillStyle = '#888'
-    ctx.font = '12px sans-serif'
-    ctx.textAlign = 'center'
-
-    // 時間ラベル
-    for (let t = 0; t <= durationMs; t += timeGridIntervals) {
-      const x = margin.left + (t / durationMs) * plotWidth
-      ctx.fillText(`${t}`, x, height - margin.bottom + 20)
+    const windowsA = windowSources(a)
+    const windowsB = windowSources(b)
+
+    // A・B と個別ウィンドウを同じ FFT サイズ（Welch 法ではセグメント長）で解析し、パワーの正規化を揃える
+    const longest = Math.max(
+      a.waveform.length,
+      b.waveform.length,
+      ...[...windowsA, ...windowsB].map(w => getResampledLength(w.data.length, w.sampleRate, selectedSampleRate))
+    )
+    const request: TraceSpectraRequest = {
+      sources: [
+        { data: a.waveform, sampleRate: a.sampleRate, gain: 1 },
+        { data: b.waveform, sampleRate: b.sampleRate, gain: 1 },
+        ...windowsA,
+        ...windowsB,
+      ],
+      options: { sampleRate: selectedSampleRate, normalizationMode, fftSize: Math.max(fftSize, nextPowerOf2(longest)), settings: spectrumSettings },
+    }
+    return { request, windowCountA: windowsA.length }
+  }, [differencePair, measurements, waveformType, keyGroup, selectedSampleRate, normalizationMode, fftSize, spectrumSettings])
+  const { traces: comparisonTraces, isAnalyzing: isAnalyzingComparison } = useTraceSpectra(comparisonRequest?.request ?? null)
+
+  // 差分スペクトル・帯域ごとのレベル差・時間領域の指標
+  const comparison = useMemo(() => {
+    if (!differencePair || !comparisonRequest || !comparisonTraces) return null
+    const { a, b } = differencePair
+    const toSpectrum = ({ spectrum }: { spectrum: Float64Array }): PowerSpectrum => ({
+      power: spectrum,
+      binHz: selectedSampleRate / (spectrum.length * 2),
+    })
+    const [tracedA, tracedB, ...windows] = comparisonTraces
+    const windowsA = windows.slice(0, comparisonRequest.windowCountA)
+    const windowsB = windows.slice(comparisonRequest.windowCountA)
+
+    const frequencies = getLogFrequencyGrid(20, maxFreq, SMOOTHED_POINTS_PER_OCTAVE)
+    const spectrumA = toSpectrum(tracedA)
+    const spectrumB = toSpectrum(tracedB)
+    const bands = compareBandLevels(
+      spectrumA,
+      spectrumB,
+      getFractionalOctaveBands(1, 20, maxFreq),
+      windowsA.map(toSpectrum),
+      windowsB.map(toSpectrum)
+    )
+    const waveformsA = windowsA.map(w => w.waveform)
+    const waveformsB = windowsB.map(w => w.waveform)
+
+    return {
+      frequencies,
+      difference: calculateDifferenceCurve(spectrumA, spectrumB, frequencies, smoothingFraction),
+      bands,
+      timeDomain: compareTimeDomainMetrics(a.waveform, a.sampleRate, b.waveform, b.sampleRate, waveformsA, waveformsB),
+      hasWindows: waveformsA.length >= 2 && waveformsB.length >= 2,
     }
+  }, [differencePair, comparisonRequest, comparisonTraces, selectedSampleRate, maxFreq, smoothingFraction])
 
-    // X軸タイトル
-    ctx.fillText('時間 (ms)', width / 2, height - 10)
+  // スペクトル重心・ロールオフの比較
+  const featuresA = useAudioFeatures(differencePair?.a.waveform ?? null, differencePair?.a.sampleRate)
+  const featuresB = useAudioFeatures(differencePair?.b.waveform ?? null, differencePair?.b.sampleRate)
 
-    // 振幅ラベル
-    ctx.textAlign = 'right'
-    for (const amp of ampGridValues) {
-      const y = margin.top + ((1 - amp) / 2) * plotHeight
-      ctx.fillText(`${amp.toFixed(1)}`, margin.left - 10, y + 4)
-    }
+  // 差分スペクトル描画
+  useEffect(() => {
+    const canvas = differenceCanvasRef.current
+    if (!canvas || !comparison || !differencePair) return
 
-    // Y軸タイトル
-    ctx.save()
-    ctx.translate(15, height / 2)
-    ctx.rotate(-Math.PI / 2)
-    ctx.textAlign = 'center'
-    ctx.fillText('振幅 (正規化)', 0, 0)
-    ctx.restore()
-
-    // 凡例
-    const legendX = width - margin.right - 150
-    const legendY = margin.top + 10
-    ctx.font = '12px sans-serif'
-    ctx.textAlign = 'left'
-    
-    selectedData.forEach((data, index) => {
-      const y = legendY + index * 20
-      ctx.fillStyle = data.color
-      ctx.fillRect(legendX, y - 8, 16, 3)
-      ctx.fillStyle = '#ccc'
-      ctx.fillText(data.name, legendX + 22, y)
-    })
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
 
-  }, [selectedData])
+    // クリア
+    ctx.fillStyle = '#1a1a2e'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+    drawDifferencePlot(ctx, { x: 0, y: 0, width: canvas.width, height: canvas.height }, comparison.difference, {
+      frequencies: comparison.frequencies,
+      maxFreq,
+      freqScale,
+      color: differencePair.a.style.color,
+      significantBands: comparison.bands.filter(band => band.significance?.significant),
+    })
+  }, [comparison, differencePair, maxFreq, freqScale])
 
   // 測定選択トグル
   const toggleSelection = (id: number) => {
-    setSelectedIds(prev => {
-      if (prev.includes(id)) {
-        return prev.filter(i => i !== id)
-      } else {
-        // 最大2つまで
-        if (prev.length >= 2) {
-          return [...prev.slice(1), id]
-        }
-        return [...prev, id]
-      }
-    })
+    if (selectedIds.includes(id)) {
+      setSelectedIds(prev => prev.filter(i => i !== id))
+      setHiddenIds(prev => prev.filter(i => i !== id))
+    } else {
+      setSelectedIds(prev => [...prev, id])
+    }
+  }
+
+  // 凡例から表示・非表示を切り替える
+  const toggleVisibility = (id: number) => {
+    setHiddenIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id])
+  }
+
+  // 選択をすべて解除する
+  const clearSelection = () => {
+    setSelectedIds([])
+    setHiddenIds([])
   }
 
   // 選択した波形タイプに対応するデータがある測定のみ表示
   const validMeasurements = measurements.filter(m => getWaveformData(m))
 
+  // 表示中の測定をすべて選択する（選択済みの測定の色は変えない）
+  const selectAll = () => {
+    setSelectedIds(prev => [
+      ...prev,
+      ...validMeasurements.map(m => m.id).filter(id => !prev.includes(id)),
+    ])
+  }
+
   // 波形タイプのラベル
   const waveformTypeLabels: Record<WaveformType, string> = {
     combined: '合成波形',
@@ -495,6 +996,63 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
     recording: '元の録音',
   }
 
+  const updateSpectrumSettings = (changes: Partial<SpectrumSettings>) => {
+    setSpectrumSettings(prev => ({ ...prev, ...changes }))
+  }
+
+  // 書き出すファイルに記録する解析設定
+  const getSourceSettingLines = (): string[] => [
+    `波形タイプ: ${waveformTypeLabels[waveformType]}${keyGroup !== 'all' && waveformType !== 'recording' ? ` (${KEY_GROUP_LABELS[keyGroup]})` : ''}`,
+    `正規化: ${NORMALIZATION_MODE_LABELS[normalizationMode]}`,
+  ]
+  const getSpectrumSettingLines = (): string[] => [
+    ...getSourceSettingLines(),
+    ...formatSpectrumSettings(spectrumSettings, fftSize, selectedSampleRate),
+  ]
+
+  const exportSpectrumImage = () => {
+    if (!spectrumCanvasRef.current) return
+    downloadCanvasImage(
+      spectrumCanvasRef.current,
+      [...getSpectrumSettingLines(), formatSpectrumView(spectrumViewMode, spectrumSmoothing)],
+      'compare_spectrum.png'
+    )
+  }
+  // 帯域表示のときは帯域ごとのレベル、それ以外は平滑化前の bin ごとのレベルを書き出す
+  const exportSpectrumCsv = () => {
+    if (spectrumViewMode === 'bands') {
+      const csv = buildBandLevelCsv(
+        visibleData.map(data => ({ name: data.name, levels: calculateThirdOctaveLevels(getPowerSpectrum(data), maxFreq) })),
+        getSpectrumSettingLines()
+      )
+      downloadCsv(csv, 'compare_bands.csv')
+      return
+    }
+    const csv = buildSpectrumCsv(
+      visibleData.map(data => ({ name: data.name, ...getPowerSpectrum(data) })),
+      getSpectrumSettingLines(),
+      maxFreq
+    )
+    downloadCsv(csv, 'compare_spectrum.csv')
+  }
+  const exportWaveformImage = () => {
+    if (!waveformCanvasRef.current) return
+    downloadCanvasImage(waveformCanvasRef.current, [
+      ...getSourceSettingLines(),
+      `サンプルレート: ${selectedSampleRate} Hz`,
+      `時間の揃え方: ${TRACE_ALIGN_MODE_LABELS[traceAlignMode]}`,
+      `長さ: ${TRACE_LENGTH_MODE_LABELS[traceLengthMode]}`,
+    ], 'compare_waveform.png')
+  }
+  const exportDifferenceImage = () => {
+    if (!differenceCanvasRef.current || !differencePair) return
+    downloadCanvasImage(differenceCanvasRef.current, [
+      `A: ${differencePair.a.name} / B: ${differencePair.b.name}`,
+      ...getSpectrumSettingLines(),
+      `平滑化: ${formatSmoothing(smoothingFraction)}`,
+    ], 'compare_difference.png')
+  }
+
   return (
     <div className={styles.container}>
       <div className={styles.header}>
@@ -515,7 +1073,7 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
               value={waveformType} 
               onChange={(e) => {
                 setWaveformType(e.target.value as WaveformType)
-                setSelectedIds([]) // 波形タイプ変更時に選択をリセット
+                clearSelection() // 波形タイプ変更時に選択をリセット
               }}
             >
               <option value="combined">合成波形</option>
@@ -524,10 +1082,74 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
               <option value="recording">元の録音</option>
             </select>
           </div>
-          <h4>測定を選択 (最大2つ)</h4>
+          <div className={styles.waveformTypeSelector}>
+            <label>キーグループ:</label>
+            <select 
+              value={keyGroup} 
+              onChange={(e) => {
+                setKeyGroup(e.target.value as KeyGroup)
+                clearSelection() // キーグループ変更時に選択をリセット
+              }}
+              disabled={waveformType === 'recording'}
+            >
+              <option value="all">{KEY_GROUP_LABELS.all}</option>
+              {KEY_GROUPS.map(group => (
+                <option key={group} value={group}>{KEY_GROUP_LABELS[group]}</option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.waveformTypeSelector}>
+            <label>表示方法:</label>
+            <select
+              value={layoutMode}
+              onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+            >
+              {(Object.keys(LAYOUT_MODE_LABELS) as LayoutMode[]).map(mode => (
+                <option key={mode} value={mode}>{LAYOUT_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.waveformTypeSelector}>
+            <label>正規化:</label>
+            <select
+              value={normalizationMode}
+              onChange={(e) => setNormalizationMode(e.target.value as NormalizationMode)}
+            >
+              {(Object.keys(NORMALIZATION_MODE_LABELS) as NormalizationMode[]).map(mode => (
+                <option key={mode} value={mode}>{NORMALIZATION_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.waveformTypeSelector}>
+            <label>カラーパレット:</label>
+            <select
+              value={palette}
+              onChange={(e) => setPalette(e.target.value as PaletteType)}
+            >
+              {(Object.keys(PALETTE_LABELS) as PaletteType[]).map(type => (
+                <option key={type} value={type}>{PALETTE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.selectionHeader}>
+            <h4>測定を選択 ({selectedIds.length}/{validMeasurements.length})</h4>
+            <div className={styles.selectionActions}>
+              <button
+                onClick={selectAll}
+                disabled={validMeasurements.every(m => selectedIds.includes(m.id))}
+              >
+                すべて選択
+              </button>
+              <button onClick={clearSelection} disabled={selectedIds.length === 0}>
+                解除
+              </button>
+            </div>
+          </div>
           <div className={styles.measurementList}>
             {validMeasurements.length === 0 ? (
-              <p className={styles.emptyMessage}>{waveformTypeLabels[waveformType]}のある測定がありません</p>
+              <p className={styles.emptyMessage}>
+                {waveformTypeLabels[waveformType]}{keyGroup !== 'all' && waveformType !== 'recording' ? ` (${KEY_GROUP_LABELS[keyGroup]})` : ''}のある測定がありません
+              </p>
             ) : (
               validMeasurements.map((m) => (
                 <label 
@@ -542,9 +1164,7 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
                   <span 
                     className={styles.colorDot}
                     style={{ 
-                      backgroundColor: selectedIds.includes(m.id) 
-                        ? COLORS[selectedIds.indexOf(m.id) % COLORS.length] 
-                        : '#666' 
+                      backgroundColor: getSelectionStyle(m.id)?.color ?? '#666'
                     }}
                   />
                   <span className={styles.measurementName}>{m.name}</span>
@@ -556,9 +1176,54 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
 
         {/* グラフ表示 */}
         <div className={styles.spectrumPanel}>
+          {hasMixedSampleRates && (
+            <p className={styles.sampleRateNote}>
+              サンプルレートの異なる測定を {selectedSampleRate} Hz に変換して比較しています
+            </p>
+          )}
+
+          {/* 凡例（クリックで表示・非表示を切り替え） */}
+          {selectedData.length > 0 && (
+            <div className={styles.legend}>
+              {selectedData.map(data => {
+                const hidden = hiddenIds.includes(data.id)
+                return (
+                  <button
+                    key={data.id}
+                    className={`${styles.legendItem} ${hidden ? styles.legendItemHidden : ''}`}
+                    onClick={() => toggleVisibility(data.id)}
+                    aria-pressed={!hidden}
+                    title={hidden ? 'クリックで表示' : 'クリックで非表示'}
+                  >
+                    <svg className={styles.legendSwatch} width={20} height={6}>
+                      <line
+                        x1={0}
+                        y1={3}
+                        x2={20}
+                        y2={3}
+                        stroke={data.style.color}
+                        strokeWidth={3}
+                        strokeDasharray={data.style.dash.join(' ')}
+                      />
+                    </svg>
+                    <span className={styles.legendName}>{data.name}</span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
           {/* FFTスペクトル表示 */}
           <div className={styles.chartSection}>
-            <h4 className={styles.chartTitle}><MdBarChart style={{ verticalAlign: 'middle', marginRight: 4 }} /> FFTスペクトル</h4>
+            <div className={styles.chartHeader}>
+              <h4 className={styles.chartTitle}><MdBarChart style={{ verticalAlign: 'middle', marginRight: 4 }} /> FFTスペクトル
+                {isAnalyzingTraces && <span className={styles.analyzing}>計算中...</span>}
+              </h4>
+              <div className={styles.exportButtons}>
+                <button onClick={exportSpectrumImage} disabled={visibleData.length === 0}>PNG保存</button>
+                <button onClick={exportSpectrumCsv} disabled={visibleData.length === 0}>CSV保存</button>
+              </div>
+            </div>
             <div className={styles.controls}>
               <div className={styles.controlItem}>
                 <label>FFTサイズ:</label>
@@ -594,25 +1259,251 @@ export function CompareView({ measurements, onClose, defaultSampleRate = DEFAULT
                   <option value="linear">線形</option>
                 </select>
               </div>
+              <div className={styles.controlItem}>
+                <label>表示:</label>
+                <select
+                  value={spectrumViewMode}
+                  onChange={(e) => setSpectrumViewMode(e.target.value as SpectrumViewMode)}
+                >
+                  {(Object.keys(SPECTRUM_VIEW_MODE_LABELS) as SpectrumViewMode[]).map(mode => (
+                    <option key={mode} value={mode}>{SPECTRUM_VIEW_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.controlItem}>
+                <label>平滑化:</label>
+                <select
+                  value={spectrumSmoothing}
+                  onChange={(e) => setSpectrumSmoothing(Number(e.target.value))}
+                  disabled={spectrumViewMode === 'bands'}
+                >
+                  {[0, ...SMOOTHING_FRACTIONS].map(fraction => (
+                    <option key={fraction} value={fraction}>{formatSmoothing(fraction)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.controlItem}>
+                <label>窓関数:</label>
+                <select
+                  value={spectrumSettings.windowFunction}
+                  onChange={(e) => updateSpectrumSettings({ windowFunction: e.target.value as WindowFunction })}
+                >
+                  {(Object.keys(WINDOW_FUNCTION_LABELS) as WindowFunction[]).map(type => (
+                    <option key={type} value={type}>{WINDOW_FUNCTION_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.controlItem}>
+                <label>平均化:</label>
+                <select
+                  value={spectrumSettings.averaging}
+                  onChange={(e) => updateSpectrumSettings({ averaging: e.target.value as SpectrumAveraging })}
+                >
+                  {(Object.keys(SPECTRUM_AVERAGING_LABELS) as SpectrumAveraging[]).map(method => (
+                    <option key={method} value={method}>{SPECTRUM_AVERAGING_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+              {spectrumSettings.averaging === 'welch' && (
+                <>
+                  <div className={styles.controlItem}>
+                    <label>セグメント長:</label>
+                    <select
+                      value={spectrumSettings.segmentSize}
+                      onChange={(e) => updateSpectrumSettings({ segmentSize: Number(e.target.value) })}
+                    >
+                      {WELCH_SEGMENT_SIZES.map(size => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className={styles.controlItem}>
+                    <label>オーバーラップ:</label>
+                    <select
+                      value={spectrumSettings.overlap}
+                      onChange={(e) => updateSpectrumSettings({ overlap: Number(e.target.value) })}
+                    >
+                      {WELCH_OVERLAPS.map(overlap => (
+                        <option key={overlap} value={overlap}>{overlap * 100}%</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
             </div>
             <canvas 
               ref={spectrumCanvasRef} 
-              width={800} 
-              height={350}
+              width={CANVAS_WIDTH} 
+              height={spectrumCanvasHeight}
               className={styles.canvas}
             />
           </div>
 
           {/* 波形表示 */}
           <div className={styles.chartSection}>
-            <h4 className={styles.chartTitle}>〜 波形</h4>
+            <div className={styles.chartHeader}>
+              <h4 className={styles.chartTitle}>〜 波形</h4>
+              <div className={styles.exportButtons}>
+                <button onClick={exportWaveformImage} disabled={visibleData.length === 0}>PNG保存</button>
+              </div>
+            </div>
+            <div className={styles.controls}>
+              <div className={styles.controlItem}>
+                <label>時間の揃え方:</label>
+                <select
+                  value={traceAlignMode}
+                  onChange={(e) => setTraceAlignMode(e.target.value as TraceAlignMode)}
+                >
+                  {(Object.keys(TRACE_ALIGN_MODE_LABELS) as TraceAlignMode[]).map(mode => (
+                    <option key={mode} value={mode}>{TRACE_ALIGN_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.controlItem}>
+                <label>長さ:</label>
+                <select
+                  value={traceLengthMode}
+                  onChange={(e) => setTraceLengthMode(e.target.value as TraceLengthMode)}
+                >
+                  {(Object.keys(TRACE_LENGTH_MODE_LABELS) as TraceLengthMode[]).map(mode => (
+                    <option key={mode} value={mode}>{TRACE_LENGTH_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <canvas 
               ref={waveformCanvasRef} 
-              width={800} 
-              height={300}
+              width={CANVAS_WIDTH} 
+              height={waveformCanvasHeight}
               className={styles.canvas}
             />
           </div>
+
+          {/* 差分スペクトルと統計的比較 */}
+          {differencePair && !comparison && isAnalyzingComparison && (
+            <p className={styles.comparisonNote}>差分スペクトルを計算中...</p>
+          )}
+          {differencePair && comparison && (
+            <div className={styles.chartSection}>
+              <div className={styles.chartHeader}>
+                <h4 className={styles.chartTitle}><MdCompareArrows style={{ verticalAlign: 'middle', marginRight: 4 }} /> 差分スペクトル (A − B)</h4>
+                <div className={styles.exportButtons}>
+                  <button onClick={exportDifferenceImage}>PNG保存</button>
+                </div>
+              </div>
+              <div className={styles.controls}>
+                <div className={styles.controlItem}>
+                  <label>A:</label>
+                  <select
+                    value={differencePair.a.id}
+                    onChange={(e) => setDifferenceIds({ a: Number(e.target.value), b: differencePair.b.id })}
+                  >
+                    {selectedData.map(data => (
+                      <option key={data.id} value={data.id}>{data.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className={styles.controlItem}>
+                  <label>B:</label>
+                  <select
+                    value={differencePair.b.id}
+                    onChange={(e) => setDifferenceIds({ a: differencePair.a.id, b: Number(e.target.value) })}
+                  >
+                    {selectedData.filter(data => data.id !== differencePair.a.id).map(data => (
+                      <option key={data.id} value={data.id}>{data.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className={styles.controlItem}>
+                  <label>平滑化:</label>
+                  <select
+                    value={smoothingFraction}
+                    onChange={(e) => setSmoothingFraction(Number(e.target.value))}
+                  >
+                    {SMOOTHING_FRACTIONS.map(fraction => (
+                      <option key={fraction} value={fraction}>{formatSmoothing(fraction)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <canvas
+                ref={differenceCanvasRef}
+                width={CANVAS_WIDTH}
+                height={300}
+                className={styles.canvas}
+              />
+              <p className={styles.comparisonNote}>
+                {comparison.hasWindows
+                  ? `打鍵ごとの値で Welch の t 検定を行い、補正後の p 値 (Benjamini–Hochberg) が ${SIGNIFICANCE_LEVEL} 未満の項目を有意としています。グラフの黄色の帯は有意なオクターブ帯域です。`
+                  : '個別ウィンドウのあるアタック音・リリース音を選ぶと、打鍵ごとのばらつきに対して差が有意かを表示します。'}
+              </p>
+
+              {/* オクターブ帯域ごとのレベル差 */}
+              <table className={styles.comparisonTable}>
+                <thead>
+                  <tr>
+                    <th>帯域 (Hz)</th>
+                    <th>A (dB)</th>
+                    <th>B (dB)</th>
+                    <th>差 (dB)</th>
+                    <th>打鍵ごとの差 (±SE)</th>
+                    <th>p 値</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.bands.map(({ band, levelA, levelB, delta, significance }) => (
+                    <tr key={band.centerHz} className={significance?.significant ? styles.significantRow : ''}>
+                      <td>{formatBandFrequency(band.centerHz)}</td>
+                      <td>{levelA.toFixed(1)}</td>
+                      <td>{levelB.toFixed(1)}</td>
+                      <td>{formatSigned(delta)}</td>
+                      <td>{formatWindowDifference(significance)}</td>
+                      <td>{formatPValue(significance)}{significance?.significant ? ' *' : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* スペクトル・時間領域の指標の差 */}
+              <table className={styles.comparisonTable}>
+                <thead>
+                  <tr>
+                    <th>指標</th>
+                    <th>A</th>
+                    <th>B</th>
+                    <th>差</th>
+                    <th>打鍵ごとの差 (±SE)</th>
+                    <th>p 値</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['スペクトル重心', featuresA.spectralCentroid, featuresB.spectralCentroid],
+                    ['スペクトルロールオフ', featuresA.spectralRolloff, featuresB.spectralRolloff],
+                  ] as const).map(([label, valueA, valueB]) => (
+                    <tr key={label}>
+                      <td>{label} (Hz)</td>
+                      <td>{valueA !== null ? valueA.toFixed(0) : '-'}</td>
+                      <td>{valueB !== null ? valueB.toFixed(0) : '-'}</td>
+                      <td>{valueA !== null && valueB !== null ? formatSigned(valueA - valueB, 0) : '-'}</td>
+                      <td>-</td>
+                      <td>-</td>
+                    </tr>
+                  ))}
+                  {comparison.timeDomain.map(({ key, label, unit, valueA, valueB, delta, significance }) => (
+                    <tr key={key} className={significance?.significant ? styles.significantRow : ''}>
+                      <td>{label} ({unit})</td>
+                      <td>{valueA.toFixed(1)}</td>
+                      <td>{valueB.toFixed(1)}</td>
+                      <td>{formatSigned(delta)}</td>
+                      <td>{formatWindowDifference(significance)}</td>
+                      <td>{formatPValue(significance)}{significance?.significant ? ' *' : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       </div>
     </div>
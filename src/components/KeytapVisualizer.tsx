@@ -1,5 +1,5 @@
-import { useEffect, useState, useCallback, useRef } from 'react'
-import { MdAdd, MdBarChart, MdCompare, MdInventory, MdFolderOpen, MdSettings, MdSave, MdClose, MdMusicNote, MdTrendingUp, MdTrendingDown } from 'react-icons/md'
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
+import { MdAdd, MdBarChart, MdCompare, MdInventory, MdFolderOpen, MdSettings, MdSave, MdClose, MdMusicNote, MdTrendingUp, MdTrendingDown, MdDeleteSweep, MdInfoOutline, MdArchive } from 'react-icons/md'
 import { useAudioRecorder } from '../hooks/useAudioRecorder'
 import { useAudioContextState } from '../contexts/AudioContextProvider'
 import { AveragedWaveform } from './AveragedWaveform'
@@ -16,14 +16,80 @@ import {
   parseTar, 
   decodeWav, 
   parseTimestampsCsv,
-  type MeasurementMetadata 
+  buildTimestampsCsv,
+  isWavData,
+  WAV_FORMAT_LABELS,
+  type WavFormat
 } from '../utils/audioExport'
+import {
+  METADATA_VERSION,
+  createWavImportMetadata,
+  formatMetadataErrors,
+  parseMeasurementMetadata,
+  type MeasurementAnalysisSettings,
+  type MeasurementMetadata
+} from '../utils/measurementMetadata'
+import { ANALYSIS_FILES, buildAnalysisFiles, calculateRestoredKeyGroups, restoreAnalysisFiles } from '../utils/analysisSnapshot'
+import { buildProjectBundle, readProjectBundle, toSafeFileName } from '../utils/projectBundle'
+import { downloadBlob } from '../utils/plotExport'
+import {
+  KEY_GROUP_LABELS,
+  createUnknownKeyEvent,
+  getPresentKeyGroups,
+  type KeyEventInfo,
+  type KeyEventSource,
+  type KeyGroup
+} from '../utils/keyEvents'
+import { SELECTABLE_SAMPLE_RATES, type AudioInputInfo } from '../utils/audioInput'
 import {
   calculateSyncAveragedWaveform,
   calculateCombinedWaveform,
   calculateWindowEndTimestamps,
+  filterTimestampsByKeyGroup,
+  detectKeyEvents,
+  toggleExcludedTimestamp,
+  ALIGN_MODE_LABELS,
+  AVERAGING_METHOD_LABELS,
+  DEFAULT_AVERAGING_OPTIONS,
+  type AlignMode,
+  type AveragingMethod,
+  type AveragingOptions,
+  type WaveformSpread,
   type WindowInfo
 } from '../utils/waveformProcessing'
+import type { TimeRange } from '../utils/timeAxis'
+import {
+  clearStoredMeasurements,
+  deleteStoredMeasurement,
+  formatStorageSize,
+  getStorageEstimate,
+  isMeasurementStorageAvailable,
+  isStoredMeasurementChanged,
+  loadStoredMeasurements,
+  pickStoredMeasurement,
+  saveStoredMeasurement,
+  type StoredMeasurement
+} from '../utils/measurementStorage'
+import {
+  EMPTY_MEASUREMENT_DETAILS,
+  MEASUREMENT_DETAIL_FIELDS,
+  collectTags,
+  formatTags,
+  inferSurfaceFromName,
+  matchesMeasurementQuery,
+  normalizeMeasurementDetails,
+  parseTags,
+  type MeasurementDetails
+} from '../utils/measurementDetails'
+import { resample } from '../utils/resampler'
+import {
+  estimateChannelDelay,
+  formatChannelDelay,
+  formatChannelSelection,
+  normalizeChannelSelection,
+  selectChannelData,
+  type ChannelSelection
+} from '../utils/multichannel'
 import styles from './KeytapVisualizer.module.css'
 
 const DEFAULT_RECORDING_DURATION = 10000 // デフォルト10秒
@@ -46,12 +112,40 @@ interface SamplesIndex {
 
 type TabType = 'waveform' | 'analysis' | 'compare'
 
+// 解析タブの波形の種類（スペクトログラムと波形の横軸ズームを種類ごとに同期する）
+type WaveformSection = 'recording' | 'combined' | 'attack' | 'release'
+
+// キーグループ別の同期加算結果
+interface KeyGroupWaveforms {
+  group: Exclude<KeyGroup, 'all'>
+  attackWaveform: Float32Array | null
+  releaseWaveform: Float32Array | null
+  combinedWaveform: Float32Array | null
+  attackWindows: WindowInfo[]
+  releaseWindows: WindowInfo[]
+  attackSpread: WaveformSpread | null
+  releaseSpread: WaveformSpread | null
+}
+
+// 読み込む測定データ（WAVファイル単体、または .keytapanalyzer.dat から取り出したファイル）
+type MeasurementSource =
+  | { type: 'wav'; name: string; lastModified: number; data: ArrayBuffer }
+  | { type: 'archive'; name: string; files: { name: string; data: ArrayBuffer }[] }
+
+// 測定データの読み込み結果（error は利用者に表示する読み込めない理由）
+type MeasurementImportResult =
+  | { ok: true; measurement: MeasurementResult }
+  | { ok: false; error: string }
+
 // 測定結果の型定義
 interface MeasurementResult {
   id: number
   name: string
+  details: MeasurementDetails  // キーボード構成・録音条件・タグ
   timestamp: Date
-  recordingData: Float32Array | null  // 同期加算前の録音データ
+  recordingData: Float32Array | null  // 同期加算前の録音データ（多チャンネルの場合は解析に使うチャンネルまたは合計）
+  recordingChannels: Float32Array[] | null // 多チャンネル録音のチャンネルごとのデータ（モノラルの場合は null）
+  channelSelection: ChannelSelection  // 解析に使うチャンネル
   attackWaveform: Float32Array | null
   releaseWaveform: Float32Array | null
   combinedWaveform: Float32Array | null
@@ -59,18 +153,30 @@ interface MeasurementResult {
   keyUpCount: number
   keyDownTimestamps: number[]  // キーダウンのタイムスタンプ (ms)
   keyUpTimestamps: number[]    // キーアップのタイムスタンプ (ms)
+  keyDownEvents: KeyEventInfo[] // キーダウンのキー情報（code, key, repeat, 修飾キー）
+  keyUpEvents: KeyEventInfo[]   // キーアップのキー情報
   peakIntervalMs: number
   recordingDurationMs: number  // 録音時間 (ms)
   sampleRate: number           // サンプルレート (Hz)
+  audioInput: AudioInputInfo | null // 録音時の入力デバイスとトラック設定
+  keyEventSource: KeyEventSource // キーイベントの取得元（WAVインポート時は自動検出）
   // 測定設定
   attackOffsetMs: number       // アタック音オフセット (ms)
-  attackPeakAlign: boolean     // アタック音ピーク同期
+  attackAlignMode: AlignMode   // アタック音のウィンドウの揃え方
   releaseOffsetMs: number      // リリース音オフセット (ms)
-  releasePeakAlign: boolean    // リリース音ピーク同期
+  releaseAlignMode: AlignMode  // リリース音のウィンドウの揃え方
+  averaging: AveragingOptions  // 平均化の方法と外れ値ウィンドウの除外
   peakPositionMs: number       // ピーク位置オフセット (ms)
+  excludedAttackTimestamps: number[]  // 手動で除外したアタック音ウィンドウの基準タイムスタンプ (ms)
+  excludedReleaseTimestamps: number[] // 手動で除外したリリース音ウィンドウの基準タイムスタンプ (ms)
   // デバッグ用ウィンドウデータ
   attackWindows: WindowInfo[]  // アタック音の個別ウィンドウ
   releaseWindows: WindowInfo[] // リリース音の個別ウィンドウ
+  // 同期加算波形のばらつき（個別ウィンドウと同時に計算）
+  attackSpread: WaveformSpread | null
+  releaseSpread: WaveformSpread | null
+  // キーグループ別の波形（キー情報がない場合は空）
+  keyGroupWaveforms: KeyGroupWaveforms[]
 }
 
 export function KeytapVisualizer() {
@@ -78,13 +184,26 @@ export function KeytapVisualizer() {
   const [activeTab, setActiveTab] = useState<TabType>('waveform')
   const [measurementHistory, setMeasurementHistory] = useState<MeasurementResult[]>([])
   const [selectedMeasurementId, setSelectedMeasurementId] = useState<number | null>(null)
+  const [selectedKeyGroup, setSelectedKeyGroup] = useState<KeyGroup>('all')
+  const [zoomRanges, setZoomRanges] = useState<{ key: string; ranges: Partial<Record<WaveformSection, TimeRange | null>> }>({ key: '', ranges: {} })
+  const [searchQuery, setSearchQuery] = useState('')           // 測定履歴の検索語
+  const [selectedTags, setSelectedTags] = useState<string[]>([]) // 測定履歴の絞り込みタグ（すべて含むものを表示）
   const [nextMeasurementId, setNextMeasurementId] = useState(1)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false) // 解析タブにファイルをドラッグ中か
+
+  // IndexedDB への保存状態
+  const [historyLoaded, setHistoryLoaded] = useState(false) // 保存済みの履歴の読み込みが完了したか
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null)
+  const savedMeasurementsRef = useRef<Map<number, StoredMeasurement>>(new Map()) // 最後に保存した内容
   
   // サンプルデータ用の状態
   const [samplesList, setSamplesList] = useState<SampleInfo[]>([])
   const [samplesModalOpen, setSamplesModalOpen] = useState(false)
   const [loadingSample, setLoadingSample] = useState(false)
+  const [resampleOnImport, setResampleOnImport] = useState(false) // 読み込み時にブラウザのサンプルレートに変換するか
+  const [recomputeOnImport, setRecomputeOnImport] = useState(false) // 読み込み時に書き出した解析結果を使わず録音データから再計算するか
+  const [exportWavFormat, setExportWavFormat] = useState<WavFormat>('pcm24') // 書き出すWAVのサンプル形式
   
   // AudioContext のサンプルレートを取得
   const { sampleRate: browserSampleRate } = useAudioContextState()
@@ -94,9 +213,10 @@ export function KeytapVisualizer() {
   const [editingMeasurementId, setEditingMeasurementId] = useState<number | null>(null)
   const [editPeakIntervalInput, setEditPeakIntervalInput] = useState(12)
   const [editAttackOffsetInput, setEditAttackOffsetInput] = useState(10)
-  const [editAttackPeakAlignInput, setEditAttackPeakAlignInput] = useState(true)
+  const [editAttackAlignModeInput, setEditAttackAlignModeInput] = useState<AlignMode>('peak')
   const [editReleaseOffsetInput, setEditReleaseOffsetInput] = useState(10)
-  const [editReleasePeakAlignInput, setEditReleasePeakAlignInput] = useState(true)
+  const [editReleaseAlignModeInput, setEditReleaseAlignModeInput] = useState<AlignMode>('peak')
+  const [editAveragingInput, setEditAveragingInput] = useState<AveragingOptions>(DEFAULT_AVERAGING_OPTIONS)
   const [editPeakPositionInput, setEditPeakPositionInput] = useState(10)
   
   const {
@@ -104,6 +224,7 @@ export function KeytapVisualizer() {
     statusMessage,
     recordingData: _recordingData, // eslint-disable-line @typescript-eslint/no-unused-vars
     finalRecordingData,
+    recordingChannels,
     recordingProgress: _recordingProgress, // eslint-disable-line @typescript-eslint/no-unused-vars
     isRecording,
     canRecord,
@@ -111,6 +232,8 @@ export function KeytapVisualizer() {
     keyUpCount,
     keyDownTimestamps,
     keyUpTimestamps,
+    keyDownEvents,
+    keyUpEvents,
     averagedWaveform,
     releaseWaveform,
     combinedWaveform,
@@ -120,6 +243,12 @@ export function KeytapVisualizer() {
     peakAlignEnabled,
     peakPositionMs,
     sampleRate,
+    audioDevices,
+    selectedDeviceId,
+    audioInputSettings,
+    audioInputInfo,
+    setSelectedDeviceId,
+    setAudioInputSettings,
     startRecording,
     initializeAudio,
     setPeakPositionMs,
@@ -147,32 +276,45 @@ export function KeytapVisualizer() {
       const newMeasurement: MeasurementResult = {
         id: nextMeasurementId,
         name: `測定 ${nextMeasurementId}`,
+        details: EMPTY_MEASUREMENT_DETAILS,
         timestamp: new Date(),
         recordingData: new Float32Array(finalRecordingData),
+        recordingChannels: recordingChannels && recordingChannels.length > 1 ? recordingChannels.map(channel => new Float32Array(channel)) : null,
+        channelSelection: 0, // 録音直後は1チャンネル目で解析している
         attackWaveform: new Float32Array(averagedWaveform),
         releaseWaveform: releaseWaveform ? new Float32Array(releaseWaveform) : null,
         combinedWaveform: new Float32Array(combinedWaveform),
         attackWindows: [], // 初期録音時は空、設定変更時に計算
         releaseWindows: [], // 初期録音時は空、設定変更時に計算
+        attackSpread: null,
+        releaseSpread: null,
+        keyGroupWaveforms: [], // 個別ウィンドウと同時に計算
         keyTapCount,
         keyUpCount,
         keyDownTimestamps: [...keyDownTimestamps],
         keyUpTimestamps: [...keyUpTimestamps],
+        keyDownEvents: [...keyDownEvents],
+        keyUpEvents: [...keyUpEvents],
         peakIntervalMs,
         recordingDurationMs: recordingDuration,
         sampleRate, // 録音時のサンプルレート
+        audioInput: audioInputInfo,
+        keyEventSource: 'keyboard',
         // 測定設定（現在のフック設定を保存）
         attackOffsetMs: windowOffsetMs,
-        attackPeakAlign: peakAlignEnabled,
+        attackAlignMode: peakAlignEnabled ? 'peak' : 'none',
         releaseOffsetMs,
-        releasePeakAlign: true, // デフォルトはtrue
+        releaseAlignMode: 'peak', // デフォルトはピーク同期
+        averaging: DEFAULT_AVERAGING_OPTIONS,
         peakPositionMs,
+        excludedAttackTimestamps: [],
+        excludedReleaseTimestamps: [],
       }
       setMeasurementHistory(prev => [...prev, newMeasurement])
       setSelectedMeasurementId(nextMeasurementId)
       setNextMeasurementId(prev => prev + 1)
     }
-  }, [status, averagedWaveform, combinedWaveform, releaseWaveform, finalRecordingData, keyTapCount, keyUpCount, keyDownTimestamps, keyUpTimestamps, peakIntervalMs, recordingDuration, windowOffsetMs, peakAlignEnabled, releaseOffsetMs, peakPositionMs, nextMeasurementId])
+  }, [status, averagedWaveform, combinedWaveform, releaseWaveform, finalRecordingData, recordingChannels, keyTapCount, keyUpCount, keyDownTimestamps, keyUpTimestamps, keyDownEvents, keyUpEvents, peakIntervalMs, recordingDuration, audioInputInfo, windowOffsetMs, peakAlignEnabled, releaseOffsetMs, peakPositionMs, nextMeasurementId])
 
   // 新規測定追加後、個別ウィンドウ情報を計算して追加
   useEffect(() => {
@@ -196,7 +338,9 @@ export function KeytapVisualizer() {
         latestMeasurement.keyDownTimestamps,
         latestMeasurement.keyUpTimestamps,
         latestMeasurement.attackOffsetMs,
-        latestMeasurement.attackPeakAlign,
+        latestMeasurement.attackAlignMode,
+        latestMeasurement.averaging,
+        latestMeasurement.excludedAttackTimestamps,
         latestMeasurement.peakPositionMs,
         measurementSampleRate
       )
@@ -206,8 +350,28 @@ export function KeytapVisualizer() {
         latestMeasurement.keyUpTimestamps,
         latestMeasurement.keyDownTimestamps,
         latestMeasurement.releaseOffsetMs,
-        latestMeasurement.releasePeakAlign,
+        latestMeasurement.releaseAlignMode,
+        latestMeasurement.averaging,
+        latestMeasurement.excludedReleaseTimestamps,
+        latestMeasurement.peakPositionMs,
+        measurementSampleRate
+      )
+
+      const keyGroupWaveforms = calculateMeasurementKeyGroupWaveforms(
+        latestMeasurement.recordingData,
+        latestMeasurement.keyDownTimestamps,
+        latestMeasurement.keyUpTimestamps,
+        latestMeasurement.keyDownEvents,
+        latestMeasurement.keyUpEvents,
+        latestMeasurement.attackOffsetMs,
+        latestMeasurement.attackAlignMode,
+        latestMeasurement.releaseOffsetMs,
+        latestMeasurement.releaseAlignMode,
+        latestMeasurement.averaging,
+        latestMeasurement.excludedAttackTimestamps,
+        latestMeasurement.excludedReleaseTimestamps,
         latestMeasurement.peakPositionMs,
+        latestMeasurement.peakIntervalMs,
         measurementSampleRate
       )
 
@@ -218,6 +382,9 @@ export function KeytapVisualizer() {
               ...m,
               attackWindows: attackResult.windows,
               releaseWindows: releaseResult.windows,
+              attackSpread: attackResult.spread,
+              releaseSpread: releaseResult.spread,
+              keyGroupWaveforms,
             }
           : m
       ))
@@ -227,6 +394,29 @@ export function KeytapVisualizer() {
   // 選択中の測定結果を取得
   const selectedMeasurement = measurementHistory.find(m => m.id === selectedMeasurementId) || null
 
+  // 検索語とタグで絞り込んだ測定履歴
+  const allTags = collectTags(measurementHistory.map(m => m.details))
+  const activeTags = selectedTags.filter(tag => allTags.includes(tag)) // 削除されたタグは絞り込みに使わない
+  const filteredMeasurements = measurementHistory.filter(m =>
+    matchesMeasurementQuery(m.name, m.details, searchQuery) &&
+    activeTags.every(tag => m.details.tags.includes(tag))
+  )
+
+  // 選択中のキーグループの波形（'all' または該当グループがない場合は全キーの波形を表示）
+  const selectedKeyGroupWaveforms = selectedMeasurement?.keyGroupWaveforms.find(g => g.group === selectedKeyGroup) ?? null
+  const displayedWaveforms = selectedKeyGroupWaveforms ?? selectedMeasurement
+  const displayedKeyGroupLabel = selectedKeyGroupWaveforms ? ` [${KEY_GROUP_LABELS[selectedKeyGroupWaveforms.group]}]` : ''
+
+  // 表示中の測定・キーグループの横軸ズーム範囲（測定・キーグループを切り替えると全体表示に戻る）
+  const zoomKey = `${selectedMeasurementId}:${selectedKeyGroup}`
+  const getZoomProps = (section: WaveformSection) => ({
+    zoomRange: zoomRanges.key === zoomKey ? zoomRanges.ranges[section] ?? null : null,
+    onZoomChange: (range: TimeRange | null) => setZoomRanges(prev => ({
+      key: zoomKey,
+      ranges: { ...(prev.key === zoomKey ? prev.ranges : {}), [section]: range },
+    })),
+  })
+
   // 表示に使用するサンプルレート（selectedMeasurementがあればそのsampleRate、なければhookのsampleRate）
   const displaySampleRate = selectedMeasurement?.sampleRate || sampleRate
 
@@ -248,28 +438,40 @@ export function KeytapVisualizer() {
     keyDownTimestamps: number[],
     keyUpTimestamps: number[],
     offsetMs: number,
-    peakAlign: boolean,
+    alignMode: AlignMode,
+    averaging: AveragingOptions,
+    excludedTimestamps: number[],
     peakPosMs: number,
-    targetSampleRate: number = browserSampleRate
-  ): { waveform: Float32Array | null; windows: WindowInfo[] } => {
+    targetSampleRate: number = browserSampleRate,
+    keyDownEvents: KeyEventInfo[] = [],
+    keyGroup: KeyGroup = 'all'
+  ): { waveform: Float32Array | null; windows: WindowInfo[]; spread: WaveformSpread | null } => {
     if (keyDownTimestamps.length < 3) {
-      return { waveform: null, windows: [] }
+      return { waveform: null, windows: [], spread: null }
     }
 
     const trimmedDownTimestamps = keyDownTimestamps.slice(1, -1)
-    const endTimestamps = calculateWindowEndTimestamps(trimmedDownTimestamps, keyUpTimestamps)
+    // ウィンドウ終端は全キーのイベントで計算してからキーグループで絞り込む
+    const grouped = filterTimestampsByKeyGroup(
+      trimmedDownTimestamps,
+      calculateWindowEndTimestamps(trimmedDownTimestamps, keyUpTimestamps),
+      keyDownEvents.slice(1, -1),
+      keyGroup
+    )
     
     const result = calculateSyncAveragedWaveform({
       audioData,
-      timestamps: trimmedDownTimestamps,
-      endTimestamps,
+      timestamps: grouped.timestamps,
+      endTimestamps: grouped.endTimestamps,
       offsetMs,
-      peakAlign,
+      alignMode,
       peakPositionMs: peakPosMs,
       sampleRate: targetSampleRate,
+      averaging,
+      excludedTimestamps,
     })
 
-    return { waveform: result.waveform, windows: result.windows }
+    return { waveform: result.waveform, windows: result.windows, spread: result.spread }
   }, [])
 
   // リリース音の同期加算処理（測定データ用）
@@ -279,34 +481,44 @@ export function KeytapVisualizer() {
     keyUpTimestamps: number[],
     keyDownTimestamps: number[],
     offsetMs: number,
-    peakAlign: boolean,
+    alignMode: AlignMode,
+    averaging: AveragingOptions,
+    excludedTimestamps: number[],
     peakPosMs: number,
-    targetSampleRate: number = browserSampleRate
-  ): { waveform: Float32Array | null; windows: WindowInfo[] } => {
+    targetSampleRate: number = browserSampleRate,
+    keyUpEvents: KeyEventInfo[] = [],
+    keyGroup: KeyGroup = 'all'
+  ): { waveform: Float32Array | null; windows: WindowInfo[]; spread: WaveformSpread | null } => {
     if (keyUpTimestamps.length < 2) {
-      return { waveform: null, windows: [] }
+      return { waveform: null, windows: [], spread: null }
     }
 
     const trimmedUpTimestamps = keyUpTimestamps.length >= 3 
       ? keyUpTimestamps.slice(1, -1) 
       : keyUpTimestamps.slice(0, 1)
+    const trimmedUpEvents = keyUpTimestamps.length >= 3
+      ? keyUpEvents.slice(1, -1)
+      : keyUpEvents.slice(0, 1)
 
     // リリース音の場合：keyUp → 次のkeyDown または 次のkeyUp の早い方まで
     // trimmedUpTimestamps に対応するendTimestamps を計算
     // keyDownTimestamps と keyUpTimestamps の両方を考慮する
     const endTimestamps = calculateWindowEndTimestamps(trimmedUpTimestamps, [...keyDownTimestamps, ...keyUpTimestamps].sort((a, b) => a - b))
+    const grouped = filterTimestampsByKeyGroup(trimmedUpTimestamps, endTimestamps, trimmedUpEvents, keyGroup)
 
     const result = calculateSyncAveragedWaveform({
       audioData,
-      timestamps: trimmedUpTimestamps,
-      endTimestamps,
+      timestamps: grouped.timestamps,
+      endTimestamps: grouped.endTimestamps,
       offsetMs,
-      peakAlign,
+      alignMode,
       peakPositionMs: peakPosMs,
       sampleRate: targetSampleRate,
+      averaging,
+      excludedTimestamps,
     })
 
-    return { waveform: result.waveform, windows: result.windows }
+    return { waveform: result.waveform, windows: result.windows, spread: result.spread }
   }, [])
 
   // 測定データの合成波形を再計算するユーティリティ関数
@@ -319,14 +531,61 @@ export function KeytapVisualizer() {
     return calculateCombinedWaveform(attackWaveform, releaseWaveform, intervalMs, targetSampleRate)
   }, [])
 
+  // キーグループごとにアタック音・リリース音・合成波形を計算する
+  const calculateMeasurementKeyGroupWaveforms = useCallback((
+    audioData: Float32Array,
+    keyDownTimestamps: number[],
+    keyUpTimestamps: number[],
+    keyDownEvents: KeyEventInfo[],
+    keyUpEvents: KeyEventInfo[],
+    attackOffsetMs: number,
+    attackAlignMode: AlignMode,
+    releaseOffsetMs: number,
+    releaseAlignMode: AlignMode,
+    averaging: AveragingOptions,
+    excludedAttackTimestamps: number[],
+    excludedReleaseTimestamps: number[],
+    peakPosMs: number,
+    intervalMs: number,
+    targetSampleRate: number = browserSampleRate
+  ): KeyGroupWaveforms[] => {
+    const results: KeyGroupWaveforms[] = []
+
+    for (const group of getPresentKeyGroups(keyDownEvents)) {
+      const attackResult = calculateMeasurementAttackWaveform(
+        audioData, keyDownTimestamps, keyUpTimestamps, attackOffsetMs, attackAlignMode, averaging, excludedAttackTimestamps, peakPosMs, targetSampleRate, keyDownEvents, group
+      )
+      const releaseResult = calculateMeasurementReleaseWaveform(
+        audioData, keyUpTimestamps, keyDownTimestamps, releaseOffsetMs, releaseAlignMode, averaging, excludedReleaseTimestamps, peakPosMs, targetSampleRate, keyUpEvents, group
+      )
+      if (!attackResult.waveform && !releaseResult.waveform) continue
+
+      results.push({
+        group,
+        attackWaveform: attackResult.waveform,
+        releaseWaveform: releaseResult.waveform,
+        combinedWaveform: attackResult.waveform && releaseResult.waveform
+          ? calculateCombinedWaveform(attackResult.waveform, releaseResult.waveform, intervalMs, targetSampleRate)
+          : null,
+        attackWindows: attackResult.windows,
+        releaseWindows: releaseResult.windows,
+        attackSpread: attackResult.spread,
+        releaseSpread: releaseResult.spread,
+      })
+    }
+
+    return results
+  }, [browserSampleRate, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform])
+
   // 測定データの設定を開く
   const handleOpenMeasurementSettings = useCallback((measurement: MeasurementResult) => {
     setEditingMeasurementId(measurement.id)
     setEditPeakIntervalInput(measurement.peakIntervalMs)
     setEditAttackOffsetInput(measurement.attackOffsetMs ?? 10)
-    setEditAttackPeakAlignInput(measurement.attackPeakAlign ?? true)
+    setEditAttackAlignModeInput(measurement.attackAlignMode ?? 'peak')
     setEditReleaseOffsetInput(measurement.releaseOffsetMs ?? 10)
-    setEditReleasePeakAlignInput(measurement.releasePeakAlign ?? true)
+    setEditReleaseAlignModeInput(measurement.releaseAlignMode ?? 'peak')
+    setEditAveragingInput(measurement.averaging ?? DEFAULT_AVERAGING_OPTIONS)
     setEditPeakPositionInput(measurement.peakPositionMs ?? 10)
     setSettingsModalOpen(true)
   }, [])
@@ -356,9 +615,10 @@ export function KeytapVisualizer() {
     console.log('[設定適用] パラメータ:', {
       editPeakIntervalInput,
       editAttackOffsetInput,
-      editAttackPeakAlignInput,
+      editAttackAlignModeInput,
       editReleaseOffsetInput,
-      editReleasePeakAlignInput,
+      editReleaseAlignModeInput,
+      editAveragingInput,
       editPeakPositionInput,
       keyDownTimestamps: measurement.keyDownTimestamps.length,
       keyUpTimestamps: measurement.keyUpTimestamps.length,
@@ -371,7 +631,9 @@ export function KeytapVisualizer() {
       measurement.keyDownTimestamps,
       measurement.keyUpTimestamps,
       editAttackOffsetInput,
-      editAttackPeakAlignInput,
+      editAttackAlignModeInput,
+      editAveragingInput,
+      measurement.excludedAttackTimestamps,
       editPeakPositionInput,
       measurementSampleRate
     )
@@ -385,7 +647,9 @@ export function KeytapVisualizer() {
       measurement.keyUpTimestamps,
       measurement.keyDownTimestamps,
       editReleaseOffsetInput,
-      editReleasePeakAlignInput,
+      editReleaseAlignModeInput,
+      editAveragingInput,
+      measurement.excludedReleaseTimestamps,
       editPeakPositionInput,
       measurementSampleRate
     )
@@ -405,6 +669,25 @@ export function KeytapVisualizer() {
     }
     console.log('[設定適用] newCombinedWaveform:', newCombinedWaveform?.length)
 
+    // キーグループ別の波形を再計算
+    const newKeyGroupWaveforms = calculateMeasurementKeyGroupWaveforms(
+      measurement.recordingData,
+      measurement.keyDownTimestamps,
+      measurement.keyUpTimestamps,
+      measurement.keyDownEvents,
+      measurement.keyUpEvents,
+      editAttackOffsetInput,
+      editAttackAlignModeInput,
+      editReleaseOffsetInput,
+      editReleaseAlignModeInput,
+      editAveragingInput,
+      measurement.excludedAttackTimestamps,
+      measurement.excludedReleaseTimestamps,
+      editPeakPositionInput,
+      editPeakIntervalInput,
+      measurementSampleRate
+    )
+
     // 測定データを更新
     console.log('[設定適用] setMeasurementHistory を呼び出し')
     setMeasurementHistory(prev => prev.map(m => 
@@ -416,11 +699,15 @@ export function KeytapVisualizer() {
             combinedWaveform: newCombinedWaveform,
             attackWindows: newAttackWindows,
             releaseWindows: newReleaseWindows,
+            attackSpread: attackResult.spread,
+            releaseSpread: releaseResult.spread,
+            keyGroupWaveforms: newKeyGroupWaveforms,
             peakIntervalMs: editPeakIntervalInput,
             attackOffsetMs: editAttackOffsetInput,
-            attackPeakAlign: editAttackPeakAlignInput,
+            attackAlignMode: editAttackAlignModeInput,
             releaseOffsetMs: editReleaseOffsetInput,
-            releasePeakAlign: editReleasePeakAlignInput,
+            releaseAlignMode: editReleaseAlignModeInput,
+            averaging: editAveragingInput,
             peakPositionMs: editPeakPositionInput,
           } 
         : m
@@ -428,7 +715,7 @@ export function KeytapVisualizer() {
 
     setSettingsModalOpen(false)
     console.log('[設定適用] 完了')
-  }, [editingMeasurementId, editPeakIntervalInput, editAttackOffsetInput, editAttackPeakAlignInput, editReleaseOffsetInput, editReleasePeakAlignInput, editPeakPositionInput, measurementHistory, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform, calculateMeasurementCombinedWaveform])
+  }, [editingMeasurementId, editPeakIntervalInput, editAttackOffsetInput, editAttackAlignModeInput, editReleaseOffsetInput, editReleaseAlignModeInput, editAveragingInput, editPeakPositionInput, measurementHistory, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform, calculateMeasurementCombinedWaveform, calculateMeasurementKeyGroupWaveforms])
 
   // 測定結果を削除
   const handleDeleteMeasurement = useCallback((id: number) => {
@@ -439,6 +726,245 @@ export function KeytapVisualizer() {
     }
   }, [measurementHistory, selectedMeasurementId])
 
+  // 保存対象のデータ（録音データ・キーイベント・測定設定）から派生データを再計算
+  const recalculateMeasurementWaveforms = useCallback((measurement: StoredMeasurement): Pick<
+    MeasurementResult,
+    'attackWaveform' | 'releaseWaveform' | 'combinedWaveform' | 'attackWindows' | 'releaseWindows' | 'attackSpread' | 'releaseSpread' | 'keyGroupWaveforms'
+  > => {
+    if (!measurement.recordingData) {
+      return {
+        attackWaveform: null,
+        releaseWaveform: null,
+        combinedWaveform: null,
+        attackWindows: [],
+        releaseWindows: [],
+        attackSpread: null,
+        releaseSpread: null,
+        keyGroupWaveforms: [],
+      }
+    }
+
+    const measurementSampleRate = measurement.sampleRate || browserSampleRate
+    const attackResult = calculateMeasurementAttackWaveform(
+      measurement.recordingData,
+      measurement.keyDownTimestamps,
+      measurement.keyUpTimestamps,
+      measurement.attackOffsetMs,
+      measurement.attackAlignMode,
+      measurement.averaging,
+      measurement.excludedAttackTimestamps,
+      measurement.peakPositionMs,
+      measurementSampleRate
+    )
+    const releaseResult = calculateMeasurementReleaseWaveform(
+      measurement.recordingData,
+      measurement.keyUpTimestamps,
+      measurement.keyDownTimestamps,
+      measurement.releaseOffsetMs,
+      measurement.releaseAlignMode,
+      measurement.averaging,
+      measurement.excludedReleaseTimestamps,
+      measurement.peakPositionMs,
+      measurementSampleRate
+    )
+    const keyGroupWaveforms = calculateMeasurementKeyGroupWaveforms(
+      measurement.recordingData,
+      measurement.keyDownTimestamps,
+      measurement.keyUpTimestamps,
+      measurement.keyDownEvents,
+      measurement.keyUpEvents,
+      measurement.attackOffsetMs,
+      measurement.attackAlignMode,
+      measurement.releaseOffsetMs,
+      measurement.releaseAlignMode,
+      measurement.averaging,
+      measurement.excludedAttackTimestamps,
+      measurement.excludedReleaseTimestamps,
+      measurement.peakPositionMs,
+      measurement.peakIntervalMs,
+      measurementSampleRate
+    )
+
+    return {
+      attackWaveform: attackResult.waveform,
+      releaseWaveform: releaseResult.waveform,
+      combinedWaveform: attackResult.waveform && releaseResult.waveform
+        ? calculateMeasurementCombinedWaveform(attackResult.waveform, releaseResult.waveform, measurement.peakIntervalMs, measurementSampleRate)
+        : null,
+      attackWindows: attackResult.windows,
+      releaseWindows: releaseResult.windows,
+      attackSpread: attackResult.spread,
+      releaseSpread: releaseResult.spread,
+      keyGroupWaveforms,
+    }
+  }, [browserSampleRate, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform, calculateMeasurementCombinedWaveform, calculateMeasurementKeyGroupWaveforms])
+
+  // 個別ウィンドウの使用・除外を切り替えて波形を再計算
+  const handleToggleWindowExclusion = useCallback((measurementId: number, sound: 'attack' | 'release', timestampMs: number) => {
+    const measurement = measurementHistory.find(m => m.id === measurementId)
+    if (!measurement || !measurement.recordingData) return
+
+    const sampleRate = measurement.sampleRate || browserSampleRate
+    const toggle = (timestamps: number[]) => toggleExcludedTimestamp(timestamps, timestampMs, sampleRate)
+    const updated: MeasurementResult = {
+      ...measurement,
+      excludedAttackTimestamps: sound === 'attack' ? toggle(measurement.excludedAttackTimestamps) : measurement.excludedAttackTimestamps,
+      excludedReleaseTimestamps: sound === 'release' ? toggle(measurement.excludedReleaseTimestamps) : measurement.excludedReleaseTimestamps,
+    }
+    const derived = recalculateMeasurementWaveforms(updated)
+
+    setMeasurementHistory(prev => prev.map(m =>
+      m.id === measurementId
+        ? { ...m, ...derived, excludedAttackTimestamps: updated.excludedAttackTimestamps, excludedReleaseTimestamps: updated.excludedReleaseTimestamps }
+        : m
+    ))
+  }, [measurementHistory, recalculateMeasurementWaveforms, browserSampleRate])
+
+  // 解析に使うチャンネルを切り替えて波形を再計算
+  const handleChangeChannelSelection = useCallback((measurementId: number, selection: ChannelSelection) => {
+    const measurement = measurementHistory.find(m => m.id === measurementId)
+    if (!measurement || !measurement.recordingChannels) return
+
+    const updated: MeasurementResult = {
+      ...measurement,
+      recordingData: selectChannelData(measurement.recordingChannels, selection),
+      channelSelection: selection,
+    }
+    const derived = recalculateMeasurementWaveforms(updated)
+
+    setMeasurementHistory(prev => prev.map(m =>
+      m.id === measurementId
+        ? { ...m, ...derived, recordingData: updated.recordingData, channelSelection: selection }
+        : m
+    ))
+  }, [measurementHistory, recalculateMeasurementWaveforms])
+
+  // 選択中の測定のチャンネル別のアタック音・リリース音と1チャンネル目からの遅延（多チャンネル録音のみ）
+  // チャンネル間の時間差が残るよう、ピーク位置ではなくキーイベントを基準に揃えて同期加算する
+  const channelComparison = useMemo(() => {
+    const channels = selectedMeasurement?.recordingChannels
+    if (!selectedMeasurement || !channels) return null
+
+    const measurementSampleRate = selectedMeasurement.sampleRate || browserSampleRate
+    const waveforms = channels.map(channel => ({
+      attack: calculateMeasurementAttackWaveform(
+        channel,
+        selectedMeasurement.keyDownTimestamps,
+        selectedMeasurement.keyUpTimestamps,
+        selectedMeasurement.attackOffsetMs,
+        'none',
+        selectedMeasurement.averaging,
+        selectedMeasurement.excludedAttackTimestamps,
+        selectedMeasurement.peakPositionMs,
+        measurementSampleRate
+      ).waveform,
+      release: calculateMeasurementReleaseWaveform(
+        channel,
+        selectedMeasurement.keyUpTimestamps,
+        selectedMeasurement.keyDownTimestamps,
+        selectedMeasurement.releaseOffsetMs,
+        'none',
+        selectedMeasurement.averaging,
+        selectedMeasurement.excludedReleaseTimestamps,
+        selectedMeasurement.peakPositionMs,
+        measurementSampleRate
+      ).waveform,
+    }))
+    const [reference] = waveforms
+    return waveforms.map(({ attack, release }) => ({
+      attack,
+      release,
+      attackDelay: reference.attack && attack ? estimateChannelDelay(reference.attack, attack, measurementSampleRate) : null,
+      releaseDelay: reference.release && release ? estimateChannelDelay(reference.release, release, measurementSampleRate) : null,
+    }))
+  }, [selectedMeasurement, browserSampleRate, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform])
+
+  // ストレージ使用量を更新
+  const refreshStorageEstimate = useCallback(async () => {
+    setStorageEstimate(await getStorageEstimate())
+  }, [])
+
+  // 保存済みの測定履歴を読み込み（派生データは録音データから再計算）
+  useEffect(() => {
+    let cancelled = false
+    const loadHistory = async () => {
+      if (isMeasurementStorageAvailable()) {
+        try {
+          const stored = await loadStoredMeasurements()
+          if (cancelled) return
+          // 測定情報のない旧バージョンの保存データは既定値で補う
+          const restored: MeasurementResult[] = stored.map(m => ({
+            ...m,
+            details: normalizeMeasurementDetails(m.details),
+            recordingChannels: m.recordingChannels ?? null,
+            channelSelection: normalizeChannelSelection(m.channelSelection, m.recordingChannels?.length ?? 1),
+            ...recalculateMeasurementWaveforms(m),
+          }))
+          savedMeasurementsRef.current = new Map(restored.map(m => [m.id, pickStoredMeasurement(m)]))
+          if (restored.length > 0) {
+            console.log(`[履歴] 保存済みの測定を ${restored.length} 件読み込みました`)
+            setMeasurementHistory(prev => [...restored, ...prev])
+            setNextMeasurementId(prev => Math.max(prev, restored[restored.length - 1].id + 1))
+          }
+        } catch (error) {
+          console.error('Failed to load measurement history:', error)
+        }
+        await refreshStorageEstimate()
+      }
+      if (!cancelled) setHistoryLoaded(true)
+    }
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+    // 起動時に一度だけ読み込む
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // 測定履歴の変更を IndexedDB に反映（保存対象のフィールドが変わった測定のみ書き込む）
+  useEffect(() => {
+    if (!historyLoaded || !isMeasurementStorageAvailable()) return
+
+    const saved = savedMeasurementsRef.current
+    const current = new Map(measurementHistory.map(m => [m.id, pickStoredMeasurement(m)]))
+    const writes: Promise<void>[] = []
+    for (const [id, stored] of current) {
+      const previous = saved.get(id)
+      if (!previous || isStoredMeasurementChanged(previous, stored)) {
+        writes.push(saveStoredMeasurement(stored))
+      }
+    }
+    for (const id of saved.keys()) {
+      if (!current.has(id)) {
+        writes.push(deleteStoredMeasurement(id))
+      }
+    }
+    savedMeasurementsRef.current = current
+
+    if (writes.length > 0) {
+      Promise.all(writes)
+        .then(refreshStorageEstimate)
+        .catch(error => console.error('Failed to save measurement history:', error))
+    }
+  }, [measurementHistory, historyLoaded, refreshStorageEstimate])
+
+  // 保存済みを含むすべての測定データを削除
+  const handleClearAllMeasurements = useCallback(async () => {
+    if (!window.confirm('保存済みのデータを含め、すべての測定を削除しますか？')) return
+
+    savedMeasurementsRef.current = new Map()
+    setMeasurementHistory([])
+    setSelectedMeasurementId(null)
+    if (isMeasurementStorageAvailable()) {
+      try {
+        await clearStoredMeasurements()
+      } catch (error) {
+        console.error('Failed to clear measurement history:', error)
+      }
+      await refreshStorageEstimate()
+    }
+  }, [refreshStorageEstimate])
+
   // 測定結果の名前を変更
   const handleRenameMeasurement = useCallback((id: number, newName: string) => {
     setMeasurementHistory(prev => prev.map(m => 
@@ -446,43 +972,66 @@ export function KeytapVisualizer() {
     ))
   }, [])
 
-  // 測定データをtarファイルとしてエクスポート
-  const handleExportMeasurement = useCallback((measurement: MeasurementResult) => {
+  // 測定情報を更新
+  const handleUpdateMeasurementDetails = useCallback((id: number, details: Partial<MeasurementDetails>) => {
+    setMeasurementHistory(prev => prev.map(m =>
+      m.id === id ? { ...m, details: { ...m.details, ...details } } : m
+    ))
+  }, [])
+
+  // 測定データのファイル（.keytapanalyzer.dat の中身）を作成
+  const buildMeasurementFiles = useCallback((measurement: MeasurementResult) => {
     const files: { name: string; data: ArrayBuffer | string }[] = []
-    const baseName = measurement.name.replace(/[^a-zA-Z0-9_\-\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g, '_')
     
-    // タイムスタンプCSVを生成（keydown/keyupのペア形式）
-    const csvLines = ['timestamp_keydown,timestamp_keyup']
-    const maxLength = Math.max(measurement.keyDownTimestamps.length, measurement.keyUpTimestamps.length)
-    for (let i = 0; i < maxLength; i++) {
-      const keydown = measurement.keyDownTimestamps[i] ?? ''
-      const keyup = measurement.keyUpTimestamps[i] ?? ''
-      csvLines.push(`${keydown},${keyup}`)
-    }
-    const timestampsCsv = csvLines.join('\n')
+    // タイムスタンプCSVを生成（keydown/keyupのペア形式、キー情報付き）
+    const timestampsCsv = buildTimestampsCsv(measurement.keyDownEvents, measurement.keyUpEvents)
     
+    // 同期加算の設定
+    const analysisSettings: MeasurementAnalysisSettings = {
+      attackOffsetMs: measurement.attackOffsetMs,
+      attackAlignMode: measurement.attackAlignMode,
+      releaseOffsetMs: measurement.releaseOffsetMs,
+      releaseAlignMode: measurement.releaseAlignMode,
+      averaging: measurement.averaging,
+    }
+
     // メタデータJSON
     const metadata: MeasurementMetadata = {
-      version: '1.0',
+      version: METADATA_VERSION,
       exportedAt: new Date().toISOString(),
       measurement: {
         id: measurement.id,
         name: measurement.name,
+        details: measurement.details,
         timestamp: measurement.timestamp.toISOString(),
         keyTapCount: measurement.keyTapCount,
         keyUpCount: measurement.keyUpCount,
         peakIntervalMs: measurement.peakIntervalMs,
+        ...(measurement.keyEventSource === 'detected' && { keyEventSource: measurement.keyEventSource }),
+        ...(measurement.recordingChannels && { channelSelection: measurement.channelSelection }),
+        ...((measurement.excludedAttackTimestamps.length > 0 || measurement.excludedReleaseTimestamps.length > 0) && {
+          excludedWindows: {
+            attack: measurement.excludedAttackTimestamps,
+            release: measurement.excludedReleaseTimestamps,
+          },
+        }),
       },
       audio: {
         sampleRate: measurement.sampleRate || browserSampleRate,
         peakPositionMs: measurement.peakPositionMs,
         recordingDurationMs: measurement.recordingDurationMs,
+        ...(measurement.audioInput && { input: measurement.audioInput }),
+        wavFormat: exportWavFormat,
       },
+      analysis: analysisSettings,
       files: {
         metadata: 'metadata.json',
         recording: measurement.recordingData ? 'recording.wav' : '',
         combinedWaveform: measurement.combinedWaveform ? 'combined.wav' : null,
         timestamps: 'timestamps_keyevent.csv',
+        attackWaveform: measurement.attackWaveform ? ANALYSIS_FILES.attackWaveform : null,
+        releaseWaveform: measurement.releaseWaveform ? ANALYSIS_FILES.releaseWaveform : null,
+        analysis: ANALYSIS_FILES.analysis,
       },
     }
     
@@ -497,11 +1046,11 @@ export function KeytapVisualizer() {
       data: timestampsCsv,
     })
     
-    // 録音データWAV
+    // 録音データWAV（多チャンネル録音はすべてのチャンネルを書き出す）
     if (measurement.recordingData) {
       files.push({
         name: 'recording.wav',
-        data: encodeWav(measurement.recordingData, measurement.sampleRate || browserSampleRate),
+        data: encodeWav(measurement.recordingChannels ?? measurement.recordingData, measurement.sampleRate || browserSampleRate, exportWavFormat),
       })
     }
     
@@ -509,156 +1058,361 @@ export function KeytapVisualizer() {
     if (measurement.combinedWaveform) {
       files.push({
         name: 'combined.wav',
-        data: encodeWav(measurement.combinedWaveform, measurement.sampleRate || browserSampleRate),
+        data: encodeWav(measurement.combinedWaveform, measurement.sampleRate || browserSampleRate, exportWavFormat),
       })
     }
+
+    // 同期加算の結果（読み込み時に再計算せず復元できるよう、波形・個別ウィンドウ・ばらつきと設定を書き出す）
+    files.push(...buildAnalysisFiles(
+      {
+        analysis: analysisSettings,
+        peakPositionMs: measurement.peakPositionMs,
+        peakIntervalMs: measurement.peakIntervalMs,
+        excludedWindows: {
+          attack: measurement.excludedAttackTimestamps,
+          release: measurement.excludedReleaseTimestamps,
+        },
+      },
+      { waveform: measurement.attackWaveform, windows: measurement.attackWindows, spread: measurement.attackSpread },
+      { waveform: measurement.releaseWaveform, windows: measurement.releaseWindows, spread: measurement.releaseSpread },
+      measurement.sampleRate || browserSampleRate
+    ))
     
-    // PAX形式のtarファイルを作成
-    const tarBlob = createPaxTar(files)
-    
-    // ダウンロード
-    const url = URL.createObjectURL(tarBlob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${baseName}.keytapanalyzer.dat`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-  }, [])
+    return files
+  }, [exportWavFormat, browserSampleRate])
 
-  // 測定データをtarファイルからインポート
-  const handleImportMeasurement = useCallback(async (file: File) => {
-    try {
-      const buffer = await file.arrayBuffer()
-      const files = parseTar(buffer)
+  // 測定データをtarファイルとしてエクスポート
+  const handleExportMeasurement = useCallback((measurement: MeasurementResult) => {
+    const tarBlob = createPaxTar(buildMeasurementFiles(measurement))
+    downloadBlob(tarBlob, `${toSafeFileName(measurement.name)}.keytapanalyzer.dat`)
+  }, [buildMeasurementFiles])
+
+  // 複数の測定を1つのプロジェクトファイルとしてエクスポート
+  const handleExportProject = useCallback((measurements: MeasurementResult[]) => {
+    const tarBlob = createPaxTar(buildProjectBundle(
+      measurements.map(measurement => ({ name: measurement.name, files: buildMeasurementFiles(measurement) }))
+    ))
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+    downloadBlob(tarBlob, `keytap_project_${date}.keytapanalyzer.dat`)
+  }, [buildMeasurementFiles])
+
+  // 読み込んだ測定データから測定結果を作成
+  const createImportedMeasurement = useCallback((source: MeasurementSource, id: number): MeasurementImportResult => {
+    let metadata: MeasurementMetadata
+    let recordingData: Float32Array | null = null
+    let recordingChannels: Float32Array[] | null = null
+    let channelSelection: ChannelSelection = 0
+    let importedSampleRate: number
+    let keyDownTimestamps: number[] = []
+    let keyUpTimestamps: number[] = []
+    let keyDownEvents: KeyEventInfo[] = []
+    let keyUpEvents: KeyEventInfo[] = []
+    let archiveFiles: { name: string; data: ArrayBuffer }[] = []
+
+    if (source.type === 'wav') {
+      // WAVファイル単体: キーイベントがないため打鍵音から自動検出する
+      const decoded = decodeWav(source.data)
+      if (!decoded) {
+        return { ok: false, error: 'WAVファイルの読み込みに失敗しました' }
+      }
+      recordingData = decoded.samples
+      recordingChannels = decoded.channels.length > 1 ? decoded.channels : null
+      importedSampleRate = decoded.sampleRate
+
+      const detected = detectKeyEvents(recordingData, importedSampleRate)
+      keyDownTimestamps = detected.keyDownTimestamps
+      keyUpTimestamps = detected.keyUpTimestamps
+      keyDownEvents = keyDownTimestamps.map(createUnknownKeyEvent)
+      keyUpEvents = keyUpTimestamps.map(createUnknownKeyEvent)
+      console.log(`[インポート] WAVから打鍵を自動検出: keyDown=${keyDownTimestamps.length}, keyUp=${keyUpTimestamps.length}`)
+
+      metadata = createWavImportMetadata(
+        source.name,
+        new Date(source.lastModified),
+        recordingData.length,
+        importedSampleRate,
+        keyDownTimestamps.length,
+        keyUpTimestamps.length
+      )
+    } else {
+      const { files } = source
+      archiveFiles = files
       
       // メタデータを探す
       const metadataFile = files.find(f => f.name === 'metadata.json')
       if (!metadataFile) {
         console.error('metadata.json not found in tar file')
-        alert('無効なファイル形式です: metadata.json が見つかりません')
-        return
+        return { ok: false, error: '無効なファイル形式です: metadata.json が見つかりません' }
       }
       
-      const metadataText = new TextDecoder().decode(metadataFile.data)
-      const metadata: MeasurementMetadata = JSON.parse(metadataText)
+      const parsedMetadata = parseMeasurementMetadata(new TextDecoder().decode(metadataFile.data))
+      if (!parsedMetadata.ok) {
+        console.error('Invalid metadata.json:', parsedMetadata.errors)
+        return { ok: false, error: formatMetadataErrors(parsedMetadata.errors) }
+      }
+      metadata = parsedMetadata.metadata
+      if (parsedMetadata.migratedFrom) {
+        console.log(`[インポート] メタデータを ${parsedMetadata.migratedFrom} から ${METADATA_VERSION} の形式に変換しました`)
+      }
       
       // 録音データを読み込み
-      let recordingData: Float32Array | null = null
-      let importedSampleRate = metadata.audio.sampleRate || browserSampleRate // メタデータから取得、なければデフォルト
+      importedSampleRate = metadata.audio.sampleRate
       const recordingFile = files.find(f => f.name === 'recording.wav')
       if (recordingFile) {
         const decoded = decodeWav(recordingFile.data)
         if (decoded) {
           recordingData = decoded.samples
           importedSampleRate = decoded.sampleRate // WAVファイルから正確なサンプルレートを取得
+          if (decoded.channels.length > 1) {
+            recordingChannels = decoded.channels
+            channelSelection = normalizeChannelSelection(metadata.measurement.channelSelection, decoded.channels.length)
+            recordingData = selectChannelData(recordingChannels, channelSelection)
+          }
           console.log(`[インポート] WAVファイルのサンプルレート: ${importedSampleRate}Hz`)
         }
       }
       
       // タイムスタンプを読み込み
-      let keyDownTimestamps: number[] = []
-      let keyUpTimestamps: number[] = []
       const timestampsFile = files.find(f => f.name === 'timestamps_keyevent.csv' || f.name === 'timestamps.csv')
       if (timestampsFile) {
         const csvText = new TextDecoder().decode(timestampsFile.data)
         const parsed = parseTimestampsCsv(csvText)
         keyDownTimestamps = parsed.keyDownTimestamps
         keyUpTimestamps = parsed.keyUpTimestamps
+        keyDownEvents = parsed.keyDownEvents
+        keyUpEvents = parsed.keyUpEvents
       }
+    }
+    
+    // 録音と同じサンプルレートで比較できるよう、必要に応じてブラウザのサンプルレートに変換する
+    // キーイベントのタイムスタンプは ms 単位のため変換は不要
+    if (resampleOnImport && recordingData && importedSampleRate !== browserSampleRate) {
+      console.log(`[インポート] サンプルレートを変換: ${importedSampleRate}Hz → ${browserSampleRate}Hz`)
+      const fromRate = importedSampleRate
+      recordingChannels = recordingChannels?.map(channel => resample(channel, fromRate, browserSampleRate)) ?? null
+      recordingData = recordingChannels
+        ? selectChannelData(recordingChannels, channelSelection)
+        : resample(recordingData, importedSampleRate, browserSampleRate)
+      importedSampleRate = browserSampleRate
+    }
+
+    // 書き出した解析結果を復元する（再計算を選んだ場合・復元できない場合は録音データから再計算する）
+    const restored = recomputeOnImport ? null : restoreAnalysisFiles(archiveFiles, importedSampleRate)
+    if (restored && !restored.ok) {
+      console.log('[インポート] 解析結果を復元できないため録音データから再計算します:', restored.errors)
+    }
+    const restoredAnalysis = restored?.ok ? restored.analysis : null
+
+    // 解析設定を取得（復元した解析結果の設定、なければメタデータの設定。古い形式のメタデータは読み込み時に補われている）
+    const settings = restoredAnalysis?.settings ?? {
+      analysis: metadata.analysis,
+      peakPositionMs: metadata.audio.peakPositionMs,
+      peakIntervalMs: metadata.measurement.peakIntervalMs,
+      excludedWindows: metadata.measurement.excludedWindows ?? { attack: [], release: [] },
+    }
+    const { peakPositionMs, peakIntervalMs } = settings
+    const { attackOffsetMs, attackAlignMode, releaseOffsetMs, releaseAlignMode, averaging } = settings.analysis
+    const excludedAttackTimestamps = settings.excludedWindows.attack
+    const excludedReleaseTimestamps = settings.excludedWindows.release
+    
+    // 同期加算の結果（復元できない場合は録音データとタイムスタンプから再計算）
+    let attackWaveform: Float32Array | null = null
+    let releaseWaveform: Float32Array | null = null
+    let combinedWaveform: Float32Array | null = null
+    let attackWindows: WindowInfo[] = []
+    let releaseWindows: WindowInfo[] = []
+    let attackSpread: WaveformSpread | null = null
+    let releaseSpread: WaveformSpread | null = null
+    let keyGroupWaveforms: KeyGroupWaveforms[] = []
+    
+    if (restoredAnalysis) {
+      attackWaveform = restoredAnalysis.attack.waveform
+      attackWindows = restoredAnalysis.attack.windows
+      attackSpread = restoredAnalysis.attack.spread
+      releaseWaveform = restoredAnalysis.release.waveform
+      releaseWindows = restoredAnalysis.release.windows
+      releaseSpread = restoredAnalysis.release.spread
+      // キーグループ別の波形も、録音データから計算し直さず復元した個別ウィンドウと設定から求める
+      keyGroupWaveforms = calculateRestoredKeyGroups(restoredAnalysis, keyDownEvents, keyUpEvents, importedSampleRate)
+        .map(({ group, attack, release }) => ({
+          group,
+          attackWaveform: attack.waveform,
+          releaseWaveform: release.waveform,
+          combinedWaveform: attack.waveform && release.waveform
+            ? calculateCombinedWaveform(attack.waveform, release.waveform, peakIntervalMs, importedSampleRate)
+            : null,
+          attackWindows: attack.windows,
+          releaseWindows: release.windows,
+          attackSpread: attack.spread,
+          releaseSpread: release.spread,
+        }))
+      console.log('[インポート] 書き出した解析結果を復元しました')
+    } else if (recordingData && keyDownTimestamps.length >= 3) {
+      // アタック音を計算（インポートしたサンプルレートを使用）
+      const attackResult = calculateMeasurementAttackWaveform(
+        recordingData,
+        keyDownTimestamps,
+        keyUpTimestamps,
+        attackOffsetMs,
+        attackAlignMode,
+        averaging,
+        excludedAttackTimestamps,
+        peakPositionMs,
+        importedSampleRate
+      )
+      attackWaveform = attackResult.waveform
+      attackWindows = attackResult.windows
+      attackSpread = attackResult.spread
       
-      // 設定値を取得（メタデータから、なければデフォルト値）
-      const peakPositionMs = metadata.audio.peakPositionMs || 10
-      const peakIntervalMs = metadata.measurement.peakIntervalMs || 12
-      const attackOffsetMs = 10
-      const attackPeakAlign = true
-      const releaseOffsetMs = 10
-      const releasePeakAlign = true
-      
-      // 録音データとタイムスタンプから波形を再計算
-      let attackWaveform: Float32Array | null = null
-      let releaseWaveform: Float32Array | null = null
-      let combinedWaveform: Float32Array | null = null
-      let attackWindows: WindowInfo[] = []
-      let releaseWindows: WindowInfo[] = []
-      
-      if (recordingData && keyDownTimestamps.length >= 3) {
-        // アタック音を計算（インポートしたサンプルレートを使用）
-        const attackResult = calculateMeasurementAttackWaveform(
+      // リリース音を計算（インポートしたサンプルレートを使用）
+      if (keyUpTimestamps.length >= 2) {
+        const releaseResult = calculateMeasurementReleaseWaveform(
           recordingData,
-          keyDownTimestamps,
           keyUpTimestamps,
-          attackOffsetMs,
-          attackPeakAlign,
+          keyDownTimestamps,
+          releaseOffsetMs,
+          releaseAlignMode,
+          averaging,
+          excludedReleaseTimestamps,
           peakPositionMs,
           importedSampleRate
         )
-        attackWaveform = attackResult.waveform
-        attackWindows = attackResult.windows
-        
-        // リリース音を計算（インポートしたサンプルレートを使用）
-        if (keyUpTimestamps.length >= 2) {
-          const releaseResult = calculateMeasurementReleaseWaveform(
-            recordingData,
-            keyUpTimestamps,
-            keyDownTimestamps,
-            releaseOffsetMs,
-            releasePeakAlign,
-            peakPositionMs,
-            importedSampleRate
-          )
-          releaseWaveform = releaseResult.waveform
-          releaseWindows = releaseResult.windows
-        }
-        
-        // 合成波形を計算（インポートしたサンプルレートを使用）
-        if (attackWaveform && releaseWaveform) {
-          combinedWaveform = calculateMeasurementCombinedWaveform(
-            attackWaveform,
-            releaseWaveform,
-            peakIntervalMs,
-            importedSampleRate
-          )
-        }
+        releaseWaveform = releaseResult.waveform
+        releaseWindows = releaseResult.windows
+        releaseSpread = releaseResult.spread
       }
-      
-      // 測定結果を作成
-      const newMeasurement: MeasurementResult = {
-        id: nextMeasurementId,
-        name: metadata.measurement.name || `インポート ${nextMeasurementId}`,
-        timestamp: new Date(metadata.measurement.timestamp),
-        recordingData,
+    }
+
+    // 合成波形を計算（インポートしたサンプルレートを使用）
+    if (attackWaveform && releaseWaveform) {
+      combinedWaveform = calculateMeasurementCombinedWaveform(
         attackWaveform,
         releaseWaveform,
-        combinedWaveform,
-        attackWindows,
-        releaseWindows,
-        keyTapCount: metadata.measurement.keyTapCount,
-        keyUpCount: metadata.measurement.keyUpCount,
+        peakIntervalMs,
+        importedSampleRate
+      )
+    }
+
+    if (!restoredAnalysis && recordingData && keyDownTimestamps.length >= 3) {
+      // キーグループ別の波形を計算（キー情報付きCSVの場合のみ）
+      keyGroupWaveforms = calculateMeasurementKeyGroupWaveforms(
+        recordingData,
         keyDownTimestamps,
         keyUpTimestamps,
-        peakIntervalMs,
-        recordingDurationMs: metadata.audio.recordingDurationMs || 4000,
-        sampleRate: importedSampleRate,
+        keyDownEvents,
+        keyUpEvents,
         attackOffsetMs,
-        attackPeakAlign,
+        attackAlignMode,
         releaseOffsetMs,
-        releasePeakAlign,
+        releaseAlignMode,
+        averaging,
+        excludedAttackTimestamps,
+        excludedReleaseTimestamps,
         peakPositionMs,
+        peakIntervalMs,
+        importedSampleRate
+      )
+    }
+    
+    // 測定結果を作成
+    const newMeasurement: MeasurementResult = {
+      id,
+      name: metadata.measurement.name || `インポート ${id}`,
+      // 測定情報がない場合は設置面だけファイル名から推定する
+      details: normalizeMeasurementDetails(metadata.measurement.details ?? { surface: inferSurfaceFromName(source.name) }),
+      timestamp: new Date(metadata.measurement.timestamp),
+      recordingData,
+      recordingChannels,
+      channelSelection,
+      attackWaveform,
+      releaseWaveform,
+      combinedWaveform,
+      attackWindows,
+      releaseWindows,
+      attackSpread,
+      releaseSpread,
+      keyGroupWaveforms,
+      keyTapCount: metadata.measurement.keyTapCount,
+      keyUpCount: metadata.measurement.keyUpCount,
+      keyDownTimestamps,
+      keyUpTimestamps,
+      keyDownEvents,
+      keyUpEvents,
+      peakIntervalMs,
+      recordingDurationMs: metadata.audio.recordingDurationMs,
+      sampleRate: importedSampleRate,
+      audioInput: metadata.audio.input ?? null,
+      keyEventSource: metadata.measurement.keyEventSource ?? 'keyboard',
+      attackOffsetMs,
+      attackAlignMode,
+      releaseOffsetMs,
+      releaseAlignMode,
+      averaging,
+      peakPositionMs,
+      excludedAttackTimestamps,
+      excludedReleaseTimestamps,
+    }
+
+    return { ok: true, measurement: newMeasurement }
+  }, [resampleOnImport, recomputeOnImport, browserSampleRate, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform, calculateMeasurementCombinedWaveform, calculateMeasurementKeyGroupWaveforms])
+
+  // ファイルを読み込んで測定履歴に追加（プロジェクトファイルは含まれるすべての測定を追加する）
+  // 保存済みの履歴の読み込み中は、読み込む測定と ID が重ならないよう受け付けない
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    if (!historyLoaded) {
+      alert('保存済みの測定履歴を読み込み中です。読み込みが終わってからもう一度お試しください')
+      return
+    }
+    const sources: MeasurementSource[] = []
+    const errors: string[] = []
+    for (const file of files) {
+      try {
+        const buffer = await file.arrayBuffer()
+        if (isWavData(buffer)) {
+          sources.push({ type: 'wav', name: file.name, lastModified: file.lastModified, data: buffer })
+          continue
+        }
+        const archiveFiles = parseTar(buffer)
+        const bundle = readProjectBundle(archiveFiles)
+        if (!bundle) {
+          sources.push({ type: 'archive', name: file.name, files: archiveFiles })
+        } else if (bundle.ok) {
+          sources.push(...bundle.measurements.map(m => ({ type: 'archive' as const, name: m.name, files: m.files })))
+        } else {
+          errors.push(`${file.name}: プロジェクトファイルの内容に問題があるため読み込めません:\n${bundle.errors.map(error => `・${error}`).join('\n')}`)
+        }
+      } catch (error) {
+        console.error('Failed to read file:', error)
+        errors.push(`${file.name}: ファイルの読み込みに失敗しました`)
       }
-      
-      setMeasurementHistory(prev => [...prev, newMeasurement])
-      setSelectedMeasurementId(nextMeasurementId)
-      setNextMeasurementId(prev => prev + 1)
+    }
+
+    const imported: MeasurementResult[] = []
+    for (const source of sources) {
+      try {
+        const result = createImportedMeasurement(source, nextMeasurementId + imported.length)
+        if (result.ok) {
+          imported.push(result.measurement)
+          console.log('Measurement imported successfully:', result.measurement.name)
+        } else {
+          errors.push(`${source.name}: ${result.error}`)
+        }
+      } catch (error) {
+        console.error('Failed to import measurement:', error)
+        errors.push(`${source.name}: ファイルの読み込みに失敗しました`)
+      }
+    }
+
+    if (imported.length > 0) {
+      setMeasurementHistory(prev => [...prev, ...imported])
+      setSelectedMeasurementId(imported[imported.length - 1].id)
+      setNextMeasurementId(prev => prev + imported.length)
       setActiveTab('analysis')
-      
-      console.log('Measurement imported successfully:', newMeasurement.name)
-    } catch (error) {
-      console.error('Failed to import measurement:', error)
-      alert('ファイルの読み込みに失敗しました')
     }
-  }, [nextMeasurementId, calculateMeasurementAttackWaveform, calculateMeasurementReleaseWaveform, calculateMeasurementCombinedWaveform])
+    if (errors.length > 0) {
+      alert(errors.join('\n\n'))
+    }
+  }, [historyLoaded, nextMeasurementId, createImportedMeasurement])
 
   // サンプルリストを読み込み
   useEffect(() => {
@@ -688,7 +1442,7 @@ export function KeytapVisualizer() {
       
       // File オブジェクトに変換して既存のインポート処理を再利用
       const file = new File([buffer], sample.filename, { type: 'application/octet-stream' })
-      await handleImportMeasurement(file)
+      await handleImportFiles([file])
       
       setSamplesModalOpen(false)
     } catch (error) {
@@ -697,17 +1451,41 @@ export function KeytapVisualizer() {
     } finally {
       setLoadingSample(false)
     }
-  }, [handleImportMeasurement])
+  }, [handleImportFiles])
 
   // ファイル選択ハンドラー
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      handleImportMeasurement(file)
+    const files = Array.from(e.target.files ?? [])
+    if (files.length > 0) {
+      handleImportFiles(files)
     }
     // 同じファイルを再選択できるようにリセット
     e.target.value = ''
-  }, [handleImportMeasurement])
+  }, [handleImportFiles])
+
+  // 解析タブへのドラッグ＆ドロップ（複数の測定データ・WAVファイルをまとめて読み込む）
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFiles(true)
+  }, [])
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // 子要素への移動では解除しない
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false)
+    }
+  }, [])
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDraggingFiles(false)
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) {
+      handleImportFiles(files)
+    }
+  }, [handleImportFiles])
 
   // インポートボタンクリックハンドラー
   const handleImportClick = useCallback(() => {
@@ -715,7 +1493,8 @@ export function KeytapVisualizer() {
   }, [])
 
   const handleRecordClick = () => {
-    if (!isRecording) {
+    // 保存済みの履歴の読み込み中は、録音した測定と ID が重ならないよう録音を始めない
+    if (!isRecording && historyLoaded) {
       // 新規録音開始時はセッションIDをインクリメント
       recordingSessionRef.current += 1
       startRecording()
@@ -730,6 +1509,45 @@ export function KeytapVisualizer() {
     }
   }
 
+  // 読み込み時のサンプルレート変換の切り替え（測定履歴と空の画面で共通）
+  const resampleOnImportOption = (
+    <label className={styles.importOption}>
+      <input
+        type="checkbox"
+        checked={resampleOnImport}
+        onChange={(e) => setResampleOnImport(e.target.checked)}
+      />
+      読み込み時に {browserSampleRate} Hz に変換
+    </label>
+  )
+
+  // 読み込み時の再計算の切り替え（書き出した解析結果を使わず、現在の処理で録音データから求め直す）
+  const recomputeOnImportOption = (
+    <label className={styles.importOption}>
+      <input
+        type="checkbox"
+        checked={recomputeOnImport}
+        onChange={(e) => setRecomputeOnImport(e.target.checked)}
+      />
+      読み込み時に録音データから再計算
+    </label>
+  )
+
+  // 書き出すWAVのサンプル形式の選択（平均化した波形は 16bit の量子化ノイズより小さい成分を含むため、既定は 24bit）
+  const exportWavFormatOption = (
+    <label className={styles.importOption}>
+      書き出すWAV:
+      <select
+        value={exportWavFormat}
+        onChange={(e) => setExportWavFormat(e.target.value as WavFormat)}
+      >
+        {(Object.keys(WAV_FORMAT_LABELS) as WavFormat[]).map(format => (
+          <option key={format} value={format}>{WAV_FORMAT_LABELS[format]}</option>
+        ))}
+      </select>
+    </label>
+  )
+
   return (
     <div className={styles.container}>
       <h1>Keytap Analyzer</h1>
@@ -774,7 +1592,7 @@ export function KeytapVisualizer() {
                 <div className={styles.controlGroup}>
                   <RecordButton
                     isRecording={isRecording}
-                    disabled={!canRecord || isRecording}
+                    disabled={!canRecord || isRecording || !historyLoaded}
                     onClick={handleRecordClick}
                     recordingDuration={recordingDuration}
                   />
@@ -821,18 +1639,126 @@ export function KeytapVisualizer() {
                   <span className={styles.settingsHint}>ms (先頭からのオフセット)</span>
                 </div>
               </div>
+
+              {/* 入力デバイス設定 */}
+              <div className={styles.settingsSection}>
+                <h4 className={styles.controlTitle}>入力デバイス</h4>
+                <div className={styles.settingsRow}>
+                  <label htmlFor="audioDeviceSelect">デバイス:</label>
+                  <select
+                    id="audioDeviceSelect"
+                    value={selectedDeviceId}
+                    onChange={(e) => setSelectedDeviceId(e.target.value)}
+                    disabled={isRecording}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto', maxWidth: 320 }}
+                  >
+                    <option value="">既定のデバイス</option>
+                    {audioDevices
+                      .filter(d => d.deviceId && d.deviceId !== 'default')
+                      .map((d, index) => (
+                        <option key={d.deviceId} value={d.deviceId}>
+                          {d.label || `マイク ${index + 1}`}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className={styles.settingsRow}>
+                  <label htmlFor="inputSampleRateSelect">サンプルレート:</label>
+                  <select
+                    id="inputSampleRateSelect"
+                    value={audioInputSettings.sampleRate ?? ''}
+                    onChange={(e) => setAudioInputSettings({
+                      ...audioInputSettings,
+                      sampleRate: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                    disabled={isRecording}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto' }}
+                  >
+                    <option value="">ブラウザ既定</option>
+                    {SELECTABLE_SAMPLE_RATES.map(rate => (
+                      <option key={rate} value={rate}>{rate} Hz</option>
+                    ))}
+                  </select>
+                </div>
+                <div className={styles.settingsRow}>
+                  <label htmlFor="inputChannelCountSelect">チャンネル数:</label>
+                  <select
+                    id="inputChannelCountSelect"
+                    value={audioInputSettings.channelCount}
+                    onChange={(e) => setAudioInputSettings({ ...audioInputSettings, channelCount: Number(e.target.value) })}
+                    disabled={isRecording}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto' }}
+                  >
+                    <option value={1}>1 (モノラル)</option>
+                    <option value={2}>2 (ステレオ)</option>
+                  </select>
+                </div>
+                <div className={styles.settingsRow}>
+                  <label htmlFor="echoCancellationInput" className={styles.checkboxLabel}>
+                    <input
+                      id="echoCancellationInput"
+                      type="checkbox"
+                      checked={audioInputSettings.echoCancellation}
+                      onChange={(e) => setAudioInputSettings({ ...audioInputSettings, echoCancellation: e.target.checked })}
+                      disabled={isRecording}
+                      className={styles.checkbox}
+                    />
+                    エコーキャンセル
+                  </label>
+                  <label htmlFor="noiseSuppressionInput" className={styles.checkboxLabel}>
+                    <input
+                      id="noiseSuppressionInput"
+                      type="checkbox"
+                      checked={audioInputSettings.noiseSuppression}
+                      onChange={(e) => setAudioInputSettings({ ...audioInputSettings, noiseSuppression: e.target.checked })}
+                      disabled={isRecording}
+                      className={styles.checkbox}
+                    />
+                    ノイズ抑制
+                  </label>
+                  <label htmlFor="autoGainControlInput" className={styles.checkboxLabel}>
+                    <input
+                      id="autoGainControlInput"
+                      type="checkbox"
+                      checked={audioInputSettings.autoGainControl}
+                      onChange={(e) => setAudioInputSettings({ ...audioInputSettings, autoGainControl: e.target.checked })}
+                      disabled={isRecording}
+                      className={styles.checkbox}
+                    />
+                    自動ゲイン調整
+                  </label>
+                </div>
+                {audioInputInfo && (
+                  <span className={styles.settingsHint}>
+                    実際の設定: {audioInputInfo.sampleRate ?? '-'} Hz / {audioInputInfo.channelCount ?? '-'} ch
+                    {audioInputInfo.sampleSize ? ` / ${audioInputInfo.sampleSize} bit` : ''}
+                    {' '}| エコーキャンセル: {audioInputInfo.echoCancellation ? 'ON' : 'OFF'}
+                    {' '}| ノイズ抑制: {audioInputInfo.noiseSuppression ? 'ON' : 'OFF'}
+                    {' '}| 自動ゲイン調整: {audioInputInfo.autoGainControl ? 'ON' : 'OFF'}
+                  </span>
+                )}
+              </div>
             </div>
           </div>
         )}
 
         {/* 解析タブ */}
         {activeTab === 'analysis' && (
-          <div className={styles.tabPanel}>
+          <div
+            className={`${styles.tabPanel} ${isDraggingFiles ? styles.dropTarget : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
             {/* 隠しファイル入力 */}
             <input
               ref={fileInputRef}
               type="file"
-              accept=".dat,.tar"
+              accept=".dat,.tar,.wav"
+              multiple
               onChange={handleFileSelect}
               style={{ display: 'none' }}
             />
@@ -848,6 +1774,7 @@ export function KeytapVisualizer() {
                         <button 
                           className={styles.importBtn}
                           onClick={() => setSamplesModalOpen(true)}
+                          disabled={!historyLoaded}
                           title="サンプルデータを読み込む"
                         >
                           <MdInventory /> サンプル
@@ -856,13 +1783,54 @@ export function KeytapVisualizer() {
                       <button 
                         className={styles.importBtn}
                         onClick={handleImportClick}
-                        title="測定データをインポート"
+                        disabled={!historyLoaded}
+                        title="測定データ (.dat) または WAVファイルをインポート（ドラッグ＆ドロップでも読み込めます）"
                       >
                         <MdFolderOpen /> 読込
                       </button>
+                      <button 
+                        className={styles.importBtn}
+                        onClick={() => handleExportProject(filteredMeasurements)}
+                        disabled={filteredMeasurements.length === 0}
+                        title="表示中の測定を1つのプロジェクトファイル (.dat) にまとめてエクスポート"
+                      >
+                        <MdArchive /> 一括書出
+                      </button>
                     </div>
                   </div>
-                  {measurementHistory.map((m) => (
+                  {resampleOnImportOption}
+                  {recomputeOnImportOption}
+                  {exportWavFormatOption}
+                  <div className={styles.measurementFilter}>
+                    <input
+                      type="search"
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="名前・キーボード・スイッチ・タグで検索"
+                      className={styles.measurementSearchInput}
+                    />
+                    {allTags.length > 0 && (
+                      <div className={styles.tagList}>
+                        {allTags.map(tag => (
+                          <button
+                            key={tag}
+                            className={`${styles.tagChip} ${activeTags.includes(tag) ? styles.tagChipSelected : ''}`}
+                            onClick={() => setSelectedTags(prev =>
+                              prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
+                            )}
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {filteredMeasurements.length < measurementHistory.length && (
+                      <span className={styles.measurementInfo}>
+                        {measurementHistory.length}件中 {filteredMeasurements.length}件を表示
+                      </span>
+                    )}
+                  </div>
+                  {filteredMeasurements.map((m) => (
                     <div 
                       key={m.id} 
                       className={`${styles.measurementItem} ${selectedMeasurementId === m.id ? styles.measurementItemSelected : ''}`}
@@ -876,8 +1844,20 @@ export function KeytapVisualizer() {
                         className={styles.measurementNameInput}
                       />
                       <span className={styles.measurementInfo}>
-                        {m.timestamp.toLocaleTimeString()} | {m.keyTapCount}回
+                        {m.timestamp.toLocaleTimeString()} | {m.keyTapCount}回{m.keyEventSource === 'detected' && ' (自動検出)'}
                       </span>
+                      {(m.details.keyboardModel || m.details.switchName || m.details.surface) && (
+                        <span className={styles.measurementInfo}>
+                          {[m.details.keyboardModel, m.details.switchName, m.details.surface].filter(Boolean).join(' / ')}
+                        </span>
+                      )}
+                      {m.details.tags.length > 0 && (
+                        <div className={styles.tagList}>
+                          {m.details.tags.map(tag => (
+                            <span key={tag} className={styles.tagChip}>{tag}</span>
+                          ))}
+                        </div>
+                      )}
                       <div className={styles.measurementActions}>
                         <button 
                           className={styles.measurementSettingsBtn}
@@ -913,13 +1893,138 @@ export function KeytapVisualizer() {
                       </div>
                     </div>
                   ))}
+                  <div className={styles.storageInfo}>
+                    {storageEstimate && (
+                      <span title="ブラウザに保存している測定データの容量">
+                        保存容量: {formatStorageSize(storageEstimate.usage)} / {formatStorageSize(storageEstimate.quota)}
+                      </span>
+                    )}
+                    <button
+                      className={styles.clearAllBtn}
+                      onClick={handleClearAllMeasurements}
+                      title="保存済みのデータを含め、すべての測定を削除"
+                    >
+                      <MdDeleteSweep /> すべて削除
+                    </button>
+                  </div>
                 </div>
 
                 {/* 選択した測定の解析結果 */}
-                {selectedMeasurement && (
+                {selectedMeasurement && displayedWaveforms && (
                   <div className={styles.measurementAnalysis}>
                     <h3>{selectedMeasurement.name}</h3>
+
+                    {/* 測定情報（キーボード構成・録音条件・タグ） */}
+                    <CollapsibleSection title={<><MdInfoOutline style={{ verticalAlign: 'middle', marginRight: 4 }} /> 測定情報</>} defaultExpanded={false}>
+                      <div className={styles.detailsGrid}>
+                        {MEASUREMENT_DETAIL_FIELDS.map(field => (
+                          <label key={field.key} className={styles.detailsField}>
+                            <span>{field.label}</span>
+                            <input
+                              type="text"
+                              value={selectedMeasurement.details[field.key]}
+                              onChange={(e) => handleUpdateMeasurementDetails(selectedMeasurement.id, { [field.key]: e.target.value })}
+                              placeholder={field.placeholder}
+                              className={styles.settingsInput}
+                            />
+                          </label>
+                        ))}
+                        <label className={styles.detailsField}>
+                          <span>タグ（カンマ区切り）</span>
+                          <input
+                            // 入力中のカンマを消さないよう、フォーカスを外したときに反映する
+                            key={`${selectedMeasurement.id}-${formatTags(selectedMeasurement.details.tags)}`}
+                            type="text"
+                            defaultValue={formatTags(selectedMeasurement.details.tags)}
+                            onBlur={(e) => handleUpdateMeasurementDetails(selectedMeasurement.id, { tags: parseTags(e.target.value) })}
+                            placeholder="例: 静音, 比較用"
+                            className={styles.settingsInput}
+                          />
+                        </label>
+                      </div>
+                    </CollapsibleSection>
+
+                    {/* キーグループ選択 */}
+                    {selectedMeasurement.keyGroupWaveforms.length > 0 && (
+                      <div className={styles.settingsRow}>
+                        <label htmlFor="keyGroupSelect">キーグループ:</label>
+                        <select
+                          id="keyGroupSelect"
+                          value={selectedKeyGroupWaveforms ? selectedKeyGroup : 'all'}
+                          onChange={(e) => setSelectedKeyGroup(e.target.value as KeyGroup)}
+                          className={styles.settingsInput}
+                          style={{ width: 'auto' }}
+                        >
+                          <option value="all">{KEY_GROUP_LABELS.all} ({selectedMeasurement.keyTapCount}回)</option>
+                          {selectedMeasurement.keyGroupWaveforms.map(g => (
+                            <option key={g.group} value={g.group}>
+                              {KEY_GROUP_LABELS[g.group]} ({g.attackWindows.length}回)
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     
+                    {/* 多チャンネル録音の解析に使うチャンネル */}
+                    {selectedMeasurement.recordingChannels && (
+                      <div className={styles.settingsRow}>
+                        <label htmlFor="channelSelect">解析するチャンネル:</label>
+                        <select
+                          id="channelSelect"
+                          value={selectedMeasurement.channelSelection}
+                          onChange={(e) => handleChangeChannelSelection(
+                            selectedMeasurement.id,
+                            e.target.value === 'sum' ? 'sum' : Number(e.target.value)
+                          )}
+                          className={styles.settingsInput}
+                          style={{ width: 'auto' }}
+                        >
+                          {selectedMeasurement.recordingChannels.map((_, i) => (
+                            <option key={i} value={i}>{formatChannelSelection(i)}</option>
+                          ))}
+                          <option value="sum">{formatChannelSelection('sum')}</option>
+                        </select>
+                      </div>
+                    )}
+
+                    {/* チャンネル別の平均化した波形とチャンネル間の遅延（並べて表示） */}
+                    {channelComparison && (
+                      <CollapsibleSection title={<><MdCompare style={{ verticalAlign: 'middle', marginRight: 4 }} /> チャンネル別の比較 ({channelComparison.length}ch)</>} defaultExpanded={false}>
+                        <div className={styles.channelGrid}>
+                          {channelComparison.map((channel, i) => (
+                            <div key={i} className={styles.channelColumn}>
+                              <h4>{formatChannelSelection(i)}</h4>
+                              {channel.attack && (
+                                <AveragedWaveform
+                                  waveformData={channel.attack}
+                                  keyTapCount={selectedMeasurement.keyTapCount}
+                                  windowOffsetMs={0}
+                                  peakAlignEnabled={false}
+                                  title={`${formatChannelSelection(i)} アタック音 (キーイベント基準)`}
+                                  sampleRate={displaySampleRate}
+                                />
+                              )}
+                              {channel.release && (
+                                <AveragedWaveform
+                                  waveformData={channel.release}
+                                  keyTapCount={selectedMeasurement.keyUpCount}
+                                  windowOffsetMs={0}
+                                  peakAlignEnabled={false}
+                                  title={`${formatChannelSelection(i)} リリース音 (キーイベント基準)`}
+                                  sampleRate={displaySampleRate}
+                                />
+                              )}
+                              {i > 0 && (
+                                <span className={styles.settingsHint}>
+                                  {formatChannelSelection(0)} からの遅延: アタック音 {formatChannelDelay(channel.attackDelay)} / リリース音 {formatChannelDelay(channel.releaseDelay)}
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </CollapsibleSection>
+                    )}
+
                     {/* 元録音データ（スペクトル・特徴量・波形） */}
                     {selectedMeasurement.recordingData && (
                       <CollapsibleSection title={<><MdBarChart style={{ verticalAlign: 'middle', marginRight: 4 }} /> 元録音データ ({(selectedMeasurement.recordingDurationMs / 1000).toFixed(1)}秒)</>}>
@@ -928,6 +2033,7 @@ export function KeytapVisualizer() {
                             waveformData={selectedMeasurement.recordingData} 
                             title={`元録音データのスペクトル (${(selectedMeasurement.recordingDurationMs / 1000).toFixed(1)}秒)`}
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('recording')}
                           />
                           <AudioFeaturesDisplay 
                             waveformData={selectedMeasurement.recordingData} 
@@ -939,69 +2045,76 @@ export function KeytapVisualizer() {
                             keyTapCount={selectedMeasurement.keyTapCount}
                             windowOffsetMs={0}
                             peakAlignEnabled={false}
-                            title={`元録音データ (${(selectedMeasurement.recordingDurationMs / 1000).toFixed(1)}秒)`}
+                            title={`元録音データ (${(selectedMeasurement.recordingDurationMs / 1000).toFixed(1)}秒${selectedMeasurement.keyEventSource === 'detected' ? '・キーイベントは打鍵音から自動検出' : ''})`}
                             showKeyDownLine={false}
                             keyDownTimestamps={selectedMeasurement.keyDownTimestamps}
                             keyUpTimestamps={selectedMeasurement.keyUpTimestamps}
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('recording')}
                           />
                         </>
                       </CollapsibleSection>
                     )}
 
                     {/* 平均化した打鍵音（スペクトル・特徴量・波形） */}
-                    {selectedMeasurement.combinedWaveform && (
-                      <CollapsibleSection title={<><MdMusicNote style={{ verticalAlign: 'middle', marginRight: 4 }} /> 平均化した打鍵音 (間隔: {selectedMeasurement.peakIntervalMs}ms)</>} defaultExpanded={true}>
+                    {displayedWaveforms.combinedWaveform && (
+                      <CollapsibleSection title={<><MdMusicNote style={{ verticalAlign: 'middle', marginRight: 4 }} /> 平均化した打鍵音{displayedKeyGroupLabel} (間隔: {selectedMeasurement.peakIntervalMs}ms)</>} defaultExpanded={true}>
                         <>
                           <SpectrumDisplay 
-                            waveformData={selectedMeasurement.combinedWaveform} 
-                            title="平均化した打鍵音のスペクトル" 
+                            waveformData={displayedWaveforms.combinedWaveform} 
+                            title={`平均化した打鍵音${displayedKeyGroupLabel}のスペクトル`} 
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('combined')}
                           />
                           <AudioFeaturesDisplay 
-                            waveformData={selectedMeasurement.combinedWaveform} 
-                            title={`平均化した打鍵音の特徴量 (間隔: ${selectedMeasurement.peakIntervalMs}ms)`} 
+                            waveformData={displayedWaveforms.combinedWaveform} 
+                            title={`平均化した打鍵音${displayedKeyGroupLabel}の特徴量 (間隔: ${selectedMeasurement.peakIntervalMs}ms)`} 
                             sampleRate={displaySampleRate}
                           />
                           <AveragedWaveform 
-                            waveformData={selectedMeasurement.combinedWaveform}
-                            keyTapCount={selectedMeasurement.keyTapCount}
+                            waveformData={displayedWaveforms.combinedWaveform}
+                            keyTapCount={selectedKeyGroupWaveforms ? selectedKeyGroupWaveforms.attackWindows.length : selectedMeasurement.keyTapCount}
                             windowOffsetMs={0}
                             peakAlignEnabled={true}
-                            title={`平均化した打鍵音 (アタック→${selectedMeasurement.peakIntervalMs}ms→リリース)`}
+                            title={`平均化した打鍵音${displayedKeyGroupLabel} (アタック→${selectedMeasurement.peakIntervalMs}ms→リリース)`}
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('combined')}
                           />
                         </>
                       </CollapsibleSection>
                     )}
 
                     {/* アタック音（スペクトル・特徴量・波形） */}
-                    {selectedMeasurement.attackWaveform && (
-                      <CollapsibleSection title={<><MdTrendingUp style={{ verticalAlign: 'middle', marginRight: 4 }} /> アタック音</>} defaultExpanded={false}>
+                    {displayedWaveforms.attackWaveform && (
+                      <CollapsibleSection title={<><MdTrendingUp style={{ verticalAlign: 'middle', marginRight: 4 }} /> アタック音{displayedKeyGroupLabel}</>} defaultExpanded={false}>
                         <>
                           <SpectrumDisplay 
-                            waveformData={selectedMeasurement.attackWaveform} 
-                            title="アタック音のスペクトル" 
+                            waveformData={displayedWaveforms.attackWaveform} 
+                            title={`アタック音${displayedKeyGroupLabel}のスペクトル`} 
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('attack')}
                           />
                           <AudioFeaturesDisplay 
-                            waveformData={selectedMeasurement.attackWaveform} 
-                            title="アタック音の特徴量" 
+                            waveformData={displayedWaveforms.attackWaveform} 
+                            title={`アタック音${displayedKeyGroupLabel}の特徴量`} 
                             sampleRate={displaySampleRate}
                           />
                           <AveragedWaveform 
-                            waveformData={selectedMeasurement.attackWaveform}
-                            keyTapCount={selectedMeasurement.keyTapCount}
+                            waveformData={displayedWaveforms.attackWaveform}
+                            keyTapCount={selectedKeyGroupWaveforms ? selectedKeyGroupWaveforms.attackWindows.length : selectedMeasurement.keyTapCount}
                             windowOffsetMs={0}
-                            peakAlignEnabled={true}
-                            title="アタック音 (KeyDown → KeyUp)"
+                            peakAlignEnabled={selectedMeasurement.attackAlignMode !== 'none'}
+                            spread={displayedWaveforms.attackSpread}
+                            title={`アタック音${displayedKeyGroupLabel} (KeyDown → KeyUp)`}
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('attack')}
                           />
-                          {selectedMeasurement.attackWindows.length > 0 && (
+                          {displayedWaveforms.attackWindows.length > 0 && (
                             <WindowsDebugView
-                              windows={selectedMeasurement.attackWindows}
-                              title="アタック音 - 個別ウィンドウ"
+                              windows={displayedWaveforms.attackWindows}
+                              title={`アタック音${displayedKeyGroupLabel} - 個別ウィンドウ`}
                               sampleRate={displaySampleRate}
+                              onToggleExclusion={(timestampMs) => handleToggleWindowExclusion(selectedMeasurement.id, 'attack', timestampMs)}
                             />
                           )}
                         </>
@@ -1009,32 +2122,36 @@ export function KeytapVisualizer() {
                     )}
 
                     {/* リリース音（スペクトル・特徴量・波形） */}
-                    {selectedMeasurement.releaseWaveform && (
-                      <CollapsibleSection title={<><MdTrendingDown style={{ verticalAlign: 'middle', marginRight: 4 }} /> リリース音</>} defaultExpanded={false}>
+                    {displayedWaveforms.releaseWaveform && (
+                      <CollapsibleSection title={<><MdTrendingDown style={{ verticalAlign: 'middle', marginRight: 4 }} /> リリース音{displayedKeyGroupLabel}</>} defaultExpanded={false}>
                         <>
                           <SpectrumDisplay 
-                            waveformData={selectedMeasurement.releaseWaveform} 
-                            title="リリース音のスペクトル" 
+                            waveformData={displayedWaveforms.releaseWaveform} 
+                            title={`リリース音${displayedKeyGroupLabel}のスペクトル`} 
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('release')}
                           />
                           <AudioFeaturesDisplay 
-                            waveformData={selectedMeasurement.releaseWaveform} 
-                            title="リリース音の特徴量" 
+                            waveformData={displayedWaveforms.releaseWaveform} 
+                            title={`リリース音${displayedKeyGroupLabel}の特徴量`} 
                             sampleRate={displaySampleRate}
                           />
                           <AveragedWaveform 
-                            waveformData={selectedMeasurement.releaseWaveform}
-                            keyTapCount={selectedMeasurement.keyUpCount}
+                            waveformData={displayedWaveforms.releaseWaveform}
+                            keyTapCount={selectedKeyGroupWaveforms ? selectedKeyGroupWaveforms.releaseWindows.length : selectedMeasurement.keyUpCount}
                             windowOffsetMs={0}
-                            peakAlignEnabled={true}
-                            title="リリース音 (KeyUp → KeyDown)"
+                            peakAlignEnabled={selectedMeasurement.releaseAlignMode !== 'none'}
+                            spread={displayedWaveforms.releaseSpread}
+                            title={`リリース音${displayedKeyGroupLabel} (KeyUp → KeyDown)`}
                             sampleRate={displaySampleRate}
+                            {...getZoomProps('release')}
                           />
-                          {selectedMeasurement.releaseWindows.length > 0 && (
+                          {displayedWaveforms.releaseWindows.length > 0 && (
                             <WindowsDebugView
-                              windows={selectedMeasurement.releaseWindows}
-                              title="リリース音 - 個別ウィンドウ"
+                              windows={displayedWaveforms.releaseWindows}
+                              title={`リリース音${displayedKeyGroupLabel} - 個別ウィンドウ`}
                               sampleRate={displaySampleRate}
+                              onToggleExclusion={(timestampMs) => handleToggleWindowExclusion(selectedMeasurement.id, 'release', timestampMs)}
                             />
                           )}
                         </>
@@ -1045,11 +2162,12 @@ export function KeytapVisualizer() {
               </div>
             ) : (
               <div className={styles.emptyAnalysis}>
-                <p>録音を完了するか、既存のデータを読み込んでください</p>
+                <p>録音を完了するか、既存のデータを読み込んでください（ファイルをドラッグ＆ドロップしても読み込めます）</p>
                 <div className={styles.emptyAnalysisButtons}>
                   <button 
                     className={styles.importBtnLarge}
                     onClick={handleImportClick}
+                    disabled={!historyLoaded}
                   >
                     <MdFolderOpen /> 測定データを読み込む
                   </button>
@@ -1057,11 +2175,14 @@ export function KeytapVisualizer() {
                     <button 
                       className={styles.importBtnLarge}
                       onClick={() => setSamplesModalOpen(true)}
+                      disabled={!historyLoaded}
                     >
                       <MdInventory /> サンプルから選ぶ
                     </button>
                   )}
                 </div>
+                {resampleOnImportOption}
+                {recomputeOnImportOption}
               </div>
             )}
           </div>
@@ -1079,6 +2200,9 @@ export function KeytapVisualizer() {
                 releaseWaveform: m.releaseWaveform,
                 recordingData: m.recordingData,
                 sampleRate: m.sampleRate,
+                attackWindows: m.attackWindows,
+                releaseWindows: m.releaseWindows,
+                keyGroupWaveforms: m.keyGroupWaveforms,
               }))}
               defaultSampleRate={browserSampleRate}
             />
@@ -1149,16 +2273,18 @@ export function KeytapVisualizer() {
                   <span className={styles.settingsHint}>ms</span>
                 </div>
                 <div className={styles.settingsRow}>
-                  <label htmlFor="editAttackPeakAlign" className={styles.checkboxLabel}>
-                    <input
-                      id="editAttackPeakAlign"
-                      type="checkbox"
-                      checked={editAttackPeakAlignInput}
-                      onChange={(e) => setEditAttackPeakAlignInput(e.target.checked)}
-                      className={styles.checkbox}
-                    />
-                    ピーク同期モード
-                  </label>
+                  <label htmlFor="editAttackAlignModeSelect">揃え方:</label>
+                  <select
+                    id="editAttackAlignModeSelect"
+                    value={editAttackAlignModeInput}
+                    onChange={(e) => setEditAttackAlignModeInput(e.target.value as AlignMode)}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto' }}
+                  >
+                    {(Object.keys(ALIGN_MODE_LABELS) as AlignMode[]).map(mode => (
+                      <option key={mode} value={mode}>{ALIGN_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -1179,17 +2305,101 @@ export function KeytapVisualizer() {
                   <span className={styles.settingsHint}>ms</span>
                 </div>
                 <div className={styles.settingsRow}>
-                  <label htmlFor="editReleasePeakAlign" className={styles.checkboxLabel}>
+                  <label htmlFor="editReleaseAlignModeSelect">揃え方:</label>
+                  <select
+                    id="editReleaseAlignModeSelect"
+                    value={editReleaseAlignModeInput}
+                    onChange={(e) => setEditReleaseAlignModeInput(e.target.value as AlignMode)}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto' }}
+                  >
+                    {(Object.keys(ALIGN_MODE_LABELS) as AlignMode[]).map(mode => (
+                      <option key={mode} value={mode}>{ALIGN_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* 平均化設定（アタック音・リリース音共通） */}
+              <div className={styles.modalSettingsGroup}>
+                <h4>平均化設定</h4>
+                <div className={styles.settingsRow}>
+                  <label htmlFor="editAveragingMethodSelect">平均化の方法:</label>
+                  <select
+                    id="editAveragingMethodSelect"
+                    value={editAveragingInput.method}
+                    onChange={(e) => setEditAveragingInput({ ...editAveragingInput, method: e.target.value as AveragingMethod })}
+                    className={styles.settingsInput}
+                    style={{ width: 'auto' }}
+                  >
+                    {(Object.keys(AVERAGING_METHOD_LABELS) as AveragingMethod[]).map(method => (
+                      <option key={method} value={method}>{AVERAGING_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                </div>
+                {editAveragingInput.method === 'trimmedMean' && (
+                  <div className={styles.settingsRow}>
+                    <label htmlFor="editTrimRatioInput">トリム率（上下各）:</label>
+                    <input
+                      id="editTrimRatioInput"
+                      type="number"
+                      min="0"
+                      max="45"
+                      step="5"
+                      value={Math.round(editAveragingInput.trimRatio * 100)}
+                      onChange={(e) => setEditAveragingInput({
+                        ...editAveragingInput,
+                        trimRatio: Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), 45) / 100,
+                      })}
+                      className={styles.settingsInput}
+                    />
+                    <span className={styles.settingsHint}>%</span>
+                  </div>
+                )}
+                <div className={styles.settingsRow}>
+                  <label htmlFor="editRejectOutliersInput" className={styles.checkboxLabel}>
                     <input
-                      id="editReleasePeakAlign"
+                      id="editRejectOutliersInput"
                       type="checkbox"
-                      checked={editReleasePeakAlignInput}
-                      onChange={(e) => setEditReleasePeakAlignInput(e.target.checked)}
+                      checked={editAveragingInput.rejectOutliers}
+                      onChange={(e) => setEditAveragingInput({ ...editAveragingInput, rejectOutliers: e.target.checked })}
                       className={styles.checkbox}
                     />
-                    ピーク同期モード
+                    外れ値ウィンドウを除外
                   </label>
                 </div>
+                {editAveragingInput.rejectOutliers && (
+                  <>
+                    <div className={styles.settingsRow}>
+                      <label htmlFor="editMinCorrelationInput">最小相関係数:</label>
+                      <input
+                        id="editMinCorrelationInput"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={editAveragingInput.minCorrelation}
+                        onChange={(e) => setEditAveragingInput({ ...editAveragingInput, minCorrelation: parseFloat(e.target.value) || 0 })}
+                        className={styles.settingsInput}
+                      />
+                      <span className={styles.settingsHint}>中央値波形との相関</span>
+                    </div>
+                    <div className={styles.settingsRow}>
+                      <label htmlFor="editMaxPeakLevelZScoreInput">ピークレベル閾値:</label>
+                      <input
+                        id="editMaxPeakLevelZScoreInput"
+                        type="number"
+                        min="1"
+                        max="10"
+                        step="0.5"
+                        value={editAveragingInput.maxPeakLevelZScore}
+                        onChange={(e) => setEditAveragingInput({ ...editAveragingInput, maxPeakLevelZScore: parseFloat(e.target.value) || DEFAULT_AVERAGING_OPTIONS.maxPeakLevelZScore })}
+                        className={styles.settingsInput}
+                      />
+                      <span className={styles.settingsHint}>修正Zスコア</span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
             <div className={styles.modalFooter}>
@@ -1,154 +1,216 @@
-import { useEffect, useRef, useMemo, useState } from 'react'
+import { useEffect, useRef, useState, type MouseEvent } from 'react'
 import styles from './SpectrumDisplay.module.css'
 import { DEFAULT_SAMPLE_RATE } from '../contexts/AudioContextProvider'
+import {
+  DEFAULT_SPECTRUM_SETTINGS,
+  SPECTRUM_AVERAGING_LABELS,
+  WELCH_OVERLAPS,
+  WELCH_SEGMENT_SIZES,
+  toDB,
+  type SpectrumAveraging,
+  type SpectrumSettings,
+} from '../utils/dsp'
+import { WINDOW_FUNCTION_LABELS, type WindowFunction } from '../utils/windowFunctions'
+import {
+  SMOOTHING_FRACTIONS,
+  SPECTRUM_VIEW_MODE_LABELS,
+  calculateSpectrumCurve,
+  calculateThirdOctaveLevels,
+  formatSmoothing,
+  type SpectrumViewMode,
+} from '../utils/spectrumView'
+import {
+  buildBandLevelCsv,
+  buildSpectrumCsv,
+  downloadCanvasImage,
+  downloadCsv,
+  formatSpectrogramSettings,
+  formatSpectrogramView,
+  formatSpectrumSettings,
+  formatSpectrumView,
+} from '../utils/plotExport'
+import {
+  COLORMAP_LABELS,
+  SPECTROGRAM_FREQUENCY_SCALE_LABELS,
+  createFrequencyAxis,
+  getColormapColor,
+  getFrequencyTicks,
+  getSpectrogramCell,
+  getSpectrogramPeakDB,
+  renderSpectrogramPixels,
+  type Colormap,
+  type SpectrogramCell,
+  type SpectrogramFrames,
+  type SpectrogramFrequencyScale,
+} from '../utils/spectrogramView'
+import { getTimeStep, getVisibleTimeRange, type TimeRange } from '../utils/timeAxis'
+import type { Spectrogram } from '../utils/dsp'
+import { useSpectrumAnalysis } from '../hooks/useSpectrumAnalysis'
 
 interface SpectrumDisplayProps {
   waveformData: Float32Array | null
   title?: string
   sampleRate?: number
+  zoomRange?: TimeRange | null    // スペクトログラムの横軸ズーム範囲（onZoomChange と合わせて指定すると波形と同期する）
+  onZoomChange?: (range: TimeRange | null) => void
 }
 
-// FFT実装（Cooley-Tukey algorithm）
-function fft(real: Float64Array, imag: Float64Array): void {
-  const n = real.length
-  if (n <= 1) return
-
-  // ビットリバース並び替え
-  let j = 0
-  for (let i = 0; i < n - 1; i++) {
-    if (i < j) {
-      [real[i], real[j]] = [real[j], real[i]];
-      [imag[i], imag[j]] = [imag[j], imag[i]]
-    }
-    let k = n >> 1
-    while (k <= j) {
-      j -= k
-      k >>= 1
-    }
-    j += k
-  }
+// 帯域の棒にレベルを表示する最小の幅 (px)
+const BAND_LABEL_MIN_WIDTH = 18
 
-  // バタフライ演算
-  for (let len = 2; len <= n; len <<= 1) {
-    const halfLen = len >> 1
-    const angle = -2 * Math.PI / len
-    for (let i = 0; i < n; i += len) {
-      for (let k = 0; k < halfLen; k++) {
-        const theta = angle * k
-        const cos = Math.cos(theta)
-        const sin = Math.sin(theta)
-        const idx1 = i + k
-        const idx2 = i + k + halfLen
-        const tReal = real[idx2] * cos - imag[idx2] * sin
-        const tImag = real[idx2] * sin + imag[idx2] * cos
-        real[idx2] = real[idx1] - tReal
-        imag[idx2] = imag[idx1] - tImag
-        real[idx1] += tReal
-        imag[idx1] += tImag
-      }
-    }
-  }
-}
+// スペクトログラムのキャンバスの大きさと余白 (px)
+const SPECTROGRAM_WIDTH = 800
+const SPECTROGRAM_HEIGHT = 350
+const SPECTROGRAM_MARGIN = { top: 20, right: 70, bottom: 40, left: 60 }
+const SPECTROGRAM_PLOT_WIDTH = SPECTROGRAM_WIDTH - SPECTROGRAM_MARGIN.left - SPECTROGRAM_MARGIN.right
+const SPECTROGRAM_PLOT_HEIGHT = SPECTROGRAM_HEIGHT - SPECTROGRAM_MARGIN.top - SPECTROGRAM_MARGIN.bottom
 
-// 2のべき乗に切り上げ
-function nextPowerOf2(n: number): number {
-  return Math.pow(2, Math.ceil(Math.log2(n)))
-}
-
-// ハニング窓
-function hanningWindow(data: Float32Array): Float32Array {
-  const n = data.length
-  const windowed = new Float32Array(n)
-  for (let i = 0; i < n; i++) {
-    const multiplier = 0.5 * (1 - Math.cos(2 * Math.PI * i / (n - 1)))
-    windowed[i] = data[i] * multiplier
-  }
-  return windowed
-}
-
-// パワースペクトル計算
-function computePowerSpectrum(data: Float32Array, fftSize: number): Float64Array {
-  const paddedSize = Math.max(fftSize, nextPowerOf2(data.length))
-  const real = new Float64Array(paddedSize)
-  const imag = new Float64Array(paddedSize)
+// スペクトログラムのフレーム間隔（FFT サイズに対する比）
+const SPECTROGRAM_HOP_RATIO = 1 / 4
 
-  // 窓関数適用
-  const windowed = hanningWindow(data)
-  for (let i = 0; i < windowed.length; i++) {
-    real[i] = windowed[i]
-  }
+// ダイナミックレンジ・上限の選択肢 (dB)
+const DYNAMIC_RANGES = [40, 60, 80, 100, 120]
+const TOP_LEVELS = [0, -20, -40, -60]
 
-  fft(real, imag)
+// ズームとみなすドラッグの最小幅（プロット幅に対する比。これより短い場合はクリックとして無視する）
+const MIN_ZOOM_DRAG = 0.01
 
-  // パワースペクトル（片側）
-  const spectrum = new Float64Array(paddedSize / 2)
-  for (let i = 0; i < spectrum.length; i++) {
-    spectrum[i] = (real[i] * real[i] + imag[i] * imag[i]) / paddedSize
-  }
-
-  return spectrum
+/**
+ * スペクトログラムのフレームの配置（解析中に FFT サイズを変えても、表示中の結果に合わせる）
+ */
+function getSpectrogramFrames(spectrogram: Spectrogram, sampleRate: number): SpectrogramFrames {
+  const fftSize = spectrogram.freqBins * 2
+  return { sampleRate, fftSize, hopSize: fftSize * SPECTROGRAM_HOP_RATIO }
 }
 
-// STFT（短時間フーリエ変換）でスペクトログラム計算
-function computeSpectrogram(
-  data: Float32Array,
-  fftSize: number,
-  hopSize: number
-): { spectrogram: Float64Array[]; timeSteps: number; freqBins: number } {
-  const frames: Float64Array[] = []
-  const freqBins = fftSize / 2
-
-  for (let start = 0; start + fftSize <= data.length; start += hopSize) {
-    const frame = data.slice(start, start + fftSize)
-    const spectrum = computePowerSpectrum(frame, fftSize)
-    frames.push(spectrum)
-  }
-
+/**
+ * マウスの位置をスペクトログラムのプロット領域上の位置にする
+ * @returns 左上を (0, 0)、右下を (1, 1) とした位置（領域外は 0〜1 の範囲外になる）
+ */
+function getPlotPosition(event: MouseEvent<HTMLCanvasElement>): { x: number; y: number } {
+  const rect = event.currentTarget.getBoundingClientRect()
+  const canvasX = (event.clientX - rect.left) * SPECTROGRAM_WIDTH / rect.width
+  const canvasY = (event.clientY - rect.top) * SPECTROGRAM_HEIGHT / rect.height
   return {
-    spectrogram: frames,
-    timeSteps: frames.length,
-    freqBins,
+    x: (canvasX - SPECTROGRAM_MARGIN.left) / SPECTROGRAM_PLOT_WIDTH,
+    y: (canvasY - SPECTROGRAM_MARGIN.top) / SPECTROGRAM_PLOT_HEIGHT,
   }
 }
 
-// dB変換
-function toDB(value: number, minDB: number = -100): number {
-  if (value <= 0) return minDB
-  const db = 10 * Math.log10(value)
-  return Math.max(db, minDB)
-}
-
-// カラーマップ（Viridis風）
-function getColor(value: number, min: number, max: number): string {
-  const normalized = Math.max(0, Math.min(1, (value - min) / (max - min)))
-  
-  // Viridis-like colormap
-  const r = Math.round(68 + normalized * (253 - 68))
-  const g = Math.round(1 + normalized * (231 - 1) * Math.sin(normalized * Math.PI * 0.9))
-  const b = Math.round(84 + (1 - normalized) * (150))
-  
-  return `rgb(${r}, ${g}, ${b})`
+function isInsidePlot({ x, y }: { x: number; y: number }): boolean {
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1
 }
 
-export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate = DEFAULT_SAMPLE_RATE }: SpectrumDisplayProps) {
+export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate = DEFAULT_SAMPLE_RATE, zoomRange, onZoomChange }: SpectrumDisplayProps) {
   const spectrumCanvasRef = useRef<HTMLCanvasElement>(null)
   const spectrogramCanvasRef = useRef<HTMLCanvasElement>(null)
   const [fftSize, setFftSize] = useState(2048)
   const [maxFreq, setMaxFreq] = useState(20000)
   const [freqScale, setFreqScale] = useState<'log' | 'linear'>('log')
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>(DEFAULT_SPECTRUM_SETTINGS)
+  const [viewMode, setViewMode] = useState<SpectrumViewMode>('curve')
+  const [smoothing, setSmoothing] = useState(0)  // 1/N オクターブの N（0 は平滑化なし）
+  const [spectrogramScale, setSpectrogramScale] = useState<SpectrogramFrequencyScale>('linear')
+  const [colormap, setColormap] = useState<Colormap>('viridis')
+  const [dynamicRange, setDynamicRange] = useState(80)
+  const [topLevel, setTopLevel] = useState<number | null>(null)  // 色の上限 (dB)。null は最大値に合わせる
+  const [localZoomRange, setLocalZoomRange] = useState<TimeRange | null>(null)  // null は全体表示
+  const [dragRange, setDragRange] = useState<{ start: number; end: number } | null>(null)  // ドラッグ中の範囲（プロット幅に対する比）
+  const [hoverCell, setHoverCell] = useState<SpectrogramCell | null>(null)
+
+  // パワースペクトル・スペクトログラム計算（Web Worker で計算し、完了するまでは前の描画を残す）
+  const hopSize = fftSize * SPECTROGRAM_HOP_RATIO
+  const { analysis, isAnalyzing } = useSpectrumAnalysis(waveformData, fftSize, hopSize, spectrumSettings)
+  const powerSpectrum = analysis?.powerSpectrum ?? null
+  const spectrogramData = analysis?.spectrogram ?? null
+
+  // スペクトログラムの色の範囲（上限を自動にした場合は、ズームしても色が変わらないよう全体の最大値に合わせる）
+  const maxDB = topLevel ?? Math.ceil(spectrogramData ? getSpectrogramPeakDB(spectrogramData, sampleRate, maxFreq) : 0)
+  const minDB = maxDB - dynamicRange
+
+  // スペクトログラムの横軸ズーム（onZoomChange を指定した場合は親のズーム範囲を使う）
+  const totalDurationMs = waveformData ? waveformData.length / sampleRate * 1000 : 0
+  const appliedZoomRange = onZoomChange ? zoomRange ?? null : localZoomRange
+  const { startMs: viewStartMs, endMs: viewEndMs } = getVisibleTimeRange(appliedZoomRange, totalDurationMs)
+  const changeZoom = (range: TimeRange | null) => {
+    if (onZoomChange) {
+      onZoomChange(range)
+    } else {
+      setLocalZoomRange(range)
+    }
+  }
 
-  // パワースペクトル計算
-  const powerSpectrum = useMemo(() => {
-    if (!waveformData || waveformData.length === 0) return null
-    return computePowerSpectrum(waveformData, fftSize)
-  }, [waveformData, fftSize])
+  // スペクトログラム上のドラッグで時間範囲を拡大し、ホバー位置の値を表示する
+  const handleSpectrogramMouseDown = (event: MouseEvent<HTMLCanvasElement>) => {
+    const position = getPlotPosition(event)
+    if (isInsidePlot(position)) setDragRange({ start: position.x, end: position.x })
+  }
+  const handleSpectrogramMouseMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    const position = getPlotPosition(event)
+    if (dragRange) {
+      setDragRange({ ...dragRange, end: Math.max(0, Math.min(1, position.x)) })
+    }
+    if (!spectrogramData || !isInsidePlot(position)) {
+      setHoverCell(null)
+      return
+    }
+    const axis = createFrequencyAxis(spectrogramScale, maxFreq)
+    setHoverCell(getSpectrogramCell(
+      spectrogramData,
+      getSpectrogramFrames(spectrogramData, sampleRate),
+      viewStartMs + position.x * (viewEndMs - viewStartMs),
+      axis.fromPosition(1 - position.y)
+    ))
+  }
+  const handleSpectrogramMouseUp = () => {
+    if (!dragRange) return
+    setDragRange(null)
+    const start = Math.min(dragRange.start, dragRange.end)
+    const end = Math.max(dragRange.start, dragRange.end)
+    if (end - start < MIN_ZOOM_DRAG) return
+    const durationMs = viewEndMs - viewStartMs
+    changeZoom({ startMs: viewStartMs + start * durationMs, endMs: viewStartMs + end * durationMs })
+  }
+  const handleSpectrogramMouseLeave = () => {
+    setDragRange(null)
+    setHoverCell(null)
+  }
+
+  const updateSpectrumSettings = (changes: Partial<SpectrumSettings>) => {
+    setSpectrumSettings(prev => ({ ...prev, ...changes }))
+  }
 
-  // スペクトログラム計算
-  const spectrogramData = useMemo(() => {
-    if (!waveformData || waveformData.length === 0) return null
-    const hopSize = fftSize / 4
-    return computeSpectrogram(waveformData, fftSize, hopSize)
-  }, [waveformData, fftSize])
+  // 解析設定を記録して書き出す
+  const fileBaseName = title.replace(/[\\/:*?"<>|\s]+/g, '_')
+  const exportSpectrumImage = () => {
+    if (!spectrumCanvasRef.current) return
+    downloadCanvasImage(
+      spectrumCanvasRef.current,
+      [...formatSpectrumSettings(spectrumSettings, fftSize, sampleRate), formatSpectrumView(viewMode, smoothing)],
+      `${fileBaseName}_spectrum.png`
+    )
+  }
+  // 帯域表示のときは帯域ごとのレベル、それ以外は平滑化前の bin ごとのレベルを書き出す
+  const exportSpectrumCsv = () => {
+    if (!powerSpectrum) return
+    const spectrum = { power: powerSpectrum, binHz: sampleRate / (powerSpectrum.length * 2) }
+    const settingLines = formatSpectrumSettings(spectrumSettings, fftSize, sampleRate)
+    const csv = viewMode === 'bands'
+      ? buildBandLevelCsv([{ name: title, levels: calculateThirdOctaveLevels(spectrum, maxFreq) }], settingLines)
+      : buildSpectrumCsv([{ name: title, ...spectrum }], settingLines)
+    downloadCsv(csv, `${fileBaseName}_${viewMode === 'bands' ? 'bands' : 'spectrum'}.csv`)
+  }
+  const exportSpectrogramImage = () => {
+    if (!spectrogramCanvasRef.current) return
+    downloadCanvasImage(
+      spectrogramCanvasRef.current,
+      [
+        ...formatSpectrogramSettings(spectrumSettings.windowFunction, fftSize, hopSize, sampleRate),
+        formatSpectrogramView(spectrogramScale, colormap, minDB, maxDB, { startMs: viewStartMs, endMs: viewEndMs }),
+      ],
+      `${fileBaseName}_spectrogram.png`
+    )
+  }
 
   // パワースペクトル描画
   useEffect(() => {
@@ -230,29 +292,41 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
       ctx.fillText(`${db} dB`, margin.left - 5, y + 4)
     }
 
-    // スペクトル描画
-    ctx.strokeStyle = '#00ff88'
-    ctx.lineWidth = 1.5
-    ctx.beginPath()
-
-    let isFirstPoint = true
-    const startBin = freqScale === 'log' ? 1 : 0 // 対数の場合はDC成分スキップ
-    for (let i = startBin; i < maxBin; i++) {
-      const freq = i * freqResolution
-      if (freqScale === 'log' && freq < minFreq) continue
-      
-      const x = freqToX(freq)
-      const db = toDB(powerSpectrum[i])
-      const y = margin.top + plotHeight - ((db - minDB) / (maxDB - minDB)) * plotHeight
-
-      if (isFirstPoint) {
-        ctx.moveTo(x, y)
-        isFirstPoint = false
-      } else {
-        ctx.lineTo(x, y)
+    const dbToY = (db: number): number => margin.top + plotHeight - ((db - minDB) / (maxDB - minDB)) * plotHeight
+    const spectrum = { power: powerSpectrum, binHz: freqResolution }
+
+    if (viewMode === 'bands') {
+      // 1/3 オクターブ帯域ごとの棒グラフ（幅に余裕がある場合はレベルも表示）
+      ctx.font = '9px monospace'
+      ctx.textAlign = 'center'
+      for (const { band, level } of calculateThirdOctaveLevels(spectrum, maxFreq)) {
+        const x0 = freqToX(band.lowHz)
+        const x1 = freqToX(Math.min(band.highHz, maxFreq))
+        const y = dbToY(Math.max(level, minDB))
+        ctx.fillStyle = '#00ff88'
+        ctx.fillRect(x0 + 1, y, Math.max(1, x1 - x0 - 2), margin.top + plotHeight - y)
+        if (x1 - x0 >= BAND_LABEL_MIN_WIDTH) {
+          ctx.fillStyle = '#ccc'
+          ctx.fillText(level.toFixed(0), (x0 + x1) / 2, y - 3)
+        }
       }
+    } else {
+      // スペクトル描画（対数の場合は 20Hz 未満を描画しない）
+      const curve = calculateSpectrumCurve(spectrum, smoothing, freqScale === 'log' ? minFreq : 0, maxFreq)
+      ctx.strokeStyle = '#00ff88'
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      curve.frequencies.forEach((freq, i) => {
+        const x = freqToX(freq)
+        const y = dbToY(curve.levels[i])
+        if (i === 0) {
+          ctx.moveTo(x, y)
+        } else {
+          ctx.lineTo(x, y)
+        }
+      })
+      ctx.stroke()
     }
-    ctx.stroke()
 
     // 軸ラベル
     ctx.fillStyle = '#ccc'
@@ -266,7 +340,7 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
     ctx.fillText('パワー (dB)', 0, 0)
     ctx.restore()
 
-  }, [powerSpectrum, maxFreq, freqScale])
+  }, [powerSpectrum, maxFreq, freqScale, viewMode, smoothing])
 
   // スペクトログラム描画
   useEffect(() => {
@@ -278,75 +352,54 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
 
     const width = canvas.width
     const height = canvas.height
-    const margin = { top: 20, right: 70, bottom: 40, left: 60 }
-    const plotWidth = width - margin.left - margin.right
-    const plotHeight = height - margin.top - margin.bottom
+    const margin = SPECTROGRAM_MARGIN
+    const plotWidth = SPECTROGRAM_PLOT_WIDTH
+    const plotHeight = SPECTROGRAM_PLOT_HEIGHT
 
     // クリア
     ctx.fillStyle = '#1a1a2e'
     ctx.fillRect(0, 0, width, height)
 
-    const { spectrogram, timeSteps, freqBins } = spectrogramData
-    if (timeSteps === 0) return
-
-    // 周波数分解能
-    const freqResolution = sampleRate / (freqBins * 2)
-    const maxBin = Math.min(Math.ceil(maxFreq / freqResolution), freqBins)
-
-    // dB変換してmin/max取得
-    let minDB = -100
-    let maxDB = -100
-    for (const frame of spectrogram) {
-      for (let i = 0; i < maxBin; i++) {
-        const db = toDB(frame[i])
-        if (db > maxDB) maxDB = db
-      }
-    }
-    maxDB = Math.max(maxDB, -20)
-
-    // スペクトログラム描画
-    const cellWidth = plotWidth / timeSteps
-    const cellHeight = plotHeight / maxBin
-
-    for (let t = 0; t < timeSteps; t++) {
-      for (let f = 0; f < maxBin; f++) {
-        const db = toDB(spectrogram[t][f])
-        const color = getColor(db, minDB, maxDB)
-        ctx.fillStyle = color
-        const x = margin.left + t * cellWidth
-        const y = margin.top + plotHeight - (f + 1) * cellHeight
-        ctx.fillRect(x, y, cellWidth + 1, cellHeight + 1)
-      }
-    }
+    if (spectrogramData.timeSteps === 0) return
+
+    // スペクトログラム描画（表示サイズの画素を作って一度に転送する）
+    const axis = createFrequencyAxis(spectrogramScale, maxFreq)
+    const pixels = renderSpectrogramPixels(spectrogramData, {
+      width: plotWidth,
+      height: plotHeight,
+      frames: getSpectrogramFrames(spectrogramData, sampleRate),
+      timeRange: { startMs: viewStartMs, endMs: viewEndMs },
+      axis,
+      minDB,
+      maxDB,
+      colormap,
+    })
+    ctx.putImageData(new ImageData(pixels, plotWidth, plotHeight), margin.left, margin.top)
 
     // グリッド描画
     ctx.strokeStyle = 'rgba(255,255,255,0.2)'
     ctx.lineWidth = 1
 
     // 時間グリッド
-    const totalDuration = waveformData.length / sampleRate * 1000
-    const timeStepMs = 10
+    const viewDurationMs = viewEndMs - viewStartMs
+    const timeStepMs = getTimeStep(viewDurationMs)
     ctx.font = '11px monospace'
     ctx.fillStyle = '#888'
     ctx.textAlign = 'center'
 
-    for (let ms = 0; ms <= totalDuration; ms += timeStepMs) {
-      const x = margin.left + (ms / totalDuration) * plotWidth
+    for (let ms = Math.ceil(viewStartMs / timeStepMs) * timeStepMs; ms <= viewEndMs; ms += timeStepMs) {
+      const x = margin.left + ((ms - viewStartMs) / viewDurationMs) * plotWidth
       ctx.beginPath()
       ctx.moveTo(x, margin.top)
       ctx.lineTo(x, margin.top + plotHeight)
       ctx.stroke()
-      if (ms % 20 === 0) {
-        ctx.fillText(`${ms}`, x, height - 10)
-      }
+      ctx.fillText(`${ms}`, x, height - 22)
     }
 
     // 周波数グリッド
-    const freqSteps = [1000, 2000, 5000, 10000]
     ctx.textAlign = 'right'
-    for (const freq of freqSteps) {
-      if (freq > maxFreq) continue
-      const y = margin.top + plotHeight - (freq / maxFreq) * plotHeight
+    for (const freq of getFrequencyTicks(spectrogramScale, maxFreq)) {
+      const y = margin.top + plotHeight - axis.toPosition(freq) * plotHeight
       ctx.beginPath()
       ctx.moveTo(margin.left, y)
       ctx.lineTo(margin.left + plotWidth, y)
@@ -363,7 +416,7 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
     ctx.save()
     ctx.translate(15, margin.top + plotHeight / 2)
     ctx.rotate(-Math.PI / 2)
-    ctx.fillText('周波数 (Hz)', 0, 0)
+    ctx.fillText(`周波数 (Hz) - ${SPECTROGRAM_FREQUENCY_SCALE_LABELS[spectrogramScale]}`, 0, 0)
     ctx.restore()
 
     // カラーバー
@@ -373,7 +426,7 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
 
     for (let i = 0; i < barHeight; i++) {
       const db = minDB + (1 - i / barHeight) * (maxDB - minDB)
-      ctx.fillStyle = getColor(db, minDB, maxDB)
+      ctx.fillStyle = getColormapColor(colormap, db, minDB, maxDB)
       ctx.fillRect(barX, margin.top + i, barWidth, 1)
     }
 
@@ -387,7 +440,7 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
     ctx.fillText(`${maxDB.toFixed(0)}dB`, barX + barWidth + 3, margin.top + 10)
     ctx.fillText(`${minDB.toFixed(0)}dB`, barX + barWidth + 3, margin.top + barHeight)
 
-  }, [spectrogramData, waveformData, maxFreq])
+  }, [spectrogramData, waveformData, sampleRate, maxFreq, spectrogramScale, colormap, minDB, maxDB, viewStartMs, viewEndMs])
 
   if (!waveformData) return null
 
@@ -443,10 +496,106 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
             <option value="linear">線形</option>
           </select>
         </div>
+
+        <div className={styles.controlGroup}>
+          <label htmlFor="spectrumView">表示:</label>
+          <select
+            id="spectrumView"
+            value={viewMode}
+            onChange={(e) => setViewMode(e.target.value as SpectrumViewMode)}
+            className={styles.select}
+          >
+            {(Object.keys(SPECTRUM_VIEW_MODE_LABELS) as SpectrumViewMode[]).map(mode => (
+              <option key={mode} value={mode}>{SPECTRUM_VIEW_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.controlGroup}>
+          <label htmlFor="smoothing">平滑化:</label>
+          <select
+            id="smoothing"
+            value={smoothing}
+            onChange={(e) => setSmoothing(Number(e.target.value))}
+            className={styles.select}
+            disabled={viewMode === 'bands'}
+          >
+            {[0, ...SMOOTHING_FRACTIONS].map(fraction => (
+              <option key={fraction} value={fraction}>{formatSmoothing(fraction)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.controlGroup}>
+          <label htmlFor="windowFunction">窓関数:</label>
+          <select
+            id="windowFunction"
+            value={spectrumSettings.windowFunction}
+            onChange={(e) => updateSpectrumSettings({ windowFunction: e.target.value as WindowFunction })}
+            className={styles.select}
+          >
+            {(Object.keys(WINDOW_FUNCTION_LABELS) as WindowFunction[]).map(type => (
+              <option key={type} value={type}>{WINDOW_FUNCTION_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.controlGroup}>
+          <label htmlFor="averaging">平均化:</label>
+          <select
+            id="averaging"
+            value={spectrumSettings.averaging}
+            onChange={(e) => updateSpectrumSettings({ averaging: e.target.value as SpectrumAveraging })}
+            className={styles.select}
+          >
+            {(Object.keys(SPECTRUM_AVERAGING_LABELS) as SpectrumAveraging[]).map(method => (
+              <option key={method} value={method}>{SPECTRUM_AVERAGING_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+
+        {spectrumSettings.averaging === 'welch' && (
+          <div className={styles.controlGroup}>
+            <label htmlFor="segmentSize">セグメント長:</label>
+            <select
+              id="segmentSize"
+              value={spectrumSettings.segmentSize}
+              onChange={(e) => updateSpectrumSettings({ segmentSize: Number(e.target.value) })}
+              className={styles.select}
+            >
+              {WELCH_SEGMENT_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+            <span className={styles.hint}>
+              (分解能: {(sampleRate / spectrumSettings.segmentSize).toFixed(1)} Hz)
+            </span>
+            <label htmlFor="overlap">オーバーラップ:</label>
+            <select
+              id="overlap"
+              value={spectrumSettings.overlap}
+              onChange={(e) => updateSpectrumSettings({ overlap: Number(e.target.value) })}
+              className={styles.select}
+            >
+              {WELCH_OVERLAPS.map(overlap => (
+                <option key={overlap} value={overlap}>{overlap * 100}%</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       <div className={styles.section}>
-        <h4>パワースペクトル</h4>
+        <div className={styles.sectionHeader}>
+          <h4>
+            パワースペクトル
+            {isAnalyzing && <span className={styles.analyzing}>計算中...</span>}
+          </h4>
+          <div className={styles.exportButtons}>
+            <button onClick={exportSpectrumImage} disabled={!powerSpectrum}>PNG保存</button>
+            <button onClick={exportSpectrumCsv} disabled={!powerSpectrum}>CSV保存</button>
+          </div>
+        </div>
         <canvas
           ref={spectrumCanvasRef}
           width={800}
@@ -456,13 +605,106 @@ export function SpectrumDisplay({ waveformData, title = 'FFT解析', sampleRate
       </div>
 
       <div className={styles.section}>
-        <h4>スペクトログラム</h4>
-        <canvas
-          ref={spectrogramCanvasRef}
-          width={800}
-          height={350}
-          className={styles.canvas}
-        />
+        <div className={styles.sectionHeader}>
+          <h4>
+            スペクトログラム
+            {isAnalyzing && <span className={styles.analyzing}>計算中...</span>}
+          </h4>
+          <div className={styles.exportButtons}>
+            <button onClick={exportSpectrogramImage} disabled={!spectrogramData}>PNG保存</button>
+          </div>
+        </div>
+        <div className={styles.controls}>
+          <div className={styles.controlGroup}>
+            <label htmlFor="spectrogramScale">周波数軸:</label>
+            <select
+              id="spectrogramScale"
+              value={spectrogramScale}
+              onChange={(e) => setSpectrogramScale(e.target.value as SpectrogramFrequencyScale)}
+              className={styles.select}
+            >
+              {(Object.keys(SPECTROGRAM_FREQUENCY_SCALE_LABELS) as SpectrogramFrequencyScale[]).map(scale => (
+                <option key={scale} value={scale}>{SPECTROGRAM_FREQUENCY_SCALE_LABELS[scale]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.controlGroup}>
+            <label htmlFor="colormap">カラーマップ:</label>
+            <select
+              id="colormap"
+              value={colormap}
+              onChange={(e) => setColormap(e.target.value as Colormap)}
+              className={styles.select}
+            >
+              {(Object.keys(COLORMAP_LABELS) as Colormap[]).map(type => (
+                <option key={type} value={type}>{COLORMAP_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.controlGroup}>
+            <label htmlFor="topLevel">上限:</label>
+            <select
+              id="topLevel"
+              value={topLevel ?? 'auto'}
+              onChange={(e) => setTopLevel(e.target.value === 'auto' ? null : Number(e.target.value))}
+              className={styles.select}
+            >
+              <option value="auto">自動（最大値）</option>
+              {TOP_LEVELS.map(level => (
+                <option key={level} value={level}>{level} dB</option>
+              ))}
+            </select>
+            <label htmlFor="dynamicRange">ダイナミックレンジ:</label>
+            <select
+              id="dynamicRange"
+              value={dynamicRange}
+              onChange={(e) => setDynamicRange(Number(e.target.value))}
+              className={styles.select}
+            >
+              {DYNAMIC_RANGES.map(range => (
+                <option key={range} value={range}>{range} dB</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className={styles.canvasWrapper}>
+          <canvas
+            ref={spectrogramCanvasRef}
+            width={SPECTROGRAM_WIDTH}
+            height={SPECTROGRAM_HEIGHT}
+            className={`${styles.canvas} ${styles.spectrogramCanvas}`}
+            onMouseDown={handleSpectrogramMouseDown}
+            onMouseMove={handleSpectrogramMouseMove}
+            onMouseUp={handleSpectrogramMouseUp}
+            onMouseLeave={handleSpectrogramMouseLeave}
+          />
+          {dragRange && (
+            <div
+              className={styles.selection}
+              style={{
+                left: `${(SPECTROGRAM_MARGIN.left + Math.min(dragRange.start, dragRange.end) * SPECTROGRAM_PLOT_WIDTH) / SPECTROGRAM_WIDTH * 100}%`,
+                width: `${Math.abs(dragRange.end - dragRange.start) * SPECTROGRAM_PLOT_WIDTH / SPECTROGRAM_WIDTH * 100}%`,
+                top: `${SPECTROGRAM_MARGIN.top / SPECTROGRAM_HEIGHT * 100}%`,
+                height: `${SPECTROGRAM_PLOT_HEIGHT / SPECTROGRAM_HEIGHT * 100}%`,
+              }}
+            />
+          )}
+        </div>
+        <div className={styles.spectrogramInfo}>
+          <span className={styles.hint}>
+            {hoverCell
+              ? `${hoverCell.timeMs.toFixed(1)} ms / ${hoverCell.frequency.toFixed(0)} Hz / ${hoverCell.level.toFixed(1)} dB`
+              : 'ドラッグで時間範囲を拡大'}
+          </span>
+          <span className={styles.hint}>
+            表示範囲: {viewStartMs.toFixed(1)}〜{viewEndMs.toFixed(1)} ms
+          </span>
+          {appliedZoomRange && (
+            <button onClick={() => changeZoom(null)}>全体表示</button>
+          )}
+        </div>
       </div>
     </div>
   )
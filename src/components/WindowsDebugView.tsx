@@ -1,20 +1,25 @@
 import { useState, useRef, useEffect } from 'react'
-import type { WindowInfo } from '../utils/waveformProcessing'
+import { WINDOW_REJECTION_REASON_LABELS, type WindowInfo, type WindowRejection } from '../utils/waveformProcessing'
 import styles from './WindowsDebugView.module.css'
 
 interface WindowsDebugViewProps {
   title: string
   windows: WindowInfo[]
   sampleRate: number
+  onToggleExclusion?: (timestampMs: number) => void  // 指定しない場合は除外を切り替えられない
 }
 
-export function WindowsDebugView({ title, windows, sampleRate }: WindowsDebugViewProps) {
+export function WindowsDebugView({ title, windows, sampleRate, onToggleExclusion }: WindowsDebugViewProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
   if (windows.length === 0) {
     return null
   }
 
+  const excludedCount = windows.filter(w => w.excluded).length
+  const rejectedCount = windows.filter(w => w.rejection !== null).length
+  const usedCount = windows.length - excludedCount - rejectedCount
+
   return (
     <div className={styles.container}>
       <button 
@@ -22,7 +27,9 @@ export function WindowsDebugView({ title, windows, sampleRate }: WindowsDebugVie
         onClick={() => setIsExpanded(!isExpanded)}
       >
         <span className={styles.toggleIcon}>{isExpanded ? '▼' : '▶'}</span>
-        {title} ({windows.length}個のウィンドウ)
+        {title} ({windows.length}個のウィンドウ
+        {excludedCount > 0 && `、${excludedCount}個を手動で除外`}
+        {rejectedCount > 0 && `、${rejectedCount}個を外れ値として除外`})
       </button>
       
       {isExpanded && (
@@ -33,6 +40,10 @@ export function WindowsDebugView({ title, windows, sampleRate }: WindowsDebugVie
               window={window}
               index={index}
               sampleRate={sampleRate}
+              // 平均波形がなくならないよう、最後の1つは除外できない
+              onToggleExclusion={onToggleExclusion && !(usedCount === 1 && !window.excluded && window.rejection === null)
+                ? () => onToggleExclusion(window.timestampMs)
+                : undefined}
             />
           ))}
         </div>
@@ -45,9 +56,10 @@ interface WindowCanvasProps {
   window: WindowInfo
   index: number
   sampleRate: number
+  onToggleExclusion?: () => void
 }
 
-function WindowCanvas({ window, index, sampleRate }: WindowCanvasProps) {
+function WindowCanvas({ window, index, sampleRate, onToggleExclusion }: WindowCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   
   useEffect(() => {
@@ -76,8 +88,8 @@ function WindowCanvas({ window, index, sampleRate }: WindowCanvasProps) {
     }
     if (maxAmp === 0) maxAmp = 1
     
-    // 波形描画
-    ctx.strokeStyle = '#4CAF50'
+    // 波形描画（除外したウィンドウは灰色）
+    ctx.strokeStyle = window.excluded || window.rejection ? '#777' : '#4CAF50'
     ctx.lineWidth = 1
     ctx.beginPath()
     
@@ -108,19 +120,41 @@ function WindowCanvas({ window, index, sampleRate }: WindowCanvasProps) {
     ctx.fillStyle = '#ff4444'
     ctx.font = '10px sans-serif'
     ctx.fillText(`Peak: ${peakMs.toFixed(1)}ms`, peakX + 3, 12)
+
+    // オンセット位置を描画（黄色の縦線）
+    const onsetX = (window.onsetIndex / data.length) * width
+    ctx.strokeStyle = '#ffcc00'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(onsetX, 0)
+    ctx.lineTo(onsetX, height)
+    ctx.stroke()
     
   }, [window, sampleRate])
   
   const durationMs = (window.data.length / sampleRate) * 1000
   const peakMs = (window.peakIndex / sampleRate) * 1000
+  const onsetMs = (window.onsetIndex / sampleRate) * 1000
   
   return (
-    <div className={styles.windowItem}>
+    <div className={`${styles.windowItem} ${window.excluded || window.rejection ? styles.rejected : ''}`}>
       <div className={styles.windowHeader}>
-        <span className={styles.windowIndex}>#{index + 1}</span>
+        <label className={styles.includeLabel} title="平均化に使用する">
+          <input
+            type="checkbox"
+            checked={!window.excluded}
+            onChange={onToggleExclusion}
+            disabled={!onToggleExclusion}
+          />
+          <span className={styles.windowIndex}>#{index + 1}</span>
+        </label>
+        {window.rejection && (
+          <span className={styles.rejectionBadge}>除外: {formatRejection(window.rejection)}</span>
+        )}
         <span className={styles.windowInfo}>
           タイムスタンプ: {window.timestampMs.toFixed(0)}ms | 
           ピーク: {peakMs.toFixed(1)}ms | 
+          オンセット: {onsetMs.toFixed(1)}ms | 
           長さ: {durationMs.toFixed(1)}ms
         </span>
       </div>
@@ -133,3 +167,13 @@ function WindowCanvas({ window, index, sampleRate }: WindowCanvasProps) {
     </div>
   )
 }
+
+/**
+ * 除外理由を表示用の文字列に変換する
+ */
+function formatRejection(rejection: WindowRejection): string {
+  const label = WINDOW_REJECTION_REASON_LABELS[rejection.reason]
+  return rejection.reason === 'lowCorrelation'
+    ? `${label} (r=${rejection.value.toFixed(2)})`
+    : `${label} (z=${rejection.value.toFixed(1)})`
+}
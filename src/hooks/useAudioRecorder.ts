@@ -5,6 +5,24 @@ import {
   findPeakIndex,
   calculateWindowEndTimestamps
 } from '../utils/waveformProcessing'
+import { extractKeyEventDetails, type KeyEventInfo } from '../utils/keyEvents'
+import {
+  DEFAULT_AUDIO_INPUT_SETTINGS,
+  buildAudioConstraints,
+  getAudioInputInfo,
+  loadSavedDeviceId,
+  saveDeviceId,
+  type AudioInputInfo,
+  type AudioInputSettings
+} from '../utils/audioInput'
+import {
+  CAPTURE_PROCESSOR_NAME,
+  audioTimeToRecordingMs,
+  type CaptureControlMessage,
+  type CaptureProcessorMessage,
+  type CaptureProcessorOptions
+} from '../utils/captureWorklet'
+import captureProcessorUrl from '../worklets/captureProcessor.ts?worker&url'
 import { DEFAULT_SAMPLE_RATE } from '../contexts/AudioContextProvider'
 
 export type RecordingStatus = 'idle' | 'recording' | 'completed' | 'error'
@@ -20,7 +38,8 @@ export interface UseAudioRecorderReturn {
   status: RecordingStatus
   statusMessage: string
   recordingData: Float32Array | null
-  finalRecordingData: Float32Array | null // 録音完了時の最終データ
+  finalRecordingData: Float32Array | null // 録音完了時の最終データ（1チャンネル目）
+  recordingChannels: Float32Array[] | null // 録音完了時のチャンネルごとのデータ
   recordingProgress: number // 0-1の録音進捗
   isRecording: boolean
   canRecord: boolean
@@ -28,6 +47,8 @@ export interface UseAudioRecorderReturn {
   keyUpCount: number // 検出されたキーアップ数
   keyDownTimestamps: number[] // キーダウンのタイムスタンプ (ms)
   keyUpTimestamps: number[] // キーアップのタイムスタンプ (ms)
+  keyDownEvents: KeyEventInfo[] // キーダウンのキー情報（code, key, repeat, 修飾キー）
+  keyUpEvents: KeyEventInfo[] // キーアップのキー情報
   averagedWaveform: Float32Array | null // アタック音の同期加算平均波形
   releaseWaveform: Float32Array | null // リリース音の同期加算平均波形
   combinedWaveform: Float32Array | null // 合成された平均化した打鍵音
@@ -38,6 +59,12 @@ export interface UseAudioRecorderReturn {
   waveformLengthMs: number // 波形長 (ms)
   peakPositionMs: number // ピーク位置オフセット (ms)
   sampleRate: number // サンプルレート (Hz)
+  audioDevices: MediaDeviceInfo[] // 利用可能な音声入力デバイス
+  selectedDeviceId: string // 選択中の入力デバイスID（空文字列は既定のデバイス）
+  audioInputSettings: AudioInputSettings // 要求する入力設定
+  audioInputInfo: AudioInputInfo | null // 実際に取得できた入力トラックの設定
+  setSelectedDeviceId: (deviceId: string) => void
+  setAudioInputSettings: (settings: AudioInputSettings) => void
   startRecording: () => Promise<void>
   initializeAudio: () => Promise<void>
   recalculateAveragedWaveform: (offsetMs: number, peakAlign: boolean) => void
@@ -52,6 +79,12 @@ export interface UseAudioRecorderOptions {
   defaultSampleRate?: number
 }
 
+// 最初のオーディオチャンク受信前に発生したキーイベント
+interface PendingKeyEvent {
+  audioTime: number // AudioContext.currentTime (秒)
+  details: Omit<KeyEventInfo, 'timestampMs'>
+}
+
 export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudioRecorderReturn {
   const { recordingDuration = 1000, defaultSampleRate = DEFAULT_SAMPLE_RATE } = options
   
@@ -73,36 +106,89 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
   const [waveformLengthMs, setWaveformLengthMs] = useState(DEFAULT_WAVEFORM_LENGTH_MS)
   const [peakPositionMs, setPeakPositionMs] = useState(DEFAULT_PEAK_POSITION_MS)
   const [actualSampleRate, setActualSampleRate] = useState(defaultSampleRate) // 実際のサンプルレート
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([])
+  const [selectedDeviceId, setSelectedDeviceIdState] = useState(loadSavedDeviceId)
+  const [audioInputSettings, setAudioInputSettings] = useState<AudioInputSettings>(DEFAULT_AUDIO_INPUT_SETTINGS)
+  const [audioInputInfo, setAudioInputInfo] = useState<AudioInputInfo | null>(null)
 
   const audioContextRef = useRef<AudioContext | null>(null)
   const mediaStreamRef = useRef<MediaStream | null>(null)
   const audioInputRef = useRef<MediaStreamAudioSourceNode | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const recordingStartTimeRef = useRef<number>(0)
-  const audioContextStartTimeRef = useRef<number>(0) // 録音開始時のAudioContext.currentTime (秒)
+  const recordingStartFrameRef = useRef<number>(0) // 録音データ先頭サンプルのAudioContextフレーム番号
+  const captureModuleContextRef = useRef<AudioContext | null>(null) // キャプチャ用ワークレットを読み込み済みのAudioContext
   const firstChunkReceivedRef = useRef<boolean>(false) // 最初のオーディオチャンクを受信したかどうか
-  const pendingKeyDownTimestampsRef = useRef<number[]>([]) // 最初のチャンク前のキーダウンイベント（AudioContext.currentTime）
-  const pendingKeyUpTimestampsRef = useRef<number[]>([]) // 最初のチャンク前のキーアップイベント（AudioContext.currentTime）
+  const pendingKeyDownEventsRef = useRef<PendingKeyEvent[]>([]) // 最初のチャンク前のキーダウンイベント
+  const pendingKeyUpEventsRef = useRef<PendingKeyEvent[]>([]) // 最初のチャンク前のキーアップイベント
   const keyTimestampsRef = useRef<number[]>([])
   const keyUpTimestampsRef = useRef<number[]>([])
-  // 累積サンプル数とplaybackTimeのマッピングを保持（同期補正用）
-  const sampleTimeMapRef = useRef<{ samples: number; playbackTime: number }[]>([])
+  const keyDownEventsRef = useRef<KeyEventInfo[]>([])
+  const keyUpEventsRef = useRef<KeyEventInfo[]>([])
   const finalRecordingDataRef = useRef<Float32Array | null>(null)
+  const recordingChannelsRef = useRef<Float32Array[] | null>(null)
+
+  // 音声入力デバイス一覧を更新（ラベルはマイク許可後でないと取得できない）
+  const refreshAudioDevices = useCallback(async () => {
+    if (!navigator.mediaDevices.enumerateDevices) return
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    setAudioDevices(devices.filter(d => d.kind === 'audioinput'))
+  }, [])
+
+  // 入力デバイスを選択して保存
+  const setSelectedDeviceId = useCallback((deviceId: string) => {
+    saveDeviceId(deviceId)
+    setSelectedDeviceIdState(deviceId)
+  }, [])
 
   const initializeAudio = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      // 既存のストリームを停止してから取り直す
+      mediaStreamRef.current?.getTracks().forEach(track => track.stop())
+      mediaStreamRef.current = null
+
+      let stream: MediaStream
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(selectedDeviceId, audioInputSettings),
+        })
+      } catch (error) {
+        // 保存済みのデバイスが見つからない場合は既定のデバイスで再試行
+        if (!selectedDeviceId) throw error
+        console.warn('選択したデバイスを取得できないため既定のデバイスを使用します:', error)
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints('', audioInputSettings),
+        })
+      }
       mediaStreamRef.current = stream
+
+      const inputInfo = getAudioInputInfo(stream)
+      setAudioInputInfo(inputInfo)
       setCanRecord(true)
       setStatusMessage('')
-      console.log('マイクアクセス許可取得成功')
+      console.log('マイクアクセス許可取得成功', inputInfo)
+
+      await refreshAudioDevices()
     } catch (error) {
       console.error('デバイス取得エラー:', error)
       setStatus('error')
       setStatusMessage('マイクへのアクセスが拒否されました。')
       setCanRecord(false)
     }
-  }, [])
+  }, [selectedDeviceId, audioInputSettings, refreshAudioDevices])
+
+  // デバイスの抜き差しに追従
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices
+    if (!mediaDevices.addEventListener) return
+    const handleDeviceChange = () => {
+      refreshAudioDevices()
+    }
+    mediaDevices.addEventListener('devicechange', handleDeviceChange)
+    return () => {
+      mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+    }
+  }, [refreshAudioDevices])
 
   const startRecording = useCallback(async () => {
     if (!mediaStreamRef.current) {
@@ -125,6 +211,8 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     setReleaseWaveform(null)
     keyTimestampsRef.current = []
     keyUpTimestampsRef.current = []
+    keyDownEventsRef.current = []
+    keyUpEventsRef.current = []
 
     // 進捗更新用のタイマー
     const startTime = Date.now()
@@ -135,9 +223,17 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       setRecordingProgress(progress)
     }, 50) // 50msごとに更新
 
-    // AudioContextを初期化
+    // AudioContextを初期化（要求サンプルレートが変わった場合は作り直す）
+    const requestedSampleRate = audioInputSettings.sampleRate
+    if (audioContextRef.current && requestedSampleRate !== null && audioContextRef.current.sampleRate !== requestedSampleRate) {
+      audioContextRef.current.close()
+      audioContextRef.current = null
+    }
     if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)()
+      const AudioContextClass = window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext
+      audioContextRef.current = requestedSampleRate !== null
+        ? new AudioContextClass({ sampleRate: requestedSampleRate })
+        : new AudioContextClass()
     }
 
     const audioContext = audioContextRef.current
@@ -159,112 +255,95 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     analyserRef.current = audioContext.createAnalyser()
     analyserRef.current.fftSize = 2048
 
-    // スクリプトプロセッサーを作成（音声データを取得するため）
-    const bufferSize = 4096
-    const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
+    // キャプチャ用ワークレットを読み込む（AudioContextごとに1回）
+    if (captureModuleContextRef.current !== audioContext) {
+      try {
+        await audioContext.audioWorklet.addModule(captureProcessorUrl)
+        captureModuleContextRef.current = audioContext
+      } catch (error) {
+        console.error('AudioWorklet読み込みエラー:', error)
+        clearInterval(progressInterval)
+        setIsRecording(false)
+        setStatus('error')
+        setStatusMessage('録音処理を開始できませんでした。')
+        return
+      }
+    }
 
-    const recordingChunks: Float32Array[] = []
+    // キャプチャノードを作成（ブロックごとに先頭サンプルのフレーム番号が届く）
+    // 入力トラックの実際のチャンネル数で録音する（ダウンミックスされないよう explicit にする）
+    const channelCount = getAudioInputInfo(mediaStreamRef.current)?.channelCount ?? 1
+    const processorOptions: CaptureProcessorOptions = { channelCount }
+    const captureNode = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount,
+      channelCountMode: 'explicit',
+      processorOptions,
+    })
 
-    // 録音されたサンプル数をトラッキング（累積で正確なタイムスタンプを計算）
-    let totalSamplesRecorded = 0
+    const recordingChunks: Float32Array[][] = []
 
-    // 最初のチャンク前フラグをリセット
+    // 最初のブロック前フラグをリセット
     firstChunkReceivedRef.current = false
-    pendingKeyDownTimestampsRef.current = []
-    pendingKeyUpTimestampsRef.current = []
-    sampleTimeMapRef.current = []
+    pendingKeyDownEventsRef.current = []
+    pendingKeyUpEventsRef.current = []
 
     // 音声データを収集
-    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-      const inputBuffer = audioProcessingEvent.inputBuffer
-      const inputData = inputBuffer.getChannelData(0)
-      
-      // playbackTime: このバッファの「出力」が再生される予定の時刻（秒）
-      // 注意: これは入力データの録音時刻ではなく、出力の再生時刻
-      // 入力データの録音時刻 = playbackTime - bufferDuration（入出力間の遅延）
-      const playbackTime = audioProcessingEvent.playbackTime
-      const bufferDurationSec = bufferSize / realSampleRate
-      
-      // 最初のチャンクが来た時点で、録音開始時刻を調整
-      // 入力データの録音時刻を推定: playbackTime - bufferDuration
+    captureNode.port.onmessage = (event: MessageEvent<CaptureProcessorMessage>) => {
+      const message = event.data
+      if (message.type === 'stopped') {
+        captureNode.port.onmessage = null
+        stopRecording(captureNode, recordingChunks)
+        return
+      }
+
+      // 最初のブロックの先頭フレームを録音データの原点とする
       if (!firstChunkReceivedRef.current) {
-        // playbackTimeは出力時刻なので、入力データの開始時刻はバッファ分だけ前
-        // これにより、キーイベントのタイムスタンプとオーディオデータが正しく同期する
-        const inputStartTime = playbackTime - bufferDurationSec
-        audioContextStartTimeRef.current = inputStartTime
-        console.log(`最初のオーディオチャンク受信: playbackTime=${playbackTime.toFixed(3)}s, 入力開始時刻=${inputStartTime.toFixed(3)}s, AudioContext.currentTime=${audioContext.currentTime.toFixed(3)}s, バッファ時間=${bufferDurationSec.toFixed(3)}s`)
-        
-        // 最初のチャンク前に発生したキーイベントを正しいタイムスタンプで再計算
-        for (const audioTime of pendingKeyDownTimestampsRef.current) {
-          const elapsedMs = (audioTime - audioContextStartTimeRef.current) * 1000
+        recordingStartFrameRef.current = message.startFrame
+        console.log(`最初のオーディオブロック受信: 先頭フレーム=${message.startFrame}, AudioContext.currentTime=${audioContext.currentTime.toFixed(3)}s`)
+
+        // 最初のブロック前に発生したキーイベントを原点が決まった時点で計算
+        for (const { audioTime, details } of pendingKeyDownEventsRef.current) {
+          const elapsedMs = audioTimeToRecordingMs(audioTime, message.startFrame, realSampleRate)
           keyTimestampsRef.current.push(elapsedMs)
-          console.log(`[遅延処理] KeyDown at ${elapsedMs.toFixed(1)}ms (原AudioContext.currentTime=${audioTime.toFixed(3)}s)`)
+          keyDownEventsRef.current.push({ timestampMs: elapsedMs, ...details })
+          console.log(`[遅延処理] KeyDown ${details.code} at ${elapsedMs.toFixed(1)}ms (原AudioContext.currentTime=${audioTime.toFixed(3)}s)`)
         }
-        for (const audioTime of pendingKeyUpTimestampsRef.current) {
-          const elapsedMs = (audioTime - audioContextStartTimeRef.current) * 1000
+        for (const { audioTime, details } of pendingKeyUpEventsRef.current) {
+          const elapsedMs = audioTimeToRecordingMs(audioTime, message.startFrame, realSampleRate)
           keyUpTimestampsRef.current.push(elapsedMs)
-          console.log(`[遅延処理] KeyUp at ${elapsedMs.toFixed(1)}ms (原AudioContext.currentTime=${audioTime.toFixed(3)}s)`)
+          keyUpEventsRef.current.push({ timestampMs: elapsedMs, ...details })
+          console.log(`[遅延処理] KeyUp ${details.code} at ${elapsedMs.toFixed(1)}ms (原AudioContext.currentTime=${audioTime.toFixed(3)}s)`)
         }
         setKeyTapCount(keyTimestampsRef.current.length)
         setKeyUpCount(keyUpTimestampsRef.current.length)
-        
-        pendingKeyDownTimestampsRef.current = []
-        pendingKeyUpTimestampsRef.current = []
+
+        pendingKeyDownEventsRef.current = []
+        pendingKeyUpEventsRef.current = []
         firstChunkReceivedRef.current = true
       }
-      
-      // サンプル数と入力時刻のマッピングを保存（補正計算用）
-      // 入力データの時刻 = playbackTime - bufferDuration
-      // このチャンクの終了時点でのマッピングを記録
-      const inputEndTime = playbackTime  // このチャンクの入力終了時刻（= 次のチャンクの入力開始時刻）
-      sampleTimeMapRef.current.push({
-        samples: totalSamplesRecorded + inputData.length,
-        playbackTime: inputEndTime  // 入力データの終了時刻
-      })
-      // メモリ節約のため、古いエントリを削除（直近30秒分だけ保持）
-      const maxEntries = Math.ceil(30 * realSampleRate / bufferSize)
-      if (sampleTimeMapRef.current.length > maxEntries) {
-        sampleTimeMapRef.current.shift()
-      }
-      
-      // データをコピー
-      recordingChunks.push(new Float32Array(inputData))
-      totalSamplesRecorded += inputData.length
-      
-      // デバッグ: 蓄積サンプル数と時刻の整合性をチェック（1秒ごと）
-      const expectedTimeMs = (totalSamplesRecorded / realSampleRate) * 1000
-      const actualTimeMs = (inputEndTime - audioContextStartTimeRef.current) * 1000
-      if (Math.floor(totalSamplesRecorded / realSampleRate) > Math.floor((totalSamplesRecorded - inputData.length) / realSampleRate)) {
-        console.log(`[同期チェック] ${Math.floor(totalSamplesRecorded / realSampleRate)}秒経過: サンプル数ベース=${expectedTimeMs.toFixed(1)}ms, 入力時刻ベース=${actualTimeMs.toFixed(1)}ms, 差=${(actualTimeMs - expectedTimeMs).toFixed(1)}ms`)
-      }
 
-      // リアルタイム波形表示は無効化（処理負荷軽減のため）
-      // updateCounter++
-      // if (updateCounter % 5 === 0) {
-      //   setRecordingData(combineChunks(recordingChunks))
-      // }
+      recordingChunks.push(message.channels)
     }
 
     // オーディオグラフを接続
     audioInputRef.current.connect(analyserRef.current)
-    analyserRef.current.connect(scriptProcessor)
-    scriptProcessor.connect(audioContext.destination)
-    
-    // 初期値として接続時点のAudioContext.currentTimeを記録（最初のチャンクで補正される）
-    audioContextStartTimeRef.current = audioContext.currentTime
-    console.log(`オーディオグラフ接続: AudioContext.currentTime = ${audioContextStartTimeRef.current.toFixed(3)}秒`)
+    analyserRef.current.connect(captureNode)
+    captureNode.connect(audioContext.destination)
 
-    // 指定時間後に録音を停止
+    // 指定時間後に録音を停止（ワークレットが残りのデータを送ってから停止を通知する）
     setTimeout(() => {
       clearInterval(progressInterval)
       setRecordingProgress(1)
-      stopRecording(scriptProcessor, recordingChunks)
+      const stopMessage: CaptureControlMessage = { type: 'stop' }
+      captureNode.port.postMessage(stopMessage)
     }, recordingDuration)
-  }, [isRecording, recordingDuration])
+  }, [isRecording, recordingDuration, audioInputSettings.sampleRate])
 
   const stopRecording = useCallback((
-    scriptProcessor: ScriptProcessorNode,
-    recordingChunks: Float32Array[]
+    captureNode: AudioWorkletNode,
+    recordingChunks: Float32Array[][]
   ) => {
     setIsRecording(false)
 
@@ -275,8 +354,8 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     if (analyserRef.current) {
       analyserRef.current.disconnect()
     }
-    if (scriptProcessor) {
-      scriptProcessor.disconnect()
+    if (captureNode) {
+      captureNode.disconnect()
     }
 
     // すべてのデータを1つの配列に結合
@@ -286,21 +365,24 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       return
     }
 
-    // 最終的なデータを設定
+    // 最終的なデータを設定（チャンネルごとに結合）
     const totalLength = recordingChunks.reduce(
-      (sum, chunk) => sum + chunk.length,
+      (sum, chunk) => sum + chunk[0].length,
       0
     )
-    const combinedData = new Float32Array(totalLength)
+    const channels = recordingChunks[0].map(() => new Float32Array(totalLength))
     let offset = 0
 
     for (const chunk of recordingChunks) {
-      combinedData.set(chunk, offset)
-      offset += chunk.length
+      channels.forEach((channel, i) => channel.set(chunk[i], offset))
+      offset += chunk[0].length
     }
 
+    // 録音直後の解析は1チャンネル目で行う（チャンネルの切り替えは解析タブで行う）
+    const combinedData = channels[0]
     setRecordingData(combinedData)
     finalRecordingDataRef.current = combinedData
+    recordingChannelsRef.current = channels
 
     // アタック音の同期加算処理を実行（デフォルトはピーク同期ON）
     calculateAveragedWaveform(combinedData, keyTimestampsRef.current, keyUpTimestampsRef.current, windowOffsetMs, true, peakPositionMs)
@@ -340,7 +422,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       timestamps: trimmedDownTimestamps,
       endTimestamps,
       offsetMs,
-      peakAlign,
+      alignMode: peakAlign ? 'peak' : 'none',
       peakPositionMs: peakPosMs,
       sampleRate
     })
@@ -391,7 +473,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       timestamps: trimmedUpTimestamps,
       endTimestamps,
       offsetMs,
-      peakAlign,
+      alignMode: peakAlign ? 'peak' : 'none',
       peakPositionMs: peakPosMs,
       sampleRate
     })
@@ -480,106 +562,64 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     }
   }, [averagedWaveform, releaseWaveform, peakIntervalMs, calculateCombinedWaveformLocal])
 
-  // AudioContext.currentTimeからサンプル数ベースのタイムスタンプ（ms）を計算する
-  // sampleTimeMapを使用して、playbackTimeとサンプル数の対応関係から補正を行う
-  const audioTimeToSampleBasedMs = useCallback((audioTime: number): number => {
-    const map = sampleTimeMapRef.current
-    const sampleRate = audioContextRef.current?.sampleRate || DEFAULT_SAMPLE_RATE
-    
-    // マップが空の場合は単純計算
-    if (map.length === 0) {
-      return (audioTime - audioContextStartTimeRef.current) * 1000
-    }
-    
-    // audioTimeに最も近いエントリを探す（線形補間）
-    let prevEntry = map[0]
-    let nextEntry = map[map.length - 1]
-    
-    for (let i = 0; i < map.length; i++) {
-      if (map[i].playbackTime <= audioTime) {
-        prevEntry = map[i]
-      }
-      if (map[i].playbackTime >= audioTime && (nextEntry.playbackTime > audioTime || i === map.length - 1)) {
-        nextEntry = map[i]
-        break
-      }
-    }
-    
-    // prevEntryとnextEntryの間で線形補間
-    if (prevEntry === nextEntry || prevEntry.playbackTime === nextEntry.playbackTime) {
-      // サンプル数ベースで計算
-      const deltaTime = audioTime - prevEntry.playbackTime
-      const deltaSamples = deltaTime * sampleRate
-      const totalSamples = prevEntry.samples + deltaSamples
-      return (totalSamples / sampleRate) * 1000
-    }
-    
-    // 線形補間で正確なサンプル位置を推定
-    const timeFraction = (audioTime - prevEntry.playbackTime) / (nextEntry.playbackTime - prevEntry.playbackTime)
-    const interpolatedSamples = prevEntry.samples + (nextEntry.samples - prevEntry.samples) * timeFraction
-    return (interpolatedSamples / sampleRate) * 1000
-  }, [])
-
   // keydownイベントリスナー
   useEffect(() => {
-    const handleKeyDown = (_event: KeyboardEvent) => {
+    const handleKeyDown = (event: KeyboardEvent) => {
       if (!isRecording) return
       if (!audioContextRef.current) return
       
       // AudioContext.currentTimeを取得
       const currentAudioTime = audioContextRef.current.currentTime
+      const details = extractKeyEventDetails(event)
       
-      // 最初のオーディオチャンクがまだ来ていない場合は、タイムスタンプを保留
+      // 最初のオーディオブロックがまだ来ていない場合は、タイムスタンプを保留
       if (!firstChunkReceivedRef.current) {
-        pendingKeyDownTimestampsRef.current.push(currentAudioTime)
-        console.log(`KeyDown detected (pending) AudioContext.currentTime=${currentAudioTime.toFixed(3)}s`)
+        pendingKeyDownEventsRef.current.push({ audioTime: currentAudioTime, details })
+        console.log(`KeyDown ${details.code} detected (pending) AudioContext.currentTime=${currentAudioTime.toFixed(3)}s`)
         return
       }
       
-      // サンプル数ベースで正確なタイムスタンプを計算
-      const elapsedMs = audioTimeToSampleBasedMs(currentAudioTime)
-      
-      // 旧方式（比較用）
-      const oldElapsedMs = (currentAudioTime - audioContextStartTimeRef.current) * 1000
-      
+      // 録音データの先頭フレームからの経過時間（サンプル位置と一致）
+      const elapsedMs = audioTimeToRecordingMs(currentAudioTime, recordingStartFrameRef.current, audioContextRef.current.sampleRate)
+
       keyTimestampsRef.current.push(elapsedMs)
+      keyDownEventsRef.current.push({ timestampMs: elapsedMs, ...details })
       setKeyTapCount(keyTimestampsRef.current.length)
-      
-      console.log(`KeyDown detected at ${elapsedMs.toFixed(1)}ms (旧方式: ${oldElapsedMs.toFixed(1)}ms, 差: ${(elapsedMs - oldElapsedMs).toFixed(1)}ms)`)
+
+      console.log(`KeyDown ${details.code} detected at ${elapsedMs.toFixed(1)}ms`)
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
     }
-  }, [isRecording, audioTimeToSampleBasedMs])
+  }, [isRecording])
 
   // keyupイベントリスナー
   useEffect(() => {
-    const handleKeyUp = (_event: KeyboardEvent) => {
+    const handleKeyUp = (event: KeyboardEvent) => {
       if (!isRecording) return
       if (!audioContextRef.current) return
       
       // AudioContext.currentTimeを取得
       const currentAudioTime = audioContextRef.current.currentTime
+      const details = extractKeyEventDetails(event)
       
-      // 最初のオーディオチャンクがまだ来ていない場合は、タイムスタンプを保留
+      // 最初のオーディオブロックがまだ来ていない場合は、タイムスタンプを保留
       if (!firstChunkReceivedRef.current) {
-        pendingKeyUpTimestampsRef.current.push(currentAudioTime)
-        console.log(`KeyUp detected (pending) AudioContext.currentTime=${currentAudioTime.toFixed(3)}s`)
+        pendingKeyUpEventsRef.current.push({ audioTime: currentAudioTime, details })
+        console.log(`KeyUp ${details.code} detected (pending) AudioContext.currentTime=${currentAudioTime.toFixed(3)}s`)
         return
       }
       
-      // サンプル数ベースで正確なタイムスタンプを計算
-      const elapsedMs = audioTimeToSampleBasedMs(currentAudioTime)
-      
-      // 旧方式（比較用）
-      const oldElapsedMs = (currentAudioTime - audioContextStartTimeRef.current) * 1000
-      
+      // 録音データの先頭フレームからの経過時間（サンプル位置と一致）
+      const elapsedMs = audioTimeToRecordingMs(currentAudioTime, recordingStartFrameRef.current, audioContextRef.current.sampleRate)
+
       keyUpTimestampsRef.current.push(elapsedMs)
+      keyUpEventsRef.current.push({ timestampMs: elapsedMs, ...details })
       setKeyUpCount(keyUpTimestampsRef.current.length)
-      
-      console.log(`KeyUp detected at ${elapsedMs.toFixed(1)}ms (旧方式: ${oldElapsedMs.toFixed(1)}ms, 差: ${(elapsedMs - oldElapsedMs).toFixed(1)}ms)`)
+
+      console.log(`KeyUp ${details.code} detected at ${elapsedMs.toFixed(1)}ms`)
     }
 
     window.addEventListener('keyup', handleKeyUp)
@@ -593,6 +633,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     statusMessage,
     recordingData,
     finalRecordingData: finalRecordingDataRef.current,
+    recordingChannels: recordingChannelsRef.current,
     recordingProgress,
     isRecording,
     canRecord,
@@ -600,6 +641,8 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     keyUpCount,
     keyDownTimestamps: keyTimestampsRef.current,
     keyUpTimestamps: keyUpTimestampsRef.current,
+    keyDownEvents: keyDownEventsRef.current,
+    keyUpEvents: keyUpEventsRef.current,
     averagedWaveform,
     releaseWaveform,
     combinedWaveform,
@@ -610,6 +653,12 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     waveformLengthMs,
     peakPositionMs,
     sampleRate: actualSampleRate,
+    audioDevices,
+    selectedDeviceId,
+    audioInputSettings,
+    audioInputInfo,
+    setSelectedDeviceId,
+    setAudioInputSettings,
     startRecording,
     initializeAudio,
     recalculateAveragedWaveform,
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { requestSpectrumAnalysis, type SpectrumAnalysis } from '../utils/spectrumWorker'
+import type { SpectrumSettings } from '../utils/dsp'
+
+interface SpectrumAnalysisState {
+  waveformData: Float32Array
+  fftSize: number
+  hopSize: number
+  settings: SpectrumSettings
+  analysis: SpectrumAnalysis | null  // 計算に失敗した場合は null
+}
+
+/**
+ * 波形のパワースペクトルとスペクトログラムを Web Worker で計算するフック
+ * @param hopSize スペクトログラムのフレーム間隔（サンプル数）
+ * @param settings 解析設定（値が同じでも別のオブジェクトを渡すと再計算するため、呼び出し側でメモ化する）
+ * @returns 現在の波形・FFT サイズ・解析設定に対する解析結果（計算中は null）と計算中かどうか
+ */
+export function useSpectrumAnalysis(
+  waveformData: Float32Array | null,
+  fftSize: number,
+  hopSize: number,
+  settings: SpectrumSettings
+): { analysis: SpectrumAnalysis | null; isAnalyzing: boolean } {
+  const [state, setState] = useState<SpectrumAnalysisState | null>(null)
+
+  useEffect(() => {
+    if (!waveformData || waveformData.length === 0) return
+
+    // 計算中に波形や設定が変わった場合は古い結果を捨てる
+    let cancelled = false
+    requestSpectrumAnalysis(waveformData, fftSize, hopSize, settings)
+      .then(analysis => {
+        if (!cancelled) setState({ waveformData, fftSize, hopSize, settings, analysis })
+      })
+      .catch(error => {
+        console.error('スペクトル解析エラー:', error)
+        if (!cancelled) setState({ waveformData, fftSize, hopSize, settings, analysis: null })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [waveformData, fftSize, hopSize, settings])
+
+  if (!waveformData || waveformData.length === 0) return { analysis: null, isAnalyzing: false }
+  const isCurrent = state !== null &&
+    state.waveformData === waveformData &&
+    state.fftSize === fftSize &&
+    state.hopSize === hopSize &&
+    state.settings === settings
+  return { analysis: isCurrent ? state.analysis : null, isAnalyzing: !isCurrent }
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+import {
+  requestTraceSpectra,
+  type TraceSpectraOptions,
+  type TraceSpectrum,
+  type TraceSpectrumSource,
+} from '../utils/spectrumWorker'
+
+/**
+ * 比較表示の波形の解析要求
+ */
+export interface TraceSpectraRequest {
+  sources: TraceSpectrumSource[]
+  options: TraceSpectraOptions
+}
+
+interface TraceSpectraState {
+  request: TraceSpectraRequest
+  traces: TraceSpectrum[] | null  // 計算に失敗した場合は null
+}
+
+/**
+ * 比較表示の波形のサンプルレート変換・正規化とパワースペクトルを Web Worker で計算するフック
+ * @param request 解析要求（内容が同じでも別のオブジェクトを渡すと再計算するため、呼び出し側でメモ化する）
+ * @returns 現在の要求に対する解析結果（計算中は null）と計算中かどうか
+ */
+export function useTraceSpectra(
+  request: TraceSpectraRequest | null
+): { traces: TraceSpectrum[] | null; isAnalyzing: boolean } {
+  const [state, setState] = useState<TraceSpectraState | null>(null)
+
+  useEffect(() => {
+    if (!request || request.sources.length === 0) return
+
+    // 計算中に波形や設定が変わった場合は古い結果を捨てる
+    let cancelled = false
+    requestTraceSpectra(request.sources, request.options)
+      .then(traces => {
+        if (!cancelled) setState({ request, traces })
+      })
+      .catch(error => {
+        console.error('スペクトル解析エラー:', error)
+        if (!cancelled) setState({ request, traces: null })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [request])
+
+  if (!request) return { traces: null, isAnalyzing: false }
+  if (request.sources.length === 0) return { traces: [], isAnalyzing: false }
+  const isCurrent = state !== null && state.request === request
+  return { traces: isCurrent ? state.traces : null, isAnalyzing: !isCurrent }
+}
@@ -0,0 +1,328 @@
+/**
+ * 測定データ（.keytapanalyzer.dat）に含める解析結果
+ * 同期加算した波形・個別ウィンドウ・ばらつきを書き出しておき、読み込み時に再計算せず書き出した時点の結果を復元する
+ */
+import { decodeWav, encodeWav } from './audioExport'
+import { getPresentKeyGroups, type KeyEventInfo, type KeyGroup } from './keyEvents'
+import { ANALYSIS_SETTINGS_SCHEMA, type MeasurementAnalysisSettings } from './measurementMetadata'
+import {
+  arrayOf,
+  boolean,
+  isRecord,
+  nullable,
+  number,
+  object,
+  oneOf,
+  string,
+} from './schemaValidation'
+import {
+  averageSyncWindows,
+  filterWindowsByKeyGroup,
+  WINDOW_REJECTION_REASON_LABELS,
+  type AlignMode,
+  type WaveformSpread,
+  type WindowInfo,
+} from './waveformProcessing'
+
+// 書き出す解析結果のバージョン
+export const ANALYSIS_SNAPSHOT_VERSION = '1.0'
+
+// 解析結果のファイル名
+export const ANALYSIS_FILES = {
+  analysis: 'analysis.json',
+  attackWaveform: 'attack.wav',
+  releaseWaveform: 'release.wav',
+  attackWindows: 'attack_windows.wav',
+  releaseWindows: 'release_windows.wav',
+} as const
+
+/**
+ * 解析結果を求めたときの設定
+ */
+export interface AnalysisSnapshotSettings {
+  analysis: MeasurementAnalysisSettings
+  peakPositionMs: number
+  peakIntervalMs: number
+  excludedWindows: {  // 手動で除外したウィンドウの基準タイムスタンプ (ms)
+    attack: number[]
+    release: number[]
+  }
+}
+
+/**
+ * 個別ウィンドウの波形以外の情報
+ * 波形は *_windows.wav に連結して格納し、sampleOffset から sampleCount サンプルを切り出す
+ */
+export interface StoredWindowInfo extends Omit<WindowInfo, 'data'> {
+  sampleOffset: number
+  sampleCount: number
+}
+
+/**
+ * ばらつき（JSON に書き出すため配列にする）
+ */
+export interface StoredWaveformSpread {
+  standardDeviation: number[]
+  sampleCounts: number[]
+  consistency: number | null
+}
+
+/**
+ * analysis.json の内容
+ */
+export interface AnalysisSnapshot {
+  version: string
+  sampleRate: number
+  settings: AnalysisSnapshotSettings
+  attack: { windows: StoredWindowInfo[]; spread: StoredWaveformSpread | null }
+  release: { windows: StoredWindowInfo[]; spread: StoredWaveformSpread | null }
+}
+
+/**
+ * 同期加算の結果（アタック音・リリース音それぞれ）
+ */
+export interface SyncAverageSnapshot {
+  waveform: Float32Array | null
+  windows: WindowInfo[]
+  spread: WaveformSpread | null
+}
+
+/**
+ * 個別ウィンドウの波形を1つに連結する
+ */
+export function packWindows(windows: WindowInfo[]): { samples: Float32Array; windows: StoredWindowInfo[] } {
+  const samples = new Float32Array(windows.reduce((total, window) => total + window.data.length, 0))
+  let sampleOffset = 0
+  const stored = windows.map(({ data, ...info }) => {
+    samples.set(data, sampleOffset)
+    const storedWindow = { ...info, sampleOffset, sampleCount: data.length }
+    sampleOffset += data.length
+    return storedWindow
+  })
+  return { samples, windows: stored }
+}
+
+/**
+ * 連結した波形から個別ウィンドウを復元する
+ * @returns 個別ウィンドウ（波形の範囲が連結した波形の外にある場合は null）
+ */
+export function unpackWindows(samples: Float32Array, windows: StoredWindowInfo[]): WindowInfo[] | null {
+  if (windows.some(window => window.sampleOffset + window.sampleCount > samples.length)) return null
+  return windows.map(({ sampleOffset, sampleCount, ...info }) => ({
+    ...info,
+    data: samples.slice(sampleOffset, sampleOffset + sampleCount),
+  }))
+}
+
+function storeSpread(spread: WaveformSpread | null): StoredWaveformSpread | null {
+  return spread && {
+    standardDeviation: Array.from(spread.standardDeviation),
+    sampleCounts: Array.from(spread.sampleCounts),
+    consistency: spread.consistency,
+  }
+}
+
+function restoreSpread(spread: StoredWaveformSpread | null): WaveformSpread | null {
+  return spread && {
+    standardDeviation: Float32Array.from(spread.standardDeviation),
+    sampleCounts: Float32Array.from(spread.sampleCounts),
+    consistency: spread.consistency,
+  }
+}
+
+/**
+ * 解析結果のファイルを作成する
+ * 読み込み時に書き出した時点の結果をそのまま復元するため、WAVファイルは録音データの形式によらず 32bit float で書き出す
+ * 波形がない場合・ウィンドウがない場合はそのWAVファイルを含めない
+ */
+export function buildAnalysisFiles(
+  settings: AnalysisSnapshotSettings,
+  attack: SyncAverageSnapshot,
+  release: SyncAverageSnapshot,
+  sampleRate: number
+): { name: string; data: ArrayBuffer | string }[] {
+  const files: { name: string; data: ArrayBuffer | string }[] = []
+  const packedAttack = packWindows(attack.windows)
+  const packedRelease = packWindows(release.windows)
+  const snapshot: AnalysisSnapshot = {
+    version: ANALYSIS_SNAPSHOT_VERSION,
+    sampleRate,
+    settings,
+    attack: { windows: packedAttack.windows, spread: storeSpread(attack.spread) },
+    release: { windows: packedRelease.windows, spread: storeSpread(release.spread) },
+  }
+  files.push({ name: ANALYSIS_FILES.analysis, data: JSON.stringify(snapshot) })
+
+  if (attack.waveform) {
+    files.push({ name: ANALYSIS_FILES.attackWaveform, data: encodeWav(attack.waveform, sampleRate, 'float32') })
+  }
+  if (release.waveform) {
+    files.push({ name: ANALYSIS_FILES.releaseWaveform, data: encodeWav(release.waveform, sampleRate, 'float32') })
+  }
+  if (packedAttack.samples.length > 0) {
+    files.push({ name: ANALYSIS_FILES.attackWindows, data: encodeWav(packedAttack.samples, sampleRate, 'float32') })
+  }
+  if (packedRelease.samples.length > 0) {
+    files.push({ name: ANALYSIS_FILES.releaseWindows, data: encodeWav(packedRelease.samples, sampleRate, 'float32') })
+  }
+  return files
+}
+
+const STORED_WINDOW_SCHEMA = object({
+  peakIndex: number(0, true),
+  onsetIndex: number(),
+  alignIndex: number(),
+  timestampMs: number(),
+  windowLengthMs: number(0),
+  excluded: boolean,
+  rejection: nullable(object({
+    reason: oneOf(Object.keys(WINDOW_REJECTION_REASON_LABELS)),
+    value: number(),
+  })),
+  sampleOffset: number(0, true),
+  sampleCount: number(0, true),
+})
+
+const STORED_SYNC_AVERAGE_SCHEMA = object({
+  windows: arrayOf(STORED_WINDOW_SCHEMA),
+  spread: nullable(object({
+    standardDeviation: arrayOf(number(0)),
+    sampleCounts: arrayOf(number(0)),
+    consistency: nullable(number()),
+  })),
+})
+
+const ANALYSIS_SNAPSHOT_SCHEMA = object({
+  version: string,
+  sampleRate: number(1),
+  settings: object({
+    analysis: ANALYSIS_SETTINGS_SCHEMA,
+    peakPositionMs: number(0),
+    peakIntervalMs: number(0),
+    excludedWindows: object({
+      attack: arrayOf(number()),
+      release: arrayOf(number()),
+    }),
+  }),
+  attack: STORED_SYNC_AVERAGE_SCHEMA,
+  release: STORED_SYNC_AVERAGE_SCHEMA,
+})
+
+/**
+ * 復元した解析結果
+ */
+export interface RestoredAnalysis {
+  settings: AnalysisSnapshotSettings
+  attack: SyncAverageSnapshot
+  release: SyncAverageSnapshot
+}
+
+/**
+ * 解析結果の読み込み結果
+ * - ok: 復元した解析結果
+ * - errors: 復元できない理由（録音データから再計算する）
+ */
+export type AnalysisRestoreResult =
+  | { ok: true; analysis: RestoredAnalysis }
+  | { ok: false; errors: string[] }
+
+/**
+ * 測定データのファイルから解析結果を復元する
+ * @param sampleRate 読み込んだ録音データのサンプルレート（解析結果と異なる場合は復元しない）
+ * @returns 読み込み結果（analysis.json を含まない測定データの場合は null）
+ */
+export function restoreAnalysisFiles(
+  files: { name: string; data: ArrayBuffer }[],
+  sampleRate: number
+): AnalysisRestoreResult | null {
+  const analysisFile = files.find(f => f.name === ANALYSIS_FILES.analysis)
+  if (!analysisFile) return null
+
+  let data: unknown
+  try {
+    data = JSON.parse(new TextDecoder().decode(analysisFile.data))
+  } catch (error) {
+    return { ok: false, errors: [`JSON として読み込めません: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+  if (isRecord(data) && data.version !== ANALYSIS_SNAPSHOT_VERSION) {
+    return { ok: false, errors: [`バージョン ${String(data.version)} の形式には対応していません`] }
+  }
+  const errors: string[] = []
+  ANALYSIS_SNAPSHOT_SCHEMA(data, '', errors)
+  if (errors.length > 0) return { ok: false, errors }
+
+  const snapshot = data as AnalysisSnapshot
+  if (snapshot.sampleRate !== sampleRate) {
+    return { ok: false, errors: [`解析結果のサンプルレート (${snapshot.sampleRate}Hz) が録音データ (${sampleRate}Hz) と異なります`] }
+  }
+
+  // WAVファイルを読み込む（ファイルがない場合は空の波形）
+  const readWav = (name: string): Float32Array | null => {
+    const file = files.find(f => f.name === name)
+    if (!file) return null
+    const decoded = decodeWav(file.data)
+    if (!decoded || decoded.sampleRate !== sampleRate) {
+      errors.push(`${name} を読み込めません`)
+      return null
+    }
+    return decoded.samples
+  }
+  const attackWaveform = readWav(ANALYSIS_FILES.attackWaveform)
+  const releaseWaveform = readWav(ANALYSIS_FILES.releaseWaveform)
+  const attackWindows = unpackWindows(readWav(ANALYSIS_FILES.attackWindows) ?? new Float32Array(0), snapshot.attack.windows)
+  const releaseWindows = unpackWindows(readWav(ANALYSIS_FILES.releaseWindows) ?? new Float32Array(0), snapshot.release.windows)
+  if (!attackWindows) errors.push(`${ANALYSIS_FILES.attackWindows} にウィンドウの波形が足りません`)
+  if (!releaseWindows) errors.push(`${ANALYSIS_FILES.releaseWindows} にウィンドウの波形が足りません`)
+  if (errors.length > 0 || !attackWindows || !releaseWindows) return { ok: false, errors }
+
+  return {
+    ok: true,
+    analysis: {
+      settings: snapshot.settings,
+      attack: { waveform: attackWaveform, windows: attackWindows, spread: restoreSpread(snapshot.attack.spread) },
+      release: { waveform: releaseWaveform, windows: releaseWindows, spread: restoreSpread(snapshot.release.spread) },
+    },
+  }
+}
+
+/**
+ * キーグループごとの同期加算の結果
+ */
+export interface KeyGroupSnapshot {
+  group: Exclude<KeyGroup, 'all'>
+  attack: SyncAverageSnapshot
+  release: SyncAverageSnapshot
+}
+
+/**
+ * 復元した個別ウィンドウからキーグループごとの同期加算の結果を求める
+ * 録音データから切り出し直さず、復元したウィンドウと設定だけを使うため、手動の除外を含めて復元した結果と食い違わない
+ * @param keyDownEvents アタック音のウィンドウの基準としたキーイベント
+ * @param keyUpEvents リリース音のウィンドウの基準としたキーイベント
+ * @returns アタック音・リリース音のどちらかの波形があるキーグループの結果
+ */
+export function calculateRestoredKeyGroups(
+  analysis: RestoredAnalysis,
+  keyDownEvents: KeyEventInfo[],
+  keyUpEvents: KeyEventInfo[],
+  sampleRate: number
+): KeyGroupSnapshot[] {
+  const { analysis: settings, peakPositionMs } = analysis.settings
+  const average = (windows: WindowInfo[], events: KeyEventInfo[], group: KeyGroupSnapshot['group'], alignMode: AlignMode): SyncAverageSnapshot => {
+    const result = averageSyncWindows(filterWindowsByKeyGroup(windows, events, group, sampleRate), {
+      alignMode,
+      peakPositionMs,
+      sampleRate,
+      averaging: settings.averaging,
+    })
+    return { waveform: result.waveform, windows: result.windows, spread: result.spread }
+  }
+
+  return getPresentKeyGroups(keyDownEvents)
+    .map(group => ({
+      group,
+      attack: average(analysis.attack.windows, keyDownEvents, group, settings.attackAlignMode),
+      release: average(analysis.release.windows, keyUpEvents, group, settings.releaseAlignMode),
+    }))
+    .filter(({ attack, release }) => attack.waveform || release.waveform)
+}
@@ -1,16 +1,56 @@
 import { DEFAULT_SAMPLE_RATE } from '../contexts/AudioContextProvider'
+import {
+  createUnknownKeyEvent,
+  formatModifiers,
+  parseModifiers,
+  type KeyEventInfo,
+} from './keyEvents'
+
+/**
+ * 書き出すWAVのサンプル形式
+ * - pcm16: 16bit 整数 PCM（±1 でクリップ）
+ * - pcm24: 24bit 整数 PCM（±1 でクリップ。オーディオインターフェースの録音と同じ分解能）
+ * - float32: 32bit 浮動小数点（量子化・クリップなし）
+ */
+export type WavFormat = 'pcm16' | 'pcm24' | 'float32'
+
+export const WAV_FORMAT_LABELS: Record<WavFormat, string> = {
+  pcm16: '16bit PCM',
+  pcm24: '24bit PCM',
+  float32: '32bit float',
+}
+
+// WAVのフォーマットタグ
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE
+
+// WAVE_FORMAT_EXTENSIBLE のサブフォーマット GUID のうち、先頭2バイト（フォーマットタグ）に続く共通部分
+const SUBFORMAT_GUID_SUFFIX = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71]
+
+// WAVE_FORMAT_EXTENSIBLE のチャンネル配置（モノラルはセンター、ステレオは左右、3チャンネル以上は指定なし）
+const CHANNEL_MASKS: Record<number, number> = { 1: 0x4, 2: 0x3 }
 
 /**
  * 音声データをWAV形式にエンコードする
+ * 16bit PCM は従来どおり 44 バイトのヘッダー、24bit PCM は 16bit を超える PCM に推奨される WAVE_FORMAT_EXTENSIBLE、
+ * 32bit float はフォーマットタグ 3（IEEE float）と fact チャンクで書き出す
+ * @param samples 波形（チャンネルごとの配列を渡すとインターリーブした多チャンネルのWAVにする。長さは最初のチャンネルに揃える）
+ * @param format サンプル形式（省略時は 16bit PCM）
  */
-export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
-  const numChannels = 1
-  const bitsPerSample = 16
+export function encodeWav(samples: Float32Array | Float32Array[], sampleRate: number, format: WavFormat = 'pcm16'): ArrayBuffer {
+  const channels = Array.isArray(samples) ? samples : [samples]
+  const numChannels = channels.length
+  const numFrames = channels[0]?.length ?? 0
+  const bitsPerSample = format === 'pcm16' ? 16 : format === 'pcm24' ? 24 : 32
   const bytesPerSample = bitsPerSample / 8
   const blockAlign = numChannels * bytesPerSample
   const byteRate = sampleRate * blockAlign
-  const dataSize = samples.length * bytesPerSample
-  const bufferSize = 44 + dataSize
+  const dataSize = numFrames * blockAlign
+  const fmtSize = format === 'pcm16' ? 16 : format === 'float32' ? 18 : 40
+  const factSize = format === 'float32' ? 12 : 0
+  const dataOffset = 12 + 8 + fmtSize + factSize + 8
+  const bufferSize = dataOffset + dataSize + (dataSize % 2) // チャンクは偶数バイトに揃える
 
   const buffer = new ArrayBuffer(bufferSize)
   const view = new DataView(buffer)
@@ -21,26 +61,56 @@ export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffe
   writeString(view, 8, 'WAVE')
 
   // fmt chunk
+  const formatTag = format === 'pcm16' ? WAVE_FORMAT_PCM : format === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_EXTENSIBLE
   writeString(view, 12, 'fmt ')
-  view.setUint32(16, 16, true) // chunk size
-  view.setUint16(20, 1, true) // PCM format
+  view.setUint32(16, fmtSize, true) // chunk size
+  view.setUint16(20, formatTag, true)
   view.setUint16(22, numChannels, true)
   view.setUint32(24, sampleRate, true)
   view.setUint32(28, byteRate, true)
   view.setUint16(32, blockAlign, true)
   view.setUint16(34, bitsPerSample, true)
+  if (format === 'float32') {
+    view.setUint16(36, 0, true) // 拡張部分の長さ
+  } else if (format === 'pcm24') {
+    view.setUint16(36, 22, true) // 拡張部分の長さ
+    view.setUint16(38, bitsPerSample, true) // 有効ビット数
+    view.setUint32(40, CHANNEL_MASKS[numChannels] ?? 0, true) // チャンネル配置
+    view.setUint16(44, WAVE_FORMAT_PCM, true) // サブフォーマット GUID
+    SUBFORMAT_GUID_SUFFIX.forEach((byte, i) => view.setUint8(46 + i, byte))
+  }
+
+  // fact chunk（PCM 以外はサンプル数を記録する）
+  if (factSize > 0) {
+    const factOffset = 20 + fmtSize
+    writeString(view, factOffset, 'fact')
+    view.setUint32(factOffset + 4, 4, true)
+    view.setUint32(factOffset + 8, numFrames, true)
+  }
 
   // data chunk
-  writeString(view, 36, 'data')
-  view.setUint32(40, dataSize, true)
-
-  // サンプルデータ（16bit PCM）
-  let offset = 44
-  for (let i = 0; i < samples.length; i++) {
-    const sample = Math.max(-1, Math.min(1, samples[i]))
-    const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF
-    view.setInt16(offset, intSample, true)
-    offset += 2
+  writeString(view, dataOffset - 8, 'data')
+  view.setUint32(dataOffset - 4, dataSize, true)
+
+  // サンプルデータ（フレームごとにチャンネルを並べる）
+  let offset = dataOffset
+  for (let i = 0; i < numFrames * numChannels; i++) {
+    const value = channels[i % numChannels][Math.floor(i / numChannels)] ?? 0
+    if (format === 'float32') {
+      view.setFloat32(offset, value, true)
+    } else {
+      const sample = Math.max(-1, Math.min(1, value))
+      if (format === 'pcm24') {
+        const intSample = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF)
+        view.setUint8(offset, intSample & 0xFF)
+        view.setUint8(offset + 1, (intSample >> 8) & 0xFF)
+        view.setUint8(offset + 2, (intSample >> 16) & 0xFF)
+      } else {
+        const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF
+        view.setInt16(offset, intSample, true)
+      }
+    }
+    offset += bytesPerSample
   }
 
   return buffer
@@ -52,10 +122,22 @@ function writeString(view: DataView, offset: number, str: string): void {
   }
 }
 
+/**
+ * データがWAVファイル（RIFF/WAVEヘッダー）かどうかを判定する
+ */
+export function isWavData(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 12) return false
+  const view = new DataView(buffer)
+  const riff = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))
+  const wave = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11))
+  return riff === 'RIFF' && wave === 'WAVE'
+}
+
 /**
  * WAVファイルをデコードしてFloat32Arrayに変換する
+ * @returns samples は1チャンネル目、channels はチャンネルごとの波形（モノラルの場合は samples のみを含む）
  */
-export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } | null {
+export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; channels: Float32Array[]; sampleRate: number } | null {
   const view = new DataView(buffer)
   
   // RIFFヘッダーチェック
@@ -74,6 +156,7 @@ export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleR
   // チャンクを探す
   let offset = 12
   let sampleRate = DEFAULT_SAMPLE_RATE
+  let formatTag = WAVE_FORMAT_PCM
   let bitsPerSample = 16
   let numChannels = 1
   let dataOffset = 0
@@ -87,9 +170,14 @@ export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleR
     const chunkSize = view.getUint32(offset + 4, true)
     
     if (chunkId === 'fmt ') {
+      formatTag = view.getUint16(offset + 8, true)
       numChannels = view.getUint16(offset + 10, true)
       sampleRate = view.getUint32(offset + 12, true)
       bitsPerSample = view.getUint16(offset + 22, true)
+      // WAVE_FORMAT_EXTENSIBLE はサブフォーマット GUID の先頭2バイトが実際のフォーマットタグ
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        formatTag = view.getUint16(offset + 32, true)
+      }
     } else if (chunkId === 'data') {
       dataOffset = offset + 8
       dataSize = chunkSize
@@ -105,23 +193,67 @@ export function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleR
     console.error('Invalid WAV: missing data chunk')
     return null
   }
+
+  if (numChannels === 0) {
+    console.error('Invalid WAV: no channels')
+    return null
+  }
   
-  // サンプルデータをFloat32Arrayに変換
+  const readSample = getSampleReader(view, formatTag, bitsPerSample)
+  if (!readSample) {
+    console.error(`Unsupported WAV format: format tag ${formatTag}, ${bitsPerSample} bits`)
+    return null
+  }
+
+  // サンプルデータをチャンネルごとのFloat32Arrayに変換
   const bytesPerSample = bitsPerSample / 8
-  const numSamples = Math.floor(dataSize / (bytesPerSample * numChannels))
-  const samples = new Float32Array(numSamples)
+  const frameSize = bytesPerSample * numChannels
+  const numSamples = Math.floor(dataSize / frameSize)
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(numSamples))
   
   for (let i = 0; i < numSamples; i++) {
-    const sampleOffset = dataOffset + i * bytesPerSample * numChannels
-    if (bitsPerSample === 16) {
-      const intSample = view.getInt16(sampleOffset, true)
-      samples[i] = intSample < 0 ? intSample / 0x8000 : intSample / 0x7FFF
-    } else if (bitsPerSample === 8) {
-      samples[i] = (view.getUint8(sampleOffset) - 128) / 128
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = readSample(dataOffset + i * frameSize + c * bytesPerSample)
     }
   }
   
-  return { samples, sampleRate }
+  return { samples: channels[0], channels, sampleRate }
+}
+
+/**
+ * WAVのサンプルを -1〜1 の値として読み取る関数を取得する
+ * @returns 対応していない形式の場合は null
+ */
+function getSampleReader(view: DataView, formatTag: number, bitsPerSample: number): ((offset: number) => number) | null {
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return offset => view.getFloat32(offset, true)
+    if (bitsPerSample === 64) return offset => view.getFloat64(offset, true)
+    return null
+  }
+  if (formatTag !== WAVE_FORMAT_PCM) return null
+
+  switch (bitsPerSample) {
+    case 8:
+      return offset => (view.getUint8(offset) - 128) / 128
+    case 16:
+      return offset => {
+        const intSample = view.getInt16(offset, true)
+        return intSample < 0 ? intSample / 0x8000 : intSample / 0x7FFF
+      }
+    case 24:
+      return offset => {
+        // 3バイトのリトルエンディアンを符号付き整数に拡張する
+        const intSample = ((view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)) << 8) >> 8
+        return intSample < 0 ? intSample / 0x800000 : intSample / 0x7FFFFF
+      }
+    case 32:
+      return offset => {
+        const intSample = view.getInt32(offset, true)
+        return intSample < 0 ? intSample / 0x80000000 : intSample / 0x7FFFFFFF
+      }
+    default:
+      return null
+  }
 }
 
 /**
@@ -197,52 +329,158 @@ export function parseTar(buffer: ArrayBuffer): { name: string; data: ArrayBuffer
   return files
 }
 
+// タイムスタンプCSVの列名
+const CSV_COLUMNS = [
+  'timestamp_keydown',
+  'timestamp_keyup',
+  'code_keydown',
+  'key_keydown',
+  'repeat_keydown',
+  'modifiers_keydown',
+  'code_keyup',
+  'key_keyup',
+  'repeat_keyup',
+  'modifiers_keyup',
+] as const
+
 /**
- * タイムスタンプCSVをパースする
+ * CSVのフィールドをエスケープする（カンマやダブルクォートを含むキー値用）
  */
-export function parseTimestampsCsv(csvContent: string): { keyDownTimestamps: number[]; keyUpTimestamps: number[] } {
-  const lines = csvContent.trim().split('\n')
-  const keyDownTimestamps: number[] = []
-  const keyUpTimestamps: number[] = []
-  
-  // ヘッダー行をスキップ
-  for (let i = 1; i < lines.length; i++) {
-    const parts = lines[i].split(',')
-    if (parts.length >= 2) {
-      const keydown = parts[0].trim()
-      const keyup = parts[1].trim()
-      if (keydown !== '') keyDownTimestamps.push(parseInt(keydown, 10))
-      if (keyup !== '') keyUpTimestamps.push(parseInt(keyup, 10))
+export function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * CSVの1行をフィールドに分割する（ダブルクォート対応）
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
     }
   }
-  
-  return { keyDownTimestamps, keyUpTimestamps }
+  fields.push(current)
+
+  return fields
 }
 
 /**
- * 測定データのメタ情報
+ * キーイベントからタイムスタンプCSVを生成する（keydown/keyupのペア形式）
  */
-export interface MeasurementMetadata {
-  version: string
-  exportedAt: string
-  measurement: {
-    id: number
-    name: string
-    timestamp: string
-    keyTapCount: number
-    keyUpCount: number
-    peakIntervalMs: number
+export function buildTimestampsCsv(keyDownEvents: KeyEventInfo[], keyUpEvents: KeyEventInfo[]): string {
+  const eventFields = (event: KeyEventInfo | undefined): string[] => {
+    if (!event) return ['', '', '', '']
+    return [
+      escapeCsvField(event.code),
+      escapeCsvField(event.key),
+      event.repeat ? '1' : '0',
+      formatModifiers(event),
+    ]
   }
-  audio: {
-    sampleRate: number
-    peakPositionMs?: number
-    recordingDurationMs: number
+
+  const csvLines = [CSV_COLUMNS.join(',')]
+  const maxLength = Math.max(keyDownEvents.length, keyUpEvents.length)
+  for (let i = 0; i < maxLength; i++) {
+    const keydown = keyDownEvents[i]
+    const keyup = keyUpEvents[i]
+    csvLines.push([
+      keydown?.timestampMs ?? '',
+      keyup?.timestampMs ?? '',
+      ...eventFields(keydown),
+      ...eventFields(keyup),
+    ].join(','))
   }
-  files: {
-    metadata: string
-    recording: string
-    combinedWaveform: string | null
-    timestamps: string
+
+  return csvLines.join('\n')
+}
+
+/**
+ * タイムスタンプCSVをパースする
+ * キー情報の列がない旧形式（timestamp_keydown,timestamp_keyup のみ）にも対応
+ */
+export function parseTimestampsCsv(csvContent: string): {
+  keyDownTimestamps: number[]
+  keyUpTimestamps: number[]
+  keyDownEvents: KeyEventInfo[]
+  keyUpEvents: KeyEventInfo[]
+} {
+  const lines = csvContent.trim().split(/\r?\n/)
+  const keyDownEvents: KeyEventInfo[] = []
+  const keyUpEvents: KeyEventInfo[] = []
+
+  // ヘッダー行から列位置を取得（見つからない列は -1）
+  const header = splitCsvLine(lines[0] ?? '').map(h => h.trim())
+  const column = (name: typeof CSV_COLUMNS[number], fallback: number = -1): number => {
+    const index = header.indexOf(name)
+    return index >= 0 ? index : fallback
+  }
+  const keydownColumns = {
+    timestamp: column('timestamp_keydown', 0),
+    code: column('code_keydown'),
+    key: column('key_keydown'),
+    repeat: column('repeat_keydown'),
+    modifiers: column('modifiers_keydown'),
+  }
+  const keyupColumns = {
+    timestamp: column('timestamp_keyup', 1),
+    code: column('code_keyup'),
+    key: column('key_keyup'),
+    repeat: column('repeat_keyup'),
+    modifiers: column('modifiers_keyup'),
+  }
+
+  const readEvent = (parts: string[], columns: typeof keydownColumns): KeyEventInfo | null => {
+    // タイムスタンプは小数を含む ms（数値として読めない値の行は読み飛ばす）
+    const timestamp = (parts[columns.timestamp] ?? '').trim()
+    const timestampMs = timestamp === '' ? NaN : Number(timestamp)
+    if (!Number.isFinite(timestampMs)) return null
+
+    const event = createUnknownKeyEvent(timestampMs)
+    if (columns.code >= 0) event.code = parts[columns.code] ?? ''
+    if (columns.key >= 0) event.key = parts[columns.key] ?? ''
+    if (columns.repeat >= 0) event.repeat = (parts[columns.repeat] ?? '').trim() === '1'
+    if (columns.modifiers >= 0) Object.assign(event, parseModifiers(parts[columns.modifiers] ?? ''))
+    return event
+  }
+
+  // ヘッダー行をスキップ
+  for (let i = 1; i < lines.length; i++) {
+    const parts = splitCsvLine(lines[i])
+    if (parts.length >= 2) {
+      const keydown = readEvent(parts, keydownColumns)
+      const keyup = readEvent(parts, keyupColumns)
+      if (keydown) keyDownEvents.push(keydown)
+      if (keyup) keyUpEvents.push(keyup)
+    }
+  }
+
+  return {
+    keyDownTimestamps: keyDownEvents.map(e => e.timestampMs),
+    keyUpTimestamps: keyUpEvents.map(e => e.timestampMs),
+    keyDownEvents,
+    keyUpEvents,
   }
 }
 
@@ -300,8 +538,8 @@ function createPaxExtendedHeader(filename: string, _fileSize: number): Uint8Arra
   const pathAttr = createPaxAttribute('path', filename)
   const paxData = encoder.encode(pathAttr)
   
-  // PAX拡張ヘッダーのUStarヘッダー
-  const paxHeaderName = 'PaxHeader/' + filename.substring(0, 80)
+  // PAX拡張ヘッダーのUStarヘッダー（名前は ASCII のみ。createUstarHeader で100バイトに切り詰める）
+  const paxHeaderName = 'PaxHeader/' + filename
   const header = createUstarHeader(paxHeaderName, paxData.length, 'x') // 'x' = PAX extended header
   
   // ヘッダー + データ + パディング
@@ -318,13 +556,14 @@ function createPaxExtendedHeader(filename: string, _fileSize: number): Uint8Arra
  */
 function createPaxAttribute(key: string, value: string): string {
   // 形式: "length key=value\n"
-  // lengthは自身を含む全体の長さ
+  // lengthは自身を含む全体の長さ（UTF-8 のバイト数）
   const content = ` ${key}=${value}\n`
-  let length = content.length + 1 // 最小は1桁
+  const contentBytes = new TextEncoder().encode(content).length
+  let length = contentBytes + 1 // 最小は1桁
   
   // 桁数を正確に計算
   while (true) {
-    const fullLength = length.toString().length + content.length
+    const fullLength = length.toString().length + contentBytes
     if (fullLength === length) break
     length = fullLength
   }
@@ -340,7 +579,8 @@ function createUstarHeader(filename: string, fileSize: number, typeflag: string
   const encoder = new TextEncoder()
   
   // ファイル名（100バイト、切り詰め）
-  const nameBytes = encoder.encode(filename.substring(0, 100))
+  // ASCII 以外の文字は PAX拡張ヘッダーの path に書き、ここでは置き換えて他のフィールドにはみ出さないようにする
+  const nameBytes = encoder.encode(filename.replace(/[\u0080-\uffff]/g, '_').substring(0, 100))
   header.set(nameBytes, 0)
   
   // ファイルモード（8バイト、8進数）
@@ -0,0 +1,110 @@
+/**
+ * 音声入力デバイスの設定ユーティリティ
+ */
+
+/**
+ * getUserMedia に要求する入力設定
+ * 打鍵音をそのまま測定するため、ブラウザの音声処理（AGC・ノイズ抑制・エコーキャンセル）は既定で無効にする
+ */
+export interface AudioInputSettings {
+  sampleRate: number | null  // 要求サンプルレート (Hz)、null の場合はブラウザ既定
+  channelCount: number       // 要求チャンネル数
+  echoCancellation: boolean
+  noiseSuppression: boolean
+  autoGainControl: boolean
+}
+
+export const DEFAULT_AUDIO_INPUT_SETTINGS: AudioInputSettings = {
+  sampleRate: null,
+  channelCount: 1,
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+}
+
+// 選択可能なサンプルレート (Hz)
+export const SELECTABLE_SAMPLE_RATES = [44100, 48000, 88200, 96000]
+
+/**
+ * 実際に取得できた入力トラックの設定（測定データのメタ情報に保存する）
+ */
+export interface AudioInputInfo {
+  deviceId: string
+  label: string
+  sampleRate?: number
+  sampleSize?: number
+  channelCount?: number
+  echoCancellation?: boolean
+  noiseSuppression?: boolean
+  autoGainControl?: boolean
+}
+
+const DEVICE_ID_STORAGE_KEY = 'keytap-analyzer.audioInputDeviceId'
+
+/**
+ * getUserMedia 用の音声制約を作成する
+ * @param deviceId 入力デバイスID（空文字列の場合は既定のデバイス）
+ * @param settings 入力設定
+ */
+export function buildAudioConstraints(deviceId: string, settings: AudioInputSettings): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    channelCount: { ideal: settings.channelCount },
+  }
+  if (deviceId) {
+    constraints.deviceId = { exact: deviceId }
+  }
+  if (settings.sampleRate !== null) {
+    constraints.sampleRate = { ideal: settings.sampleRate }
+  }
+  return constraints
+}
+
+/**
+ * MediaStream の音声トラックから実際の入力設定を取得する
+ * @returns 入力設定（音声トラックがない場合は null）
+ */
+export function getAudioInputInfo(stream: MediaStream): AudioInputInfo | null {
+  const track = stream.getAudioTracks()[0]
+  if (!track) return null
+
+  const settings = track.getSettings()
+  return {
+    deviceId: settings.deviceId ?? '',
+    label: track.label,
+    sampleRate: settings.sampleRate,
+    sampleSize: settings.sampleSize,
+    channelCount: settings.channelCount,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  }
+}
+
+/**
+ * 保存済みの入力デバイスIDを読み込む
+ */
+export function loadSavedDeviceId(): string {
+  try {
+    return localStorage.getItem(DEVICE_ID_STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 選択した入力デバイスIDを保存する
+ */
+export function saveDeviceId(deviceId: string): void {
+  try {
+    if (deviceId) {
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId)
+    } else {
+      localStorage.removeItem(DEVICE_ID_STORAGE_KEY)
+    }
+  } catch {
+    // プライベートモードなどで保存できない場合は無視
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * AudioWorklet による録音キャプチャのユーティリティ
+ * AudioWorkletGlobalScope に依存しない処理をここにまとめ、ワークレット本体（src/worklets/captureProcessor.ts）から利用する
+ */
+
+export const CAPTURE_PROCESSOR_NAME = 'keytap-capture-processor'
+
+// メインスレッドへ送るブロックのフレーム数（128フレームのレンダー量子をまとめて送る）
+export const CAPTURE_BLOCK_FRAMES = 2048
+
+// レンダー量子のフレーム数（入力未接続時の無音補完に使用）
+const RENDER_QUANTUM_FRAMES = 128
+
+/**
+ * ワークレットからメインスレッドへ送るメッセージ
+ */
+export type CaptureProcessorMessage =
+  | { type: 'block'; startFrame: number; channels: Float32Array[] } // startFrame: ブロック先頭サンプルの AudioContext フレーム番号、channels: チャンネルごとのサンプル
+  | { type: 'stopped'; totalFrames: number }
+
+/**
+ * メインスレッドからワークレットへ送るメッセージ
+ */
+export type CaptureControlMessage = { type: 'stop' }
+
+/**
+ * ワークレットの作成時に渡す設定（AudioWorkletNode の processorOptions）
+ */
+export interface CaptureProcessorOptions {
+  channelCount: number
+}
+
+/**
+ * メッセージ送信先（ワークレットの MessagePort、テストではフェイク）
+ */
+export interface CapturePort {
+  postMessage(message: CaptureProcessorMessage, transfer?: Transferable[]): void
+}
+
+/**
+ * 入力サンプルをチャンネルごとにブロック単位にまとめ、先頭フレーム番号付きでポートへ送る
+ */
+export class CaptureProcessorCore {
+  private readonly port: CapturePort
+  private readonly buffers: Float32Array[]
+  private bufferedFrames = 0
+  private bufferStartFrame = 0
+  private totalFrames = 0
+  private stopped = false
+
+  constructor(port: CapturePort, blockFrames: number = CAPTURE_BLOCK_FRAMES, channelCount: number = 1) {
+    this.port = port
+    this.buffers = Array.from({ length: Math.max(1, channelCount) }, () => new Float32Array(blockFrames))
+  }
+
+  /**
+   * 1レンダー量子分の入力を処理する
+   * @param input チャンネルごとの入力（未接続の場合は空配列または undefined。足りないチャンネルは無音として扱う）
+   * @param currentFrame 入力先頭サンプルの AudioContext フレーム番号
+   * @returns 処理を継続する場合は true（停止後は false）
+   */
+  process(input: Float32Array[] | undefined, currentFrame: number): boolean {
+    if (this.stopped) return false
+
+    const frames = input?.[0]?.length ?? RENDER_QUANTUM_FRAMES
+    const blockFrames = this.buffers[0].length
+    let offset = 0
+    while (offset < frames) {
+      if (this.bufferedFrames === 0) {
+        this.bufferStartFrame = currentFrame + offset
+      }
+      const count = Math.min(frames - offset, blockFrames - this.bufferedFrames)
+      this.buffers.forEach((buffer, channel) => {
+        const channelInput = input?.[channel]
+        if (channelInput) {
+          buffer.set(channelInput.subarray(offset, offset + count), this.bufferedFrames)
+        } else {
+          buffer.fill(0, this.bufferedFrames, this.bufferedFrames + count)
+        }
+      })
+      this.bufferedFrames += count
+      offset += count
+
+      if (this.bufferedFrames === blockFrames) {
+        this.flush()
+      }
+    }
+    this.totalFrames += frames
+    return true
+  }
+
+  /**
+   * メインスレッドからのメッセージを処理する
+   */
+  handleMessage(message: CaptureControlMessage): void {
+    if (message.type === 'stop' && !this.stopped) {
+      // 溜まっている分を送ってから停止を通知
+      this.flush()
+      this.stopped = true
+      this.port.postMessage({ type: 'stopped', totalFrames: this.totalFrames })
+    }
+  }
+
+  private flush(): void {
+    if (this.bufferedFrames === 0) return
+    const channels = this.buffers.map(buffer => buffer.slice(0, this.bufferedFrames))
+    this.port.postMessage({ type: 'block', startFrame: this.bufferStartFrame, channels }, channels.map(channel => channel.buffer))
+    this.bufferedFrames = 0
+  }
+}
+
+/**
+ * AudioContext.currentTime を録音開始からの経過時間（ms）に変換する
+ * 時刻をフレーム番号に丸めてから換算するため、結果は録音データのサンプル位置と一致する
+ * @param audioTime AudioContext.currentTime (秒)
+ * @param startFrame 録音データ先頭サンプルのフレーム番号
+ * @param sampleRate サンプルレート (Hz)
+ */
+export function audioTimeToRecordingMs(audioTime: number, startFrame: number, sampleRate: number): number {
+  const frame = Math.round(audioTime * sampleRate)
+  return ((frame - startFrame) / sampleRate) * 1000
+}
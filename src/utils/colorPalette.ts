@@ -0,0 +1,84 @@
+/**
+ * 比較表示用のカラーパレット
+ * 比較する測定の数に上限がないため、基本色を使い切った後も区別できる描画スタイルを生成する
+ */
+
+/**
+ * パレットの種類
+ * - standard: 標準（基本色の後は色相をずらして色を生成）
+ * - colorblind: 色覚多様性対応（Okabe-Ito の配色、使い切った後は線種で区別）
+ */
+export type PaletteType = 'standard' | 'colorblind'
+
+export const PALETTE_LABELS: Record<PaletteType, string> = {
+  standard: '標準',
+  colorblind: '色覚多様性対応',
+}
+
+/**
+ * 1本の線の描画スタイル
+ */
+export interface TraceStyle {
+  color: string
+  dash: number[]  // CanvasRenderingContext2D.setLineDash に渡す線種（実線は空配列）
+}
+
+// 標準パレットの基本色
+const STANDARD_COLORS = [
+  '#4CAF50', // 緑
+  '#2196F3', // 青
+  '#FF9800', // オレンジ
+  '#E91E63', // ピンク
+  '#9C27B0', // 紫
+  '#00BCD4', // シアン
+]
+
+// Okabe-Ito の配色（暗い背景で見えない黒はグレーに置き換え）
+const COLORBLIND_COLORS = [
+  '#E69F00', // オレンジ
+  '#56B4E9', // 空色
+  '#009E73', // 青緑
+  '#F0E442', // 黄
+  '#0072B2', // 青
+  '#D55E00', // 朱
+  '#CC79A7', // 赤紫
+  '#BBBBBB', // グレー
+]
+
+// 色覚多様性対応パレットで色を使い切った後に順に使う線種
+const DASH_PATTERNS = [
+  [],
+  [8, 4],
+  [2, 3],
+  [8, 3, 2, 3],
+]
+
+// 黄金角。色相を毎回この角度ずつずらすと、何色生成しても隣り合う色が近くなりにくい
+const GOLDEN_ANGLE = 137.508
+
+/**
+ * index 番目の線の描画スタイルを取得する
+ */
+export function getTraceStyle(palette: PaletteType, index: number): TraceStyle {
+  if (palette === 'colorblind') {
+    const round = Math.floor(index / COLORBLIND_COLORS.length)
+    return {
+      color: COLORBLIND_COLORS[index % COLORBLIND_COLORS.length],
+      dash: DASH_PATTERNS[round % DASH_PATTERNS.length],
+    }
+  }
+
+  if (index < STANDARD_COLORS.length) {
+    return { color: STANDARD_COLORS[index], dash: [] }
+  }
+  // 基本色の後は色相をずらして生成（暗い背景で見やすい明度にする）
+  const hue = Math.round((index - STANDARD_COLORS.length) * GOLDEN_ANGLE + 20) % 360
+  return { color: `hsl(${hue}, 70%, 60%)`, dash: [] }
+}
+
+/**
+ * count 本分の描画スタイルを取得する
+ */
+export function generateTraceStyles(palette: PaletteType, count: number): TraceStyle[] {
+  return Array.from({ length: count }, (_, index) => getTraceStyle(palette, index))
+}
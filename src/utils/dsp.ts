@@ -0,0 +1,321 @@
+/**
+ * スペクトル解析の共通ユーティリティ（FFT・パワースペクトル・スペクトログラム）
+ * 回転因子とビットリバース表は FFT サイズごとに一度だけ計算して使い回す
+ */
+import { getWindowCoefficients, getWindowPowerGain, type WindowFunction } from './windowFunctions'
+
+/**
+ * FFT サイズごとの事前計算表
+ */
+interface FftPlan {
+  size: number
+  cos: Float64Array         // 回転因子 exp(-2πik/N) の実部（k = 0 〜 N/2 - 1）
+  sin: Float64Array         // 回転因子の虚部
+  bitReverse: Uint32Array   // ビットリバース並び替えの入れ替え先
+}
+
+const fftPlans = new Map<number, FftPlan>()
+
+/**
+ * 2のべき乗かどうか
+ */
+function isPowerOf2(n: number): boolean {
+  return n >= 1 && Number.isInteger(n) && (n & (n - 1)) === 0
+}
+
+/**
+ * FFT サイズに対応する事前計算表を取得する
+ */
+function getFftPlan(size: number): FftPlan {
+  let plan = fftPlans.get(size)
+  if (!plan) {
+    if (!isPowerOf2(size)) throw new Error(`FFTサイズは2のべき乗である必要があります: ${size}`)
+
+    const half = size >> 1
+    const cos = new Float64Array(half)
+    const sin = new Float64Array(half)
+    for (let k = 0; k < half; k++) {
+      const theta = -2 * Math.PI * k / size
+      cos[k] = Math.cos(theta)
+      sin[k] = Math.sin(theta)
+    }
+
+    const bits = Math.log2(size)
+    const bitReverse = new Uint32Array(size)
+    for (let i = 0; i < size; i++) {
+      let reversed = 0
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1)
+      }
+      bitReverse[i] = reversed
+    }
+
+    plan = { size, cos, sin, bitReverse }
+    fftPlans.set(size, plan)
+  }
+  return plan
+}
+
+/**
+ * 複素 FFT（Cooley-Tukey, 基数2, インプレース）
+ * @param real 実部（長さは2のべき乗）
+ * @param imag 虚部（real と同じ長さ）
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length
+  if (n <= 1) return
+  const { cos, sin, bitReverse } = getFftPlan(n)
+
+  // ビットリバース並び替え
+  for (let i = 0; i < n; i++) {
+    const j = bitReverse[i]
+    if (i < j) {
+      const tr = real[i]
+      real[i] = real[j]
+      real[j] = tr
+      const ti = imag[i]
+      imag[i] = imag[j]
+      imag[j] = ti
+    }
+  }
+
+  // バタフライ演算（長さ len の段では回転因子表を n/len 飛ばしで参照する）
+  for (let len = 2; len <= n; len <<= 1) {
+    const halfLen = len >> 1
+    const stride = n / len
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < halfLen; k++) {
+        const c = cos[k * stride]
+        const s = sin[k * stride]
+        const idx1 = i + k
+        const idx2 = idx1 + halfLen
+        const tReal = real[idx2] * c - imag[idx2] * s
+        const tImag = real[idx2] * s + imag[idx2] * c
+        real[idx2] = real[idx1] - tReal
+        imag[idx2] = imag[idx1] - tImag
+        real[idx1] += tReal
+        imag[idx1] += tImag
+      }
+    }
+  }
+}
+
+/**
+ * 実数入力の FFT の結果（0 〜 N/2 の N/2 + 1 個のビン）
+ */
+export interface RealFftResult {
+  real: Float64Array
+  imag: Float64Array
+}
+
+/**
+ * 実数入力の FFT
+ * 偶数番目を実部・奇数番目を虚部に詰めた N/2 点の複素 FFT を1回行い、結果を分離して N 点の FFT を求める
+ * @param input 入力（size より短い場合は後ろを 0 で埋める）
+ * @param size FFT サイズ（2のべき乗）
+ */
+export function realFft(input: ArrayLike<number>, size: number): RealFftResult {
+  if (input.length > size) throw new Error(`入力の長さ (${input.length}) がFFTサイズ (${size}) を超えています`)
+  const { cos, sin } = getFftPlan(size)
+  const half = size >> 1
+  const real = new Float64Array(half + 1)
+  const imag = new Float64Array(half + 1)
+  if (half === 0) {
+    real[0] = input[0] ?? 0
+    return { real, imag }
+  }
+
+  const zr = new Float64Array(half)
+  const zi = new Float64Array(half)
+  for (let i = 0; i < half; i++) {
+    zr[i] = input[2 * i] ?? 0
+    zi[i] = input[2 * i + 1] ?? 0
+  }
+  fft(zr, zi)
+
+  // 直流とナイキスト周波数
+  real[0] = zr[0] + zi[0]
+  real[half] = zr[0] - zi[0]
+
+  for (let k = 1; k < half; k++) {
+    const m = half - k
+    // 偶数番目の系列の FFT: (Z[k] + conj(Z[m])) / 2
+    const evenReal = (zr[k] + zr[m]) / 2
+    const evenImag = (zi[k] - zi[m]) / 2
+    // 奇数番目の系列の FFT: (Z[k] - conj(Z[m])) / 2i
+    const oddReal = (zi[k] + zi[m]) / 2
+    const oddImag = (zr[m] - zr[k]) / 2
+    real[k] = evenReal + cos[k] * oddReal - sin[k] * oddImag
+    imag[k] = evenImag + cos[k] * oddImag + sin[k] * oddReal
+  }
+  return { real, imag }
+}
+
+/**
+ * 2のべき乗に切り上げ
+ */
+export function nextPowerOf2(n: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(n)))
+}
+
+/**
+ * 窓を掛けた実数 FFT の結果から片側パワースペクトルを求める
+ * FFT サイズで割り、窓関数によるパワーの減少（パワー利得）を補正する
+ */
+function toPowerSpectrum({ real, imag }: RealFftResult, size: number, windowPowerGain: number): Float64Array {
+  const spectrum = new Float64Array(size / 2)
+  const scale = 1 / (size * windowPowerGain)
+  for (let i = 0; i < spectrum.length; i++) {
+    spectrum[i] = (real[i] * real[i] + imag[i] * imag[i]) * scale
+  }
+  return spectrum
+}
+
+/**
+ * 波形の一部に窓関数を掛けてパワースペクトルを求める
+ * @param start 区間の先頭
+ * @param length 区間の長さ（窓関数の長さ）
+ * @param size FFT サイズ（length 以上。足りない分は 0 で埋める）
+ */
+function segmentPowerSpectrum(
+  data: Float32Array,
+  start: number,
+  length: number,
+  size: number,
+  windowFunction: WindowFunction
+): Float64Array {
+  const coefficients = getWindowCoefficients(windowFunction, length)
+  const frame = new Float64Array(length)
+  for (let i = 0; i < length; i++) {
+    frame[i] = data[start + i] * coefficients[i]
+  }
+  return toPowerSpectrum(realFft(frame, size), size, getWindowPowerGain(windowFunction, length))
+}
+
+/**
+ * パワースペクトル（片側）を計算する
+ * 波形全体に窓関数を掛けて1回の FFT で求める。波形が fftSize より長い場合は、波形全体が入る2のべき乗まで FFT サイズを広げる
+ * @returns パワースペクトル（FFT サイズの半分のビン数）
+ */
+export function computePowerSpectrum(
+  data: Float32Array,
+  fftSize: number,
+  windowFunction: WindowFunction = 'hann'
+): Float64Array {
+  const paddedSize = Math.max(fftSize, nextPowerOf2(data.length))
+  return segmentPowerSpectrum(data, 0, data.length, paddedSize, windowFunction)
+}
+
+/**
+ * Welch 法でパワースペクトルを計算する
+ * 波形を重なりのあるセグメントに分けてそれぞれのパワースペクトルを平均し、長い録音のばらつきを抑える
+ * 波形がセグメントより短い場合は、波形全体を1つのセグメントとして扱う
+ * @param segmentSize セグメントの長さ（2のべき乗。FFT サイズを兼ねる）
+ * @param overlap セグメントの重なりの割合（0 以上 1 未満）
+ * @returns パワースペクトル（segmentSize の半分のビン数）
+ */
+export function computeWelchSpectrum(
+  data: Float32Array,
+  segmentSize: number,
+  overlap: number,
+  windowFunction: WindowFunction = 'hann'
+): Float64Array {
+  if (data.length <= segmentSize) {
+    return segmentPowerSpectrum(data, 0, data.length, segmentSize, windowFunction)
+  }
+
+  const hopSize = Math.max(1, Math.round(segmentSize * (1 - overlap)))
+  const segmentCount = Math.floor((data.length - segmentSize) / hopSize) + 1
+  const average = new Float64Array(segmentSize / 2)
+  for (let s = 0; s < segmentCount; s++) {
+    const spectrum = segmentPowerSpectrum(data, s * hopSize, segmentSize, segmentSize, windowFunction)
+    for (let i = 0; i < average.length; i++) {
+      average[i] += spectrum[i] / segmentCount
+    }
+  }
+  return average
+}
+
+/**
+ * パワースペクトルの平均化の方法
+ * - none: 波形全体を1回の FFT で解析する
+ * - welch: Welch 法（セグメントごとのパワースペクトルの平均）
+ */
+export type SpectrumAveraging = 'none' | 'welch'
+
+export const SPECTRUM_AVERAGING_LABELS: Record<SpectrumAveraging, string> = {
+  none: 'なし（全体を1回のFFT）',
+  welch: 'Welch法',
+}
+
+// Welch 法のセグメント長・重なりの選択肢
+export const WELCH_SEGMENT_SIZES = [256, 512, 1024, 2048, 4096, 8192, 16384]
+export const WELCH_OVERLAPS = [0, 0.25, 0.5, 0.75]
+
+/**
+ * パワースペクトルの解析設定
+ */
+export interface SpectrumSettings {
+  windowFunction: WindowFunction
+  averaging: SpectrumAveraging
+  segmentSize: number  // Welch 法のセグメント長（サンプル数）
+  overlap: number      // Welch 法のセグメントの重なりの割合
+}
+
+export const DEFAULT_SPECTRUM_SETTINGS: SpectrumSettings = {
+  windowFunction: 'hann',
+  averaging: 'none',
+  segmentSize: 4096,
+  overlap: 0.5,
+}
+
+/**
+ * 解析設定に従ってパワースペクトルを計算する
+ * @param fftSize 平均化しない場合の FFT サイズ（波形が長い場合は広げる）
+ */
+export function computeSpectrum(data: Float32Array, fftSize: number, settings: SpectrumSettings): Float64Array {
+  if (settings.averaging === 'welch') {
+    return computeWelchSpectrum(data, settings.segmentSize, settings.overlap, settings.windowFunction)
+  }
+  return computePowerSpectrum(data, fftSize, settings.windowFunction)
+}
+
+/**
+ * スペクトログラム
+ * フレーム t・ビン f のパワーは data[t * freqBins + f]
+ */
+export interface Spectrogram {
+  data: Float64Array
+  timeSteps: number
+  freqBins: number
+}
+
+/**
+ * STFT（短時間フーリエ変換）でスペクトログラムを計算する
+ * @param hopSize フレームの間隔（サンプル数）
+ */
+export function computeSpectrogram(
+  data: Float32Array,
+  fftSize: number,
+  hopSize: number,
+  windowFunction: WindowFunction = 'hann'
+): Spectrogram {
+  const freqBins = fftSize / 2
+  const timeSteps = data.length >= fftSize ? Math.floor((data.length - fftSize) / hopSize) + 1 : 0
+  const spectrogram = new Float64Array(timeSteps * freqBins)
+
+  for (let t = 0; t < timeSteps; t++) {
+    spectrogram.set(segmentPowerSpectrum(data, t * hopSize, fftSize, fftSize, windowFunction), t * freqBins)
+  }
+
+  return { data: spectrogram, timeSteps, freqBins }
+}
+
+/**
+ * パワーを dB に変換する
+ */
+export function toDB(value: number, minDB: number = -100): number {
+  if (value <= 0) return minDB
+  const db = 10 * Math.log10(value)
+  return Math.max(db, minDB)
+}
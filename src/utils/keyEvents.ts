@@ -0,0 +1,125 @@
+/**
+ * キーイベント情報のユーティリティ関数
+ */
+
+/**
+ * 1回のキーイベント（keydown / keyup）の情報
+ */
+export interface KeyEventInfo {
+  timestampMs: number  // 録音開始からの経過時間 (ms)
+  code: string         // KeyboardEvent.code（物理キー、例: "Space", "KeyA"）
+  key: string          // KeyboardEvent.key（入力値、例: " ", "a"）
+  repeat: boolean      // オートリピートによるイベントかどうか
+  shiftKey: boolean
+  ctrlKey: boolean
+  altKey: boolean
+  metaKey: boolean
+}
+
+/**
+ * キーイベントの取得元
+ * - keyboard: 録音中のキーボードイベント
+ * - detected: 録音データの打鍵音から自動検出（キー情報なし）
+ */
+export type KeyEventSource = 'keyboard' | 'detected'
+
+/**
+ * KeyboardEvent からタイムスタンプを除いたキー情報を取り出す
+ */
+export function extractKeyEventDetails(event: KeyboardEvent): Omit<KeyEventInfo, 'timestampMs'> {
+  return {
+    code: event.code,
+    key: event.key,
+    repeat: event.repeat,
+    shiftKey: event.shiftKey,
+    ctrlKey: event.ctrlKey,
+    altKey: event.altKey,
+    metaKey: event.metaKey,
+  }
+}
+
+/**
+ * キー情報が不明なイベントを作成する（旧形式CSVのインポート用）
+ */
+export function createUnknownKeyEvent(timestampMs: number): KeyEventInfo {
+  return {
+    timestampMs,
+    code: '',
+    key: '',
+    repeat: false,
+    shiftKey: false,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+  }
+}
+
+// CSV上の修飾キー表記（KeyboardEvent.getModifierState のキー名に合わせる）
+const MODIFIER_NAMES = [
+  ['shiftKey', 'Shift'],
+  ['ctrlKey', 'Control'],
+  ['altKey', 'Alt'],
+  ['metaKey', 'Meta'],
+] as const
+
+/**
+ * 修飾キーの状態を "Shift+Control" 形式の文字列に変換する
+ */
+export function formatModifiers(event: KeyEventInfo): string {
+  return MODIFIER_NAMES
+    .filter(([prop]) => event[prop])
+    .map(([, name]) => name)
+    .join('+')
+}
+
+/**
+ * "Shift+Control" 形式の文字列から修飾キーの状態を復元する
+ */
+export function parseModifiers(value: string): Pick<KeyEventInfo, 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'> {
+  const names = value.split('+').map(s => s.trim())
+  return {
+    shiftKey: names.includes('Shift'),
+    ctrlKey: names.includes('Control'),
+    altKey: names.includes('Alt'),
+    metaKey: names.includes('Meta'),
+  }
+}
+
+/**
+ * 同期加算をまとめて行うキーのグループ
+ * スタビライザー付きのキー（Space, Enter, Backspace）は英字キーと音が大きく異なるため分けて扱う
+ */
+export type KeyGroup = 'all' | 'space' | 'enter' | 'backspace' | 'alpha' | 'other'
+
+// 表示順に並べたキーグループ（'all' を除く）
+export const KEY_GROUPS: Exclude<KeyGroup, 'all'>[] = ['space', 'enter', 'backspace', 'alpha', 'other']
+
+export const KEY_GROUP_LABELS: Record<KeyGroup, string> = {
+  all: '全キー',
+  space: 'Space',
+  enter: 'Enter',
+  backspace: 'Backspace',
+  alpha: '英字キー',
+  other: 'その他',
+}
+
+/**
+ * KeyboardEvent.code からキーグループを判定する
+ * @returns キーグループ（code が不明な場合は null）
+ */
+export function getKeyGroup(code: string): Exclude<KeyGroup, 'all'> | null {
+  if (code === '') return null
+  if (code === 'Space') return 'space'
+  if (code === 'Enter' || code === 'NumpadEnter') return 'enter'
+  if (code === 'Backspace') return 'backspace'
+  if (/^Key[A-Z]$/.test(code)) return 'alpha'
+  return 'other'
+}
+
+/**
+ * キーイベント列に含まれるキーグループを表示順で取得する
+ */
+export function getPresentKeyGroups(events: KeyEventInfo[]): Exclude<KeyGroup, 'all'>[] {
+  const present = new Set(events.map(e => getKeyGroup(e.code)))
+  return KEY_GROUPS.filter(group => present.has(group))
+}
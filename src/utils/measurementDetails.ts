@@ -0,0 +1,111 @@
+/**
+ * 測定情報（キーボード構成・録音条件・タグ）のユーティリティ
+ */
+
+/**
+ * 測定したキーボードと録音条件の情報
+ */
+export interface MeasurementDetails {
+  keyboardModel: string   // キーボードの機種
+  switchName: string      // スイッチ
+  keycapProfile: string   // キーキャップのプロファイル（Cherry, SA など）
+  keycapMaterial: string  // キーキャップの素材（PBT, ABS など）
+  plate: string           // プレートの素材
+  mounting: string        // マウント方式（ガスケット、トレイなど）
+  micPosition: string     // マイクの位置
+  surface: string         // 設置面（机上、手持ちなど）
+  tags: string[]          // 自由入力のタグ
+}
+
+export const EMPTY_MEASUREMENT_DETAILS: MeasurementDetails = {
+  keyboardModel: '',
+  switchName: '',
+  keycapProfile: '',
+  keycapMaterial: '',
+  plate: '',
+  mounting: '',
+  micPosition: '',
+  surface: '',
+  tags: [],
+}
+
+// タグ以外のテキスト項目（表示順）
+export type MeasurementDetailTextField = Exclude<keyof MeasurementDetails, 'tags'>
+
+export const MEASUREMENT_DETAIL_FIELDS: { key: MeasurementDetailTextField; label: string; placeholder: string }[] = [
+  { key: 'keyboardModel', label: 'キーボード', placeholder: '例: QK80 MK2' },
+  { key: 'switchName', label: 'スイッチ', placeholder: '例: Gateron Milky Yellow' },
+  { key: 'keycapProfile', label: 'キーキャップ形状', placeholder: '例: Cherry' },
+  { key: 'keycapMaterial', label: 'キーキャップ素材', placeholder: '例: PBT' },
+  { key: 'plate', label: 'プレート', placeholder: '例: FR4' },
+  { key: 'mounting', label: 'マウント', placeholder: '例: ガスケット' },
+  { key: 'micPosition', label: 'マイク位置', placeholder: '例: 正面30cm' },
+  { key: 'surface', label: '設置面', placeholder: '例: 机上' },
+]
+
+// ファイル名に含まれる設置面の表記（サンプルデータは "_onDesk" / "_onHand" を付けている）
+const SURFACE_PATTERNS: [RegExp, string][] = [
+  [/on[-_ ]?desk/i, '机上'],
+  [/on[-_ ]?hand/i, '手持ち'],
+]
+
+/**
+ * ファイル名から設置面を推定する
+ * @returns 設置面（推定できない場合は空文字列）
+ */
+export function inferSurfaceFromName(name: string): string {
+  for (const [pattern, surface] of SURFACE_PATTERNS) {
+    if (pattern.test(name)) return surface
+  }
+  return ''
+}
+
+/**
+ * カンマ区切りのタグ文字列を配列に変換する（空白の除去と重複の除外を行う）
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(/[,、]/).map(tag => tag.trim()).filter(tag => tag !== '')
+  return [...new Set(tags)]
+}
+
+/**
+ * タグの配列を入力欄用の文字列に変換する
+ */
+export function formatTags(tags: string[]): string {
+  return tags.join(', ')
+}
+
+/**
+ * 欠けている項目を既定値で補う（旧形式のメタデータや保存データの読み込み用）
+ */
+export function normalizeMeasurementDetails(details: Partial<MeasurementDetails> | undefined): MeasurementDetails {
+  return {
+    ...EMPTY_MEASUREMENT_DETAILS,
+    ...details,
+    tags: Array.isArray(details?.tags) ? details.tags : [],
+  }
+}
+
+/**
+ * 測定が検索語に一致するかを判定する
+ * 空白区切りの各語が、測定名・測定情報・タグのいずれかに含まれる場合に一致とする（大文字小文字は区別しない）
+ */
+export function matchesMeasurementQuery(name: string, details: MeasurementDetails, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term !== '')
+  if (terms.length === 0) return true
+
+  const haystack = [
+    name,
+    ...MEASUREMENT_DETAIL_FIELDS.map(field => details[field.key]),
+    ...details.tags,
+  ].join('\n').toLowerCase()
+  return terms.every(term => haystack.includes(term))
+}
+
+/**
+ * 測定の一覧に含まれるタグを重複なしで取得する（名前順）
+ */
+export function collectTags(detailsList: MeasurementDetails[]): string[] {
+  const tags = new Set(detailsList.flatMap(details => details.tags))
+  return [...tags].sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,295 @@
+/**
+ * 測定データ（.keytapanalyzer.dat）のメタ情報（metadata.json）の形式
+ * 読み込んだ metadata.json は古いバージョンを現在の形式に変換してから項目を検証し、足りない値を黙って補わないようにする
+ */
+import { WAV_FORMAT_LABELS, type WavFormat } from './audioExport'
+import type { AudioInputInfo } from './audioInput'
+import type { KeyEventSource } from './keyEvents'
+import { MEASUREMENT_DETAIL_FIELDS, type MeasurementDetails } from './measurementDetails'
+import type { ChannelSelection } from './multichannel'
+import {
+  arrayOf,
+  boolean,
+  dateString,
+  describeValue,
+  isRecord,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  type Check,
+} from './schemaValidation'
+import {
+  ALIGN_MODE_LABELS,
+  AVERAGING_METHOD_LABELS,
+  DEFAULT_AVERAGING_OPTIONS,
+  type AlignMode,
+  type AveragingOptions,
+} from './waveformProcessing'
+
+// 書き出すメタ情報のバージョン
+export const METADATA_VERSION = '2.0'
+
+/**
+ * 同期加算の設定（2.0 から書き出す）
+ */
+export interface MeasurementAnalysisSettings {
+  attackOffsetMs: number
+  attackAlignMode: AlignMode
+  releaseOffsetMs: number
+  releaseAlignMode: AlignMode
+  averaging: AveragingOptions
+}
+
+/**
+ * 設定を書き出していないデータ（1.0 のメタ情報・WAVファイル単体）の同期加算の設定
+ */
+export const DEFAULT_ANALYSIS_SETTINGS: MeasurementAnalysisSettings = {
+  attackOffsetMs: 10,
+  attackAlignMode: 'peak',
+  releaseOffsetMs: 10,
+  releaseAlignMode: 'peak',
+  averaging: DEFAULT_AVERAGING_OPTIONS,
+}
+
+// 設定を書き出していないデータのピーク位置・ピーク間隔 (ms)
+export const DEFAULT_PEAK_POSITION_MS = 10
+export const DEFAULT_PEAK_INTERVAL_MS = 12
+
+/**
+ * 測定データのメタ情報
+ */
+export interface MeasurementMetadata {
+  version: string
+  exportedAt: string
+  measurement: {
+    id: number
+    name: string
+    timestamp: string
+    keyTapCount: number
+    keyUpCount: number
+    peakIntervalMs: number
+    keyEventSource?: KeyEventSource  // 省略時は 'keyboard'
+    excludedWindows?: {              // 手動で除外したウィンドウの基準タイムスタンプ (ms)、省略時は除外なし
+      attack: number[]
+      release: number[]
+    }
+    details?: Partial<MeasurementDetails> // キーボード構成・録音条件・タグ（欠けている項目は空欄として扱う）
+    channelSelection?: ChannelSelection   // 多チャンネル録音で解析に使うチャンネル（省略時は1チャンネル目）
+  }
+  audio: {
+    sampleRate: number
+    peakPositionMs: number
+    recordingDurationMs: number
+    input?: AudioInputInfo  // 録音時の入力デバイスと実際のトラック設定
+    wavFormat?: WavFormat   // 同梱したWAVファイルのサンプル形式（省略時は 'pcm16'）
+  }
+  analysis: MeasurementAnalysisSettings
+  files: {
+    metadata: string
+    recording: string
+    combinedWaveform: string | null
+    timestamps: string
+    attackWaveform?: string | null   // 同期加算したアタック音（省略時は録音データから再計算する）
+    releaseWaveform?: string | null  // 同期加算したリリース音
+    analysis?: string | null         // 個別ウィンドウとばらつき（analysis.json）
+  }
+}
+
+/**
+ * WAVファイル単体をインポートする際のメタデータを作成する
+ * キーイベントは打鍵音から自動検出したものとして扱う
+ * @param fileName WAVファイル名（拡張子を除いて測定名にする）
+ * @param lastModified ファイルの更新日時（測定日時として使用）
+ * @param numSamples 録音データのサンプル数
+ * @param sampleRate サンプルレート
+ * @param keyTapCount 検出したキーダウン数
+ * @param keyUpCount 検出したキーアップ数
+ */
+export function createWavImportMetadata(
+  fileName: string,
+  lastModified: Date,
+  numSamples: number,
+  sampleRate: number,
+  keyTapCount: number,
+  keyUpCount: number
+): MeasurementMetadata {
+  return {
+    version: METADATA_VERSION,
+    exportedAt: lastModified.toISOString(),
+    measurement: {
+      id: 0,
+      name: fileName.replace(/\.wav$/i, ''),
+      timestamp: lastModified.toISOString(),
+      keyTapCount,
+      keyUpCount,
+      peakIntervalMs: DEFAULT_PEAK_INTERVAL_MS,
+      keyEventSource: 'detected',
+    },
+    audio: {
+      sampleRate,
+      peakPositionMs: DEFAULT_PEAK_POSITION_MS,
+      recordingDurationMs: (numSamples / sampleRate) * 1000,
+    },
+    analysis: DEFAULT_ANALYSIS_SETTINGS,
+    files: {
+      metadata: '',
+      recording: fileName,
+      combinedWaveform: null,
+      timestamps: '',
+    },
+  }
+}
+
+type RawMetadata = Record<string, unknown>
+
+/**
+ * 古いバージョンのメタ情報を次のバージョンに変換する処理（キーは変換元のバージョン）
+ */
+const MIGRATIONS: Record<string, { to: string; migrate: (data: RawMetadata) => RawMetadata }> = {
+  // 1.0 は同期加算の設定を書き出しておらず、ピーク位置も省略できたため、1.0 の読み込みで使っていた値を補う
+  '1.0': {
+    to: '2.0',
+    migrate: data => ({
+      ...data,
+      audio: isRecord(data.audio) ? { peakPositionMs: DEFAULT_PEAK_POSITION_MS, ...data.audio } : data.audio,
+      analysis: DEFAULT_ANALYSIS_SETTINGS,
+    }),
+  },
+}
+
+const channelSelection: Check = (value, path, errors) => {
+  if (value !== 'sum' && !(typeof value === 'number' && Number.isInteger(value) && value >= 0)) {
+    errors.push(`${path} は 0 以上の整数または "sum" である必要があります（値: ${describeValue(value)}）`)
+  }
+}
+
+const alignMode = oneOf(Object.keys(ALIGN_MODE_LABELS))
+
+// 同期加算の設定の形式（analysis.json でも使う）
+export const ANALYSIS_SETTINGS_SCHEMA: Check = object({
+  attackOffsetMs: number(0),
+  attackAlignMode: alignMode,
+  releaseOffsetMs: number(0),
+  releaseAlignMode: alignMode,
+  averaging: object({
+    method: oneOf(Object.keys(AVERAGING_METHOD_LABELS)),
+    trimRatio: number(0),
+    rejectOutliers: boolean,
+    minCorrelation: number(),
+    maxPeakLevelZScore: number(0),
+  }),
+})
+
+// 現在のバージョンのメタ情報の形式
+const METADATA_SCHEMA = object({
+  version: string,
+  exportedAt: dateString,
+  measurement: object({
+    id: number(0, true),
+    name: string,
+    timestamp: dateString,
+    keyTapCount: number(0, true),
+    keyUpCount: number(0, true),
+    peakIntervalMs: number(0),
+    keyEventSource: optional(oneOf(['keyboard', 'detected'] satisfies KeyEventSource[])),
+    excludedWindows: optional(object({
+      attack: arrayOf(number()),
+      release: arrayOf(number()),
+    })),
+    details: optional(object({
+      ...Object.fromEntries(MEASUREMENT_DETAIL_FIELDS.map(field => [field.key, optional(string)])),
+      tags: optional(arrayOf(string)),
+    })),
+    channelSelection: optional(channelSelection),
+  }),
+  audio: object({
+    sampleRate: number(1),
+    peakPositionMs: number(0),
+    recordingDurationMs: number(0),
+    input: optional(object({
+      deviceId: string,
+      label: string,
+      sampleRate: optional(number(0)),
+      sampleSize: optional(number(0)),
+      channelCount: optional(number(0, true)),
+      echoCancellation: optional(boolean),
+      noiseSuppression: optional(boolean),
+      autoGainControl: optional(boolean),
+    })),
+    wavFormat: optional(oneOf(Object.keys(WAV_FORMAT_LABELS))),
+  }),
+  analysis: ANALYSIS_SETTINGS_SCHEMA,
+  files: object({
+    metadata: string,
+    recording: string,
+    combinedWaveform: nullable(string),
+    timestamps: string,
+    attackWaveform: optional(nullable(string)),
+    releaseWaveform: optional(nullable(string)),
+    analysis: optional(nullable(string)),
+  }),
+})
+
+/**
+ * メタ情報の読み込み結果
+ * - ok: 現在の形式のメタ情報（migratedFrom は変換元のバージョン、変換していない場合は null）
+ * - errors: 読み込めない理由（利用者に表示する）
+ */
+export type MetadataParseResult =
+  | { ok: true; metadata: MeasurementMetadata; migratedFrom: string | null }
+  | { ok: false; errors: string[] }
+
+/**
+ * メタ情報を現在のバージョンに変換して検証する
+ */
+export function validateMeasurementMetadata(data: unknown): MetadataParseResult {
+  if (!isRecord(data)) {
+    return { ok: false, errors: [`metadata.json はオブジェクトである必要があります（値: ${describeValue(data)}）`] }
+  }
+  const version = data.version
+  if (typeof version !== 'string') {
+    return { ok: false, errors: ['version がありません'] }
+  }
+  if (version !== METADATA_VERSION && !MIGRATIONS[version]) {
+    const supported = [...Object.keys(MIGRATIONS), METADATA_VERSION].join(', ')
+    return { ok: false, errors: [`バージョン ${version} の形式には対応していません（対応しているバージョン: ${supported}）`] }
+  }
+
+  let migrated = data
+  while (migrated.version !== METADATA_VERSION) {
+    const migration = MIGRATIONS[migrated.version as string]
+    migrated = { ...migration.migrate(migrated), version: migration.to }
+  }
+
+  const errors: string[] = []
+  METADATA_SCHEMA(migrated, '', errors)
+  if (errors.length > 0) return { ok: false, errors }
+  return {
+    ok: true,
+    metadata: migrated as unknown as MeasurementMetadata,
+    migratedFrom: version === METADATA_VERSION ? null : version,
+  }
+}
+
+/**
+ * metadata.json の内容を読み込む
+ */
+export function parseMeasurementMetadata(text: string): MetadataParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, errors: [`JSON として読み込めません: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+  return validateMeasurementMetadata(data)
+}
+
+/**
+ * 読み込めない理由を利用者に表示する文章にする
+ */
+export function formatMetadataErrors(errors: string[]): string {
+  return ['metadata.json の内容に問題があるため読み込めません:', ...errors.map(error => `・${error}`)].join('\n')
+}
@@ -0,0 +1,194 @@
+/**
+ * 測定履歴を IndexedDB に保存するユーティリティ
+ * 同期加算波形や個別ウィンドウなどの派生データは保存せず、読み込み時に録音データから再計算する
+ */
+import type { AudioInputInfo } from './audioInput'
+import type { KeyEventInfo, KeyEventSource } from './keyEvents'
+import type { MeasurementDetails } from './measurementDetails'
+import type { ChannelSelection } from './multichannel'
+import type { AlignMode, AveragingOptions } from './waveformProcessing'
+
+const DB_NAME = 'keytap-analyzer'
+const DB_VERSION = 1
+const STORE_NAME = 'measurements'
+
+/**
+ * IndexedDB に保存する測定データ（録音データ・キーイベント・測定設定）
+ */
+export interface StoredMeasurement {
+  id: number
+  name: string
+  details: MeasurementDetails
+  timestamp: Date
+  recordingData: Float32Array | null             // 解析に使う信号（多チャンネルの場合は channelSelection で選んだチャンネルまたは合計）
+  recordingChannels: Float32Array[] | null       // 多チャンネル録音のチャンネルごとのデータ（モノラルの場合は null）
+  channelSelection: ChannelSelection
+  keyTapCount: number
+  keyUpCount: number
+  keyDownTimestamps: number[]
+  keyUpTimestamps: number[]
+  keyDownEvents: KeyEventInfo[]
+  keyUpEvents: KeyEventInfo[]
+  peakIntervalMs: number
+  recordingDurationMs: number
+  sampleRate: number
+  audioInput: AudioInputInfo | null
+  keyEventSource: KeyEventSource
+  attackOffsetMs: number
+  attackAlignMode: AlignMode
+  releaseOffsetMs: number
+  releaseAlignMode: AlignMode
+  averaging: AveragingOptions
+  peakPositionMs: number
+  excludedAttackTimestamps: number[]
+  excludedReleaseTimestamps: number[]
+}
+
+// 保存対象のフィールド（派生データを除くため明示的に列挙する）
+const STORED_MEASUREMENT_KEYS = [
+  'id',
+  'name',
+  'details',
+  'timestamp',
+  'recordingData',
+  'recordingChannels',
+  'channelSelection',
+  'keyTapCount',
+  'keyUpCount',
+  'keyDownTimestamps',
+  'keyUpTimestamps',
+  'keyDownEvents',
+  'keyUpEvents',
+  'peakIntervalMs',
+  'recordingDurationMs',
+  'sampleRate',
+  'audioInput',
+  'keyEventSource',
+  'attackOffsetMs',
+  'attackAlignMode',
+  'releaseOffsetMs',
+  'releaseAlignMode',
+  'averaging',
+  'peakPositionMs',
+  'excludedAttackTimestamps',
+  'excludedReleaseTimestamps',
+] as const satisfies readonly (keyof StoredMeasurement)[]
+
+/**
+ * 測定結果から保存対象のフィールドだけを取り出す
+ */
+export function pickStoredMeasurement(measurement: StoredMeasurement): StoredMeasurement {
+  const stored: Record<string, unknown> = {}
+  for (const key of STORED_MEASUREMENT_KEYS) {
+    stored[key] = measurement[key]
+  }
+  return stored as unknown as StoredMeasurement
+}
+
+/**
+ * 保存対象のフィールドが変更されたかを判定する
+ * 測定結果はイミュータブルに更新されるため、各フィールドは参照で比較する
+ */
+export function isStoredMeasurementChanged(previous: StoredMeasurement, next: StoredMeasurement): boolean {
+  return STORED_MEASUREMENT_KEYS.some(key => previous[key] !== next[key])
+}
+
+/**
+ * ストレージ使用量を表示用の文字列に変換する
+ */
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+/**
+ * IndexedDB が使用できるかを判定する
+ */
+export function isMeasurementStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // 次回の呼び出しで再試行できるようにする
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * オブジェクトストアに対する処理を1つのトランザクションで実行する
+ */
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * 保存済みの測定データを ID 順に読み込む
+ */
+export async function loadStoredMeasurements(): Promise<StoredMeasurement[]> {
+  const measurements = await runTransaction<StoredMeasurement[]>('readonly', store => store.getAll())
+  return measurements.sort((a, b) => a.id - b.id)
+}
+
+/**
+ * 測定データを保存する（同じ ID があれば上書き）
+ */
+export async function saveStoredMeasurement(measurement: StoredMeasurement): Promise<void> {
+  await runTransaction('readwrite', store => store.put(pickStoredMeasurement(measurement)))
+}
+
+/**
+ * 測定データを削除する
+ */
+export async function deleteStoredMeasurement(id: number): Promise<void> {
+  await runTransaction('readwrite', store => store.delete(id))
+}
+
+/**
+ * 保存済みの測定データをすべて削除する
+ */
+export async function clearStoredMeasurements(): Promise<void> {
+  await runTransaction('readwrite', store => store.clear())
+}
+
+/**
+ * ブラウザのストレージ使用量と上限を取得する
+ * @returns 使用量と上限 (bytes)、取得できない場合は null
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const estimate = await navigator.storage.estimate()
+    return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 }
+  } catch {
+    return null
+  }
+}
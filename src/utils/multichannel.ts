@@ -0,0 +1,130 @@
+/**
+ * 多チャンネル録音のユーティリティ
+ * 複数のマイク（キーボードの上と机の下など）で同時に録音したデータから、解析に使う信号の選択とチャンネル間の遅延の推定を行う
+ */
+
+/**
+ * 解析に使うチャンネル
+ * - 数値: そのチャンネル（0 始まり）
+ * - sum: 全チャンネルの平均（ミックスダウン）
+ */
+export type ChannelSelection = number | 'sum'
+
+// チャンネル間の遅延を探す範囲の既定値 (ms)。マイク間の距離が 3m 程度までの音の到達時間差に相当する
+export const DEFAULT_MAX_CHANNEL_DELAY_MS = 10
+
+/**
+ * チャンネルの表示名
+ */
+export function formatChannelSelection(selection: ChannelSelection): string {
+  return selection === 'sum' ? '合計（全チャンネルの平均）' : `ch${selection + 1}`
+}
+
+/**
+ * 解析に使うチャンネルを録音のチャンネル数に合わせる（存在しないチャンネルは1チャンネル目にする）
+ */
+export function normalizeChannelSelection(selection: ChannelSelection | undefined, channelCount: number): ChannelSelection {
+  if (selection === 'sum') return channelCount > 1 ? 'sum' : 0
+  if (selection === undefined || !Number.isInteger(selection) || selection < 0 || selection >= channelCount) return 0
+  return selection
+}
+
+/**
+ * 全チャンネルの平均の波形を作成する（長さは最も短いチャンネルに揃える）
+ */
+export function mixdownChannels(channels: Float32Array[]): Float32Array {
+  const length = Math.min(...channels.map(channel => channel.length))
+  const mixed = new Float32Array(channels.length > 0 ? length : 0)
+  for (const channel of channels) {
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] += channel[i] / channels.length
+    }
+  }
+  return mixed
+}
+
+/**
+ * 解析に使う信号を取り出す
+ * @returns 選択したチャンネルの波形（合計の場合は全チャンネルの平均）
+ */
+export function selectChannelData(channels: Float32Array[], selection: ChannelSelection): Float32Array {
+  const normalized = normalizeChannelSelection(selection, channels.length)
+  return normalized === 'sum' ? mixdownChannels(channels) : channels[normalized]
+}
+
+/**
+ * チャンネル間の遅延の推定結果
+ */
+export interface ChannelDelay {
+  delayMs: number      // 基準チャンネルに対する遅れ (ms)。正の値は対象チャンネルの方が遅れて届いている
+  correlation: number  // 遅延を補正したときの相関係数（-1〜1。負の値は極性が反転している）
+}
+
+/**
+ * 2つのチャンネルの相互相関からチャンネル間の遅延を推定する
+ * マイクの向きによって極性が反転することがあるため、相関の絶対値が最大になるずれを求め、放物線補間でサブサンプル精度にする
+ * @param reference 基準チャンネルの波形
+ * @param target 対象チャンネルの波形
+ * @param maxDelayMs 探す遅延の範囲 (±ms)
+ * @returns 推定結果（波形が無音の場合は null）
+ */
+export function estimateChannelDelay(
+  reference: Float32Array,
+  target: Float32Array,
+  sampleRate: number,
+  maxDelayMs: number = DEFAULT_MAX_CHANNEL_DELAY_MS
+): ChannelDelay | null {
+  const length = Math.min(reference.length, target.length)
+  const maxLag = Math.min(length - 1, Math.round((maxDelayMs / 1000) * sampleRate))
+  if (maxLag < 0) return null
+
+  let referenceEnergy = 0
+  let targetEnergy = 0
+  for (let i = 0; i < length; i++) {
+    referenceEnergy += reference[i] * reference[i]
+    targetEnergy += target[i] * target[i]
+  }
+  const norm = Math.sqrt(referenceEnergy * targetEnergy)
+  if (norm === 0) return null
+
+  // ずれ lag の相関: Σ reference[i] * target[i + lag]
+  const correlations = new Float64Array(maxLag * 2 + 1)
+  let bestIndex = 0
+  for (let k = 0; k < correlations.length; k++) {
+    const lag = k - maxLag
+    let sum = 0
+    for (let i = Math.max(0, -lag); i < Math.min(length, length - lag); i++) {
+      sum += reference[i] * target[i + lag]
+    }
+    correlations[k] = sum
+    if (Math.abs(sum) > Math.abs(correlations[bestIndex])) {
+      bestIndex = k
+    }
+  }
+
+  // 放物線補間でサブサンプル精度のずれを求める
+  let fraction = 0
+  if (bestIndex > 0 && bestIndex < correlations.length - 1) {
+    const y0 = Math.abs(correlations[bestIndex - 1])
+    const y1 = Math.abs(correlations[bestIndex])
+    const y2 = Math.abs(correlations[bestIndex + 1])
+    const denominator = y0 - 2 * y1 + y2
+    if (denominator < 0) {
+      fraction = Math.max(-0.5, Math.min(0.5, 0.5 * (y0 - y2) / denominator))
+    }
+  }
+
+  return {
+    delayMs: ((bestIndex - maxLag + fraction) / sampleRate) * 1000,
+    correlation: correlations[bestIndex] / norm,
+  }
+}
+
+/**
+ * チャンネル間の遅延の表示用の文字列
+ */
+export function formatChannelDelay(delay: ChannelDelay | null): string {
+  if (!delay) return '-'
+  const sign = delay.delayMs > 0 ? '+' : ''
+  return `${sign}${delay.delayMs.toFixed(2)} ms（相関 ${delay.correlation.toFixed(2)}）`
+}
@@ -0,0 +1,101 @@
+/**
+ * 分数オクターブ帯域のユーティリティ
+ * パワースペクトルを 1/N オクターブ幅の帯域ごとに平均し、聴感に近い周波数分解能で比較できるようにする
+ */
+
+/**
+ * 周波数帯域
+ */
+export interface FrequencyBand {
+  centerHz: number
+  lowHz: number
+  highHz: number
+}
+
+/**
+ * パワースペクトル（片側）と周波数分解能
+ */
+export interface PowerSpectrum {
+  power: Float64Array
+  binHz: number  // 1 bin あたりの周波数 (Hz)
+}
+
+// 帯域の中心周波数の基準（IEC 61260 の基数2の定義に合わせて 1kHz を基準にする）
+const REFERENCE_FREQUENCY = 1000
+
+/**
+ * 中心周波数から 1/fraction オクターブ幅の帯域を求める
+ */
+export function getBandAround(centerHz: number, fraction: number): FrequencyBand {
+  const halfWidth = Math.pow(2, 1 / (2 * fraction))
+  return { centerHz, lowHz: centerHz / halfWidth, highHz: centerHz * halfWidth }
+}
+
+/**
+ * minHz〜maxHz に中心周波数がある 1/fraction オクターブ帯域を低い順に取得する
+ */
+export function getFractionalOctaveBands(fraction: number, minHz: number, maxHz: number): FrequencyBand[] {
+  const first = Math.ceil(fraction * Math.log2(minHz / REFERENCE_FREQUENCY))
+  const last = Math.floor(fraction * Math.log2(maxHz / REFERENCE_FREQUENCY))
+  const bands: FrequencyBand[] = []
+  for (let k = first; k <= last; k++) {
+    bands.push(getBandAround(REFERENCE_FREQUENCY * Math.pow(2, k / fraction), fraction))
+  }
+  return bands
+}
+
+/**
+ * minHz〜maxHz を対数的に等間隔に分割した周波数を取得する
+ * @param pointsPerOctave 1オクターブあたりの点数
+ */
+export function getLogFrequencyGrid(minHz: number, maxHz: number, pointsPerOctave: number): number[] {
+  const count = Math.floor(Math.log2(maxHz / minHz) * pointsPerOctave)
+  return Array.from({ length: count + 1 }, (_, i) => minHz * Math.pow(2, i / pointsPerOctave))
+}
+
+/**
+ * 各帯域の平均パワーを計算する
+ * 帯域が1 bin より狭い場合は中心周波数に最も近い bin の値を使う
+ * @returns 帯域ごとの平均パワー（ナイキスト周波数を超える帯域は NaN）
+ */
+export function calculateBandPowers(spectrum: PowerSpectrum, bands: FrequencyBand[]): Float64Array {
+  const { power, binHz } = spectrum
+
+  // 累積和を使って各帯域の合計を O(1) で求める
+  const cumulative = new Float64Array(power.length + 1)
+  for (let i = 0; i < power.length; i++) {
+    cumulative[i + 1] = cumulative[i] + power[i]
+  }
+
+  const result = new Float64Array(bands.length)
+  bands.forEach((band, index) => {
+    const centerBin = Math.round(band.centerHz / binHz)
+    if (centerBin >= power.length) {
+      result[index] = NaN
+      return
+    }
+    const lowBin = Math.max(0, Math.ceil(band.lowHz / binHz))
+    const highBin = Math.min(power.length - 1, Math.floor(band.highHz / binHz))
+    result[index] = highBin >= lowBin
+      ? (cumulative[highBin + 1] - cumulative[lowBin]) / (highBin - lowBin + 1)
+      : power[centerBin]
+  })
+  return result
+}
+
+/**
+ * 1/fraction オクターブ幅で平滑化したパワースペクトルを計算する
+ * @param frequencies 平滑化した値を求める周波数（各周波数を中心とする帯域の平均パワーを求める）
+ * @returns 周波数ごとの平均パワー（ナイキスト周波数を超える周波数は NaN）
+ */
+export function smoothSpectrum(spectrum: PowerSpectrum, fraction: number, frequencies: number[]): Float64Array {
+  return calculateBandPowers(spectrum, frequencies.map(f => getBandAround(f, fraction)))
+}
+
+/**
+ * 帯域の中心周波数を表示用の文字列に変換する（例: 125, 1k, 1.26k, 16k）
+ */
+export function formatBandFrequency(hz: number): string {
+  if (hz < 1000) return `${Math.round(hz)}`
+  return `${Number((hz / 1000).toPrecision(3))}k`
+}
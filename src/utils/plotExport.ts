@@ -0,0 +1,166 @@
+/**
+ * グラフ画像・スペクトルデータの書き出しユーティリティ
+ * 後から結果を再現・比較できるよう、書き出すファイルに解析設定を記録する
+ */
+import { escapeCsvField } from './audioExport'
+import { SPECTRUM_AVERAGING_LABELS, toDB, type SpectrumSettings } from './dsp'
+import { WINDOW_FUNCTION_LABELS, type WindowFunction } from './windowFunctions'
+import { SPECTRUM_VIEW_MODE_LABELS, formatSmoothing, type BandLevel, type SpectrumViewMode } from './spectrumView'
+import { COLORMAP_LABELS, SPECTROGRAM_FREQUENCY_SCALE_LABELS, type Colormap, type SpectrogramFrequencyScale } from './spectrogramView'
+import type { TimeRange } from './timeAxis'
+
+/**
+ * パワースペクトルの解析設定を説明する行を作成する
+ * @param fftSize 平均化しない場合の FFT サイズ
+ */
+export function formatSpectrumSettings(settings: SpectrumSettings, fftSize: number, sampleRate: number): string[] {
+  const averaging = settings.averaging === 'welch'
+    ? `${SPECTRUM_AVERAGING_LABELS.welch} (セグメント長 ${settings.segmentSize}、オーバーラップ ${Math.round(settings.overlap * 100)}%)`
+    : `${SPECTRUM_AVERAGING_LABELS.none} (FFTサイズ ${fftSize})`
+  return [
+    `サンプルレート: ${sampleRate} Hz`,
+    `窓関数: ${WINDOW_FUNCTION_LABELS[settings.windowFunction]}`,
+    `平均化: ${averaging}`,
+  ]
+}
+
+/**
+ * スペクトルの表示方法を説明する行を作成する
+ * @param smoothing 曲線の平滑化幅（1/N オクターブの N、0 は平滑化なし）
+ */
+export function formatSpectrumView(viewMode: SpectrumViewMode, smoothing: number): string {
+  if (viewMode === 'bands') return `表示: ${SPECTRUM_VIEW_MODE_LABELS.bands}（帯域内の平均パワー）`
+  return `表示: ${SPECTRUM_VIEW_MODE_LABELS.curve}（平滑化 ${formatSmoothing(smoothing)}）`
+}
+
+/**
+ * スペクトログラムの解析設定を説明する行を作成する
+ */
+export function formatSpectrogramSettings(
+  windowFunction: WindowFunction,
+  fftSize: number,
+  hopSize: number,
+  sampleRate: number
+): string[] {
+  return [
+    `サンプルレート: ${sampleRate} Hz`,
+    `窓関数: ${WINDOW_FUNCTION_LABELS[windowFunction]}`,
+    `STFT: FFTサイズ ${fftSize}、フレーム間隔 ${hopSize}`,
+  ]
+}
+
+/**
+ * スペクトログラムの表示方法を説明する行を作成する
+ */
+export function formatSpectrogramView(
+  frequencyScale: SpectrogramFrequencyScale,
+  colormap: Colormap,
+  minDB: number,
+  maxDB: number,
+  timeRange: TimeRange
+): string {
+  return `表示: 周波数軸 ${SPECTROGRAM_FREQUENCY_SCALE_LABELS[frequencyScale]}、カラーマップ ${COLORMAP_LABELS[colormap]}、` +
+    `${minDB.toFixed(0)}〜${maxDB.toFixed(0)} dB、${timeRange.startMs.toFixed(1)}〜${timeRange.endMs.toFixed(1)} ms`
+}
+
+/**
+ * CSV に書き出すパワースペクトル
+ */
+export interface SpectrumSeries {
+  name: string
+  power: Float64Array
+  binHz: number  // ビンの周波数間隔 (Hz)
+}
+
+/**
+ * パワースペクトルの CSV を作成する
+ * 先頭に解析設定を「#」で始まるコメント行として記録し、測定ごとに周波数とレベルを縦に並べる
+ * @param maxFreq 書き出す最大周波数 (Hz)
+ */
+export function buildSpectrumCsv(series: SpectrumSeries[], settingLines: string[], maxFreq = Infinity): string {
+  const lines = settingLines.map(line => `# ${line}`)
+  lines.push('name,frequency_hz,power_db')
+  for (const { name, power, binHz } of series) {
+    const field = escapeCsvField(name)
+    for (let i = 0; i < power.length; i++) {
+      const frequency = i * binHz
+      if (frequency > maxFreq) break
+      lines.push(`${field},${frequency.toFixed(2)},${toDB(power[i]).toFixed(2)}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+/**
+ * 帯域ごとのレベルの CSV を作成する
+ * 先頭に解析設定を「#」で始まるコメント行として記録し、測定ごとに帯域とレベルを縦に並べる
+ */
+export function buildBandLevelCsv(series: { name: string; levels: BandLevel[] }[], settingLines: string[]): string {
+  const lines = settingLines.map(line => `# ${line}`)
+  lines.push('name,center_hz,low_hz,high_hz,level_db')
+  for (const { name, levels } of series) {
+    const field = escapeCsvField(name)
+    for (const { band, level } of levels) {
+      lines.push(
+        `${field},${band.centerHz.toFixed(2)},${band.lowHz.toFixed(2)},${band.highHz.toFixed(2)},${level.toFixed(2)}`
+      )
+    }
+  }
+  return lines.join('\n')
+}
+
+// 画像の下に追加する解析設定の行の高さ (px)
+const SETTING_LINE_HEIGHT = 16
+
+/**
+ * グラフの下に解析設定を書き込んだ画像用のキャンバスを作成する
+ */
+export function renderCanvasWithSettings(source: HTMLCanvasElement, settingLines: string[]): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = source.width
+  canvas.height = source.height + (settingLines.length + 1) * SETTING_LINE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return source
+
+  ctx.fillStyle = '#1a1a2e'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(source, 0, 0)
+
+  ctx.fillStyle = '#ccc'
+  ctx.font = '11px monospace'
+  ctx.textAlign = 'left'
+  settingLines.forEach((line, i) => {
+    ctx.fillText(line, 10, source.height + (i + 1) * SETTING_LINE_HEIGHT)
+  })
+  return canvas
+}
+
+/**
+ * Blob をファイルとしてダウンロードする
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * グラフを解析設定付きの PNG 画像としてダウンロードする
+ */
+export function downloadCanvasImage(source: HTMLCanvasElement, settingLines: string[], filename: string): void {
+  renderCanvasWithSettings(source, settingLines).toBlob(blob => {
+    if (blob) downloadBlob(blob, filename)
+  }, 'image/png')
+}
+
+/**
+ * CSV をダウンロードする
+ */
+export function downloadCsv(csv: string, filename: string): void {
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), filename)
+}
@@ -0,0 +1,117 @@
+/**
+ * 複数の測定をまとめたプロジェクトファイルのユーティリティ
+ * 測定ごとのファイル（.keytapanalyzer.dat の中身）をディレクトリに分けて1つの tar に格納し、先頭に一覧（project.json）を置く
+ */
+import { arrayOf, dateString, isRecord, object, string } from './schemaValidation'
+
+// プロジェクトの一覧のファイル名
+export const PROJECT_MANIFEST_FILE = 'project.json'
+
+// 書き出すプロジェクトの一覧のバージョン
+export const PROJECT_MANIFEST_VERSION = '1.0'
+
+/**
+ * プロジェクトの一覧（project.json）
+ */
+export interface ProjectManifest {
+  version: string
+  exportedAt: string
+  measurements: {
+    name: string
+    directory: string  // 測定のファイルを格納したディレクトリ
+  }[]
+}
+
+type BundleFile = { name: string; data: ArrayBuffer | string }
+
+/**
+ * ファイル名に使えない文字を置き換える（日本語はそのまま残す）
+ */
+export function toSafeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_\-\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g, '_')
+}
+
+/**
+ * 測定を格納するディレクトリ名（同じ名前の測定があっても重ならないよう連番を付ける）
+ */
+export function getMeasurementDirectory(name: string, index: number): string {
+  return `${String(index + 1).padStart(3, '0')}_${toSafeFileName(name)}`
+}
+
+/**
+ * プロジェクトファイルに格納するファイルを作成する
+ * @param measurements 測定ごとの名前とファイル
+ * @returns 一覧と、ディレクトリ名を付けた測定ごとのファイル
+ */
+export function buildProjectBundle(
+  measurements: { name: string; files: BundleFile[] }[],
+  exportedAt: Date = new Date()
+): BundleFile[] {
+  const manifest: ProjectManifest = {
+    version: PROJECT_MANIFEST_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    measurements: measurements.map(({ name }, i) => ({ name, directory: getMeasurementDirectory(name, i) })),
+  }
+  return [
+    { name: PROJECT_MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+    ...measurements.flatMap(({ files }, i) =>
+      files.map(file => ({ ...file, name: `${manifest.measurements[i].directory}/${file.name}` }))
+    ),
+  ]
+}
+
+const PROJECT_MANIFEST_SCHEMA = object({
+  version: string,
+  exportedAt: dateString,
+  measurements: arrayOf(object({
+    name: string,
+    directory: string,
+  })),
+})
+
+/**
+ * プロジェクトファイルの読み込み結果
+ * - ok: 一覧の順の測定ごとのファイル（ファイル名はディレクトリを除いたもの）
+ * - errors: 読み込めない理由
+ */
+export type ProjectBundleReadResult =
+  | { ok: true; measurements: { name: string; files: { name: string; data: ArrayBuffer }[] }[] }
+  | { ok: false; errors: string[] }
+
+/**
+ * tar から取り出したファイルをプロジェクトとして読み込む
+ * @returns 読み込み結果（一覧を含まない、1つの測定の .keytapanalyzer.dat の場合は null）
+ */
+export function readProjectBundle(files: { name: string; data: ArrayBuffer }[]): ProjectBundleReadResult | null {
+  const manifestFile = files.find(f => f.name === PROJECT_MANIFEST_FILE)
+  if (!manifestFile) return null
+
+  let data: unknown
+  try {
+    data = JSON.parse(new TextDecoder().decode(manifestFile.data))
+  } catch (error) {
+    return { ok: false, errors: [`${PROJECT_MANIFEST_FILE} を JSON として読み込めません: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+  if (isRecord(data) && data.version !== PROJECT_MANIFEST_VERSION) {
+    return { ok: false, errors: [`バージョン ${String(data.version)} のプロジェクトファイルには対応していません`] }
+  }
+  const errors: string[] = []
+  PROJECT_MANIFEST_SCHEMA(data, '', errors)
+  if (errors.length > 0) return { ok: false, errors }
+
+  const manifest = data as ProjectManifest
+  const measurements = manifest.measurements.map(({ name, directory }) => {
+    const prefix = `${directory}/`
+    return {
+      name,
+      files: files
+        .filter(f => f.name.startsWith(prefix))
+        .map(f => ({ name: f.name.slice(prefix.length), data: f.data })),
+    }
+  })
+  measurements.forEach(({ files }, i) => {
+    if (files.length === 0) errors.push(`${manifest.measurements[i].directory} のファイルがありません`)
+  })
+  if (errors.length > 0) return { ok: false, errors }
+  return { ok: true, measurements }
+}
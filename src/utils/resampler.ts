@@ -0,0 +1,93 @@
+/**
+ * 帯域制限付きのサンプルレート変換ユーティリティ
+ * Kaiser 窓を掛けた sinc 関数で補間し、ダウンサンプリング時は変換先のナイキスト周波数より上を除去してエイリアシングを防ぐ
+ */
+
+// sinc 関数の片側の零交差の数（多いほど遷移帯域が狭くなるが計算量が増える）
+const ZERO_CROSSINGS = 16
+
+// Kaiser 窓の形状パラメータ（阻止域の減衰量 約 -85dB）
+const KAISER_BETA = 8.6
+
+// 通過帯域の上限（ナイキスト周波数に対する比率）。遷移帯域をナイキスト周波数の手前に置く
+const PASSBAND_RATIO = 0.95
+
+// フィルタ係数表の零交差1つあたりの点数（間は線形補間する）
+const TABLE_RESOLUTION = 512
+
+/**
+ * 第1種変形ベッセル関数 I0（級数展開）
+ */
+function besselI0(x: number): number {
+  let sum = 1
+  let term = 1
+  const halfX = x / 2
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k)
+    sum += term
+    if (term < sum * 1e-12) break
+  }
+  return sum
+}
+
+let kernelTable: Float64Array | null = null
+
+/**
+ * Kaiser 窓付き sinc 関数の係数表（零交差の単位で 0〜ZERO_CROSSINGS）を取得する
+ */
+function getKernelTable(): Float64Array {
+  if (!kernelTable) {
+    const table = new Float64Array(ZERO_CROSSINGS * TABLE_RESOLUTION + 2)
+    const normalization = besselI0(KAISER_BETA)
+    for (let i = 0; i < table.length; i++) {
+      const u = i / TABLE_RESOLUTION
+      const ratio = u / ZERO_CROSSINGS
+      if (ratio >= 1) continue
+      const sinc = u === 0 ? 1 : Math.sin(Math.PI * u) / (Math.PI * u)
+      table[i] = sinc * besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / normalization
+    }
+    kernelTable = table
+  }
+  return kernelTable
+}
+
+/**
+ * 変換後のサンプル数を求める
+ */
+export function getResampledLength(length: number, fromRate: number, toRate: number): number {
+  return Math.round((length * toRate) / fromRate)
+}
+
+/**
+ * 波形のサンプルレートを変換する
+ * @param data 変換元の波形
+ * @param fromRate 変換元のサンプルレート (Hz)
+ * @param toRate 変換先のサンプルレート (Hz)
+ * @returns 変換後の波形（サンプルレートが同じ場合は元の波形）
+ */
+export function resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || data.length === 0) return data
+
+  const table = getKernelTable()
+  const step = fromRate / toRate  // 出力1サンプルあたりの入力サンプル数
+  // 変換元のナイキスト周波数に対する遮断周波数（ダウンサンプリング時は変換先のナイキスト周波数に合わせる）
+  const cutoff = PASSBAND_RATIO * Math.min(1, toRate / fromRate)
+  const halfWidth = ZERO_CROSSINGS / cutoff  // フィルタの片側の長さ（入力サンプル数）
+
+  const output = new Float32Array(getResampledLength(data.length, fromRate, toRate))
+  for (let n = 0; n < output.length; n++) {
+    const center = n * step
+    const first = Math.max(0, Math.ceil(center - halfWidth))
+    const last = Math.min(data.length - 1, Math.floor(center + halfWidth))
+
+    let sum = 0
+    for (let k = first; k <= last; k++) {
+      const position = Math.abs(center - k) * cutoff * TABLE_RESOLUTION
+      const index = Math.floor(position)
+      const fraction = position - index
+      sum += data[k] * (table[index] + (table[index + 1] - table[index]) * fraction)
+    }
+    output[n] = sum * cutoff
+  }
+  return output
+}
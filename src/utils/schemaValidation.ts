@@ -0,0 +1,101 @@
+/**
+ * 読み込んだ JSON の検証ユーティリティ
+ * 項目ごとの検証を組み合わせて形式を定義し、問題のある項目をパス付きですべて集める
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 値の検証（問題があれば path を付けて errors に追加する）
+ */
+export type Check = (value: unknown, path: string, errors: string[]) => void
+
+const optionalChecks = new WeakSet<Check>()
+
+/**
+ * エラーメッセージに含める値の表記
+ */
+export function describeValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value)
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text
+}
+
+export function optional(check: Check): Check {
+  const optionalCheck: Check = (value, path, errors) => {
+    if (value !== undefined) check(value, path, errors)
+  }
+  optionalChecks.add(optionalCheck)
+  return optionalCheck
+}
+
+export function nullable(check: Check): Check {
+  return (value, path, errors) => {
+    if (value !== null) check(value, path, errors)
+  }
+}
+
+export const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} は文字列である必要があります（値: ${describeValue(value)}）`)
+}
+
+export const boolean: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} は true または false である必要があります（値: ${describeValue(value)}）`)
+}
+
+export const dateString: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    errors.push(`${path} は日時の文字列である必要があります（値: ${describeValue(value)}）`)
+  }
+}
+
+/**
+ * 数値の検証
+ * @param min 最小値（省略時は制限なし）
+ * @param integer 整数に限るか
+ */
+export function number(min = -Infinity, integer = false): Check {
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min) {
+      const kind = integer ? '整数' : '数値'
+      const range = min > -Infinity ? ` ${min} 以上の` : ''
+      errors.push(`${path} は${range}${kind}である必要があります（値: ${describeValue(value)}）`)
+    }
+  }
+}
+
+export function oneOf(values: readonly string[]): Check {
+  return (value, path, errors) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      errors.push(`${path} は ${values.join(' / ')} のいずれかである必要があります（値: ${describeValue(value)}）`)
+    }
+  }
+}
+
+export function arrayOf(item: Check): Check {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} は配列である必要があります（値: ${describeValue(value)}）`)
+      return
+    }
+    value.forEach((element, i) => item(element, `${path}[${i}]`, errors))
+  }
+}
+
+export function object(shape: Record<string, Check>): Check {
+  return (value, path, errors) => {
+    if (!isRecord(value)) {
+      errors.push(`${path || 'データ全体'} はオブジェクトである必要があります（値: ${describeValue(value)}）`)
+      return
+    }
+    for (const [key, check] of Object.entries(shape)) {
+      const fieldPath = path ? `${path}.${key}` : key
+      if (value[key] === undefined && !optionalChecks.has(check)) {
+        errors.push(`${fieldPath} がありません`)
+        continue
+      }
+      check(value[key], fieldPath, errors)
+    }
+  }
+}
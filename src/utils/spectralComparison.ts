@@ -0,0 +1,232 @@
+/**
+ * 2つの測定の比較ユーティリティ
+ * 同期加算波形の差（A − B）に加え、個別ウィンドウがある場合は打鍵ごとのばらつきに対して差が有意かを検定する
+ */
+import { calculateWaveformStats } from './arrayStats'
+import { calculateBandPowers, smoothSpectrum, type FrequencyBand, type PowerSpectrum } from './octaveBands'
+import {
+  SIGNIFICANCE_LEVEL,
+  adjustPValuesBenjaminiHochberg,
+  welchTTest,
+  type WelchTTestResult,
+} from './statisticalTests'
+
+// 表示するレベルの下限 (dB)
+const MIN_LEVEL_DB = -100
+
+/**
+ * 打鍵ごとの値による有意差の判定結果
+ */
+export interface SignificanceResult extends WelchTTestResult {
+  adjustedPValue: number  // 多重比較を補正した p 値
+  significant: boolean
+  countA: number          // A の打鍵数
+  countB: number          // B の打鍵数
+}
+
+/**
+ * パワーを dB に変換する
+ */
+export function powerToDb(power: number): number {
+  if (!(power > 0)) return MIN_LEVEL_DB
+  return Math.max(10 * Math.log10(power), MIN_LEVEL_DB)
+}
+
+/**
+ * 振幅を dB に変換する
+ */
+function amplitudeToDb(amplitude: number): number {
+  if (!(amplitude > 0)) return MIN_LEVEL_DB
+  return Math.max(20 * Math.log10(amplitude), MIN_LEVEL_DB)
+}
+
+/**
+ * 項目ごとの打鍵の値を検定し、多重比較を補正して有意差を判定する
+ * @param valuesA 項目ごとの A の打鍵の値
+ * @param valuesB 項目ごとの B の打鍵の値
+ */
+function testSignificance(valuesA: number[][], valuesB: number[][]): (SignificanceResult | null)[] {
+  const tests = valuesA.map((a, i) => welchTTest(a, valuesB[i]))
+  const adjusted = adjustPValuesBenjaminiHochberg(tests.map(test => test?.pValue ?? NaN))
+  return tests.map((test, i) => test && {
+    ...test,
+    adjustedPValue: adjusted[i],
+    significant: adjusted[i] < SIGNIFICANCE_LEVEL,
+    countA: valuesA[i].length,
+    countB: valuesB[i].length,
+  })
+}
+
+/**
+ * 1/fraction オクターブで平滑化した差分スペクトル（A − B）を計算する
+ * A と B でサンプルレートや FFT サイズが異なっても、同じ周波数で比較できるよう周波数ごとに平滑化する
+ * @param frequencies 差を求める周波数
+ * @returns 周波数ごとのレベル差 (dB)。どちらかのナイキスト周波数を超える場合は NaN
+ */
+export function calculateDifferenceCurve(
+  a: PowerSpectrum,
+  b: PowerSpectrum,
+  frequencies: number[],
+  fraction: number
+): Float64Array {
+  const powersA = smoothSpectrum(a, fraction, frequencies)
+  const powersB = smoothSpectrum(b, fraction, frequencies)
+  return powersA.map((powerA, i) => {
+    const powerB = powersB[i]
+    if (isNaN(powerA) || isNaN(powerB)) return NaN
+    return powerToDb(powerA) - powerToDb(powerB)
+  })
+}
+
+/**
+ * 帯域ごとのレベル差
+ */
+export interface BandLevelComparison {
+  band: FrequencyBand
+  levelA: number  // dB
+  levelB: number  // dB
+  delta: number   // A − B (dB)
+  significance: SignificanceResult | null
+}
+
+/**
+ * 帯域ごとのレベルと差を計算する
+ * 個別ウィンドウのスペクトルが両方にある場合は、打鍵ごとの帯域レベルで差の有意性を検定する
+ * @returns 帯域ごとの比較結果（どちらかのナイキスト周波数を超える帯域は除く）
+ */
+export function compareBandLevels(
+  a: PowerSpectrum,
+  b: PowerSpectrum,
+  bands: FrequencyBand[],
+  windowsA: PowerSpectrum[] = [],
+  windowsB: PowerSpectrum[] = []
+): BandLevelComparison[] {
+  const powersA = calculateBandPowers(a, bands)
+  const powersB = calculateBandPowers(b, bands)
+  const validIndices = bands.map((_, i) => i).filter(i => !isNaN(powersA[i]) && !isNaN(powersB[i]))
+
+  // 打鍵ごとの帯域レベル（帯域 × 打鍵）
+  const collectWindowLevels = (windows: PowerSpectrum[]): number[][] => {
+    const levels = windows.map(w => calculateBandPowers(w, bands))
+    return validIndices.map(i => levels.map(l => l[i]).filter(p => !isNaN(p)).map(powerToDb))
+  }
+  const significance = testSignificance(collectWindowLevels(windowsA), collectWindowLevels(windowsB))
+
+  return validIndices.map((bandIndex, i) => {
+    const levelA = powerToDb(powersA[bandIndex])
+    const levelB = powerToDb(powersB[bandIndex])
+    return {
+      band: bands[bandIndex],
+      levelA,
+      levelB,
+      delta: levelA - levelB,
+      significance: significance[i],
+    }
+  })
+}
+
+/**
+ * 時間領域の指標
+ */
+export interface TimeDomainMetrics {
+  peakLevel: number    // ピークレベル (dBFS)
+  rmsLevel: number     // RMS レベル (dBFS)
+  crestFactor: number  // クレストファクタ（ピークと RMS の比, dB）
+  peakTime: number     // ピーク位置 (ms)
+  decayTime: number    // ピークから -20dB まで減衰するまでの時間 (ms)
+}
+
+export type TimeDomainMetricName = keyof TimeDomainMetrics
+
+export const TIME_DOMAIN_METRICS: { key: TimeDomainMetricName; label: string; unit: string }[] = [
+  { key: 'peakLevel', label: 'ピークレベル', unit: 'dB' },
+  { key: 'rmsLevel', label: 'RMSレベル', unit: 'dB' },
+  { key: 'crestFactor', label: 'クレストファクタ', unit: 'dB' },
+  { key: 'peakTime', label: 'ピーク位置', unit: 'ms' },
+  { key: 'decayTime', label: '減衰時間 (-20dB)', unit: 'ms' },
+]
+
+// 減衰時間の基準（ピークに対する振幅比, -20dB）
+const DECAY_THRESHOLD_RATIO = 0.1
+
+/**
+ * 波形の時間領域の指標を計算する
+ * @returns 指標（波形が空の場合は null）
+ */
+export function calculateTimeDomainMetrics(waveform: Float32Array, sampleRate: number): TimeDomainMetrics | null {
+  const stats = calculateWaveformStats(waveform)
+  if (!stats) return null
+
+  // ピーク以降で最後に閾値を超えたサンプルまでを減衰時間とする
+  const threshold = stats.absMax * DECAY_THRESHOLD_RATIO
+  let decayEnd = stats.peakIndex
+  for (let i = waveform.length - 1; i > stats.peakIndex; i--) {
+    if (Math.abs(waveform[i]) >= threshold) {
+      decayEnd = i
+      break
+    }
+  }
+
+  const peakLevel = amplitudeToDb(stats.absMax)
+  const rmsLevel = amplitudeToDb(stats.rms)
+  return {
+    peakLevel,
+    rmsLevel,
+    crestFactor: peakLevel - rmsLevel,
+    peakTime: (stats.peakIndex / sampleRate) * 1000,
+    decayTime: ((decayEnd - stats.peakIndex) / sampleRate) * 1000,
+  }
+}
+
+/**
+ * 時間領域の指標ごとの差
+ */
+export interface TimeDomainComparison {
+  key: TimeDomainMetricName
+  label: string
+  unit: string
+  valueA: number
+  valueB: number
+  delta: number  // A − B
+  significance: SignificanceResult | null
+}
+
+/**
+ * 時間領域の指標と差を計算する
+ * 個別ウィンドウの波形が両方にある場合は、打鍵ごとの指標で差の有意性を検定する
+ * @returns 指標ごとの比較結果（どちらかの波形が空の場合は空配列）
+ */
+export function compareTimeDomainMetrics(
+  a: Float32Array,
+  sampleRateA: number,
+  b: Float32Array,
+  sampleRateB: number,
+  windowsA: Float32Array[] = [],
+  windowsB: Float32Array[] = []
+): TimeDomainComparison[] {
+  const metricsA = calculateTimeDomainMetrics(a, sampleRateA)
+  const metricsB = calculateTimeDomainMetrics(b, sampleRateB)
+  if (!metricsA || !metricsB) return []
+
+  // 打鍵ごとの指標（指標 × 打鍵）
+  const collectWindowValues = (windows: Float32Array[], sampleRate: number): number[][] => {
+    const metrics = windows
+      .map(w => calculateTimeDomainMetrics(w, sampleRate))
+      .filter((m): m is TimeDomainMetrics => m !== null)
+    return TIME_DOMAIN_METRICS.map(({ key }) => metrics.map(m => m[key]))
+  }
+  const significance = testSignificance(
+    collectWindowValues(windowsA, sampleRateA),
+    collectWindowValues(windowsB, sampleRateB)
+  )
+
+  return TIME_DOMAIN_METRICS.map(({ key, label, unit }, i) => ({
+    key,
+    label,
+    unit,
+    valueA: metricsA[key],
+    valueB: metricsB[key],
+    delta: metricsA[key] - metricsB[key],
+    significance: significance[i],
+  }))
+}
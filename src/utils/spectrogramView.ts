@@ -0,0 +1,285 @@
+/**
+ * スペクトログラムの表示用ユーティリティ
+ * セルごとに fillRect すると大きなスペクトログラムで描画が止まるため、表示サイズの RGBA 画素を直接作り ImageData として描画する
+ */
+import { toDB, type Spectrogram } from './dsp'
+import type { TimeRange } from './timeAxis'
+
+/**
+ * カラーマップの種類
+ */
+export type Colormap = 'viridis' | 'magma' | 'grayscale'
+
+export const COLORMAP_LABELS: Record<Colormap, string> = {
+  viridis: 'Viridis',
+  magma: 'Magma',
+  grayscale: 'グレースケール',
+}
+
+// matplotlib のカラーマップを 1/8 刻みで抜き出した色（間は線形補間する）
+const COLORMAP_STOPS: Record<Colormap, [number, number, number][]> = {
+  viridis: [
+    [68, 1, 84], [72, 40, 120], [62, 73, 137], [49, 104, 142], [38, 130, 142],
+    [31, 158, 137], [53, 183, 121], [110, 206, 88], [253, 231, 37],
+  ],
+  magma: [
+    [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+    [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191],
+  ],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+}
+
+// カラーマップの段階数
+const COLORMAP_SIZE = 256
+
+const colormapCache = new Map<Colormap, Uint8ClampedArray>()
+
+/**
+ * カラーマップの色の表を取得する
+ * @returns 段階 i の色が [i * 3]〜[i * 3 + 2] に RGB で入った表（256 段階）
+ */
+export function getColormapTable(colormap: Colormap): Uint8ClampedArray {
+  let table = colormapCache.get(colormap)
+  if (!table) {
+    const stops = COLORMAP_STOPS[colormap]
+    table = new Uint8ClampedArray(COLORMAP_SIZE * 3)
+    for (let i = 0; i < COLORMAP_SIZE; i++) {
+      const position = i / (COLORMAP_SIZE - 1) * (stops.length - 1)
+      const lower = Math.min(Math.floor(position), stops.length - 2)
+      const ratio = position - lower
+      for (let c = 0; c < 3; c++) {
+        table[i * 3 + c] = Math.round(stops[lower][c] + (stops[lower + 1][c] - stops[lower][c]) * ratio)
+      }
+    }
+    colormapCache.set(colormap, table)
+  }
+  return table
+}
+
+/**
+ * dB 値をカラーマップの CSS の色にする（カラーバーの描画用）
+ */
+export function getColormapColor(colormap: Colormap, db: number, minDB: number, maxDB: number): string {
+  const table = getColormapTable(colormap)
+  const i = colorIndex(db, minDB, maxDB)
+  return `rgb(${table[i]}, ${table[i + 1]}, ${table[i + 2]})`
+}
+
+/**
+ * dB 値に対応する色の表の位置
+ */
+function colorIndex(db: number, minDB: number, maxDB: number): number {
+  const normalized = Math.max(0, Math.min(1, (db - minDB) / (maxDB - minDB)))
+  return Math.round(normalized * (COLORMAP_SIZE - 1)) * 3
+}
+
+/**
+ * スペクトログラムの周波数軸
+ * - linear: 線形
+ * - log: 対数（20Hz 以上）
+ * - mel: メル尺度（聴感上の音の高さに近い間隔）
+ */
+export type SpectrogramFrequencyScale = 'linear' | 'log' | 'mel'
+
+export const SPECTROGRAM_FREQUENCY_SCALE_LABELS: Record<SpectrogramFrequencyScale, string> = {
+  linear: '線形',
+  log: '対数',
+  mel: 'メル',
+}
+
+// 対数軸の最小周波数 (Hz)
+const LOG_MIN_FREQUENCY = 20
+
+/**
+ * 周波数をメル尺度に変換する
+ */
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700)
+}
+
+/**
+ * メル尺度を周波数に変換する
+ */
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1)
+}
+
+/**
+ * 周波数軸の目盛りの変換
+ */
+export interface FrequencyAxis {
+  minFreq: number
+  maxFreq: number
+  toPosition: (hz: number) => number    // 周波数 → 軸上の位置（下端 0、上端 1）
+  fromPosition: (position: number) => number
+}
+
+/**
+ * 周波数軸を作成する
+ */
+export function createFrequencyAxis(scale: SpectrogramFrequencyScale, maxFreq: number): FrequencyAxis {
+  const minFreq = scale === 'log' ? LOG_MIN_FREQUENCY : 0
+  const warp = scale === 'log' ? Math.log10 : scale === 'mel' ? hzToMel : (hz: number) => hz
+  const unwarp = scale === 'log' ? (v: number) => Math.pow(10, v) : scale === 'mel' ? melToHz : (v: number) => v
+  const low = warp(minFreq)
+  const high = warp(maxFreq)
+  return {
+    minFreq,
+    maxFreq,
+    toPosition: hz => (warp(Math.max(hz, minFreq)) - low) / (high - low),
+    fromPosition: position => unwarp(low + position * (high - low)),
+  }
+}
+
+/**
+ * 周波数軸の目盛りの周波数
+ */
+export function getFrequencyTicks(scale: SpectrogramFrequencyScale, maxFreq: number): number[] {
+  const ticks = scale === 'linear'
+    ? [1000, 2000, 5000, 10000, 15000, 20000]
+    : [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]
+  return ticks.filter(hz => hz <= maxFreq)
+}
+
+/**
+ * STFT のフレームの配置（フレーム t は t * hopSize から fftSize サンプル）
+ */
+export interface SpectrogramFrames {
+  sampleRate: number
+  fftSize: number
+  hopSize: number
+}
+
+/**
+ * フレームの中心の時刻 (ms)
+ */
+export function frameCenterMs(frame: number, frames: SpectrogramFrames): number {
+  return (frame * frames.hopSize + frames.fftSize / 2) / frames.sampleRate * 1000
+}
+
+/**
+ * 時刻を中心に含むフレーム（範囲外は端のフレーム）
+ */
+function frameAt(timeMs: number, frames: SpectrogramFrames, timeSteps: number): number {
+  const frame = Math.round((timeMs / 1000 * frames.sampleRate - frames.fftSize / 2) / frames.hopSize)
+  return Math.max(0, Math.min(timeSteps - 1, frame))
+}
+
+/**
+ * スペクトログラムの画像化の設定
+ */
+export interface SpectrogramImageOptions {
+  width: number
+  height: number
+  frames: SpectrogramFrames
+  timeRange: TimeRange
+  axis: FrequencyAxis
+  minDB: number
+  maxDB: number
+  colormap: Colormap
+}
+
+/**
+ * スペクトログラムを表示サイズの RGBA 画素にする
+ * 1画素に複数のフレーム・ビンが入る場合は最大のパワーを使い、短い打鍵音やピークが間引かれないようにする
+ * @returns width × height の RGBA 画素（ImageData の data と同じ並び、上端が最大周波数）
+ */
+export function renderSpectrogramPixels(
+  spectrogram: Spectrogram,
+  options: SpectrogramImageOptions
+): Uint8ClampedArray<ArrayBuffer> {
+  const { width, height, frames, timeRange, axis, minDB, maxDB, colormap } = options
+  const { data, timeSteps, freqBins } = spectrogram
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  if (timeSteps === 0 || freqBins === 0) return pixels
+
+  // 各列のフレームの範囲
+  const durationMs = timeRange.endMs - timeRange.startMs
+  const columnFrames = Array.from({ length: width + 1 }, (_, x) =>
+    frameAt(timeRange.startMs + (x / width) * durationMs, frames, timeSteps)
+  )
+
+  // 各行のビンの範囲（行 0 が上端。行の下端以上・上端未満の周波数のビン）
+  const binHz = frames.sampleRate / (freqBins * 2)
+  const rowBins = Array.from({ length: height }, (_, y) => {
+    const top = axis.fromPosition(1 - y / height) / binHz
+    const bottom = axis.fromPosition(1 - (y + 1) / height) / binHz
+    const center = Math.round((top + bottom) / 2)
+    const first = Math.max(0, Math.min(freqBins - 1, Math.ceil(bottom)))
+    const last = Math.max(0, Math.min(freqBins - 1, Math.ceil(top) - 1))
+    // ビンより細かい行は中心に最も近いビンを使う
+    return first <= last ? [first, last] : [Math.min(freqBins - 1, center), Math.min(freqBins - 1, center)]
+  })
+
+  const table = getColormapTable(colormap)
+  for (let x = 0; x < width; x++) {
+    // 各列は次の列の先頭のフレームの手前まで（最後の列は表示範囲の終わりのフレームまで）
+    const firstFrame = columnFrames[x]
+    const lastFrame = Math.max(firstFrame, x === width - 1 ? columnFrames[width] : columnFrames[x + 1] - 1)
+    for (let y = 0; y < height; y++) {
+      const [firstBin, lastBin] = rowBins[y]
+      let power = 0
+      for (let t = firstFrame; t <= lastFrame; t++) {
+        const offset = t * freqBins
+        for (let f = firstBin; f <= lastBin; f++) {
+          if (data[offset + f] > power) power = data[offset + f]
+        }
+      }
+      const color = colorIndex(toDB(power, minDB), minDB, maxDB)
+      const p = (y * width + x) * 4
+      pixels[p] = table[color]
+      pixels[p + 1] = table[color + 1]
+      pixels[p + 2] = table[color + 2]
+      pixels[p + 3] = 255
+    }
+  }
+  return pixels
+}
+
+/**
+ * スペクトログラム上の位置の値（ホバー表示用）
+ */
+export interface SpectrogramCell {
+  timeMs: number       // フレームの中心の時刻
+  frequency: number    // ビンの周波数 (Hz)
+  level: number        // パワー (dB)
+}
+
+/**
+ * スペクトログラム上の位置に最も近いフレーム・ビンの値を取得する
+ * @param timeMs 位置の時刻 (ms)
+ * @param frequency 位置の周波数 (Hz)
+ */
+export function getSpectrogramCell(
+  spectrogram: Spectrogram,
+  frames: SpectrogramFrames,
+  timeMs: number,
+  frequency: number
+): SpectrogramCell | null {
+  const { data, timeSteps, freqBins } = spectrogram
+  if (timeSteps === 0 || freqBins === 0) return null
+  const frame = frameAt(timeMs, frames, timeSteps)
+  const binHz = frames.sampleRate / (freqBins * 2)
+  const bin = Math.max(0, Math.min(freqBins - 1, Math.round(frequency / binHz)))
+  return {
+    timeMs: frameCenterMs(frame, frames),
+    frequency: bin * binHz,
+    level: toDB(data[frame * freqBins + bin]),
+  }
+}
+
+/**
+ * 範囲内の最大パワー (dB)（ダイナミックレンジの上限を自動で決める場合に使う）
+ * @param maxFreq 対象とする最大周波数 (Hz)
+ */
+export function getSpectrogramPeakDB(spectrogram: Spectrogram, sampleRate: number, maxFreq: number): number {
+  const { data, timeSteps, freqBins } = spectrogram
+  const maxBin = Math.min(Math.ceil(maxFreq / (sampleRate / (freqBins * 2))), freqBins)
+  let peak = 0
+  for (let t = 0; t < timeSteps; t++) {
+    for (let f = 0; f < maxBin; f++) {
+      if (data[t * freqBins + f] > peak) peak = data[t * freqBins + f]
+    }
+  }
+  return toDB(peak)
+}
@@ -0,0 +1,113 @@
+/**
+ * スペクトルの表示用データのユーティリティ
+ * FFT の bin のままでは高域のばらつきが大きく読み取りにくいため、分数オクターブで平滑化した曲線や帯域ごとのレベルに変換する
+ */
+import { toDB } from './dsp'
+import {
+  calculateBandPowers,
+  getFractionalOctaveBands,
+  getLogFrequencyGrid,
+  smoothSpectrum,
+  type FrequencyBand,
+  type PowerSpectrum,
+} from './octaveBands'
+
+// 平滑化幅の選択肢（1/N オクターブ）
+export const SMOOTHING_FRACTIONS = [1, 3, 6, 12, 24]
+
+// 平滑化した曲線を求める周波数の密度（1オクターブあたりの点数）
+export const SMOOTHED_POINTS_PER_OCTAVE = 48
+
+// 平滑化した曲線・帯域レベルを求める最小周波数 (Hz)
+const MIN_FREQUENCY = 20
+
+// 帯域レベル表示の帯域幅（1/3 オクターブ）
+const BAND_LEVEL_FRACTION = 3
+
+/**
+ * スペクトルの表示方法
+ * - curve: 周波数ごとの曲線
+ * - bands: 1/3 オクターブ帯域ごとの棒グラフ
+ */
+export type SpectrumViewMode = 'curve' | 'bands'
+
+export const SPECTRUM_VIEW_MODE_LABELS: Record<SpectrumViewMode, string> = {
+  curve: '曲線',
+  bands: '1/3オクターブバンド',
+}
+
+/**
+ * 平滑化幅の表示名
+ * @param fraction 1/N オクターブの N（0 は平滑化なし）
+ */
+export function formatSmoothing(fraction: number): string {
+  return fraction > 0 ? `1/${fraction} オクターブ` : 'なし'
+}
+
+/**
+ * 表示用のスペクトルの曲線
+ */
+export interface SpectrumCurve {
+  frequencies: number[]  // Hz
+  levels: number[]       // dB
+}
+
+/**
+ * 表示用のスペクトルの曲線を求める
+ * 平滑化しない場合は直流を除く bin をそのまま、平滑化する場合は対数的に等間隔な周波数で 1/fraction オクターブの平均を求める
+ * @param fraction 1/N オクターブの N（0 は平滑化なし）
+ * @param minFreq 曲線に含める最小周波数 (Hz)
+ * @param maxFreq 曲線に含める最大周波数 (Hz)
+ */
+export function calculateSpectrumCurve(
+  spectrum: PowerSpectrum,
+  fraction: number,
+  minFreq: number,
+  maxFreq: number
+): SpectrumCurve {
+  const frequencies: number[] = []
+  const levels: number[] = []
+
+  if (fraction <= 0) {
+    for (let i = 1; i < spectrum.power.length; i++) {
+      const frequency = i * spectrum.binHz
+      if (frequency > maxFreq) break
+      if (frequency < minFreq) continue
+      frequencies.push(frequency)
+      levels.push(toDB(spectrum.power[i]))
+    }
+    return { frequencies, levels }
+  }
+
+  const grid = getLogFrequencyGrid(Math.max(minFreq, MIN_FREQUENCY), maxFreq, SMOOTHED_POINTS_PER_OCTAVE)
+  const powers = smoothSpectrum(spectrum, fraction, grid)
+  grid.forEach((frequency, i) => {
+    if (isNaN(powers[i])) return
+    frequencies.push(frequency)
+    levels.push(toDB(powers[i]))
+  })
+  return { frequencies, levels }
+}
+
+/**
+ * 帯域ごとのレベル
+ */
+export interface BandLevel {
+  band: FrequencyBand
+  level: number  // 帯域内の平均パワー (dB)
+}
+
+/**
+ * 1/3 オクターブ帯域ごとのレベルを求める
+ * 平滑化した曲線と同じ高さで比較できるよう、帯域内の bin の平均パワーをレベルとする
+ * @returns 中心周波数が 20Hz〜maxFreq の帯域のレベル（ナイキスト周波数を超える帯域は除く）
+ */
+export function calculateThirdOctaveLevels(spectrum: PowerSpectrum, maxFreq: number): BandLevel[] {
+  const bands = getFractionalOctaveBands(BAND_LEVEL_FRACTION, MIN_FREQUENCY, maxFreq)
+  const powers = calculateBandPowers(spectrum, bands)
+  const levels: BandLevel[] = []
+  bands.forEach((band, i) => {
+    if (!isNaN(powers[i])) levels.push({ band, level: toDB(powers[i]) })
+  })
+  return levels
+}
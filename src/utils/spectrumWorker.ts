@@ -0,0 +1,233 @@
+/**
+ * Web Worker によるスペクトル解析のユーティリティ
+ * 長い録音のスペクトログラム計算や比較表示の FFT で UI が止まらないよう、計算をワーカー（src/workers/spectrumWorker.ts）で行う
+ * Worker を使えない環境（テストなど）ではメインスレッドで計算する
+ */
+import { computeSpectrogram, computeSpectrum, type Spectrogram, type SpectrumSettings } from './dsp'
+import { resample } from './resampler'
+import { applyGain, calculateNormalizationGain, type NormalizationMode } from './waveformNormalization'
+
+/**
+ * スペクトル解析の結果
+ */
+export interface SpectrumAnalysis {
+  powerSpectrum: Float64Array
+  spectrogram: Spectrogram
+}
+
+/**
+ * 比較表示で解析する波形
+ */
+export interface TraceSpectrumSource {
+  data: Float32Array
+  sampleRate: number
+  gain: number | null  // 掛けるゲイン（null の場合は正規化の方法から求める）
+}
+
+/**
+ * 比較表示の波形の解析設定
+ */
+export interface TraceSpectraOptions {
+  sampleRate: number                    // 変換先の共通のサンプルレート
+  normalizationMode: NormalizationMode  // ゲインを指定しない波形の正規化の方法
+  fftSize: number
+  settings: SpectrumSettings
+}
+
+/**
+ * 比較表示の波形の解析結果
+ */
+export interface TraceSpectrum {
+  waveform: Float32Array  // 共通のサンプルレートに変換し、ゲインを掛けた波形
+  gain: number
+  spectrum: Float64Array
+}
+
+/**
+ * メインスレッドからワーカーへ送るメッセージ
+ * - analysis: パワースペクトルとスペクトログラム
+ * - traceSpectra: 比較表示の波形のサンプルレート変換・正規化とパワースペクトル
+ */
+export type SpectrumWorkerRequest =
+  | {
+    id: number
+    type: 'analysis'
+    data: Float32Array
+    fftSize: number
+    hopSize: number  // スペクトログラムのフレーム間隔（サンプル数）
+    settings: SpectrumSettings
+  }
+  | { id: number; type: 'traceSpectra'; sources: TraceSpectrumSource[]; options: TraceSpectraOptions }
+
+/**
+ * ワーカーからメインスレッドへ送るメッセージ
+ */
+export type SpectrumWorkerResponse =
+  | { id: number; type: 'analysis'; analysis: SpectrumAnalysis }
+  | { id: number; type: 'traceSpectra'; traces: TraceSpectrum[] }
+  | { id: number; type: 'error'; message: string }
+
+/**
+ * メッセージ送信先（ワーカーのグローバルスコープ、テストではフェイク）
+ */
+export interface SpectrumWorkerPort {
+  postMessage(message: SpectrumWorkerResponse, options?: StructuredSerializeOptions): void
+}
+
+/**
+ * パワースペクトルとスペクトログラムを計算する
+ * スペクトログラムは解析設定の窓関数を使い、平均化は行わない
+ */
+export function analyzeSpectrum(
+  data: Float32Array,
+  fftSize: number,
+  hopSize: number,
+  settings: SpectrumSettings
+): SpectrumAnalysis {
+  return {
+    powerSpectrum: computeSpectrum(data, fftSize, settings),
+    spectrogram: computeSpectrogram(data, fftSize, hopSize, settings.windowFunction),
+  }
+}
+
+/**
+ * 比較表示の波形を共通のサンプルレートに変換し、ゲインを掛けてからパワースペクトルを計算する
+ * 録音ゲインの違いを揃えるため、スペクトルもゲインを掛けた波形から求める
+ */
+export function computeTraceSpectra(sources: TraceSpectrumSource[], options: TraceSpectraOptions): TraceSpectrum[] {
+  const { sampleRate, normalizationMode, fftSize, settings } = options
+  return sources.map(source => {
+    const resampled = resample(source.data, source.sampleRate, sampleRate)
+    const gain = source.gain ?? calculateNormalizationGain(resampled, sampleRate, normalizationMode)
+    const waveform = applyGain(resampled, gain)
+    return { waveform, gain, spectrum: computeSpectrum(waveform, fftSize, settings) }
+  })
+}
+
+/**
+ * ワーカーで受け取った解析要求を処理し、結果をポートへ送る（結果のバッファはコピーせず転送する）
+ */
+export function handleSpectrumRequest(request: SpectrumWorkerRequest, port: SpectrumWorkerPort): void {
+  const { id } = request
+  try {
+    if (request.type === 'analysis') {
+      const analysis = analyzeSpectrum(request.data, request.fftSize, request.hopSize, request.settings)
+      port.postMessage(
+        { id, type: 'analysis', analysis },
+        { transfer: [analysis.powerSpectrum.buffer, analysis.spectrogram.data.buffer] }
+      )
+    } else {
+      const traces = computeTraceSpectra(request.sources, request.options)
+      // 変換もゲインもかからない波形は受け取ったバッファのままのため、同じバッファを重ねて転送しないようにする
+      const buffers = new Set<ArrayBufferLike>(traces.flatMap(trace => [trace.waveform.buffer, trace.spectrum.buffer]))
+      port.postMessage({ id, type: 'traceSpectra', traces }, { transfer: [...buffers] as Transferable[] })
+    }
+  } catch (error) {
+    port.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+interface PendingRequest {
+  request: SpectrumWorkerRequest
+  onResponse: (response: SpectrumWorkerResponse) => void
+}
+
+let worker: Worker | null = null
+let workerUnavailable = false
+let nextRequestId = 0
+const pendingRequests = new Map<number, PendingRequest>()
+
+/**
+ * 要求をメインスレッドで計算して完了させる
+ */
+function settleOnMainThread({ request, onResponse }: PendingRequest): void {
+  handleSpectrumRequest(request, { postMessage: onResponse })
+}
+
+/**
+ * 解析用のワーカーを取得する（初回に起動し、以降は使い回す）
+ * @returns ワーカー（使えない環境では null）
+ */
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true
+    return null
+  }
+
+  try {
+    worker = new Worker(new URL('../workers/spectrumWorker.ts', import.meta.url), { type: 'module' })
+  } catch {
+    workerUnavailable = true
+    return null
+  }
+
+  worker.onmessage = (event: MessageEvent<SpectrumWorkerResponse>) => {
+    const response = event.data
+    const pending = pendingRequests.get(response.id)
+    if (!pending) return
+    pendingRequests.delete(response.id)
+    pending.onResponse(response)
+  }
+
+  // ワーカーを読み込めなかった場合は、以降の要求も含めてメインスレッドで計算する
+  worker.onerror = (event) => {
+    event.preventDefault()
+    worker?.terminate()
+    worker = null
+    workerUnavailable = true
+    const pending = [...pendingRequests.values()]
+    pendingRequests.clear()
+    pending.forEach(settleOnMainThread)
+  }
+
+  return worker
+}
+
+/**
+ * 要求をワーカー（使えない環境ではメインスレッド）で処理する
+ * @returns 処理結果（エラーの場合は失敗する）
+ */
+function sendRequest(request: SpectrumWorkerRequest): Promise<SpectrumWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    const pending: PendingRequest = {
+      request,
+      onResponse: response => response.type === 'error' ? reject(new Error(response.message)) : resolve(response),
+    }
+    const target = getWorker()
+    if (!target) {
+      settleOnMainThread(pending)
+      return
+    }
+    pendingRequests.set(request.id, pending)
+    target.postMessage(request)
+  })
+}
+
+/**
+ * パワースペクトルとスペクトログラムの計算を要求する
+ * @param data 波形（ワーカーへはコピーして送るため、呼び出し側の配列はそのまま使える）
+ * @returns 解析結果
+ */
+export async function requestSpectrumAnalysis(
+  data: Float32Array,
+  fftSize: number,
+  hopSize: number,
+  settings: SpectrumSettings
+): Promise<SpectrumAnalysis> {
+  const response = await sendRequest({ id: nextRequestId++, type: 'analysis', data, fftSize, hopSize, settings })
+  return (response as Extract<SpectrumWorkerResponse, { type: 'analysis' }>).analysis
+}
+
+/**
+ * 比較表示の波形のサンプルレート変換・正規化とパワースペクトルの計算を要求する
+ * @param sources 波形（ワーカーへはコピーして送るため、呼び出し側の配列はそのまま使える）
+ * @returns sources と同じ順の解析結果
+ */
+export async function requestTraceSpectra(
+  sources: TraceSpectrumSource[],
+  options: TraceSpectraOptions
+): Promise<TraceSpectrum[]> {
+  const response = await sendRequest({ id: nextRequestId++, type: 'traceSpectra', sources, options })
+  return (response as Extract<SpectrumWorkerResponse, { type: 'traceSpectra' }>).traces
+}
@@ -0,0 +1,152 @@
+/**
+ * 統計的検定のユーティリティ
+ * 打鍵ごとの測定値から、2つの測定の差が打鍵間のばらつきに対して有意かを判定する
+ */
+
+// 有意水準
+export const SIGNIFICANCE_LEVEL = 0.05
+
+/**
+ * Welch の t 検定の結果
+ */
+export interface WelchTTestResult {
+  meanDifference: number  // 平均の差（a − b）
+  standardError: number   // 平均の差の標準誤差
+  t: number
+  df: number              // Welch–Satterthwaite の自由度
+  pValue: number          // 両側検定の p 値
+}
+
+/**
+ * 平均と不偏分散を計算する
+ */
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1)
+  return { mean, variance }
+}
+
+/**
+ * ガンマ関数の自然対数（Lanczos 近似）
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.5053203294168, 24.01409824083091,
+    -1.23173957245016, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  for (const c of coefficients) {
+    series += c / ++y
+  }
+  return -tmp + Math.log(Math.sqrt(2 * Math.PI) * series / x)
+}
+
+/**
+ * 正則化不完全ベータ関数の連分数部分（修正 Lentz 法）
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200
+  const epsilon = 3e-14
+  const tiny = 1e-300
+
+  let c = 1
+  let d = 1 - (a + b) * x / (a + 1)
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let h = d
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m
+    // 偶数項
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    h *= d * c
+    // 奇数項
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < epsilon) break
+  }
+  return h
+}
+
+/**
+ * 正則化不完全ベータ関数 I_x(a, b)
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  )
+  // 収束が速い側で連分数を評価する
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b
+}
+
+/**
+ * t 分布の両側 p 値を計算する
+ */
+export function studentTTwoTailedPValue(t: number, df: number): number {
+  if (!isFinite(t)) return 0
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5)
+}
+
+/**
+ * Welch の t 検定（等分散を仮定しない2標本 t 検定）を行う
+ * @returns 検定結果（いずれかの標本が2個未満、または両方の分散が0の場合は null）
+ */
+export function welchTTest(a: number[], b: number[]): WelchTTestResult | null {
+  if (a.length < 2 || b.length < 2) return null
+
+  const statsA = meanAndVariance(a)
+  const statsB = meanAndVariance(b)
+  const varianceOfMeanA = statsA.variance / a.length
+  const varianceOfMeanB = statsB.variance / b.length
+  const standardError = Math.sqrt(varianceOfMeanA + varianceOfMeanB)
+  if (standardError === 0) return null
+
+  const meanDifference = statsA.mean - statsB.mean
+  const t = meanDifference / standardError
+  const df = Math.pow(varianceOfMeanA + varianceOfMeanB, 2) / (
+    varianceOfMeanA * varianceOfMeanA / (a.length - 1) +
+    varianceOfMeanB * varianceOfMeanB / (b.length - 1)
+  )
+
+  return { meanDifference, standardError, t, df, pValue: studentTTwoTailedPValue(t, df) }
+}
+
+/**
+ * Benjamini–Hochberg 法で多重比較を補正した p 値（q 値）を計算する
+ * 帯域ごとに検定を繰り返すと偶然「有意」になる帯域が出やすくなるため、偽発見率で補正する
+ * @returns 入力と同じ順序の補正済み p 値（NaN はそのまま NaN）
+ */
+export function adjustPValuesBenjaminiHochberg(pValues: number[]): number[] {
+  const indices = pValues
+    .map((p, index) => ({ p, index }))
+    .filter(({ p }) => !isNaN(p))
+    .sort((x, y) => x.p - y.p)
+  const m = indices.length
+
+  const adjusted = pValues.map(() => NaN)
+  let minimum = 1
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, index } = indices[rank - 1]
+    minimum = Math.min(minimum, p * m / rank)
+    adjusted[index] = minimum
+  }
+  return adjusted
+}
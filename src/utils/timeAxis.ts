@@ -0,0 +1,38 @@
+/**
+ * 時間軸（横軸ズーム）のユーティリティ
+ * 波形とスペクトログラムで同じ時間範囲を表示するために共有する
+ */
+
+/**
+ * 時間の範囲 (ms)
+ */
+export interface TimeRange {
+  startMs: number
+  endMs: number
+}
+
+/**
+ * 表示する時間の範囲を求める
+ * @param zoomRange ズーム範囲（null は全体表示）
+ * @param totalMs 波形の長さ (ms)
+ * @returns 波形の長さに収めた範囲（幅がなくなる場合は全体）
+ */
+export function getVisibleTimeRange(zoomRange: TimeRange | null, totalMs: number): TimeRange {
+  if (!zoomRange) return { startMs: 0, endMs: totalMs }
+  const startMs = Math.max(0, Math.min(zoomRange.startMs, totalMs))
+  const endMs = Math.min(zoomRange.endMs, totalMs)
+  if (endMs <= startMs) return { startMs: 0, endMs: totalMs }
+  return { startMs, endMs }
+}
+
+/**
+ * 表示幅に合わせた時間軸の目盛り間隔 (ms)
+ */
+export function getTimeStep(durationMs: number): number {
+  if (durationMs <= 50) return 10
+  if (durationMs <= 100) return 20
+  if (durationMs <= 200) return 50
+  if (durationMs <= 500) return 100
+  if (durationMs <= 1000) return 200
+  return 500
+}
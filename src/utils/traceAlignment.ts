@@ -0,0 +1,94 @@
+/**
+ * 比較表示用の波形の時間合わせユーティリティ
+ * 測定ごとに波形の先頭からピークまでの時間が異なるため、揃える位置を求めて共通の時間軸に並べる
+ */
+import { alignByCrossCorrelation, findPeakIndex } from './waveformProcessing'
+
+/**
+ * 時間の揃え方
+ * - start: 波形の先頭
+ * - peak: 最大振幅の位置
+ * - xcorr: ピークを初期位置にした相互相関（サブサンプル精度）
+ */
+export type TraceAlignMode = 'start' | 'peak' | 'xcorr'
+
+export const TRACE_ALIGN_MODE_LABELS: Record<TraceAlignMode, string> = {
+  start: '先頭',
+  peak: 'ピーク（最大振幅）',
+  xcorr: '相互相関',
+}
+
+/**
+ * 長さの異なる波形の扱い
+ * - truncate: すべての波形にデータがある区間だけを表示する
+ * - pad: 最も長い範囲を表示し、データのない部分は描画しない
+ */
+export type TraceLengthMode = 'truncate' | 'pad'
+
+export const TRACE_LENGTH_MODE_LABELS: Record<TraceLengthMode, string> = {
+  truncate: '短い波形に合わせる',
+  pad: '長い波形に合わせる',
+}
+
+/**
+ * 共通の時間軸
+ * 時間軸上のサンプル位置 t は、i 番目の波形のインデックス t - lead + positions[i] に対応する（sampleTrace を参照）
+ */
+export interface TraceTimeline {
+  positions: number[]  // 各波形の揃える位置（小数インデックス）
+  lead: number         // 揃える位置より前に表示するサンプル数
+  length: number       // 時間軸のサンプル数
+}
+
+/**
+ * 揃え方に応じて各波形の揃える位置を求める
+ */
+export function calculateTracePositions(
+  waveforms: Float32Array[],
+  alignMode: TraceAlignMode,
+  sampleRate: number
+): number[] {
+  switch (alignMode) {
+    case 'start':
+      return waveforms.map(() => 0)
+    case 'peak':
+      return waveforms.map(w => findPeakIndex(w))
+    case 'xcorr':
+      return alignByCrossCorrelation(waveforms, waveforms.map(w => findPeakIndex(w)), sampleRate)
+  }
+}
+
+/**
+ * 各波形を揃えた共通の時間軸を求める
+ */
+export function calculateTraceTimeline(
+  waveforms: Float32Array[],
+  alignMode: TraceAlignMode,
+  lengthMode: TraceLengthMode,
+  sampleRate: number
+): TraceTimeline {
+  if (waveforms.length === 0) return { positions: [], lead: 0, length: 0 }
+
+  const positions = calculateTracePositions(waveforms, alignMode, sampleRate)
+  const before = positions.map(p => Math.floor(p))
+  const after = waveforms.map((w, i) => Math.floor(w.length - 1 - positions[i]))
+  const pick = lengthMode === 'pad' ? Math.max : Math.min
+  const lead = pick(...before)
+  return { positions, lead, length: Math.max(0, lead + pick(...after) + 1) }
+}
+
+/**
+ * 時間軸上のサンプル位置に対応する波形の値を取得する（線形補間）
+ * @param position 波形の揃える位置（TraceTimeline.positions の値）
+ * @param lead 揃える位置より前に表示するサンプル数（TraceTimeline.lead）
+ * @param t 時間軸上のサンプル位置
+ * @returns 値（波形の範囲外の場合は null）
+ */
+export function sampleTrace(waveform: Float32Array, position: number, lead: number, t: number): number | null {
+  const index = t - lead + position
+  if (index < 0 || index > waveform.length - 1) return null
+  const i0 = Math.floor(index)
+  const fraction = index - i0
+  if (fraction === 0) return waveform[i0]
+  return waveform[i0] + (waveform[i0 + 1] - waveform[i0]) * fraction
+}
@@ -0,0 +1,134 @@
+/**
+ * 比較表示用の波形の正規化ユーティリティ
+ * 録音ゲインが異なる測定どうしを比較できるよう、波形ごとにレベルを揃えるゲインを求める
+ */
+import { arrayAbsMax, arrayRms } from './arrayStats'
+
+/**
+ * 正規化の方法
+ * - none: 正規化しない
+ * - peak: ピークを 0dBFS に揃える
+ * - rms: RMS レベルを揃える
+ * - loudness: K 特性で重み付けしたラウドネス（LUFS 相当）を揃える
+ */
+export type NormalizationMode = 'none' | 'peak' | 'rms' | 'loudness'
+
+export const NORMALIZATION_MODE_LABELS: Record<NormalizationMode, string> = {
+  none: 'なし',
+  peak: 'ピーク',
+  rms: 'RMS',
+  loudness: 'ラウドネス (LUFS相当)',
+}
+
+// 正規化後の目標レベル
+const TARGET_RMS_DB = -20       // dBFS
+const TARGET_LOUDNESS = -20     // LUFS 相当
+
+// 双2次フィルタの係数（a0 = 1 に正規化済み）
+interface BiquadCoefficients {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+/**
+ * ITU-R BS.1770 の K 特性フィルタ（高域シェルフ + 高域通過）の係数を求める
+ * 規格は 48kHz の係数のみ示しているため、アナログ原型の周波数・Q からサンプルレートごとに計算する
+ */
+function getKWeightingFilters(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  // 頭部による音響効果を模した高域シェルフ（約 +4dB）
+  const shelfFrequency = 1681.974450955533
+  const shelfGainDb = 3.999843853973347
+  const shelfQ = 0.7071752369554196
+  const k1 = Math.tan(Math.PI * shelfFrequency / sampleRate)
+  const vh = Math.pow(10, shelfGainDb / 20)
+  const vb = Math.pow(vh, 0.4996667741545416)
+  const shelfA0 = 1 + k1 / shelfQ + k1 * k1
+  const shelf: BiquadCoefficients = {
+    b0: (vh + vb * k1 / shelfQ + k1 * k1) / shelfA0,
+    b1: 2 * (k1 * k1 - vh) / shelfA0,
+    b2: (vh - vb * k1 / shelfQ + k1 * k1) / shelfA0,
+    a1: 2 * (k1 * k1 - 1) / shelfA0,
+    a2: (1 - k1 / shelfQ + k1 * k1) / shelfA0,
+  }
+
+  // 低域を除く高域通過（RLB 特性）
+  const highpassFrequency = 38.13547087602444
+  const highpassQ = 0.5003270373238773
+  const k2 = Math.tan(Math.PI * highpassFrequency / sampleRate)
+  const highpassA0 = 1 + k2 / highpassQ + k2 * k2
+  const highpass: BiquadCoefficients = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (k2 * k2 - 1) / highpassA0,
+    a2: (1 - k2 / highpassQ + k2 * k2) / highpassA0,
+  }
+
+  return [shelf, highpass]
+}
+
+/**
+ * 双2次フィルタを適用する（直接形 II 転置型）
+ */
+function applyBiquad(data: Float32Array, c: BiquadCoefficients): Float32Array {
+  const output = new Float32Array(data.length)
+  let z1 = 0
+  let z2 = 0
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i]
+    const y = c.b0 * x + z1
+    z1 = c.b1 * x - c.a1 * y + z2
+    z2 = c.b2 * x - c.a2 * y
+    output[i] = y
+  }
+  return output
+}
+
+/**
+ * K 特性で重み付けしたラウドネス（LUFS 相当）を計算する
+ * 打鍵音は BS.1770 のゲーティングに必要な 400ms ブロックより短いため、ゲーティングは行わず波形全体の平均で求める
+ * @returns ラウドネス（無音の場合は -Infinity）
+ */
+export function calculateLoudness(data: Float32Array, sampleRate: number): number {
+  if (data.length === 0) return -Infinity
+  const [shelf, highpass] = getKWeightingFilters(sampleRate)
+  const weighted = applyBiquad(applyBiquad(data, shelf), highpass)
+  const rms = arrayRms(weighted)
+  return -0.691 + 20 * Math.log10(rms)
+}
+
+/**
+ * 正規化の方法に応じて波形に掛けるゲインを求める
+ * @returns ゲイン（正規化しない場合や無音の場合は 1）
+ */
+export function calculateNormalizationGain(data: Float32Array, sampleRate: number, mode: NormalizationMode): number {
+  if (data.length === 0) return 1
+
+  let gain: number
+  switch (mode) {
+    case 'none':
+      return 1
+    case 'peak':
+      gain = 1 / arrayAbsMax(data)
+      break
+    case 'rms':
+      gain = Math.pow(10, TARGET_RMS_DB / 20) / arrayRms(data)
+      break
+    case 'loudness':
+      gain = Math.pow(10, (TARGET_LOUDNESS - calculateLoudness(data, sampleRate)) / 20)
+      break
+  }
+  return isFinite(gain) && gain > 0 ? gain : 1
+}
+
+/**
+ * 波形にゲインを掛ける
+ * @returns ゲインを掛けた波形（ゲインが 1 の場合は元の波形）
+ */
+export function applyGain(data: Float32Array, gain: number): Float32Array {
+  if (gain === 1) return data
+  return data.map(v => v * gain)
+}
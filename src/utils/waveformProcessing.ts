@@ -2,6 +2,9 @@
  * 波形同期加算処理のユーティリティ関数
  */
 
+import { arrayMax } from './arrayStats'
+import { getKeyGroup, type KeyEventInfo, type KeyGroup } from './keyEvents'
+
 /**
  * ウィンドウ内のピーク位置を検出する
  * @param data 波形データ
@@ -31,6 +34,277 @@ export function findPeakIndex(
   return peakIndex
 }
 
+/**
+ * オンセット検出のオプション
+ */
+export interface OnsetDetectionOptions {
+  frameMs?: number          // エネルギーを計算するフレーム長 (ms)
+  thresholdRatio?: number   // 立ち上がりとみなす振幅（立ち上がり直後のピークに対する比率）
+}
+
+/**
+ * 録音全体からのオンセット検出のオプション
+ */
+export interface DetectOnsetsOptions extends OnsetDetectionOptions {
+  sensitivity?: number      // 検出閾値（RMS増加量の最大値に対する比率、小さいほど弱い打鍵も検出）
+  minIntervalMs?: number    // 検出するオンセット同士の最小間隔 (ms)
+}
+
+const DEFAULT_ONSET_FRAME_MS = 1
+const DEFAULT_ONSET_THRESHOLD_RATIO = 0.2
+const DEFAULT_ONSET_SENSITIVITY = 0.1
+const DEFAULT_ONSET_MIN_INTERVAL_MS = 30
+const ONSET_FLUX_RATIO = 0.3 // ウィンドウ内の最大増加量に対してこの比率を超えた最初のフレームを立ち上がりとする
+
+/**
+ * フレームごとのRMS振幅の増加量（負の変化は0）を計算する
+ * 打鍵音の立ち上がりでは短時間にエネルギーが急増するため、増加量のピークがオンセットの候補になる
+ * 振幅単位で比較するため、検出閾値の比率はそのまま振幅比（0.1 = -20dB）になる
+ */
+function calculateRmsFlux(data: Float32Array, frameSize: number): Float32Array {
+  const frameCount = Math.ceil(data.length / frameSize)
+  const flux = new Float32Array(frameCount)
+  let previousRms = 0
+
+  for (let k = 0; k < frameCount; k++) {
+    const start = k * frameSize
+    const end = Math.min(start + frameSize, data.length)
+    let energy = 0
+    for (let i = start; i < end; i++) {
+      energy += data[i] * data[i]
+    }
+    const rms = Math.sqrt(energy / (end - start))
+    // 先頭フレームは比較対象がないため増加量0とする
+    flux[k] = k === 0 ? 0 : Math.max(0, rms - previousRms)
+    previousRms = rms
+  }
+
+  return flux
+}
+
+/**
+ * 立ち上がりフレームの周辺で、振幅が閾値を最初に超えたサンプル位置を求める
+ */
+function refineOnsetIndex(data: Float32Array, onsetFrame: number, frameSize: number, thresholdRatio: number): number {
+  const searchStart = Math.max(0, (onsetFrame - 1) * frameSize)
+  const searchEnd = Math.min(data.length, (onsetFrame + 2) * frameSize)
+  const peakIndex = findPeakIndex(data, searchStart, searchEnd - searchStart)
+  const threshold = Math.abs(data[peakIndex]) * thresholdRatio
+
+  for (let i = searchStart; i < peakIndex; i++) {
+    if (Math.abs(data[i]) >= threshold) {
+      return i
+    }
+  }
+  return peakIndex
+}
+
+/**
+ * ウィンドウ内の打鍵音のオンセット（音響的な立ち上がり）位置を検出する
+ * キーイベントのタイムスタンプは数msの揺らぎを持つため、実際の音の立ち上がりで同期するために使用する
+ * @param data 波形データ
+ * @param sampleRate サンプルレート
+ * @param options 検出オプション
+ * @returns オンセット位置のインデックス（立ち上がりが見つからない場合はピーク位置）
+ */
+export function findOnsetIndex(
+  data: Float32Array,
+  sampleRate: number,
+  options: OnsetDetectionOptions = {}
+): number {
+  const {
+    frameMs = DEFAULT_ONSET_FRAME_MS,
+    thresholdRatio = DEFAULT_ONSET_THRESHOLD_RATIO,
+  } = options
+
+  if (data.length === 0) return 0
+
+  const frameSize = Math.max(1, Math.round((frameMs / 1000) * sampleRate))
+  const flux = calculateRmsFlux(data, frameSize)
+
+  const maxFlux = arrayMax(flux)
+  if (!(maxFlux > 0)) {
+    return findPeakIndex(data)
+  }
+
+  // 押下音の後により大きな底打ち音が続く場合があるため、最大の増加ではなく最初の大きな増加を立ち上がりとする
+  const onsetFrame = flux.findIndex(value => value >= maxFlux * ONSET_FLUX_RATIO)
+  return refineOnsetIndex(data, onsetFrame, frameSize, thresholdRatio)
+}
+
+/**
+ * 録音全体から打鍵音のオンセットを検出する（キーイベントのない録音の解析用）
+ * @param audioData 録音データ
+ * @param sampleRate サンプルレート
+ * @param options 検出オプション
+ * @returns 検出したオンセットのタイムスタンプ (ms、昇順)
+ */
+export function detectOnsets(
+  audioData: Float32Array,
+  sampleRate: number,
+  options: DetectOnsetsOptions = {}
+): number[] {
+  const {
+    frameMs = DEFAULT_ONSET_FRAME_MS,
+    thresholdRatio = DEFAULT_ONSET_THRESHOLD_RATIO,
+    sensitivity = DEFAULT_ONSET_SENSITIVITY,
+    minIntervalMs = DEFAULT_ONSET_MIN_INTERVAL_MS,
+  } = options
+
+  if (audioData.length === 0) return []
+
+  const frameSize = Math.max(1, Math.round((frameMs / 1000) * sampleRate))
+  const flux = calculateRmsFlux(audioData, frameSize)
+  const threshold = arrayMax(flux) * sensitivity
+  if (!(threshold > 0)) return []
+
+  // 閾値を超える極大フレームを候補とする
+  const candidates: number[] = []
+  for (let k = 0; k < flux.length; k++) {
+    const previous = k > 0 ? flux[k - 1] : 0
+    const next = k < flux.length - 1 ? flux[k + 1] : 0
+    if (flux[k] >= threshold && flux[k] > previous && flux[k] >= next) {
+      candidates.push(k)
+    }
+  }
+
+  // 強い候補から順に採用し、最小間隔内の弱い候補は除外する
+  const minIntervalFrames = Math.max(1, Math.round((minIntervalMs / 1000) * sampleRate / frameSize))
+  const accepted: number[] = []
+  for (const frame of [...candidates].sort((a, b) => flux[b] - flux[a])) {
+    if (accepted.every(other => Math.abs(other - frame) >= minIntervalFrames)) {
+      accepted.push(frame)
+    }
+  }
+
+  return accepted
+    .sort((a, b) => a - b)
+    .map(frame => (refineOnsetIndex(audioData, frame, frameSize, thresholdRatio) / sampleRate) * 1000)
+}
+
+/**
+ * 打鍵音からのキーイベント推定のオプション
+ */
+export interface DetectKeyEventsOptions extends DetectOnsetsOptions {
+  maxHoldMs?: number        // 押下音からリリース音までの最大間隔 (ms)
+}
+
+const DEFAULT_MAX_HOLD_MS = 300
+const ONSET_AMPLITUDE_WINDOW_MS = 5 // オンセット直後の振幅を評価する区間 (ms)
+
+/**
+ * 録音データから打鍵音を検出し、keydown / keyup のタイムスタンプを推定する（キーイベントのない録音の解析用）
+ * 押下音の後、maxHoldMs 以内にそれより小さい音が続く場合はリリース音（keyup）とみなす
+ * @param audioData 録音データ
+ * @param sampleRate サンプルレート
+ * @param options 検出オプション
+ * @returns 推定した keydown / keyup のタイムスタンプ (ms、昇順)
+ */
+export function detectKeyEvents(
+  audioData: Float32Array,
+  sampleRate: number,
+  options: DetectKeyEventsOptions = {}
+): { keyDownTimestamps: number[]; keyUpTimestamps: number[] } {
+  const { maxHoldMs = DEFAULT_MAX_HOLD_MS } = options
+  const onsets = detectOnsets(audioData, sampleRate, options)
+
+  const amplitudeWindowSamples = Math.max(1, Math.round((ONSET_AMPLITUDE_WINDOW_MS / 1000) * sampleRate))
+  const amplitudes = onsets.map(onsetMs => {
+    const start = Math.floor((onsetMs / 1000) * sampleRate)
+    return Math.abs(audioData[findPeakIndex(audioData, start, amplitudeWindowSamples)])
+  })
+
+  const keyDownTimestamps: number[] = []
+  const keyUpTimestamps: number[] = []
+  let i = 0
+  while (i < onsets.length) {
+    keyDownTimestamps.push(onsets[i])
+    const next = i + 1
+    if (next < onsets.length && onsets[next] - onsets[i] <= maxHoldMs && amplitudes[next] < amplitudes[i]) {
+      keyUpTimestamps.push(onsets[next])
+      i += 2
+    } else {
+      i += 1
+    }
+  }
+
+  return { keyDownTimestamps, keyUpTimestamps }
+}
+
+/**
+ * 同期加算時にウィンドウを揃える方法
+ * - none: キーイベントのタイムスタンプ基準（揃えない）
+ * - peak: 最大振幅の位置
+ * - onset: 検出したオンセット（音の立ち上がり）の位置
+ * - xcorr: 平均波形との相互相関（サブサンプル精度で反復的に揃える）
+ */
+export type AlignMode = 'none' | 'peak' | 'onset' | 'xcorr'
+
+export const ALIGN_MODE_LABELS: Record<AlignMode, string> = {
+  none: 'キーイベント基準',
+  peak: 'ピーク（最大振幅）',
+  onset: 'オンセット（音の立ち上がり）',
+  xcorr: '相互相関',
+}
+
+const XCORR_MAX_LAG_MS = 2          // 相互相関で探索するずれの最大値 (ms)
+const XCORR_REGION_AFTER_MS = 20    // 相互相関を計算する区間（揃える位置より後ろ, ms）
+const XCORR_MAX_ITERATIONS = 5
+const XCORR_CONVERGENCE_SAMPLES = 0.05 // 位置の変化がこれ未満になったら反復を終了
+
+/**
+ * 同期加算で各サンプル位置の値をまとめる方法
+ * - mean: 平均
+ * - trimmedMean: 上下の一定割合を除いた平均（トリム平均）
+ * - median: 中央値
+ */
+export type AveragingMethod = 'mean' | 'trimmedMean' | 'median'
+
+export const AVERAGING_METHOD_LABELS: Record<AveragingMethod, string> = {
+  mean: '平均',
+  trimmedMean: 'トリム平均',
+  median: '中央値',
+}
+
+/**
+ * 平均化と外れ値ウィンドウ除外の設定
+ */
+export interface AveragingOptions {
+  method: AveragingMethod
+  trimRatio: number           // トリム平均で上下それぞれから除く割合（0〜0.5未満）
+  rejectOutliers: boolean     // 外れ値ウィンドウを自動的に除外するか
+  minCorrelation: number      // 中央値波形との相関係数がこれ未満のウィンドウを除外
+  maxPeakLevelZScore: number  // ピークレベル（dB）の修正Zスコアの絶対値がこれを超えるウィンドウを除外
+}
+
+export const DEFAULT_AVERAGING_OPTIONS: AveragingOptions = {
+  method: 'mean',
+  trimRatio: 0.1,
+  rejectOutliers: false,
+  minCorrelation: 0.5,
+  maxPeakLevelZScore: 3.5,
+}
+
+// 外れ値判定に必要な最小ウィンドウ数（これ未満では中央値が代表値にならない）
+const OUTLIER_MIN_WINDOWS = 3
+
+/**
+ * ウィンドウを外れ値として除外した理由
+ * - lowCorrelation: 中央値波形との相関が低い
+ * - peakLevel: ピークレベルが他のウィンドウから大きく外れている
+ */
+export type WindowRejectionReason = 'lowCorrelation' | 'peakLevel'
+
+export const WINDOW_REJECTION_REASON_LABELS: Record<WindowRejectionReason, string> = {
+  lowCorrelation: '相関が低い',
+  peakLevel: 'ピークレベルが外れ値',
+}
+
+export interface WindowRejection {
+  reason: WindowRejectionReason
+  value: number  // 判定に使った値（相関係数、またはピークレベルの修正Zスコア）
+}
+
 /**
  * 同期加算処理のパラメータ（動的ウィンドウ計算対応）
  */
@@ -39,9 +313,11 @@ export interface SyncAverageParams {
   timestamps: number[]              // 基準となるタイムスタンプ（KeyDown or KeyUp）
   endTimestamps: number[]           // 各ウィンドウの終端タイムスタンプ
   offsetMs: number                  // ウィンドウ開始位置の前方オフセット
-  peakAlign: boolean                // ピーク同期モード
-  peakPositionMs: number            // 出力波形内のピーク位置
+  alignMode: AlignMode              // ウィンドウを揃える方法
+  peakPositionMs: number            // 出力波形内で揃える位置（ピーク・オンセットなど）
   sampleRate: number
+  averaging?: AveragingOptions      // 平均化の方法と外れ値除外（省略時は全ウィンドウの平均）
+  excludedTimestamps?: number[]     // 手動で除外するウィンドウの基準タイムスタンプ (ms)
 }
 
 /**
@@ -50,8 +326,21 @@ export interface SyncAverageParams {
 export interface WindowInfo {
   data: Float32Array
   peakIndex: number
+  onsetIndex: number      // 検出したオンセット位置
+  alignIndex: number      // 同期加算で揃えた位置（相互相関モードではサブサンプル精度、キーイベント基準では0）
   timestampMs: number
   windowLengthMs: number  // このウィンドウの長さ（ms）
+  excluded: boolean       // 手動で除外したウィンドウか
+  rejection: WindowRejection | null  // 外れ値として除外した理由（平均化に使用した場合は null）
+}
+
+/**
+ * 同期加算波形の各サンプル位置のばらつき
+ */
+export interface WaveformSpread {
+  standardDeviation: Float32Array  // 各サンプル位置のウィンドウ間の標準偏差（不偏）
+  sampleCounts: Float32Array       // 各サンプル位置の有効ウィンドウ数
+  consistency: number | null       // ウィンドウ間の相関係数の平均（一貫性スコア、計算できない場合は null）
 }
 
 /**
@@ -59,9 +348,12 @@ export interface WindowInfo {
  */
 export interface SyncAverageResult {
   waveform: Float32Array | null
-  windowCount: number
+  windowCount: number     // 平均化に使用したウィンドウ数
+  excludedCount: number   // 手動で除外したウィンドウ数
+  rejectedCount: number   // 外れ値として除外したウィンドウ数
   windows: WindowInfo[]
   outputLengthMs: number  // 出力波形の長さ（ms）
+  spread: WaveformSpread | null  // 使用したウィンドウのばらつき（平均波形がない場合は null）
 }
 
 /**
@@ -97,6 +389,90 @@ export function calculateWindowEndTimestamps(
   return endTimestamps
 }
 
+/**
+ * 指定したキーグループのタイムスタンプのみを残す
+ * ウィンドウ終端は他のキーのイベントでも区切られるよう、全イベントで計算した後に絞り込むこと
+ * @param timestamps 基準タイムスタンプ
+ * @param endTimestamps 各タイムスタンプのウィンドウ終端
+ * @param events timestamps と同じ順序で対応するキーイベント
+ * @param group 残すキーグループ（'all' の場合は絞り込まない）
+ * @returns 絞り込んだタイムスタンプとウィンドウ終端
+ */
+export function filterTimestampsByKeyGroup(
+  timestamps: number[],
+  endTimestamps: number[],
+  events: KeyEventInfo[],
+  group: KeyGroup
+): { timestamps: number[]; endTimestamps: number[] } {
+  if (group === 'all') {
+    return { timestamps, endTimestamps }
+  }
+
+  const filteredTimestamps: number[] = []
+  const filteredEndTimestamps: number[] = []
+  for (let i = 0; i < timestamps.length; i++) {
+    const event = events[i]
+    if (event && getKeyGroup(event.code) === group) {
+      filteredTimestamps.push(timestamps[i])
+      filteredEndTimestamps.push(endTimestamps[i])
+    }
+  }
+
+  return { timestamps: filteredTimestamps, endTimestamps: filteredEndTimestamps }
+}
+
+/**
+ * 同じウィンドウとみなすタイムスタンプの誤差 (ms)
+ * 書き出し・読み込みでタイムスタンプに生じる丸め誤差で手動の除外やキーイベントとの対応が外れないよう、半サンプル以内を同じウィンドウとみなす
+ */
+export function getWindowTimestampToleranceMs(sampleRate: number): number {
+  return 500 / sampleRate
+}
+
+/**
+ * ウィンドウの基準タイムスタンプが手動で除外したものか
+ */
+export function isTimestampExcluded(timestampMs: number, excludedTimestamps: number[], sampleRate: number): boolean {
+  const tolerance = getWindowTimestampToleranceMs(sampleRate)
+  return excludedTimestamps.some(t => Math.abs(t - timestampMs) <= tolerance)
+}
+
+/**
+ * ウィンドウの手動除外を切り替える
+ * @returns 除外していたウィンドウは除外を解除し（誤差内のタイムスタンプをすべて取り除く）、それ以外は除外に加えたタイムスタンプ
+ */
+export function toggleExcludedTimestamp(excludedTimestamps: number[], timestampMs: number, sampleRate: number): number[] {
+  if (!isTimestampExcluded(timestampMs, excludedTimestamps, sampleRate)) {
+    return [...excludedTimestamps, timestampMs].sort((a, b) => a - b)
+  }
+  const tolerance = getWindowTimestampToleranceMs(sampleRate)
+  return excludedTimestamps.filter(t => Math.abs(t - timestampMs) > tolerance)
+}
+
+/**
+ * 個別ウィンドウをキーグループで絞り込む
+ * 基準タイムスタンプが半サンプル以内で一致するキーイベントのキーグループで判定する
+ * @param windows 個別ウィンドウ
+ * @param events ウィンドウの基準としたキーイベント
+ * @param group 残すキーグループ（'all' の場合は絞り込まない）
+ */
+export function filterWindowsByKeyGroup(
+  windows: WindowInfo[],
+  events: KeyEventInfo[],
+  group: KeyGroup,
+  sampleRate: number
+): WindowInfo[] {
+  if (group === 'all') {
+    return windows
+  }
+
+  const tolerance = getWindowTimestampToleranceMs(sampleRate)
+  return windows.filter(window => {
+    const event = events.find(e => Math.abs(e.timestampMs - window.timestampMs) <= tolerance)
+    return event !== undefined && getKeyGroup(event.code) === group
+  })
+}
+
 /**
  * 同期加算処理を実行する（動的ウィンドウ長対応）
  * @param params 同期加算のパラメータ
@@ -108,15 +484,13 @@ export function calculateSyncAveragedWaveform(params: SyncAverageParams): SyncAv
     timestamps,
     endTimestamps,
     offsetMs,
-    peakAlign,
+    alignMode,
     peakPositionMs,
     sampleRate,
+    averaging = DEFAULT_AVERAGING_OPTIONS,
+    excludedTimestamps = [],
   } = params
 
-  if (timestamps.length === 0) {
-    return { waveform: null, windowCount: 0, windows: [], outputLengthMs: 0 }
-  }
-
   const windowOffsetSamples = Math.floor((offsetMs / 1000) * sampleRate)
 
   // 個別ウィンドウを収集（各ウィンドウは動的な長さ）
@@ -137,88 +511,443 @@ export function calculateSyncAveragedWaveform(params: SyncAverageParams): SyncAv
       const windowData = audioData.slice(windowStart, windowEnd)
       // ウィンドウ全体でピークを検索
       const peakIndex = findPeakIndex(windowData)
+      const onsetIndex = findOnsetIndex(windowData, sampleRate)
       windowInfos.push({ 
         data: windowData, 
         peakIndex, 
+        onsetIndex,
+        alignIndex: 0,
         timestampMs: timestamp,
-        windowLengthMs 
+        windowLengthMs,
+        excluded: isTimestampExcluded(timestamp, excludedTimestamps, sampleRate),
+        rejection: null
       })
     }
   }
 
-  if (windowInfos.length === 0) {
-    return { waveform: null, windowCount: 0, windows: [], outputLengthMs: 0 }
+  return averageSyncWindows(windowInfos, { alignMode, peakPositionMs, sampleRate, averaging })
+}
+
+/**
+ * 切り出したウィンドウを揃えて平均化するパラメータ
+ */
+export interface WindowAveragingParams {
+  alignMode: AlignMode              // ウィンドウを揃える方法
+  peakPositionMs: number            // 出力波形内で揃える位置（ピーク・オンセットなど）
+  sampleRate: number
+  averaging?: AveragingOptions      // 平均化の方法と外れ値除外（省略時は全ウィンドウの平均）
+}
+
+/**
+ * 切り出したウィンドウを揃えて平均化する
+ * 手動の除外（excluded）はウィンドウの値を使い、揃える位置と外れ値の判定は渡したウィンドウの中で求め直す
+ * @param windows 個別ウィンドウ（書き換えずに、揃える位置と外れ値の判定を更新したものを結果に含める）
+ * @param params 平均化のパラメータ
+ */
+export function averageSyncWindows(windows: WindowInfo[], params: WindowAveragingParams): SyncAverageResult {
+  const { alignMode, peakPositionMs, sampleRate, averaging = DEFAULT_AVERAGING_OPTIONS } = params
+
+  if (windows.length === 0) {
+    return { waveform: null, windowCount: 0, excludedCount: 0, rejectedCount: 0, windows: [], outputLengthMs: 0, spread: null }
   }
 
-  // ピーク同期後の有効範囲を計算
+  const windowInfos: WindowInfo[] = windows.map(window => ({ ...window, rejection: null }))
+
+  // 各ウィンドウで揃える位置を決定
+  const alignIndices = calculateAlignIndices(windowInfos, alignMode, sampleRate)
+  windowInfos.forEach((window, i) => {
+    window.alignIndex = alignIndices[i]
+  })
+
+  // 揃えた後の有効範囲を計算
   const peakPositionInOutput = Math.floor((peakPositionMs / 1000) * sampleRate)
   
-  // 各ウィンドウについて、ピーク位置を peakPositionInOutput に揃えたときの
+  // 各ウィンドウについて、揃える位置を peakPositionInOutput に置いたときの
   // 有効範囲（全ウィンドウがデータを持っている範囲）を計算
-  let minStartOffset = 0  // ピーク位置より前の最小サンプル数
-  let minEndOffset = Infinity  // ピーク位置より後の最小サンプル数
+  // キーイベント基準の場合も従来どおりピーク位置で出力長を決める
+  let minEndOffset = Infinity  // 揃える位置より後の最小サンプル数
   
   for (const window of windowInfos) {
-    const beforePeak = window.peakIndex  // ピーク位置より前のサンプル数
-    const afterPeak = window.data.length - window.peakIndex - 1  // ピーク位置より後のサンプル数
-    
-    minStartOffset = Math.max(minStartOffset, peakPositionInOutput - beforePeak)
+    const referenceIndex = alignMode === 'none' ? window.peakIndex : window.alignIndex
+    const afterPeak = Math.floor(window.data.length - referenceIndex - 1)  // 揃える位置より後のサンプル数
     minEndOffset = Math.min(minEndOffset, afterPeak)
   }
   
-  // 出力サイズ: ピーク位置 + ピーク後の最小サンプル数 + 1
+  // 出力サイズ: 揃える位置 + その後の最小サンプル数 + 1
   const outputWindowSize = peakPositionInOutput + minEndOffset + 1
   const outputLengthMs = (outputWindowSize / sampleRate) * 1000
   
-  console.log(`[同期加算] ウィンドウ数: ${windowInfos.length}, 出力サイズ: ${outputWindowSize}サンプル (${outputLengthMs.toFixed(1)}ms)`)
+  console.log(`[同期加算] ウィンドウ数: ${windowInfos.length}, 揃え方: ${alignMode}, 出力サイズ: ${outputWindowSize}サンプル (${outputLengthMs.toFixed(1)}ms)`)
 
-  if (peakAlign) {
-    // ピーク同期モード
-    const summedWaveform = new Float32Array(outputWindowSize)
-    const sampleCounts = new Float32Array(outputWindowSize) // 各サンプル位置の有効ウィンドウ数
-    
-    // ピーク位置を揃えて同期加算
-    for (const window of windowInfos) {
-      const shift = peakPositionInOutput - window.peakIndex
-      for (let j = 0; j < outputWindowSize; j++) {
-        const sourceIndex = j - shift
-        if (sourceIndex >= 0 && sourceIndex < window.data.length) {
-          summedWaveform[j] += window.data[sourceIndex]
-          sampleCounts[j] += 1
-        }
-      }
+  // 各ウィンドウを出力波形の位置に並べる（データがない位置は NaN）
+  const alignedWindows = windowInfos.map(window => {
+    // キーイベント基準の場合はウィンドウ先頭を出力先頭に揃える
+    const shift = alignMode === 'none' ? 0 : peakPositionInOutput - window.alignIndex
+    const aligned = new Float32Array(outputWindowSize)
+    for (let j = 0; j < outputWindowSize; j++) {
+      const sourceIndex = j - shift
+      aligned[j] = sourceIndex >= 0 && sourceIndex <= window.data.length - 1
+        ? sampleAt(window.data, sourceIndex)
+        : NaN
     }
+    return aligned
+  })
 
-    // 平均化（各サンプル位置で有効なウィンドウ数で割る）
-    for (let i = 0; i < outputWindowSize; i++) {
-      if (sampleCounts[i] > 0) {
-        summedWaveform[i] /= sampleCounts[i]
+  // 外れ値の判定は手動で除外していないウィンドウのみで行う
+  const candidateIndices = windowInfos.flatMap((window, i) => (window.excluded ? [] : [i]))
+  if (averaging.rejectOutliers) {
+    const rejections = detectOutlierWindows(
+      candidateIndices.map(i => alignedWindows[i]),
+      candidateIndices.map(i => windowInfos[i]),
+      averaging
+    )
+    candidateIndices.forEach((windowIndex, k) => {
+      windowInfos[windowIndex].rejection = rejections[k]
+    })
+  }
+
+  const usedWindows = candidateIndices
+    .filter(i => windowInfos[i].rejection === null)
+    .map(i => alignedWindows[i])
+  const excludedCount = windowInfos.length - candidateIndices.length
+  const rejectedCount = candidateIndices.length - usedWindows.length
+  if (excludedCount > 0 || rejectedCount > 0) {
+    console.log(`[同期加算] 手動で ${excludedCount} ウィンドウ、外れ値として ${rejectedCount} ウィンドウを除外`)
+  }
+
+  if (usedWindows.length === 0) {
+    return { waveform: null, windowCount: 0, excludedCount, rejectedCount, windows: windowInfos, outputLengthMs, spread: null }
+  }
+
+  const waveform = aggregateAlignedWindows(usedWindows, outputWindowSize, averaging.method, averaging.trimRatio)
+  const spread = calculateWaveformSpread(usedWindows, outputWindowSize)
+
+  return { waveform, windowCount: usedWindows.length, excludedCount, rejectedCount, windows: windowInfos, outputLengthMs, spread }
+}
+
+/**
+ * 揃えたウィンドウを各サンプル位置でまとめる（NaN の位置は除いて計算する）
+ * @param aligned 出力波形の位置に並べた各ウィンドウ
+ * @param length 出力波形のサンプル数
+ * @param method まとめ方
+ * @param trimRatio トリム平均で上下それぞれから除く割合
+ */
+function aggregateAlignedWindows(
+  aligned: Float32Array[],
+  length: number,
+  method: AveragingMethod,
+  trimRatio: number
+): Float32Array {
+  const result = new Float32Array(length)
+  const values = new Float64Array(aligned.length)
+
+  for (let j = 0; j < length; j++) {
+    let count = 0
+    for (const data of aligned) {
+      const value = data[j]
+      if (!Number.isNaN(value)) {
+        values[count++] = value
       }
     }
+    if (count === 0) continue
 
-    return { waveform: summedWaveform, windowCount: windowInfos.length, windows: windowInfos, outputLengthMs }
-  } else {
-    // 従来の同期加算モード（キーイベント基準）
-    const summedWaveform = new Float32Array(outputWindowSize)
-    const sampleCounts = new Float32Array(outputWindowSize)
-
-    for (const window of windowInfos) {
-      for (let j = 0; j < outputWindowSize; j++) {
-        if (j < window.data.length) {
-          summedWaveform[j] += window.data[j]
-          sampleCounts[j] += 1
-        }
+    if (method === 'mean') {
+      let sum = 0
+      for (let k = 0; k < count; k++) sum += values[k]
+      result[j] = sum / count
+      continue
+    }
+
+    const sorted = values.subarray(0, count).sort()
+    if (method === 'median') {
+      result[j] = medianOfSorted(sorted)
+    } else {
+      // 少なくとも1つは残るように除く数を制限する
+      const trim = Math.min(Math.floor(count * trimRatio), Math.floor((count - 1) / 2))
+      let sum = 0
+      for (let k = trim; k < count - trim; k++) sum += sorted[k]
+      result[j] = sum / (count - trim * 2)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 揃えたウィンドウの各サンプル位置のばらつきと一貫性スコアを計算する
+ * 標準偏差は平均化の方法によらず、各サンプル位置の平均値からのばらつきとする
+ * @param aligned 出力波形の位置に並べた各ウィンドウ（データがない位置は NaN）
+ * @param length 出力波形のサンプル数
+ */
+function calculateWaveformSpread(aligned: Float32Array[], length: number): WaveformSpread {
+  const standardDeviation = new Float32Array(length)
+  const sampleCounts = new Float32Array(length)
+
+  for (let j = 0; j < length; j++) {
+    let count = 0
+    let sum = 0
+    let sumSq = 0
+    for (const data of aligned) {
+      const value = data[j]
+      if (Number.isNaN(value)) continue
+      count++
+      sum += value
+      sumSq += value * value
+    }
+    sampleCounts[j] = count
+    if (count >= 2) {
+      const mean = sum / count
+      standardDeviation[j] = Math.sqrt(Math.max(0, (sumSq - count * mean * mean) / (count - 1)))
+    }
+  }
+
+  return { standardDeviation, sampleCounts, consistency: calculateConsistency(aligned, sampleCounts) }
+}
+
+/**
+ * ウィンドウ間の相関係数の平均（一貫性スコア）を計算する
+ * 全ウィンドウがデータを持つ区間で各ウィンドウを平均0・ノルム1に正規化すると、
+ * 全ペアの相関係数の和は (|Σz|² - n) / 2 となるため、ペアごとに計算せずに O(n) で求められる
+ * @param aligned 出力波形の位置に並べた各ウィンドウ
+ * @param sampleCounts 各サンプル位置の有効ウィンドウ数
+ * @returns 相関係数の平均（ウィンドウが2つ未満、または共通区間がない場合は null）
+ */
+function calculateConsistency(aligned: Float32Array[], sampleCounts: Float32Array): number | null {
+  const commonIndices: number[] = []
+  sampleCounts.forEach((count, j) => {
+    if (count === aligned.length) commonIndices.push(j)
+  })
+  if (commonIndices.length < 2) return null
+
+  const normalizedSum = new Float64Array(commonIndices.length)
+  let validCount = 0
+  for (const data of aligned) {
+    let mean = 0
+    for (const j of commonIndices) mean += data[j]
+    mean /= commonIndices.length
+
+    let norm = 0
+    for (const j of commonIndices) norm += (data[j] - mean) ** 2
+    norm = Math.sqrt(norm)
+    // 無音のウィンドウは相関を定義できないため除く
+    if (norm === 0) continue
+
+    commonIndices.forEach((j, k) => {
+      normalizedSum[k] += (data[j] - mean) / norm
+    })
+    validCount++
+  }
+  if (validCount < 2) return null
+
+  let sumSq = 0
+  for (let k = 0; k < normalizedSum.length; k++) sumSq += normalizedSum[k] ** 2
+  return (sumSq - validCount) / (validCount * (validCount - 1))
+}
+
+/**
+ * ソート済み配列の中央値を取得する
+ */
+function medianOfSorted(sorted: ArrayLike<number>): number {
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * 2つの波形の相関係数を計算する（どちらかが NaN の位置は除く）
+ */
+function calculateCorrelation(a: Float32Array, b: Float32Array): number {
+  let count = 0
+  let sumA = 0
+  let sumB = 0
+  for (let i = 0; i < a.length; i++) {
+    if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue
+    sumA += a[i]
+    sumB += b[i]
+    count++
+  }
+  if (count < 2) return 0
+
+  const meanA = sumA / count
+  const meanB = sumB / count
+  let covariance = 0
+  let varianceA = 0
+  let varianceB = 0
+  for (let i = 0; i < a.length; i++) {
+    if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue
+    const da = a[i] - meanA
+    const db = b[i] - meanB
+    covariance += da * db
+    varianceA += da * da
+    varianceB += db * db
+  }
+  if (varianceA === 0 || varianceB === 0) return 0
+  return covariance / Math.sqrt(varianceA * varianceB)
+}
+
+/**
+ * 外れ値ウィンドウを判定する
+ * - 全ウィンドウの中央値波形との相関係数が minCorrelation 未満のもの
+ * - ピークレベル（dB）の修正Zスコア（中央値と中央絶対偏差による）の絶対値が maxPeakLevelZScore を超えるもの
+ * @param aligned 出力波形の位置に並べた各ウィンドウ
+ * @param windows aligned と同じ順序のウィンドウ情報
+ * @param options 判定の閾値
+ * @returns 各ウィンドウの除外理由（除外しない場合は null）
+ */
+function detectOutlierWindows(
+  aligned: Float32Array[],
+  windows: WindowInfo[],
+  options: AveragingOptions
+): (WindowRejection | null)[] {
+  const rejections: (WindowRejection | null)[] = aligned.map(() => null)
+  if (aligned.length < OUTLIER_MIN_WINDOWS) return rejections
+
+  const medianWaveform = aggregateAlignedWindows(aligned, aligned[0].length, 'median', 0)
+
+  const peakLevels = windows.map(w => 20 * Math.log10(Math.max(Math.abs(w.data[w.peakIndex]), 1e-10)))
+  const medianLevel = medianOfSorted([...peakLevels].sort((a, b) => a - b))
+  const levelMad = medianOfSorted(peakLevels.map(level => Math.abs(level - medianLevel)).sort((a, b) => a - b))
+
+  aligned.forEach((data, i) => {
+    const correlation = calculateCorrelation(data, medianWaveform)
+    if (correlation < options.minCorrelation) {
+      rejections[i] = { reason: 'lowCorrelation', value: correlation }
+      return
+    }
+    // 全ウィンドウのレベルがほぼ同じ（MAD = 0）場合はレベルでは判定しない
+    if (levelMad > 0) {
+      const zScore = (0.6745 * (peakLevels[i] - medianLevel)) / levelMad
+      if (Math.abs(zScore) > options.maxPeakLevelZScore) {
+        rejections[i] = { reason: 'peakLevel', value: zScore }
       }
     }
+  })
+
+  // すべて外れ値と判定された場合は閾値が厳しすぎるため除外しない
+  if (rejections.every(r => r !== null)) {
+    return aligned.map(() => null)
+  }
+  return rejections
+}
+
+/**
+ * 小数インデックスの値を線形補間で取得する（範囲外は0）
+ */
+function sampleAt(data: Float32Array, index: number): number {
+  const i0 = Math.floor(index)
+  const fraction = index - i0
+  const v0 = i0 >= 0 && i0 < data.length ? data[i0] : 0
+  if (fraction === 0) return v0
+  const v1 = i0 + 1 >= 0 && i0 + 1 < data.length ? data[i0 + 1] : 0
+  return v0 + (v1 - v0) * fraction
+}
 
-    for (let i = 0; i < outputWindowSize; i++) {
-      if (sampleCounts[i] > 0) {
-        summedWaveform[i] /= sampleCounts[i]
+/**
+ * 揃え方に応じて各ウィンドウの揃える位置を求める
+ */
+function calculateAlignIndices(windows: WindowInfo[], alignMode: AlignMode, sampleRate: number): number[] {
+  switch (alignMode) {
+    case 'none':
+      return windows.map(() => 0)
+    case 'peak':
+      return windows.map(w => w.peakIndex)
+    case 'onset':
+      return windows.map(w => w.onsetIndex)
+    case 'xcorr':
+      // ピークは正負のローブや打鍵の種類で入れ替わるため、初期位置はオンセットにする
+      return alignByCrossCorrelation(
+        windows.map(w => w.data),
+        windows.map(w => w.onsetIndex),
+        sampleRate
+      )
+  }
+}
+
+/**
+ * 各ウィンドウを平均波形との相互相関で反復的に揃える
+ * 1. 現在の位置で揃えた平均波形を作る
+ * 2. 各ウィンドウについて平均波形との相互相関が最大になるずれを求め、放物線補間でサブサンプル精度にする
+ * 3. 位置の変化が十分小さくなるまで繰り返す
+ * @param windows 各ウィンドウの波形
+ * @param initialIndices 各ウィンドウの初期位置
+ * @param sampleRate サンプルレート
+ * @returns 各ウィンドウの揃える位置（小数インデックス）
+ */
+export function alignByCrossCorrelation(
+  windows: Float32Array[],
+  initialIndices: number[],
+  sampleRate: number
+): number[] {
+  const positions = [...initialIndices]
+  if (windows.length < 2) return positions
+
+  const maxLag = Math.max(1, Math.round((XCORR_MAX_LAG_MS / 1000) * sampleRate))
+  const regionAfterLimit = Math.round((XCORR_REGION_AFTER_MS / 1000) * sampleRate)
+
+  for (let iteration = 0; iteration < XCORR_MAX_ITERATIONS; iteration++) {
+    // 全ウィンドウがデータを持つ区間（揃える位置からの相対位置）
+    let regionBefore = Infinity
+    let regionAfter = regionAfterLimit
+    windows.forEach((data, i) => {
+      regionBefore = Math.min(regionBefore, Math.floor(positions[i]))
+      regionAfter = Math.min(regionAfter, Math.floor(data.length - 1 - positions[i]))
+    })
+    const regionLength = regionBefore + regionAfter + 1
+    if (regionLength < 3) break
+
+    // 現在の位置で揃えた平均波形（参照波形）
+    const reference = new Float32Array(regionLength)
+    windows.forEach((data, i) => {
+      for (let t = 0; t < regionLength; t++) {
+        reference[t] += sampleAt(data, positions[i] - regionBefore + t)
       }
+    })
+    for (let t = 0; t < regionLength; t++) {
+      reference[t] /= windows.length
     }
-    
-    return { waveform: summedWaveform, windowCount: windowInfos.length, windows: windowInfos, outputLengthMs }
+
+    // 各ウィンドウの位置を相互相関の最大値で更新
+    const changes = windows.map((data, i) => {
+      const correlations = new Float64Array(maxLag * 2 + 1)
+      let bestLagIndex = 0
+      for (let k = 0; k < correlations.length; k++) {
+        const start = positions[i] - regionBefore + (k - maxLag)
+        let sum = 0
+        for (let t = 0; t < regionLength; t++) {
+          sum += reference[t] * sampleAt(data, start + t)
+        }
+        correlations[k] = sum
+        if (sum > correlations[bestLagIndex]) {
+          bestLagIndex = k
+        }
+      }
+
+      // 放物線補間でサブサンプル精度のずれを求める
+      let fraction = 0
+      if (bestLagIndex > 0 && bestLagIndex < correlations.length - 1) {
+        const y0 = correlations[bestLagIndex - 1]
+        const y1 = correlations[bestLagIndex]
+        const y2 = correlations[bestLagIndex + 1]
+        const denominator = y0 - 2 * y1 + y2
+        if (denominator < 0) {
+          fraction = Math.max(-0.5, Math.min(0.5, 0.5 * (y0 - y2) / denominator))
+        }
+      }
+      return bestLagIndex - maxLag + fraction
+    })
+
+    // 全体が一方向にずれていかないよう、変化量の平均を差し引く
+    const meanChange = changes.reduce((sum, c) => sum + c, 0) / changes.length
+    let maxChange = 0
+    changes.forEach((change, i) => {
+      const adjusted = change - meanChange
+      positions[i] = Math.max(0, Math.min(windows[i].length - 1, positions[i] + adjusted))
+      maxChange = Math.max(maxChange, Math.abs(adjusted))
+    })
+
+    if (maxChange < XCORR_CONVERGENCE_SAMPLES) break
   }
+
+  return positions
 }
 
 /**
@@ -0,0 +1,100 @@
+/**
+ * FFT 用の窓関数ユーティリティ
+ * 係数は窓の種類と長さごとに一度だけ計算して使い回す
+ */
+
+/**
+ * 窓関数の種類
+ * - rectangular: 矩形窓（窓なし）。短い過渡音を切り取り済みの場合に減衰を避けられる
+ * - hann: ハン窓（ハニング窓）
+ * - hamming: ハミング窓
+ * - blackmanHarris: 4項ブラックマン・ハリス窓（サイドローブが小さい）
+ * - tukey: テューキー窓（両端の 25% ずつだけを滑らかに絞る）
+ * - flatTop: フラットトップ窓（ピークの振幅を正確に読み取れる）
+ */
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'blackmanHarris' | 'tukey' | 'flatTop'
+
+export const WINDOW_FUNCTION_LABELS: Record<WindowFunction, string> = {
+  rectangular: '矩形',
+  hann: 'ハン',
+  hamming: 'ハミング',
+  blackmanHarris: 'ブラックマン・ハリス',
+  tukey: 'テューキー (α=0.5)',
+  flatTop: 'フラットトップ',
+}
+
+// テューキー窓のテーパー部分の割合（両端を合わせた長さの比率）
+const TUKEY_ALPHA = 0.5
+
+/**
+ * 余弦項の和で表される窓 a0 - a1 cos(x) + a2 cos(2x) - ...
+ */
+function cosineSum(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, a, k) => sum + (k % 2 === 0 ? a : -a) * Math.cos(k * x), 0)
+}
+
+/**
+ * 窓関数の i 番目の係数を計算する（長さ n の対称窓）
+ */
+function windowValue(type: WindowFunction, i: number, n: number): number {
+  if (n === 1) return 1
+  const x = 2 * Math.PI * i / (n - 1)
+  switch (type) {
+    case 'rectangular':
+      return 1
+    case 'hann':
+      return cosineSum([0.5, 0.5], x)
+    case 'hamming':
+      return cosineSum([0.54, 0.46], x)
+    case 'blackmanHarris':
+      return cosineSum([0.35875, 0.48829, 0.14128, 0.01168], x)
+    case 'flatTop':
+      return cosineSum([0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368], x)
+    case 'tukey': {
+      const position = i / (n - 1)
+      const edge = Math.min(position, 1 - position)
+      if (edge >= TUKEY_ALPHA / 2) return 1
+      return 0.5 * (1 - Math.cos(2 * Math.PI * edge / TUKEY_ALPHA))
+    }
+  }
+}
+
+const coefficientCache = new Map<string, Float64Array>()
+
+/**
+ * 窓関数の係数を取得する
+ */
+export function getWindowCoefficients(type: WindowFunction, n: number): Float64Array {
+  const key = `${type}:${n}`
+  let coefficients = coefficientCache.get(key)
+  if (!coefficients) {
+    coefficients = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+      coefficients[i] = windowValue(type, i, n)
+    }
+    coefficientCache.set(key, coefficients)
+  }
+  return coefficients
+}
+
+/**
+ * 窓関数のパワー利得（係数の二乗平均）
+ * 窓によって下がる平均パワーを補正し、窓の種類によらずノイズのレベルを揃えるために使う
+ */
+export function getWindowPowerGain(type: WindowFunction, n: number): number {
+  if (n === 0) return 1
+  const coefficients = getWindowCoefficients(type, n)
+  let sum = 0
+  for (let i = 0; i < n; i++) {
+    sum += coefficients[i] * coefficients[i]
+  }
+  return sum / n
+}
+
+/**
+ * 波形に窓関数を掛ける
+ */
+export function applyWindow(data: Float32Array, type: WindowFunction): Float32Array {
+  const coefficients = getWindowCoefficients(type, data.length)
+  return data.map((v, i) => v * coefficients[i])
+}
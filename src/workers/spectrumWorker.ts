@@ -0,0 +1,9 @@
+/**
+ * スペクトル解析用 Web Worker
+ * src/utils/spectrumWorker.ts の requestSpectrumAnalysis・requestTraceSpectra から起動される
+ */
+import { handleSpectrumRequest, type SpectrumWorkerRequest } from '../utils/spectrumWorker'
+
+self.onmessage = (event: MessageEvent<SpectrumWorkerRequest>) => {
+  handleSpectrumRequest(event.data, self)
+}
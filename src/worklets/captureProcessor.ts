@@ -0,0 +1,38 @@
+/**
+ * 録音キャプチャ用 AudioWorkletProcessor
+ * AudioWorkletGlobalScope で実行される（audioWorklet.addModule で読み込む）
+ */
+import {
+  CAPTURE_PROCESSOR_NAME,
+  CaptureProcessorCore,
+  type CaptureControlMessage,
+  type CaptureProcessorOptions
+} from '../utils/captureWorklet'
+
+// AudioWorkletGlobalScope のグローバル（DOM の型定義には含まれない）
+declare const currentFrame: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: { processorOptions?: CaptureProcessorOptions }) => AudioWorkletProcessor
+): void
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private readonly core: CaptureProcessorCore
+
+  constructor(options?: { processorOptions?: CaptureProcessorOptions }) {
+    super()
+    this.core = new CaptureProcessorCore(this.port, undefined, options?.processorOptions?.channelCount)
+    this.port.onmessage = (event: MessageEvent<CaptureControlMessage>) => {
+      this.core.handleMessage(event.data)
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    return this.core.process(inputs[0], currentFrame)
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor)
@@ -8,45 +8,58 @@ afterEach(() => {
 })
 
 // Mock Web Audio API
-global.AudioContext = vi.fn().mockImplementation(() => ({
-  createAnalyser: vi.fn().mockReturnValue({
-    fftSize: 2048,
-    frequencyBinCount: 1024,
-    connect: vi.fn(),
-    disconnect: vi.fn(),
-    getByteTimeDomainData: vi.fn(),
-    getByteFrequencyData: vi.fn(),
-  }),
-  createGain: vi.fn().mockReturnValue({
-    gain: { value: 1 },
-    connect: vi.fn(),
-    disconnect: vi.fn(),
-  }),
-  createMediaStreamSource: vi.fn().mockReturnValue({
-    connect: vi.fn(),
-    disconnect: vi.fn(),
-  }),
-  createScriptProcessor: vi.fn().mockReturnValue({
-    connect: vi.fn(),
-    disconnect: vi.fn(),
-    onaudioprocess: null,
-  }),
-  createBufferSource: vi.fn().mockReturnValue({
-    buffer: null,
+global.AudioContext = vi.fn().mockImplementation(function () {
+  return {
+    createAnalyser: vi.fn().mockReturnValue({
+      fftSize: 2048,
+      frequencyBinCount: 1024,
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      getByteTimeDomainData: vi.fn(),
+      getByteFrequencyData: vi.fn(),
+    }),
+    createGain: vi.fn().mockReturnValue({
+      gain: { value: 1 },
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+    }),
+    createMediaStreamSource: vi.fn().mockReturnValue({
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+    }),
+    audioWorklet: {
+      addModule: vi.fn().mockResolvedValue(undefined),
+    },
+    createBufferSource: vi.fn().mockReturnValue({
+      buffer: null,
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      start: vi.fn(),
+      stop: vi.fn(),
+    }),
+    createBuffer: vi.fn(),
+    decodeAudioData: vi.fn(),
+    sampleRate: 48000,
+    currentTime: 0,
+    destination: {},
+    state: 'running',
+    close: vi.fn(),
+    resume: vi.fn(),
+    suspend: vi.fn(),
+  }
+}) as any
+
+// Mock AudioWorkletNode
+global.AudioWorkletNode = vi.fn().mockImplementation(function () {
+  return {
+    port: {
+      postMessage: vi.fn(),
+      onmessage: null,
+    },
     connect: vi.fn(),
     disconnect: vi.fn(),
-    start: vi.fn(),
-    stop: vi.fn(),
-  }),
-  createBuffer: vi.fn(),
-  decodeAudioData: vi.fn(),
-  sampleRate: 48000,
-  destination: {},
-  state: 'running',
-  close: vi.fn(),
-  resume: vi.fn(),
-  suspend: vi.fn(),
-})) as any
+  }
+}) as unknown as typeof AudioWorkletNode
 
 // Mock MediaStream
 class MockMediaStream {
@@ -0,0 +1,64 @@
+Feature: 測定データに含める解析結果
+  # description
+  同期加算した波形・個別ウィンドウ・ばらつきと設定を測定データに書き出し、
+  読み込み時に再計算せず書き出した時点の結果を復元する
+
+  Scenario: 個別ウィンドウの波形を連結して復元する
+    Given: 長さ 3、2、4 サンプルのウィンドウがある
+    When: ウィンドウの波形を連結する
+    Then: 9 サンプルの波形になり、各ウィンドウの開始位置と長さが記録される
+    And: 連結した波形から元のウィンドウが復元される
+
+    Given: 連結した波形がウィンドウの範囲より短い
+    When: ウィンドウを復元する
+    Then: null が返される
+
+  Scenario: 解析結果のファイルを作成する
+    Given: アタック音の波形とウィンドウがあり、リリース音の波形とウィンドウがない
+    When: 解析結果のファイルを作成する
+    Then: analysis.json、attack.wav、attack_windows.wav が作成される
+    And: analysis.json には設定とサンプルレートが記録される
+
+  Scenario: 書き出した解析結果を復元する
+    Given: 書き出した解析結果のファイルがある
+    When: 同じサンプルレートの録音データとして復元する
+    Then: 設定・波形・個別ウィンドウ・ばらつきが書き出したものと一致する
+
+  Scenario: PCM で表せない値も書き出したとおりに復元する
+    Given: 振幅が 1 を超える値やごく小さい値を含む解析結果がある
+    When: 解析結果のファイルを作成して復元する
+    Then: WAVファイルは録音データの形式によらず 32bit float で書き出される
+    And: 波形と個別ウィンドウがビット単位で一致する
+
+  Scenario: analysis.json がない測定データ
+    Given: analysis.json を含まない測定データがある
+    When: 解析結果を復元する
+    Then: null が返される
+
+  Scenario: 復元できない解析結果
+    Given: 48000Hz で書き出した解析結果がある
+    When: 44100Hz に変換した録音データとして復元する
+    Then: サンプルレートが異なるというエラーになる
+
+    Given: attack_windows.wav のサンプル数が足りない
+    When: 解析結果を復元する
+    Then: ウィンドウの波形が足りないというエラーになる
+
+    Given: JSON として読み込めない、または項目の値が不正な analysis.json がある
+    When: 解析結果を復元する
+    Then: 問題のある項目のパスを含むエラーになる
+
+    Given: 対応していないバージョンの analysis.json がある
+    When: 解析結果を復元する
+    Then: バージョンに対応していないというエラーになる
+
+  Scenario: 復元した個別ウィンドウからキーグループ別の波形を求める
+    Given: 英字キーとスペースキーを交互に打鍵し、英字キーの1つを手動で除外した解析結果を書き出している
+    When: 解析結果を復元し、キーグループ別の波形を求める
+    Then: 打鍵のあるキーグループの結果が表示順に返される
+    And: 除外したウィンドウは英字キーのグループでも除外されている
+    And: 英字キーの波形とばらつきは、録音データから英字キーだけを同期加算した結果と一致する
+
+    Given: キー情報のないキーイベントの解析結果がある
+    When: キーグループ別の波形を求める
+    Then: 結果は空である
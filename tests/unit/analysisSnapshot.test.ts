@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest'
+import { encodeWav } from '../../src/utils/audioExport'
+import {
+  ANALYSIS_FILES,
+  buildAnalysisFiles,
+  calculateRestoredKeyGroups,
+  packWindows,
+  restoreAnalysisFiles,
+  unpackWindows,
+  type AnalysisSnapshotSettings,
+  type SyncAverageSnapshot,
+} from '../../src/utils/analysisSnapshot'
+import { createUnknownKeyEvent } from '../../src/utils/keyEvents'
+import { DEFAULT_ANALYSIS_SETTINGS } from '../../src/utils/measurementMetadata'
+import { calculateSyncAveragedWaveform, type WindowInfo } from '../../src/utils/waveformProcessing'
+
+const SAMPLE_RATE = 48000
+
+const createWindow = (timestampMs: number, data: number[], overrides: Partial<WindowInfo> = {}): WindowInfo => ({
+  data: Float32Array.from(data),
+  peakIndex: 1,
+  onsetIndex: 0,
+  alignIndex: 0.25,
+  timestampMs,
+  windowLengthMs: 100,
+  excluded: false,
+  rejection: null,
+  ...overrides,
+})
+
+const settings: AnalysisSnapshotSettings = {
+  analysis: { ...DEFAULT_ANALYSIS_SETTINGS, attackOffsetMs: 4, releaseAlignMode: 'xcorr' },
+  peakPositionMs: 6,
+  peakIntervalMs: 15,
+  excludedWindows: { attack: [300], release: [] },
+}
+
+const attack: SyncAverageSnapshot = {
+  waveform: Float32Array.from([0.1, 0.5, -0.25]),
+  windows: [
+    createWindow(100, [0.1, 0.6, -0.2]),
+    createWindow(300, [0.2, 0.4], { excluded: true }),
+    createWindow(500, [0.05, 0.3, -0.1, 0], { rejection: { reason: 'lowCorrelation', value: 0.12 } }),
+  ],
+  spread: {
+    standardDeviation: Float32Array.from([0.05, 0.1, 0.2]),
+    sampleCounts: Float32Array.from([2, 2, 1]),
+    consistency: 0.87,
+  },
+}
+
+const release: SyncAverageSnapshot = {
+  waveform: null,
+  windows: [],
+  spread: null,
+}
+
+// tar から読み込んだときと同じ形（文字列のファイルはバイト列にする）
+const toArchiveFiles = (files: { name: string; data: ArrayBuffer | string }[]) =>
+  files.map(({ name, data }) => ({
+    name,
+    data: typeof data === 'string' ? new TextEncoder().encode(data).buffer as ArrayBuffer : data,
+  }))
+
+describe('analysisSnapshot', () => {
+  describe('packWindows / unpackWindows', () => {
+    it('should concatenate window data and restore each window', () => {
+      const packed = packWindows(attack.windows)
+
+      expect(packed.samples.length).toBe(9)
+      expect(packed.windows.map(w => [w.sampleOffset, w.sampleCount])).toEqual([[0, 3], [3, 2], [5, 4]])
+      expect(packed.windows[0]).not.toHaveProperty('data')
+      expect(unpackWindows(packed.samples, packed.windows)).toEqual(attack.windows)
+    })
+
+    it('should return null when the samples are shorter than the windows', () => {
+      const packed = packWindows(attack.windows)
+
+      expect(unpackWindows(packed.samples.subarray(0, 8), packed.windows)).toBeNull()
+    })
+  })
+
+  describe('buildAnalysisFiles', () => {
+    it('should write analysis.json and only the WAV files that have data', () => {
+      const files = buildAnalysisFiles(settings, attack, release, SAMPLE_RATE)
+
+      expect(files.map(f => f.name)).toEqual([
+        ANALYSIS_FILES.analysis,
+        ANALYSIS_FILES.attackWaveform,
+        ANALYSIS_FILES.attackWindows,
+      ])
+      const snapshot = JSON.parse(files[0].data as string)
+      expect(snapshot.version).toBe('1.0')
+      expect(snapshot.sampleRate).toBe(SAMPLE_RATE)
+      expect(snapshot.settings).toEqual(settings)
+    })
+  })
+
+  describe('restoreAnalysisFiles', () => {
+    it('should restore exactly what was exported', () => {
+      const files = toArchiveFiles(buildAnalysisFiles(settings, attack, release, SAMPLE_RATE))
+      const result = restoreAnalysisFiles(files, SAMPLE_RATE)
+
+      expect(result).toEqual({ ok: true, analysis: { settings, attack, release } })
+    })
+
+    it('should restore bit-identical samples that PCM cannot represent', () => {
+      // 16bit/24bit PCM では丸められる・クリップされる値
+      const samples = Float32Array.from([1.5, -3.25, 1e-7, 0.123456789, -1e-30, 0])
+      const detailed: SyncAverageSnapshot = {
+        waveform: samples,
+        windows: [createWindow(100, Array.from(samples)), createWindow(300, [2, -2, 5e-8])],
+        spread: attack.spread,
+      }
+      const files = toArchiveFiles(buildAnalysisFiles(settings, detailed, detailed, SAMPLE_RATE))
+
+      // WAVファイルはすべて 32bit float（fmt チャンクの形式 3、32bit）
+      for (const file of files.filter(f => f.name.endsWith('.wav'))) {
+        const view = new DataView(file.data)
+        expect([view.getUint16(20, true), view.getUint16(34, true)]).toEqual([3, 32])
+      }
+      const result = restoreAnalysisFiles(files, SAMPLE_RATE)
+      if (!result?.ok) throw new Error('解析結果を復元できません')
+      const bits = (data: Float32Array | null) => data && Array.from(new Uint32Array(data.buffer, data.byteOffset, data.length))
+      for (const restored of [result.analysis.attack, result.analysis.release]) {
+        expect(bits(restored.waveform)).toEqual(bits(samples))
+        expect(restored.windows.map(w => bits(w.data))).toEqual(detailed.windows.map(w => bits(w.data)))
+      }
+    })
+
+    it('should return null for archives without analysis.json', () => {
+      expect(restoreAnalysisFiles([], SAMPLE_RATE)).toBeNull()
+    })
+
+    it('should not restore when the recording was resampled', () => {
+      const files = toArchiveFiles(buildAnalysisFiles(settings, attack, release, SAMPLE_RATE))
+
+      expect(restoreAnalysisFiles(files, 44100)).toEqual({
+        ok: false,
+        errors: ['解析結果のサンプルレート (48000Hz) が録音データ (44100Hz) と異なります'],
+      })
+    })
+
+    it('should report missing window samples', () => {
+      const files = toArchiveFiles(buildAnalysisFiles(settings, attack, release, SAMPLE_RATE))
+        .map(f => f.name === ANALYSIS_FILES.attackWindows ? { ...f, data: encodeWav(new Float32Array(4), SAMPLE_RATE) } : f)
+
+      expect(restoreAnalysisFiles(files, SAMPLE_RATE)).toEqual({
+        ok: false,
+        errors: ['attack_windows.wav にウィンドウの波形が足りません'],
+      })
+    })
+
+    it('should report invalid analysis.json', () => {
+      const broken = [{ name: ANALYSIS_FILES.analysis, data: new TextEncoder().encode('{').buffer as ArrayBuffer }]
+      const result = restoreAnalysisFiles(broken, SAMPLE_RATE)
+      expect(result?.ok).toBe(false)
+
+      const files = toArchiveFiles(buildAnalysisFiles(settings, attack, release, SAMPLE_RATE))
+      const snapshot = JSON.parse(new TextDecoder().decode(files[0].data))
+      snapshot.attack.windows[0].sampleCount = -1
+      const invalid = [{ name: ANALYSIS_FILES.analysis, data: new TextEncoder().encode(JSON.stringify(snapshot)).buffer as ArrayBuffer }]
+
+      expect(restoreAnalysisFiles(invalid, SAMPLE_RATE)).toEqual({
+        ok: false,
+        errors: ['attack.windows[0].sampleCount は 0 以上の整数である必要があります（値: -1）'],
+      })
+    })
+
+    it('should reject unsupported versions', () => {
+      const files = [{ name: ANALYSIS_FILES.analysis, data: new TextEncoder().encode('{"version":"9.0"}').buffer as ArrayBuffer }]
+
+      expect(restoreAnalysisFiles(files, SAMPLE_RATE)).toEqual({
+        ok: false,
+        errors: ['バージョン 9.0 の形式には対応していません'],
+      })
+    })
+  })
+
+  describe('calculateRestoredKeyGroups', () => {
+    it('should average each key group from the restored windows with the restored exclusions', () => {
+      // 英字キーとスペースキーを交互に打鍵し、英字キーの2打鍵目（振幅10倍）を手動で除外する
+      const audioData = new Float32Array(SAMPLE_RATE)
+      const keyDownEvents = [100, 200, 300, 400, 500, 600].map((t, i) => ({
+        ...createUnknownKeyEvent(t + 0.123456789),
+        code: i % 2 === 0 ? 'KeyA' : 'Space',
+      }))
+      keyDownEvents.forEach(({ timestampMs }, i) => {
+        const start = Math.round((timestampMs + 2) * 48)
+        const amplitude = i === 2 ? 10 : 1 + i * 0.1
+        for (let n = 0; n < 480; n++) {
+          audioData[start + n] += amplitude * Math.exp(-n / 60) * Math.sin(2 * Math.PI * (2000 + i * 100) * n / SAMPLE_RATE)
+        }
+      })
+      const excluded = [keyDownEvents[2].timestampMs]
+      const restoredSettings: AnalysisSnapshotSettings = {
+        analysis: { ...DEFAULT_ANALYSIS_SETTINGS, attackOffsetMs: 5, attackAlignMode: 'peak' },
+        peakPositionMs: 5,
+        peakIntervalMs: 12,
+        excludedWindows: { attack: excluded, release: [] },
+      }
+      const average = (timestamps: number[]) => calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode: 'peak',
+        peakPositionMs: 5,
+        sampleRate: SAMPLE_RATE,
+        averaging: restoredSettings.analysis.averaging,
+        excludedTimestamps: excluded,
+      })
+      const all = average(keyDownEvents.map(e => e.timestampMs))
+      const files = toArchiveFiles(buildAnalysisFiles(restoredSettings, all, release, SAMPLE_RATE))
+      const result = restoreAnalysisFiles(files, SAMPLE_RATE)
+      if (!result?.ok) throw new Error('解析結果を復元できません')
+
+      const groups = calculateRestoredKeyGroups(result.analysis, keyDownEvents, [], SAMPLE_RATE)
+
+      expect(groups.map(g => g.group)).toEqual(['space', 'alpha'])
+      const alpha = groups.find(g => g.group === 'alpha')!
+      expect(alpha.attack.windows.map(w => w.excluded)).toEqual([false, true, false])
+      expect(alpha.release).toEqual(release)
+      // 録音データから英字キーだけを同期加算した結果と一致する
+      const direct = average(keyDownEvents.filter(e => e.code === 'KeyA').map(e => e.timestampMs))
+      expect(alpha.attack.waveform).toEqual(direct.waveform)
+      expect(alpha.attack.spread).toEqual(direct.spread)
+    })
+
+    it('should return no groups for events without key information', () => {
+      const files = toArchiveFiles(buildAnalysisFiles(settings, attack, release, SAMPLE_RATE))
+      const result = restoreAnalysisFiles(files, SAMPLE_RATE)
+      if (!result?.ok) throw new Error('解析結果を復元できません')
+
+      expect(calculateRestoredKeyGroups(result.analysis, [100, 300, 500].map(t => createUnknownKeyEvent(t)), [], SAMPLE_RATE)).toEqual([])
+    })
+  })
+})
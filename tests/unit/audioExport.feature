@@ -78,3 +78,105 @@ Feature: WAVファイルエンコード・デコード
       | [0, 0.5, -0.5]                          |
       | [1, -1, 0.25, -0.25]                    |
       | 100サンプルの正弦波                      |
+
+  Scenario: 24bit PCM を WAVE_FORMAT_EXTENSIBLE で書き出す
+    Given: Float32Array [1, -1, 0] がある
+    When: 24bit PCM でWAVにエンコードする
+    Then: フォーマットタグは WAVE_FORMAT_EXTENSIBLE (0xFFFE)、サブフォーマットは PCM になる
+    And: ビット深度・有効ビット数は 24、ブロックサイズは 3 になる
+    And: 1.0 は 0x7FFFFF、-1.0 は -0x800000 に変換される
+    And: 奇数長の data チャンクは1バイト埋めて偶数長にする
+
+  Scenario: 24bit PCM では 16bit の量子化幅より小さい信号が残る
+    Given: 振幅 1e-5（-100 dBFS）の正弦波がある
+    When: 16bit と 24bit でエンコードしてデコードする
+    Then: 16bit ではすべて 0 になる
+    And: 24bit では誤差 1e-6 未満で元の値に戻る
+
+  Scenario: 32bit float をフォーマットタグ 3 と fact チャンクで書き出す
+    Given: Float32Array [0.5, -0.25] がある
+    When: 32bit float でWAVにエンコードする
+    Then: フォーマットタグは 3 (IEEE float)、ビット深度は 32 になる
+    And: fact チャンクにサンプル数 2 が記録される
+
+  Scenario: 32bit float は量子化・クリップせずに往復できる
+    Given: 1e-7 や ±1 を超える値を含む Float32Array がある
+    When: 32bit float でエンコードしてデコードする
+    Then: 元の値と完全に一致する
+
+  Scenario: 拡張ヘッダーのない 24bit PCM を読み込む
+    Given: フォーマットタグ 1・24bit の WAV がある
+    When: WAVをデコードする
+    Then: 0x400000 は 0.5、-0x400000 は -0.5 になる
+
+  Scenario: 32bit 整数 PCM と 64bit float を読み込む
+    Given: 32bit 整数 PCM と 64bit float の WAV がある
+    When: WAVをデコードする
+    Then: -0x80000000 は -1、0.75 は 0.75 になる
+
+  Scenario: 対応していない形式は 0 のサンプルにせず失敗にする
+    Given: フォーマットタグ 2 (ADPCM) の WAV がある
+    When: WAVをデコードする
+    Then: nullが返される
+
+  Scenario: 多チャンネルのWAVをインターリーブして書き出す
+    Given: 2 チャンネルの波形がある
+    When: 24bit PCM でWAVにエンコードする
+    Then: チャンネル数は 2、ブロックサイズは 6 バイトになる
+    And: チャンネル配置は左右 (0x3) になる
+
+  Scenario: 多チャンネルのWAVのすべてのチャンネルを読み込む
+    Given: 16bit PCM・24bit PCM・32bit float の 2 チャンネルのWAVがある
+    When: WAVをデコードする
+    Then: チャンネルごとの波形が元の値と一致する
+    And: samples は 1 チャンネル目になる
+
+  Scenario: モノラルのWAVは 1 チャンネルとして読み込む
+    Given: モノラルのWAVがある
+    When: WAVをデコードする
+    Then: channels は samples のみを含む
+
+  Scenario: WAVデータを判定する
+    Given: エンコードしたWAVデータとテキストデータがある
+    When: WAVデータかどうかを判定する
+    Then: RIFF/WAVEヘッダーを持つデータのみ true になる
+    And: 12バイト未満のデータは false になる
+
+  Scenario: タイムスタンプCSVにキー情報の列を書き出す
+    Given: Space と Enter のキーダウンイベントがある
+    And: Space のキーアップイベントがある
+    When: タイムスタンプCSVを生成する
+    Then: タイムスタンプ列の後にキー情報（code, key, repeat, 修飾キー）の列が並ぶ
+    And: 対応するイベントがない列は空欄になる
+
+  Scenario: 小数を含むタイムスタンプのラウンドトリップ
+    Given: 619.1987906273438ms などの小数を含むタイムスタンプのキーイベントがある
+    When: タイムスタンプCSVを生成してパースする
+    Then: タイムスタンプは切り捨てられずに元の値に戻る
+
+  Scenario: 数値でないタイムスタンプを読み飛ばす
+    Given: "abc" や "12x" のタイムスタンプを含むCSVがある
+    When: CSVをパースする
+    Then: 数値として読めないタイムスタンプのイベントは含まれない
+
+  Scenario: キー情報付きタイムスタンプCSVのラウンドトリップ
+    Given: リピートや修飾キー、カンマやダブルクォートを含むキーイベントがある
+    When: タイムスタンプCSVを生成してパースする
+    Then: 元のキーイベントと一致する
+
+  Scenario: 旧形式の2列CSVを読み込む
+    Given: timestamp_keydown,timestamp_keyup のみのCSVがある
+    When: タイムスタンプCSVをパースする
+    Then: タイムスタンプが読み込まれる
+    And: キー情報は空のイベントとして扱われる
+
+  Scenario: ASCII 以外の文字を含むファイル名の PAX 形式 tar
+    Given: 日本語を含むファイル名のファイルがある
+    When: PAX 形式の tar を作成する
+    Then: PAX拡張ヘッダーの path 属性の長さは UTF-8 のバイト数で書かれ、その位置で改行で終わる
+    And: tar を読み込むと元のファイル名になる
+
+    Given: 100バイトを超える日本語のファイル名のファイルがある
+    When: PAX 形式の tar を作成する
+    Then: PAX拡張ヘッダーとファイルの UStar ヘッダーの名前は ASCII のみで100バイト以内に収まる
+
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest'
-import { encodeWav, decodeWav } from '../../src/utils/audioExport'
+import {
+  encodeWav,
+  decodeWav,
+  isWavData,
+  buildTimestampsCsv,
+  parseTimestampsCsv,
+  createPaxTar,
+  parseTar,
+} from '../../src/utils/audioExport'
+import { createUnknownKeyEvent, type KeyEventInfo } from '../../src/utils/keyEvents'
 
 describe('audioExport', () => {
   describe('encodeWav', () => {
@@ -156,4 +165,278 @@ describe('audioExport', () => {
       }
     })
   })
+
+  describe('high-resolution WAV', () => {
+    // 44バイトのヘッダー（拡張なしの fmt チャンク）の WAV を作成する
+    function createWav(formatTag: number, bitsPerSample: number, writeSamples: (view: DataView, offset: number) => number): ArrayBuffer {
+      const data = new DataView(new ArrayBuffer(64))
+      const dataSize = writeSamples(data, 0)
+      const buffer = new ArrayBuffer(44 + dataSize)
+      const view = new DataView(buffer)
+      const header = 'RIFF....WAVEfmt '
+      for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i))
+      view.setUint32(4, buffer.byteLength - 8, true)
+      view.setUint32(16, 16, true)
+      view.setUint16(20, formatTag, true)
+      view.setUint16(22, 1, true)
+      view.setUint32(24, 48000, true)
+      view.setUint16(32, bitsPerSample / 8, true)
+      view.setUint16(34, bitsPerSample, true)
+      'data'.split('').forEach((c, i) => view.setUint8(36 + i, c.charCodeAt(0)))
+      view.setUint32(40, dataSize, true)
+      new Uint8Array(buffer, 44).set(new Uint8Array(data.buffer, 0, dataSize))
+      return buffer
+    }
+
+    it('should write 24-bit PCM as WAVE_FORMAT_EXTENSIBLE', () => {
+      const buffer = encodeWav(new Float32Array([1, -1, 0]), 48000, 'pcm24')
+      const view = new DataView(buffer)
+
+      expect(view.getUint32(16, true)).toBe(40)       // fmt チャンクの長さ
+      expect(view.getUint16(20, true)).toBe(0xFFFE)   // WAVE_FORMAT_EXTENSIBLE
+      expect(view.getUint16(32, true)).toBe(3)        // ブロックサイズ
+      expect(view.getUint16(34, true)).toBe(24)
+      expect(view.getUint16(38, true)).toBe(24)       // 有効ビット数
+      expect(view.getUint16(44, true)).toBe(1)        // サブフォーマット（PCM）
+      expect(view.getUint32(64, true)).toBe(9)        // data チャンクの長さ
+      expect(buffer.byteLength).toBe(68 + 9 + 1)      // 奇数長の data チャンクは1バイト埋める
+      expect(view.getUint32(4, true)).toBe(buffer.byteLength - 8)
+
+      // 1.0 は 0x7FFFFF、-1.0 は -0x800000
+      expect(Array.from(new Uint8Array(buffer, 68, 6))).toEqual([0xFF, 0xFF, 0x7F, 0x00, 0x00, 0x80])
+    })
+
+    it('should keep levels below 16-bit quantization in 24-bit PCM', () => {
+      // -100 dBFS の正弦波（16bit の量子化幅 約 3e-5 より小さい）
+      const samples = new Float32Array(100).map((_, i) => 1e-5 * Math.sin(i * 0.1))
+
+      const result16 = decodeWav(encodeWav(samples, 48000, 'pcm16'))
+      const result24 = decodeWav(encodeWav(samples, 48000, 'pcm24'))
+
+      expect(result16!.samples.every(v => v === 0)).toBe(true)
+      for (let i = 0; i < samples.length; i++) {
+        expect(Math.abs(result24!.samples[i] - samples[i])).toBeLessThan(1e-6)
+      }
+    })
+
+    it('should write 32-bit float with format tag 3 and a fact chunk', () => {
+      const buffer = encodeWav(new Float32Array([0.5, -0.25]), 44100, 'float32')
+      const view = new DataView(buffer)
+
+      expect(view.getUint32(16, true)).toBe(18)       // fmt チャンクの長さ（拡張部分の長さ 0 を含む）
+      expect(view.getUint16(20, true)).toBe(3)        // WAVE_FORMAT_IEEE_FLOAT
+      expect(view.getUint16(34, true)).toBe(32)
+      expect(String.fromCharCode(...new Uint8Array(buffer, 38, 4))).toBe('fact')
+      expect(view.getUint32(46, true)).toBe(2)        // サンプル数
+      expect(String.fromCharCode(...new Uint8Array(buffer, 50, 4))).toBe('data')
+      expect(buffer.byteLength).toBe(58 + 8)
+    })
+
+    it('should round-trip 32-bit float without quantization or clipping', () => {
+      const samples = new Float32Array([0, 1e-7, -0.123456, 2, -3])
+
+      const result = decodeWav(encodeWav(samples, 44100, 'float32'))
+
+      expect(result!.sampleRate).toBe(44100)
+      expect(Array.from(result!.samples)).toEqual(Array.from(samples))
+    })
+
+    it('should decode 24-bit PCM without the extensible header', () => {
+      const buffer = createWav(1, 24, (view) => {
+        // 0x400000 (0.5) と -0x400000 (-0.5)
+        [0x00, 0x00, 0x40, 0x00, 0x00, 0xC0].forEach((byte, i) => view.setUint8(i, byte))
+        return 6
+      })
+
+      const result = decodeWav(buffer)
+
+      expect(result!.samples[0]).toBeCloseTo(0.5, 6)
+      expect(result!.samples[1]).toBeCloseTo(-0.5, 6)
+    })
+
+    it('should decode 32-bit integer PCM and 64-bit float', () => {
+      const int32 = decodeWav(createWav(1, 32, (view) => {
+        view.setInt32(0, -0x80000000, true)
+        return 4
+      }))
+      const float64 = decodeWav(createWav(3, 64, (view) => {
+        view.setFloat64(0, 0.75, true)
+        return 8
+      }))
+
+      expect(int32!.samples[0]).toBe(-1)
+      expect(float64!.samples[0]).toBe(0.75)
+    })
+
+    it('should return null for unsupported formats instead of silent samples', () => {
+      // フォーマットタグ 2（ADPCM）
+      const buffer = createWav(2, 4, (view) => {
+        view.setUint16(0, 0x1234, true)
+        return 2
+      })
+
+      expect(decodeWav(buffer)).toBeNull()
+    })
+  })
+
+  describe('multichannel WAV', () => {
+    it('should interleave channels and set the stereo channel mask', () => {
+      const buffer = encodeWav([new Float32Array([0.5, 0]), new Float32Array([-0.5, 1])], 48000, 'pcm24')
+      const view = new DataView(buffer)
+
+      expect(view.getUint16(22, true)).toBe(2)        // チャンネル数
+      expect(view.getUint32(28, true)).toBe(48000 * 6) // バイトレート
+      expect(view.getUint16(32, true)).toBe(6)        // ブロックサイズ
+      expect(view.getUint32(40, true)).toBe(0x3)      // チャンネル配置（左右）
+      expect(view.getUint32(64, true)).toBe(12)       // data チャンクの長さ
+    })
+
+    it('should decode every channel of an interleaved WAV', () => {
+      const left = new Float32Array([0.5, 0.25, -0.5])
+      const right = new Float32Array([-1, 0, 0.75])
+
+      for (const format of ['pcm16', 'pcm24', 'float32'] as const) {
+        const result = decodeWav(encodeWav([left, right], 44100, format))
+
+        expect(result!.channels).toHaveLength(2)
+        expect(result!.samples).toBe(result!.channels[0])
+        for (let i = 0; i < left.length; i++) {
+          expect(result!.channels[0][i]).toBeCloseTo(left[i], 4)
+          expect(result!.channels[1][i]).toBeCloseTo(right[i], 4)
+        }
+      }
+    })
+
+    it('should return a single channel for mono WAV', () => {
+      const result = decodeWav(encodeWav(new Float32Array([0.5]), 48000))
+
+      expect(result!.channels).toHaveLength(1)
+      expect(result!.channels[0]).toBe(result!.samples)
+    })
+  })
+
+  describe('WAV import', () => {
+    it('should detect WAV data by RIFF/WAVE header', () => {
+      const wav = encodeWav(new Float32Array(10), 48000)
+      expect(isWavData(wav)).toBe(true)
+      expect(isWavData(new TextEncoder().encode('metadata.json').buffer)).toBe(false)
+      expect(isWavData(new ArrayBuffer(4))).toBe(false)
+    })
+  })
+
+  describe('timestamps CSV', () => {
+    const keyEvent = (timestampMs: number, code: string, key: string, overrides: Partial<KeyEventInfo> = {}): KeyEventInfo => ({
+      ...createUnknownKeyEvent(timestampMs),
+      code,
+      key,
+      ...overrides,
+    })
+
+    it('should write key identity columns after the timestamp columns', () => {
+      const csv = buildTimestampsCsv(
+        [keyEvent(100, 'Space', ' '), keyEvent(300, 'Enter', 'Enter')],
+        [keyEvent(180, 'Space', ' ')]
+      )
+      const lines = csv.split('\n')
+
+      expect(lines[0]).toBe('timestamp_keydown,timestamp_keyup,code_keydown,key_keydown,repeat_keydown,modifiers_keydown,code_keyup,key_keyup,repeat_keyup,modifiers_keyup')
+      expect(lines[1]).toBe('100,180,Space, ,0,,Space, ,0,')
+      expect(lines[2]).toBe('300,,Enter,Enter,0,,,,,')
+    })
+
+    it('should round-trip key events including repeat and modifiers', () => {
+      const keyDownEvents = [
+        keyEvent(100, 'KeyA', 'A', { shiftKey: true }),
+        keyEvent(250, 'Comma', ',', { repeat: true, ctrlKey: true, metaKey: true }),
+        keyEvent(400, 'Quote', '"', { altKey: true }),
+      ]
+      const keyUpEvents = [
+        keyEvent(180, 'KeyA', 'A'),
+        keyEvent(330, 'Comma', ','),
+      ]
+
+      const parsed = parseTimestampsCsv(buildTimestampsCsv(keyDownEvents, keyUpEvents))
+
+      expect(parsed.keyDownEvents).toEqual(keyDownEvents)
+      expect(parsed.keyUpEvents).toEqual(keyUpEvents)
+      expect(parsed.keyDownTimestamps).toEqual([100, 250, 400])
+      expect(parsed.keyUpTimestamps).toEqual([180, 330])
+    })
+
+    it('should round-trip fractional timestamps without truncation', () => {
+      const keyDownEvents = [keyEvent(619.1987906273438, 'KeyA', 'a'), keyEvent(1000.9999, 'KeyB', 'b')]
+      const keyUpEvents = [keyEvent(701.5000000001, 'KeyA', 'a')]
+
+      const parsed = parseTimestampsCsv(buildTimestampsCsv(keyDownEvents, keyUpEvents))
+
+      expect(parsed.keyDownTimestamps).toEqual([619.1987906273438, 1000.9999])
+      expect(parsed.keyUpTimestamps).toEqual([701.5000000001])
+      expect(parsed.keyDownEvents).toEqual(keyDownEvents)
+    })
+
+    it('should skip timestamps that are not numbers', () => {
+      const csv = 'timestamp_keydown,timestamp_keyup\n100.5,abc\n12x,330.25'
+
+      const parsed = parseTimestampsCsv(csv)
+
+      expect(parsed.keyDownTimestamps).toEqual([100.5])
+      expect(parsed.keyUpTimestamps).toEqual([330.25])
+    })
+
+    it('should import legacy two-column CSVs without key information', () => {
+      const csv = 'timestamp_keydown,timestamp_keyup\n100,180\n250,330\n400,'
+
+      const parsed = parseTimestampsCsv(csv)
+
+      expect(parsed.keyDownTimestamps).toEqual([100, 250, 400])
+      expect(parsed.keyUpTimestamps).toEqual([180, 330])
+      expect(parsed.keyDownEvents[0]).toEqual(createUnknownKeyEvent(100))
+      expect(parsed.keyUpEvents).toHaveLength(2)
+    })
+  })
+
+  describe('PAX tar', () => {
+    // jsdom の Blob は arrayBuffer() を持たないため FileReader で読む
+    const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as ArrayBuffer)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsArrayBuffer(blob)
+    })
+    const readName = (bytes: Uint8Array) => {
+      const field = bytes.subarray(0, 100)
+      const end = field.indexOf(0)
+      return field.subarray(0, end === -1 ? 100 : end)
+    }
+
+    it('should write the PAX record length in UTF-8 bytes for non-ASCII paths', async () => {
+      const name = '001_測定_1/metadata.json'
+      const buffer = await readBlob(createPaxTar([{ name, data: '{}' }]))
+      const bytes = new Uint8Array(buffer)
+
+      // 1つ目のヘッダーが PAX拡張ヘッダー、続くブロックが属性
+      expect(String.fromCharCode(bytes[156])).toBe('x')
+      const record = bytes.subarray(512, 1024)
+      const spaceIndex = record.indexOf(0x20)
+      const length = Number(new TextDecoder().decode(record.subarray(0, spaceIndex)))
+      expect(length).toBe(new TextEncoder().encode(` path=${name}\n`).length + String(length).length)
+      expect(record[length - 1]).toBe(0x0a)
+      expect(new TextDecoder().decode(record.subarray(0, length))).toBe(`${length} path=${name}\n`)
+
+      expect(parseTar(buffer).map(f => f.name)).toEqual([name])
+    })
+
+    it('should keep ustar name fields ASCII and within 100 bytes', async () => {
+      const name = `${'測定'.repeat(40)}/recording.wav`
+      const bytes = new Uint8Array(await readBlob(createPaxTar([{ name, data: 'x' }])))
+
+      for (const headerOffset of [0, 1024]) {
+        const header = bytes.subarray(headerOffset, headerOffset + 512)
+        expect(Array.from(readName(header)).every(byte => byte < 0x80)).toBe(true)
+        // ファイル名が次のフィールド（ファイルモード）にはみ出さない
+        expect(new TextDecoder().decode(header.subarray(100, 107))).toBe('0000644')
+      }
+      expect(new TextDecoder().decode(readName(bytes.subarray(0, 512)))).toMatch(/^PaxHeader\//)
+    })
+  })
 })
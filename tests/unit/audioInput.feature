@@ -0,0 +1,36 @@
+Feature: 音声入力デバイス設定
+  # description
+  録音に使用する入力デバイスと getUserMedia の制約を管理し、
+  実際に取得できたトラック設定を記録する
+
+  Scenario: ブラウザの音声処理を既定で無効にする
+    Given: 既定の入力設定がある
+    When: 音声制約を作成する
+    Then: echoCancellation, noiseSuppression, autoGainControl は false である
+    And: deviceId と sampleRate は指定されない
+
+  Scenario: デバイスとサンプルレートを指定する
+    Given: デバイスID "device-1"、サンプルレート 96000、チャンネル数 2 の設定がある
+    When: 音声制約を作成する
+    Then: deviceId は exact 指定になる
+    And: sampleRate と channelCount は ideal 指定になる
+
+  Scenario: 音声トラックがないストリーム
+    Given: 音声トラックのない MediaStream がある
+    When: 入力設定を取得する
+    Then: null が返される
+
+  Scenario: 実際のトラック設定を取得する
+    Given: UR22C の音声トラックを持つ MediaStream がある
+    When: 入力設定を取得する
+    Then: デバイスID、ラベル、サンプルレートなどのトラック設定が返される
+
+  Scenario: 選択したデバイスを保存する
+    Given: デバイスID "device-1" を保存した
+    When: 保存済みのデバイスIDを読み込む
+    Then: "device-1" が返される
+
+  Scenario: 既定のデバイスを選択すると保存を解除する
+    Given: デバイスID "device-1" を保存した
+    When: 空のデバイスIDを保存する
+    Then: 保存済みのデバイスIDは空文字列になる
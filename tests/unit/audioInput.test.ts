@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_AUDIO_INPUT_SETTINGS,
+  buildAudioConstraints,
+  getAudioInputInfo,
+  loadSavedDeviceId,
+  saveDeviceId,
+} from '../../src/utils/audioInput'
+
+describe('audioInput', () => {
+  describe('buildAudioConstraints', () => {
+    it('should disable browser audio processing by default', () => {
+      const constraints = buildAudioConstraints('', DEFAULT_AUDIO_INPUT_SETTINGS)
+
+      expect(constraints.echoCancellation).toBe(false)
+      expect(constraints.noiseSuppression).toBe(false)
+      expect(constraints.autoGainControl).toBe(false)
+      expect(constraints.deviceId).toBeUndefined()
+      expect(constraints.sampleRate).toBeUndefined()
+    })
+
+    it('should request exact device and ideal sample rate', () => {
+      const constraints = buildAudioConstraints('device-1', {
+        ...DEFAULT_AUDIO_INPUT_SETTINGS,
+        sampleRate: 96000,
+        channelCount: 2,
+      })
+
+      expect(constraints.deviceId).toEqual({ exact: 'device-1' })
+      expect(constraints.sampleRate).toEqual({ ideal: 96000 })
+      expect(constraints.channelCount).toEqual({ ideal: 2 })
+    })
+  })
+
+  describe('getAudioInputInfo', () => {
+    it('should return null when stream has no audio track', () => {
+      const stream = { getAudioTracks: () => [] } as unknown as MediaStream
+      expect(getAudioInputInfo(stream)).toBeNull()
+    })
+
+    it('should read actual track settings', () => {
+      const track = {
+        label: 'UR22C',
+        getSettings: () => ({
+          deviceId: 'device-1',
+          sampleRate: 48000,
+          sampleSize: 24,
+          channelCount: 1,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        }),
+      }
+      const stream = { getAudioTracks: () => [track] } as unknown as MediaStream
+
+      expect(getAudioInputInfo(stream)).toEqual({
+        deviceId: 'device-1',
+        label: 'UR22C',
+        sampleRate: 48000,
+        sampleSize: 24,
+        channelCount: 1,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      })
+    })
+  })
+
+  describe('saveDeviceId / loadSavedDeviceId', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('should persist the selected device', () => {
+      saveDeviceId('device-1')
+      expect(loadSavedDeviceId()).toBe('device-1')
+    })
+
+    it('should clear the saved device when default is selected', () => {
+      saveDeviceId('device-1')
+      saveDeviceId('')
+      expect(loadSavedDeviceId()).toBe('')
+    })
+  })
+})
@@ -0,0 +1,52 @@
+Feature: AudioWorklet による録音キャプチャ
+  # description
+  ワークレットで入力サンプルをチャンネルごとにブロック単位にまとめ、
+  ブロック先頭サンプルのフレーム番号と共にメインスレッドへ送る。
+  キーイベントの時刻はフレーム番号に換算し、録音データのサンプル位置と一致させる
+
+  Scenario: ブロック先頭のフレーム番号を付けて送信する
+    Given: ブロック長 256 フレームのキャプチャ処理がある
+    When: フレーム 1000 から 128 フレームずつ 4 回入力する
+    Then: 2 つのブロックが送信される
+    And: 各ブロックの先頭フレームは 1000 と 1256 である
+    And: サンプルは入力順に連続している
+
+  Scenario: レンダー量子をブロック境界で分割する
+    Given: ブロック長 200 フレームのキャプチャ処理がある
+    When: 128 フレームを 2 回入力して停止する
+    Then: 2 つめのブロックはフレーム 200 から始まる 56 フレームである
+
+  Scenario: 入力未接続の間は無音で埋める
+    Given: ブロック長 128 フレームのキャプチャ処理がある
+    When: 入力なしで処理する
+    Then: 無音のブロックが送信される
+
+  Scenario: 多チャンネルの入力をチャンネルごとに送信する
+    Given: ブロック長 128 フレーム・2 チャンネルのキャプチャ処理がある
+    When: 2 チャンネルの入力を処理する
+    Then: ブロックには 2 チャンネル分のサンプルが入力と同じ順で含まれる
+
+  Scenario: 足りないチャンネルは無音で埋める
+    Given: ブロック長 128 フレーム・2 チャンネルのキャプチャ処理がある
+    When: 1 チャンネルだけの入力を処理する
+    Then: 2 チャンネル目は無音になる
+
+  Scenario: 停止時に残りのサンプルを送信する
+    Given: ブロック長 1024 フレームのキャプチャ処理に 128 フレーム入力済みである
+    When: 停止メッセージを受け取る
+    Then: 残りのブロックと停止通知が順に送信される
+    And: 停止後の処理は false を返し、何も送信しない
+
+  Scenario: AudioContext の時刻を録音開始からの経過時間に変換する
+    Given: 録音データの先頭フレームが 48000、サンプルレートが 48000Hz である
+    When: 1.5 秒の時刻を変換する
+    Then: 500ms が返される
+
+  Scenario: 最も近いサンプル位置に丸める
+    When: 1.00001 秒の時刻をサンプルレート 48000Hz で変換する
+    Then: ちょうど 48000 サンプル目の時刻が返される
+
+  Scenario: 録音開始前のイベント
+    Given: 録音データの先頭フレームが 48000 である
+    When: 0.5 秒の時刻を変換する
+    Then: -500ms が返される
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CaptureProcessorCore,
+  audioTimeToRecordingMs,
+  type CaptureProcessorMessage,
+} from '../../src/utils/captureWorklet'
+
+// 送信されたメッセージを記録するフェイクポート
+function createFakePort() {
+  const messages: CaptureProcessorMessage[] = []
+  return {
+    messages,
+    postMessage(message: CaptureProcessorMessage) {
+      messages.push(message)
+    },
+  }
+}
+
+// 値が先頭からの連番になっている1チャンネルの入力を作成
+function createQuantum(startValue: number, length = 128): Float32Array[] {
+  return [Float32Array.from({ length }, (_, i) => startValue + i)]
+}
+
+describe('captureWorklet', () => {
+  describe('CaptureProcessorCore', () => {
+    it('should post blocks with the frame number of their first sample', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 256)
+
+      core.process(createQuantum(0), 1000)
+      expect(port.messages).toHaveLength(0)
+
+      core.process(createQuantum(128), 1128)
+      core.process(createQuantum(256), 1256)
+      core.process(createQuantum(384), 1384)
+
+      expect(port.messages).toHaveLength(2)
+      const [first, second] = port.messages
+      expect(first).toMatchObject({ type: 'block', startFrame: 1000 })
+      expect(second).toMatchObject({ type: 'block', startFrame: 1256 })
+      if (first.type === 'block' && second.type === 'block') {
+        expect(first.channels[0].length).toBe(256)
+        expect(first.channels[0][255]).toBe(255)
+        expect(second.channels[0][0]).toBe(256)
+      }
+    })
+
+    it('should split a quantum across block boundaries', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 200)
+
+      core.process(createQuantum(0), 0)
+      core.process(createQuantum(128), 128)
+
+      expect(port.messages).toHaveLength(1)
+      core.handleMessage({ type: 'stop' })
+
+      const block = port.messages[1]
+      expect(block).toMatchObject({ type: 'block', startFrame: 200 })
+      if (block.type === 'block') {
+        expect(block.channels[0].length).toBe(56)
+        expect(block.channels[0][0]).toBe(200)
+      }
+    })
+
+    it('should fill silence while input is not connected', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 128)
+
+      core.process(undefined, 0)
+
+      const block = port.messages[0]
+      expect(block).toMatchObject({ type: 'block', startFrame: 0 })
+      if (block.type === 'block') {
+        expect(block.channels[0].every(v => v === 0)).toBe(true)
+      }
+    })
+
+    it('should post every channel of a multichannel input', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 128, 2)
+
+      core.process([...createQuantum(0), ...createQuantum(1000)], 0)
+
+      const block = port.messages[0]
+      expect(block).toMatchObject({ type: 'block', startFrame: 0 })
+      if (block.type === 'block') {
+        expect(block.channels).toHaveLength(2)
+        expect(block.channels[0][5]).toBe(5)
+        expect(block.channels[1][5]).toBe(1005)
+      }
+    })
+
+    it('should fill missing channels with silence', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 128, 2)
+
+      core.process(createQuantum(1), 0)
+
+      const block = port.messages[0]
+      expect(block).toMatchObject({ type: 'block', startFrame: 0 })
+      if (block.type === 'block') {
+        expect(block.channels[0][0]).toBe(1)
+        expect(block.channels[1].every(v => v === 0)).toBe(true)
+      }
+    })
+
+    it('should flush remaining samples and stop on stop message', () => {
+      const port = createFakePort()
+      const core = new CaptureProcessorCore(port, 1024)
+
+      core.process(createQuantum(0), 0)
+      core.handleMessage({ type: 'stop' })
+
+      expect(port.messages.map(m => m.type)).toEqual(['block', 'stopped'])
+      expect(port.messages[1]).toEqual({ type: 'stopped', totalFrames: 128 })
+      expect(core.process(createQuantum(128), 128)).toBe(false)
+      expect(port.messages).toHaveLength(2)
+    })
+  })
+
+  describe('audioTimeToRecordingMs', () => {
+    it('should convert audio time to elapsed time from the first recorded frame', () => {
+      // 1.5秒 = 72000フレーム、先頭フレーム 48000 から 24000 フレーム後
+      expect(audioTimeToRecordingMs(1.5, 48000, 48000)).toBe(500)
+    })
+
+    it('should round to the nearest sample', () => {
+      const ms = audioTimeToRecordingMs(1.00001, 0, 48000)
+      expect(ms * 48).toBe(48000)
+    })
+
+    it('should return negative time for events before the first frame', () => {
+      expect(audioTimeToRecordingMs(0.5, 48000, 48000)).toBe(-500)
+    })
+  })
+})
@@ -0,0 +1,28 @@
+Feature: 比較表示のカラーパレット
+  # description
+  比較する測定の数に上限がないため、基本色を使い切った後も区別できる線の色と線種を割り当てる
+
+  Scenario: 標準パレットでは従来の6色をそのまま使う
+    Given: 標準パレットを選択している
+    When: 1番目と6番目の線のスタイルを取得する
+    Then: 従来の緑とシアンの実線になる
+
+  Scenario: 標準パレットでは基本色の後も異なる色を生成する
+    Given: 標準パレットを選択している
+    When: 12本分の線のスタイルを取得する
+    Then: 12色すべてが異なり、7番目以降は HSL で生成された色になる
+
+  Scenario: 色覚多様性対応パレットでは Okabe-Ito の配色を使う
+    Given: 色覚多様性対応パレットを選択している
+    When: 1番目と8番目の線のスタイルを取得する
+    Then: Okabe-Ito の色の実線になる
+
+  Scenario: 色覚多様性対応パレットで色を使い切ったら線種で区別する
+    Given: 色覚多様性対応パレットを選択している
+    When: 10本分の線のスタイルを取得する
+    Then: 9番目は1番目と同じ色の破線になり、色と線種の組み合わせはすべて異なる
+
+  Scenario: 指定した本数のスタイルを取得する
+    Given: 本数 0 と 3 を指定する
+    When: 線のスタイルをまとめて取得する
+    Then: 指定した本数のスタイルが返される
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { generateTraceStyles, getTraceStyle } from '../../src/utils/colorPalette'
+
+describe('colorPalette', () => {
+  describe('getTraceStyle', () => {
+    it('should keep the original six colors for the standard palette', () => {
+      expect(getTraceStyle('standard', 0)).toEqual({ color: '#4CAF50', dash: [] })
+      expect(getTraceStyle('standard', 5)).toEqual({ color: '#00BCD4', dash: [] })
+    })
+
+    it('should generate distinct colors beyond the base set', () => {
+      const colors = generateTraceStyles('standard', 12).map(style => style.color)
+
+      expect(new Set(colors).size).toBe(12)
+      expect(colors[6]).toMatch(/^hsl\(\d+, 70%, 60%\)$/)
+    })
+
+    it('should use Okabe-Ito colors with solid lines for the colorblind palette', () => {
+      expect(getTraceStyle('colorblind', 0)).toEqual({ color: '#E69F00', dash: [] })
+      expect(getTraceStyle('colorblind', 7).dash).toEqual([])
+    })
+
+    it('should switch line dash after the colorblind colors run out', () => {
+      const styles = generateTraceStyles('colorblind', 10)
+
+      expect(styles[8].color).toBe(styles[0].color)
+      expect(styles[8].dash).not.toEqual([])
+      const keys = styles.map(style => `${style.color}/${style.dash.join(',')}`)
+      expect(new Set(keys).size).toBe(10)
+    })
+  })
+
+  describe('generateTraceStyles', () => {
+    it('should return the requested number of styles', () => {
+      expect(generateTraceStyles('standard', 0)).toEqual([])
+      expect(generateTraceStyles('colorblind', 3)).toHaveLength(3)
+    })
+  })
+})
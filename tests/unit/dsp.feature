@@ -0,0 +1,86 @@
+Feature: スペクトル解析の共通処理
+  # description
+  FFT・パワースペクトル・スペクトログラムを共通のモジュールにまとめる。
+  回転因子とビットリバース表を FFT サイズごとに事前計算し、実数入力は半分の長さの複素 FFT で計算する
+
+  Scenario: 複素 FFT が定義どおりの DFT と一致する
+    Given: 長さ 1, 2, 8, 64 の複素数の乱数列
+    When: FFT を計算する
+    Then: 定義どおりに計算した DFT との誤差が 1e-9 未満になる
+
+  Scenario: 2のべき乗でない長さは扱わない
+    Given: 長さ 6 の配列
+    When: FFT を計算する
+    Then: エラーになる
+
+  Scenario: 実数入力の FFT が複素 FFT と一致する
+    Given: 長さ 2, 4, 16, 256 の実数の乱数列
+    When: 実数入力の FFT を計算する
+    Then: 0 〜 N/2 のビンが複素 FFT の結果と一致する
+
+  Scenario: FFT サイズより短い入力は 0 で埋める
+    Given: 長さ 10 の実数列
+    When: FFT サイズ 16 で実数入力の FFT を計算する
+    Then: 後ろを 0 で埋めた長さ 16 の入力と同じ結果になる
+
+  Scenario: FFT サイズより長い入力は扱わない
+    Given: 長さ 32 の実数列
+    When: FFT サイズ 16 で実数入力の FFT を計算する
+    Then: エラーになる
+
+  Scenario: 2のべき乗に切り上げる
+    Given: 1000, 1024, 1025
+    When: 2のべき乗に切り上げる
+    Then: それぞれ 1024, 1024, 2048 になる
+
+  Scenario: 正弦波の周波数のビンがピークになる
+    Given: 48kHz でビン 64 の中心周波数 (3kHz) の正弦波
+    When: FFT サイズ 1024 でパワースペクトルを計算する
+    Then: 512 ビンのうちビン 64 が最大になる
+
+  Scenario: 窓関数によらずノイズのレベルが揃う
+    Given: 65536 サンプルのノイズ
+    When: ハン窓・矩形窓・ブラックマン・ハリス窓でパワースペクトルを計算する
+    Then: 平均パワーの差は 0.05dB 未満になる
+
+  Scenario: 波形全体が入るよう FFT サイズを広げる
+    Given: 3000 サンプルと 100 サンプルの波形
+    When: FFT サイズ 1024 でパワースペクトルを計算する
+    Then: ビン数はそれぞれ 1024 と 512 になる
+
+  Scenario: Welch 法で重なりのあるセグメントのスペクトルを平均する
+    Given: 4096 サンプルのノイズ
+    When: セグメント長 1024、オーバーラップ 50% で Welch 法のスペクトルを計算する
+    Then: 7 つのセグメントのパワースペクトルの平均と一致する
+
+  Scenario: Welch 法でノイズのスペクトルのばらつきを抑える
+    Given: 65536 サンプルのノイズ
+    When: 全体を1回の FFT と、セグメント長 1024 の Welch 法でスペクトルを計算する
+    Then: 相対的なばらつきは 1回の FFT で 0.5 を超え、Welch 法で 0.3 未満になる
+
+  Scenario: セグメントより短い波形は1つのセグメントとして扱う
+    Given: 600 サンプルの正弦波
+    When: セグメント長 1024 で Welch 法のスペクトルを計算する
+    Then: FFT サイズ 1024 のパワースペクトルと一致する
+
+  Scenario: 解析設定の平均化の方法に従う
+    Given: 8192 サンプルのノイズ
+    When: 平均化なしと Welch 法の解析設定でスペクトルを計算する
+    Then: それぞれ1回の FFT と Welch 法の結果と一致する
+
+  Scenario: フレームごとにパワースペクトルを計算する
+    Given: 4096 サンプルの正弦波
+    When: FFT サイズ 1024、間隔 256 でスペクトログラムを計算する
+    Then: 13 フレーム × 512 ビンになる
+    And: 各フレームはその区間のパワースペクトルと一致する
+
+  Scenario: FFT サイズより短い波形はフレームがない
+    Given: 100 サンプルの波形
+    When: FFT サイズ 1024 でスペクトログラムを計算する
+    Then: フレーム数は 0 になる
+
+  Scenario: パワーを dB に変換する
+    Given: パワー 1, 0.01, 0
+    When: dB に変換する
+    Then: それぞれ 0dB, -20dB, 下限の -100dB になる
+    And: 下限を指定した場合は指定した値で制限される
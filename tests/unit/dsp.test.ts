@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SPECTRUM_SETTINGS,
+  computePowerSpectrum,
+  computeSpectrogram,
+  computeSpectrum,
+  computeWelchSpectrum,
+  fft,
+  nextPowerOf2,
+  realFft,
+  toDB,
+} from '../../src/utils/dsp'
+
+function sine(frequency: number, sampleRate: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+}
+
+// 再現性のある疑似乱数の波形
+function noise(length: number, seed = 1): Float64Array {
+  let state = seed
+  return Float64Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 1073741824 - 1
+  })
+}
+
+// 定義どおりの離散フーリエ変換
+function naiveDft(real: Float64Array, imag: Float64Array): { real: Float64Array; imag: Float64Array } {
+  const n = real.length
+  const outReal = new Float64Array(n)
+  const outImag = new Float64Array(n)
+  for (let k = 0; k < n; k++) {
+    for (let t = 0; t < n; t++) {
+      const theta = (-2 * Math.PI * k * t) / n
+      outReal[k] += real[t] * Math.cos(theta) - imag[t] * Math.sin(theta)
+      outImag[k] += real[t] * Math.sin(theta) + imag[t] * Math.cos(theta)
+    }
+  }
+  return { real: outReal, imag: outImag }
+}
+
+function maxDifference(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let max = 0
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]))
+  }
+  return max
+}
+
+describe('dsp', () => {
+  describe('fft', () => {
+    it('should match the naive DFT for complex input', () => {
+      for (const n of [1, 2, 8, 64]) {
+        const real = noise(n, 1)
+        const imag = noise(n, 2)
+        const expected = naiveDft(real, imag)
+
+        fft(real, imag)
+
+        expect(maxDifference(real, expected.real)).toBeLessThan(1e-9)
+        expect(maxDifference(imag, expected.imag)).toBeLessThan(1e-9)
+      }
+    })
+
+    it('should reject sizes that are not powers of two', () => {
+      expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow()
+    })
+  })
+
+  describe('realFft', () => {
+    it('should match the complex FFT for real input', () => {
+      for (const n of [2, 4, 16, 256]) {
+        const input = noise(n, 3)
+        const real = input.slice()
+        const imag = new Float64Array(n)
+        fft(real, imag)
+
+        const result = realFft(input, n)
+
+        expect(result.real.length).toBe(n / 2 + 1)
+        expect(maxDifference(result.real, real.subarray(0, n / 2 + 1))).toBeLessThan(1e-9)
+        expect(maxDifference(result.imag, imag.subarray(0, n / 2 + 1))).toBeLessThan(1e-9)
+      }
+    })
+
+    it('should zero-pad input shorter than the FFT size', () => {
+      const input = noise(10, 4)
+      const padded = new Float64Array(16)
+      padded.set(input)
+
+      const shortResult = realFft(input, 16)
+      const paddedResult = realFft(padded, 16)
+
+      expect(maxDifference(shortResult.real, paddedResult.real)).toBe(0)
+      expect(maxDifference(shortResult.imag, paddedResult.imag)).toBe(0)
+    })
+
+    it('should reject input longer than the FFT size', () => {
+      expect(() => realFft(new Float64Array(32), 16)).toThrow()
+    })
+  })
+
+  describe('nextPowerOf2', () => {
+    it('should round up to a power of two', () => {
+      expect(nextPowerOf2(1000)).toBe(1024)
+      expect(nextPowerOf2(1024)).toBe(1024)
+      expect(nextPowerOf2(1025)).toBe(2048)
+    })
+  })
+
+  describe('computePowerSpectrum', () => {
+    it('should peak at the bin of a sine wave', () => {
+      const sampleRate = 48000
+      const fftSize = 1024
+      // ビンの中心に一致する周波数（ビン 64 = 3kHz）
+      const spectrum = computePowerSpectrum(sine((64 * sampleRate) / fftSize, sampleRate, fftSize), fftSize)
+
+      let peakBin = 0
+      for (let i = 1; i < spectrum.length; i++) {
+        if (spectrum[i] > spectrum[peakBin]) peakBin = i
+      }
+      expect(spectrum.length).toBe(fftSize / 2)
+      expect(peakBin).toBe(64)
+    })
+
+    it('should give the same noise level regardless of the window function', () => {
+      const data = Float32Array.from(noise(65536, 5))
+      const mean = (spectrum: Float64Array) => spectrum.reduce((sum, v) => sum + v, 0) / spectrum.length
+
+      const hann = mean(computePowerSpectrum(data, 65536, 'hann'))
+      const rectangular = mean(computePowerSpectrum(data, 65536, 'rectangular'))
+      const blackmanHarris = mean(computePowerSpectrum(data, 65536, 'blackmanHarris'))
+
+      expect(toDB(hann) - toDB(rectangular)).toBeCloseTo(0, 1)
+      expect(toDB(blackmanHarris) - toDB(rectangular)).toBeCloseTo(0, 1)
+    })
+
+    it('should widen the FFT size to fit the whole waveform', () => {
+      expect(computePowerSpectrum(new Float32Array(3000), 1024).length).toBe(2048)
+      expect(computePowerSpectrum(new Float32Array(100), 1024).length).toBe(512)
+    })
+  })
+
+  describe('computeWelchSpectrum', () => {
+    it('should average the spectra of overlapping segments', () => {
+      const data = Float32Array.from(noise(4096, 6))
+
+      const spectrum = computeWelchSpectrum(data, 1024, 0.5, 'hann')
+
+      // 50% の重なりで 7 セグメント
+      const expected = new Float64Array(512)
+      for (let s = 0; s < 7; s++) {
+        const segment = computePowerSpectrum(data.slice(s * 512, s * 512 + 1024), 1024, 'hann')
+        segment.forEach((v, i) => { expected[i] += v / 7 })
+      }
+      expect(spectrum.length).toBe(512)
+      expect(maxDifference(spectrum, expected)).toBeLessThan(1e-9)
+    })
+
+    it('should reduce the variance of a noise spectrum', () => {
+      const data = Float32Array.from(noise(65536, 7))
+      const relativeSpread = (spectrum: Float64Array) => {
+        const values = Array.from(spectrum.subarray(10, spectrum.length - 10))
+        const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+        const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+        return Math.sqrt(variance) / mean
+      }
+
+      const single = relativeSpread(computePowerSpectrum(data, 1024))
+      const welch = relativeSpread(computeWelchSpectrum(data, 1024, 0.5))
+
+      expect(single).toBeGreaterThan(0.5)
+      expect(welch).toBeLessThan(0.3)
+    })
+
+    it('should treat a waveform shorter than the segment as one segment', () => {
+      const data = sine(3000, 48000, 600)
+
+      expect(computeWelchSpectrum(data, 1024, 0.5)).toEqual(computePowerSpectrum(data, 1024))
+    })
+  })
+
+  describe('computeSpectrum', () => {
+    it('should follow the averaging method of the settings', () => {
+      const data = Float32Array.from(noise(8192, 8))
+
+      expect(computeSpectrum(data, 2048, DEFAULT_SPECTRUM_SETTINGS)).toEqual(computePowerSpectrum(data, 2048))
+      expect(computeSpectrum(data, 2048, {
+        windowFunction: 'hamming',
+        averaging: 'welch',
+        segmentSize: 512,
+        overlap: 0.75,
+      })).toEqual(computeWelchSpectrum(data, 512, 0.75, 'hamming'))
+    })
+  })
+
+  describe('computeSpectrogram', () => {
+    it('should compute a power spectrum for each frame', () => {
+      const data = sine(3000, 48000, 4096)
+      const spectrogram = computeSpectrogram(data, 1024, 256)
+
+      expect(spectrogram.timeSteps).toBe(13)
+      expect(spectrogram.freqBins).toBe(512)
+      expect(spectrogram.data.length).toBe(13 * 512)
+
+      const frame = spectrogram.data.subarray(2 * 512, 3 * 512)
+      const expected = computePowerSpectrum(data.slice(512, 1536), 1024)
+      expect(maxDifference(frame, expected)).toBeLessThan(1e-9)
+    })
+
+    it('should have no frames when the waveform is shorter than the FFT size', () => {
+      expect(computeSpectrogram(new Float32Array(100), 1024, 256).timeSteps).toBe(0)
+    })
+  })
+
+  describe('toDB', () => {
+    it('should convert power to decibels with a floor', () => {
+      expect(toDB(1)).toBe(0)
+      expect(toDB(0.01)).toBeCloseTo(-20)
+      expect(toDB(0)).toBe(-100)
+      expect(toDB(1e-20, -80)).toBe(-80)
+    })
+  })
+})
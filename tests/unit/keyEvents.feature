@@ -0,0 +1,44 @@
+Feature: キーイベント情報
+  # description
+  KeyboardEvent.code などのキー情報を扱い、
+  キーグループごとの同期加算に使用する
+
+  Scenario: 押されている修飾キーを文字列にする
+    Given: Shift と Meta が押されたキーイベントがある
+    When: 修飾キーを文字列に変換する
+    Then: "Shift+Meta" が返される
+
+  Scenario: 修飾キーなしの場合は空文字列にする
+    Given: 修飾キーが押されていないキーイベントがある
+    When: 修飾キーを文字列に変換する
+    Then: 空文字列が返される
+
+  Scenario: 修飾キー文字列を復元する
+    Given: "Control+Alt" という文字列がある
+    When: 修飾キーをパースする
+    Then: ctrlKey と altKey のみが true になる
+
+  Scenario: スタビライザー付きキーを個別のグループに分類する
+    Given: Space, Enter, NumpadEnter, Backspace の code がある
+    When: キーグループを判定する
+    Then: それぞれ space, enter, enter, backspace になる
+
+  Scenario: 英字キーを alpha に分類する
+    Given: KeyA, KeyZ の code がある
+    When: キーグループを判定する
+    Then: alpha になる
+
+  Scenario: その他のキーを other に分類する
+    Given: Digit1, ShiftLeft の code がある
+    When: キーグループを判定する
+    Then: other になる
+
+  Scenario: code が不明な場合
+    Given: 空の code がある
+    When: キーグループを判定する
+    Then: null が返される
+
+  Scenario: 含まれるキーグループを表示順で取得する
+    Given: KeyA, Space, KeyB, Enter, 不明 のキーイベントがある
+    When: 含まれるキーグループを取得する
+    Then: [space, enter, alpha] が返される
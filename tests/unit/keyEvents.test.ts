@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createUnknownKeyEvent,
+  formatModifiers,
+  parseModifiers,
+  getKeyGroup,
+  getPresentKeyGroups,
+} from '../../src/utils/keyEvents'
+
+describe('keyEvents', () => {
+  describe('formatModifiers / parseModifiers', () => {
+    it('should format active modifiers joined by "+"', () => {
+      const event = { ...createUnknownKeyEvent(0), shiftKey: true, metaKey: true }
+      expect(formatModifiers(event)).toBe('Shift+Meta')
+    })
+
+    it('should return empty string when no modifiers are pressed', () => {
+      expect(formatModifiers(createUnknownKeyEvent(0))).toBe('')
+    })
+
+    it('should parse modifiers back to flags', () => {
+      expect(parseModifiers('Control+Alt')).toEqual({
+        shiftKey: false,
+        ctrlKey: true,
+        altKey: true,
+        metaKey: false,
+      })
+    })
+  })
+
+  describe('getKeyGroup', () => {
+    it('should classify stabilized keys separately', () => {
+      expect(getKeyGroup('Space')).toBe('space')
+      expect(getKeyGroup('Enter')).toBe('enter')
+      expect(getKeyGroup('NumpadEnter')).toBe('enter')
+      expect(getKeyGroup('Backspace')).toBe('backspace')
+    })
+
+    it('should classify letter keys as alpha', () => {
+      expect(getKeyGroup('KeyA')).toBe('alpha')
+      expect(getKeyGroup('KeyZ')).toBe('alpha')
+    })
+
+    it('should classify other keys as other', () => {
+      expect(getKeyGroup('Digit1')).toBe('other')
+      expect(getKeyGroup('ShiftLeft')).toBe('other')
+    })
+
+    it('should return null for unknown code', () => {
+      expect(getKeyGroup('')).toBeNull()
+    })
+  })
+
+  describe('getPresentKeyGroups', () => {
+    it('should return groups in display order without duplicates', () => {
+      const events = ['KeyA', 'Space', 'KeyB', 'Enter', ''].map((code, i) => ({
+        ...createUnknownKeyEvent(i * 100),
+        code,
+      }))
+      expect(getPresentKeyGroups(events)).toEqual(['space', 'enter', 'alpha'])
+    })
+  })
+})
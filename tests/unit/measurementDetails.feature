@@ -0,0 +1,53 @@
+Feature: 測定情報とタグ
+  # description
+  測定ごとにキーボード構成・録音条件・タグを記録し、測定履歴の検索と絞り込みに使う
+
+  Scenario: サンプルのファイル名から設置面を推定する
+    Given: ファイル名に "onDesk" または "onHand" が含まれる
+    When: 設置面を推定する
+    Then: それぞれ「机上」「手持ち」になる
+
+  Scenario: 設置面を含まないファイル名では推定しない
+    Given: ファイル名 "recording.wav" がある
+    When: 設置面を推定する
+    Then: 空文字列が返される
+
+  Scenario: カンマ区切りのタグを分割する
+    Given: 空白・重複・空の項目を含むタグ文字列がある
+    When: タグを分割する
+    Then: 空白を除いた重複のないタグの配列になる
+
+  Scenario: タグを入力欄の文字列に変換して元に戻す
+    Given: タグの配列がある
+    When: 文字列に変換してから分割する
+    Then: 元のタグの配列に戻る
+
+  Scenario: 欠けている測定情報を既定値で補う
+    Given: スイッチだけが入力された測定情報がある
+    When: 測定情報を正規化する
+    Then: 他の項目は空文字列、タグは空配列になる
+
+  Scenario: 測定情報がない場合は空の測定情報にする
+    Given: 測定情報がない
+    When: 測定情報を正規化する
+    Then: 空の測定情報が返される
+
+  Scenario: 検索語のすべてが名前・測定情報・タグのいずれかに含まれる測定を一致とする
+    Given: キーボード "QK80 MK2"、スイッチ "Gateron Oil King"、タグ "lubed" の測定がある
+    When: "qk80 oil" や "LUBED 測定" で検索する
+    Then: 一致と判定される
+
+  Scenario: 含まれない検索語がある場合は一致しない
+    Given: キーボード "QK80 MK2" の測定がある
+    When: "qk80 cherry" で検索する
+    Then: 一致しないと判定される
+
+  Scenario: 空の検索語はすべての測定に一致する
+    Given: 測定がある
+    When: 空白だけの検索語で検索する
+    Then: 一致と判定される
+
+  Scenario: 測定履歴のタグを重複なしで集める
+    Given: タグ "b, a" と "a, c" の測定がある
+    When: タグを集める
+    Then: "a", "b", "c" の順になる
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EMPTY_MEASUREMENT_DETAILS,
+  collectTags,
+  formatTags,
+  inferSurfaceFromName,
+  matchesMeasurementQuery,
+  normalizeMeasurementDetails,
+  parseTags,
+} from '../../src/utils/measurementDetails'
+
+describe('measurementDetails', () => {
+  describe('inferSurfaceFromName', () => {
+    it('should infer the surface from sample file names', () => {
+      expect(inferSurfaceFromName('Qwertkeys_QK80MK2_onDesk.keytapanalyzer.dat')).toBe('机上')
+      expect(inferSurfaceFromName('Qwertkeys_QK80MK2_onHand.keytapanalyzer.dat')).toBe('手持ち')
+    })
+
+    it('should return empty string when the name has no surface', () => {
+      expect(inferSurfaceFromName('recording.wav')).toBe('')
+    })
+  })
+
+  describe('parseTags / formatTags', () => {
+    it('should split by commas, trim and remove duplicates', () => {
+      expect(parseTags(' 静音, 比較用,静音、 ,lubed ')).toEqual(['静音', '比較用', 'lubed'])
+    })
+
+    it('should round-trip tags through the input text', () => {
+      expect(parseTags(formatTags(['a', 'b c']))).toEqual(['a', 'b c'])
+    })
+  })
+
+  describe('normalizeMeasurementDetails', () => {
+    it('should fill missing fields with defaults', () => {
+      const details = normalizeMeasurementDetails({ switchName: 'Oil King' })
+
+      expect(details.switchName).toBe('Oil King')
+      expect(details.keyboardModel).toBe('')
+      expect(details.tags).toEqual([])
+    })
+
+    it('should return empty details for undefined', () => {
+      expect(normalizeMeasurementDetails(undefined)).toEqual(EMPTY_MEASUREMENT_DETAILS)
+    })
+  })
+
+  describe('matchesMeasurementQuery', () => {
+    const details = {
+      ...EMPTY_MEASUREMENT_DETAILS,
+      keyboardModel: 'QK80 MK2',
+      switchName: 'Gateron Oil King',
+      tags: ['lubed'],
+    }
+
+    it('should match every term against name, fields and tags case-insensitively', () => {
+      expect(matchesMeasurementQuery('測定 1', details, 'qk80 oil')).toBe(true)
+      expect(matchesMeasurementQuery('測定 1', details, 'LUBED 測定')).toBe(true)
+    })
+
+    it('should not match when any term is missing', () => {
+      expect(matchesMeasurementQuery('測定 1', details, 'qk80 cherry')).toBe(false)
+    })
+
+    it('should match everything for an empty query', () => {
+      expect(matchesMeasurementQuery('測定 1', details, '  ')).toBe(true)
+    })
+  })
+
+  describe('collectTags', () => {
+    it('should collect unique tags in sorted order', () => {
+      expect(collectTags([
+        { ...EMPTY_MEASUREMENT_DETAILS, tags: ['b', 'a'] },
+        { ...EMPTY_MEASUREMENT_DETAILS, tags: ['a', 'c'] },
+      ])).toEqual(['a', 'b', 'c'])
+    })
+  })
+})
@@ -0,0 +1,67 @@
+Feature: 測定データのメタ情報の読み込み
+  # description
+  測定データ（.keytapanalyzer.dat）の metadata.json を読み込む際に、
+  古いバージョンを現在の形式に変換してから項目を検証し、問題があれば項目ごとに理由を示す
+
+  Scenario: 現在のバージョンのメタ情報を読み込む
+    Given: バージョン 2.0 のメタ情報がある
+    When: メタ情報を読み込む
+    Then: 内容はそのまま読み込まれる
+    And: 変換元のバージョンは null になる
+
+  Scenario: 解析設定を書き出して読み込むと元に戻る
+    Given: オフセット・揃え方・平均化の方法・ピーク位置・ピーク間隔を設定したメタ情報がある
+    When: JSON にして読み込む
+    Then: すべての解析設定が元の値になる
+
+  Scenario: 1.0 のメタ情報を変換する
+    Given: 解析設定とピーク位置がない 1.0 のメタ情報がある
+    When: メタ情報を読み込む
+    Then: バージョン 2.0 に変換される
+    And: 解析設定は 1.0 の読み込みで使っていた値（オフセット 10ms、ピークで揃える、平均）になる
+    And: ピーク位置は 10ms になる
+    And: 変換元のバージョンは "1.0" になる
+
+    Given: ピーク位置がある 1.0 のメタ情報がある
+    When: メタ情報を読み込む
+    Then: ピーク位置はメタ情報の値になる
+
+  Scenario: JSON でない内容は読み込めない
+    Given: 途中で切れた JSON がある
+    When: メタ情報を読み込む
+    Then: "JSON として読み込めません" というエラーになる
+
+  Scenario: 対応していないバージョンは読み込めない
+    Given: バージョン 3.0 のメタ情報がある
+    When: メタ情報を読み込む
+    Then: 対応しているバージョンを示すエラーになる
+
+    Given: バージョンがないメタ情報がある
+    When: メタ情報を読み込む
+    Then: "version がありません" というエラーになる
+
+  Scenario: 問題のある項目をすべて示す
+    Given: 録音時間がなく、打鍵数が文字列、除外ウィンドウに文字列、揃え方に未知の値があるメタ情報がある
+    When: メタ情報を読み込む
+    Then: 4 つの項目がそれぞれのパスと値とともにエラーになる
+
+  Scenario: 変換で補った項目も検証する
+    Given: ピーク位置が負の値の 1.0 のメタ情報がある
+    When: メタ情報を読み込む
+    Then: audio.peakPositionMs のエラーになる
+
+  Scenario: エラーを表示用の文章にする
+    Given: 2 つのエラーがある
+    When: 表示用の文章にする
+    Then: 見出しの後にエラーが1行ずつ並ぶ
+
+  Scenario: WAVファイル単体のインポート用メタデータを作成する
+    Given: ファイル名 "typing_01.WAV"、48000Hz、96000サンプルの録音がある
+    And: 打鍵音から keyDown 20回、keyUp 18回を検出した
+    When: インポート用メタデータを作成する
+    Then: 測定名は拡張子を除いた "typing_01" になる
+    And: 測定日時はファイルの更新日時になる
+    And: キーイベントの取得元は "detected" になる
+    And: 録音時間は 2000ms になる
+    And: 解析設定は既定値になる
+    And: 作成したメタデータは検証を通る
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import {
+  METADATA_VERSION,
+  DEFAULT_ANALYSIS_SETTINGS,
+  createWavImportMetadata,
+  formatMetadataErrors,
+  parseMeasurementMetadata,
+  validateMeasurementMetadata,
+  type MeasurementMetadata,
+} from '../../src/utils/measurementMetadata'
+
+// 1.0 で書き出されたメタ情報（public/samples の測定データと同じ項目）
+const legacyMetadata = {
+  version: '1.0',
+  exportedAt: '2024-05-01T10:00:00.000Z',
+  measurement: {
+    id: 1,
+    name: 'QK80MK2 onDesk',
+    timestamp: '2024-05-01T09:58:00.000Z',
+    keyTapCount: 30,
+    keyUpCount: 30,
+    peakIntervalMs: 14,
+  },
+  audio: {
+    sampleRate: 48000,
+    recordingDurationMs: 12000,
+  },
+  files: {
+    metadata: 'metadata.json',
+    recording: 'recording.wav',
+    combinedWaveform: 'combined.wav',
+    timestamps: 'timestamps_keyevent.csv',
+  },
+}
+
+const currentMetadata: MeasurementMetadata = {
+  ...legacyMetadata,
+  version: METADATA_VERSION,
+  measurement: {
+    ...legacyMetadata.measurement,
+    keyEventSource: 'detected',
+    excludedWindows: { attack: [120.5], release: [] },
+    details: { switchName: 'Gateron Milky Yellow', tags: ['PBT'] },
+    channelSelection: 'sum',
+  },
+  audio: {
+    ...legacyMetadata.audio,
+    peakPositionMs: 8,
+    input: { deviceId: 'default', label: 'USB Mic', channelCount: 2, echoCancellation: false },
+    wavFormat: 'pcm24',
+  },
+  analysis: {
+    attackOffsetMs: 5,
+    attackAlignMode: 'xcorr',
+    releaseOffsetMs: 7.5,
+    releaseAlignMode: 'onset',
+    averaging: { method: 'trimmedMean', trimRatio: 0.2, rejectOutliers: true, minCorrelation: 0.5, maxPeakLevelZScore: 2.5 },
+  },
+}
+
+describe('measurementMetadata', () => {
+  describe('parseMeasurementMetadata', () => {
+    it('should read the current version as is', () => {
+      const result = parseMeasurementMetadata(JSON.stringify(currentMetadata))
+
+      expect(result).toEqual({ ok: true, metadata: currentMetadata, migratedFrom: null })
+    })
+
+    it('should round-trip all analysis settings through JSON', () => {
+      const result = parseMeasurementMetadata(JSON.stringify(currentMetadata, null, 2))
+
+      if (!result.ok) throw new Error(result.errors.join('\n'))
+      expect(result.metadata.analysis).toEqual(currentMetadata.analysis)
+      expect(result.metadata.audio.peakPositionMs).toBe(8)
+      expect(result.metadata.measurement.peakIntervalMs).toBe(14)
+    })
+
+    it('should migrate 1.0 metadata with the settings used by the 1.0 importer', () => {
+      const result = parseMeasurementMetadata(JSON.stringify(legacyMetadata))
+
+      if (!result.ok) throw new Error(result.errors.join('\n'))
+      expect(result.migratedFrom).toBe('1.0')
+      expect(result.metadata.version).toBe(METADATA_VERSION)
+      expect(result.metadata.analysis).toEqual(DEFAULT_ANALYSIS_SETTINGS)
+      expect(result.metadata.audio.peakPositionMs).toBe(10)
+      expect(result.metadata.measurement.peakIntervalMs).toBe(14)
+    })
+
+    it('should keep the peak position written in 1.0 metadata', () => {
+      const result = validateMeasurementMetadata({ ...legacyMetadata, audio: { ...legacyMetadata.audio, peakPositionMs: 6 } })
+
+      if (!result.ok) throw new Error(result.errors.join('\n'))
+      expect(result.metadata.audio.peakPositionMs).toBe(6)
+    })
+
+    it('should report text that is not JSON', () => {
+      const result = parseMeasurementMetadata('{ "version": ')
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.errors[0]).toMatch(/^JSON として読み込めません/)
+    })
+
+    it('should reject unsupported versions', () => {
+      expect(validateMeasurementMetadata({ ...currentMetadata, version: '3.0' })).toEqual({
+        ok: false,
+        errors: ['バージョン 3.0 の形式には対応していません（対応しているバージョン: 1.0, 2.0）'],
+      })
+      expect(validateMeasurementMetadata({ ...currentMetadata, version: undefined })).toEqual({
+        ok: false,
+        errors: ['version がありません'],
+      })
+      expect(validateMeasurementMetadata([])).toMatchObject({ ok: false })
+    })
+
+    it('should list every missing or invalid field with its path', () => {
+      const result = validateMeasurementMetadata({
+        ...currentMetadata,
+        audio: { ...currentMetadata.audio, recordingDurationMs: undefined },
+        measurement: { ...currentMetadata.measurement, keyTapCount: '30', excludedWindows: { attack: [1, 'x'], release: [] } },
+        analysis: { ...currentMetadata.analysis, attackAlignMode: 'center' },
+      })
+
+      expect(result).toEqual({
+        ok: false,
+        errors: [
+          'measurement.keyTapCount は 0 以上の整数である必要があります（値: "30"）',
+          'measurement.excludedWindows.attack[1] は数値である必要があります（値: "x"）',
+          'audio.recordingDurationMs がありません',
+          'analysis.attackAlignMode は none / peak / onset / xcorr のいずれかである必要があります（値: "center"）',
+        ],
+      })
+    })
+
+    it('should validate fields added by the migration', () => {
+      const result = validateMeasurementMetadata({ ...legacyMetadata, audio: { ...legacyMetadata.audio, peakPositionMs: -1 } })
+
+      expect(result).toEqual({
+        ok: false,
+        errors: ['audio.peakPositionMs は 0 以上の数値である必要があります（値: -1）'],
+      })
+    })
+  })
+
+  describe('formatMetadataErrors', () => {
+    it('should list errors line by line', () => {
+      expect(formatMetadataErrors(['a がありません', 'b がありません'])).toBe(
+        'metadata.json の内容に問題があるため読み込めません:\n・a がありません\n・b がありません'
+      )
+    })
+  })
+
+  describe('createWavImportMetadata', () => {
+    it('should create metadata for a WAV file with detected key events', () => {
+      const lastModified = new Date('2024-05-01T10:00:00Z')
+      const metadata = createWavImportMetadata('typing_01.WAV', lastModified, 96000, 48000, 20, 18)
+
+      expect(metadata.measurement.name).toBe('typing_01')
+      expect(metadata.measurement.timestamp).toBe(lastModified.toISOString())
+      expect(metadata.measurement.keyTapCount).toBe(20)
+      expect(metadata.measurement.keyUpCount).toBe(18)
+      expect(metadata.measurement.keyEventSource).toBe('detected')
+      expect(metadata.audio.sampleRate).toBe(48000)
+      expect(metadata.audio.recordingDurationMs).toBe(2000)
+      expect(metadata.analysis).toEqual(DEFAULT_ANALYSIS_SETTINGS)
+    })
+
+    it('should create metadata that passes validation', () => {
+      const metadata = createWavImportMetadata('typing_01.wav', new Date('2024-05-01T10:00:00Z'), 96000, 48000, 20, 18)
+
+      expect(validateMeasurementMetadata(metadata)).toEqual({ ok: true, metadata, migratedFrom: null })
+    })
+  })
+})
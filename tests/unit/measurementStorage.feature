@@ -0,0 +1,25 @@
+Feature: 測定履歴の保存
+  # description
+  測定履歴を IndexedDB に保存し、ページを再読み込みしても復元できるようにする
+  同期加算波形などの派生データは保存せず、読み込み時に録音データから再計算する
+
+  Scenario: 保存対象のフィールドだけを取り出す
+    Given: 同期加算波形と個別ウィンドウを含む測定結果がある
+    When: 保存対象のフィールドを取り出す
+    Then: 同期加算波形と個別ウィンドウは含まれない
+    And: 録音データと測定名は含まれる
+
+  Scenario: 派生データの変更では保存し直さない
+    Given: 保存済みの測定結果がある
+    When: 同期加算波形だけを再計算する
+    Then: 保存対象は変更なしと判定される
+
+  Scenario: 名前や除外ウィンドウの変更を検出する
+    Given: 保存済みの測定結果がある
+    When: 名前を変更する、またはウィンドウを除外する
+    Then: 保存対象は変更ありと判定される
+
+  Scenario: ストレージ使用量を表示用に整形する
+    Given: バイト数がある
+    When: 表示用の文字列に変換する
+    Then: B, KB, MB, GB の単位で表示される
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatStorageSize,
+  isStoredMeasurementChanged,
+  pickStoredMeasurement,
+  type StoredMeasurement,
+} from '../../src/utils/measurementStorage'
+import { DEFAULT_AVERAGING_OPTIONS } from '../../src/utils/waveformProcessing'
+import { EMPTY_MEASUREMENT_DETAILS } from '../../src/utils/measurementDetails'
+
+function createStoredMeasurement(): StoredMeasurement {
+  return {
+    id: 1,
+    name: '測定 1',
+    details: EMPTY_MEASUREMENT_DETAILS,
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+    recordingData: new Float32Array(4),
+    recordingChannels: null,
+    channelSelection: 0,
+    keyTapCount: 3,
+    keyUpCount: 3,
+    keyDownTimestamps: [100, 300, 500],
+    keyUpTimestamps: [200, 400, 600],
+    keyDownEvents: [],
+    keyUpEvents: [],
+    peakIntervalMs: 12,
+    recordingDurationMs: 1000,
+    sampleRate: 48000,
+    audioInput: null,
+    keyEventSource: 'keyboard',
+    attackOffsetMs: 10,
+    attackAlignMode: 'peak',
+    releaseOffsetMs: 10,
+    releaseAlignMode: 'peak',
+    averaging: DEFAULT_AVERAGING_OPTIONS,
+    peakPositionMs: 10,
+    excludedAttackTimestamps: [],
+    excludedReleaseTimestamps: [],
+  }
+}
+
+describe('measurementStorage', () => {
+  describe('pickStoredMeasurement', () => {
+    it('should drop derived data such as waveforms and windows', () => {
+      const measurement = {
+        ...createStoredMeasurement(),
+        attackWaveform: new Float32Array(10),
+        attackWindows: [],
+      }
+
+      const stored = pickStoredMeasurement(measurement)
+
+      expect(stored).not.toHaveProperty('attackWaveform')
+      expect(stored).not.toHaveProperty('attackWindows')
+      expect(stored.recordingData).toBe(measurement.recordingData)
+      expect(stored.name).toBe('測定 1')
+    })
+  })
+
+  describe('isStoredMeasurementChanged', () => {
+    it('should ignore changes to derived data', () => {
+      const measurement = createStoredMeasurement()
+      const updated = { ...measurement, attackWaveform: new Float32Array(10) }
+
+      expect(isStoredMeasurementChanged(pickStoredMeasurement(measurement), pickStoredMeasurement(updated))).toBe(false)
+    })
+
+    it('should detect renamed measurements and new exclusion lists', () => {
+      const measurement = createStoredMeasurement()
+
+      expect(isStoredMeasurementChanged(measurement, { ...measurement, name: '測定 2' })).toBe(true)
+      expect(isStoredMeasurementChanged(measurement, { ...measurement, excludedAttackTimestamps: [300] })).toBe(true)
+    })
+  })
+
+  describe('formatStorageSize', () => {
+    it('should format bytes with binary units', () => {
+      expect(formatStorageSize(512)).toBe('512 B')
+      expect(formatStorageSize(1536)).toBe('1.5 KB')
+      expect(formatStorageSize(5 * 1024 * 1024)).toBe('5.0 MB')
+      expect(formatStorageSize(2 * 1024 * 1024 * 1024)).toBe('2.00 GB')
+    })
+  })
+})
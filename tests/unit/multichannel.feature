@@ -0,0 +1,65 @@
+Feature: 多チャンネル録音の解析
+  # description
+  複数のマイクで同時に録音したデータから、解析に使うチャンネル（または全チャンネルの平均）を選び、
+  相互相関でチャンネル間の遅延を推定する
+
+  Scenario: チャンネルの表示名
+    When: チャンネル 0、1 と合計の表示名を取得する
+    Then: "ch1"、"ch2"、"合計（全チャンネルの平均）" になる
+
+  Scenario: 有効なチャンネルの選択はそのまま使う
+    Given: 2 チャンネルの録音がある
+    When: チャンネル 1 または合計を選択する
+    Then: 選択はそのまま使われる
+
+  Scenario: 存在しないチャンネルの選択は1チャンネル目にする
+    When: 未指定、範囲外のチャンネル、またはモノラル録音で合計を選択する
+    Then: 1 チャンネル目（0）になる
+
+  Scenario: 全チャンネルの平均を作成する
+    Given: 長さ 3 と 2 のチャンネルがある
+    When: ミックスダウンする
+    Then: 短いチャンネルの長さで各サンプルの平均になる
+
+  Scenario: 解析に使う信号を取り出す
+    Given: 2 チャンネルの録音がある
+    When: チャンネル 1 を選択する
+    Then: 2 チャンネル目の配列がそのまま返される
+    When: 合計を選択する
+    Then: 全チャンネルの平均が返される
+
+  Scenario: 遅れて届くチャンネルの遅延を推定する
+    Given: 基準チャンネルより 24 サンプル遅れた振幅 0.3 のパルスがある（48kHz）
+    When: チャンネル間の遅延を推定する
+    Then: 遅延は +0.5ms になる
+    And: 相関係数は 1 になる
+
+  Scenario: 先に届くチャンネルの遅延を推定する
+    Given: 基準チャンネルより 48 サンプル早いパルスがある（48kHz）
+    When: チャンネル間の遅延を推定する
+    Then: 遅延は -1ms になる
+
+  Scenario: サブサンプル精度で遅延を推定する
+    Given: 基準チャンネルより 10.5 サンプル遅れたパルスがある（2kHz）
+    When: チャンネル間の遅延を推定する
+    Then: 遅延は 5.25ms になる
+
+  Scenario: 極性が反転したチャンネル
+    Given: 基準チャンネルより 12 サンプル遅れ、極性が反転したパルスがある（48kHz）
+    When: チャンネル間の遅延を推定する
+    Then: 遅延は +0.25ms になる
+    And: 相関係数は -1 になる
+
+  Scenario: 探す範囲を超える遅延
+    Given: 基準チャンネルより 1ms 遅れたパルスがある
+    When: 探す範囲を ±0.5ms にして遅延を推定する
+    Then: 推定した遅延は ±0.5ms 以内になる
+
+  Scenario: 無音のチャンネル
+    Given: 基準チャンネルが無音である
+    When: チャンネル間の遅延を推定する
+    Then: nullが返される
+
+  Scenario: 遅延の表示
+    When: +0.5ms（相関 0.987）、-1.25ms（相関 -0.8）、推定なしを表示用に変換する
+    Then: "+0.50 ms（相関 0.99）"、"-1.25 ms（相関 -0.80）"、"-" になる
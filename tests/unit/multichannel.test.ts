@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  estimateChannelDelay,
+  formatChannelDelay,
+  formatChannelSelection,
+  mixdownChannels,
+  normalizeChannelSelection,
+  selectChannelData,
+} from '../../src/utils/multichannel'
+
+// 指定した位置を中心にしたなめらかなパルス（小数の位置も指定できる）
+function gaussianAt(center: number, length: number, amplitude = 1): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.exp(-((i - center) ** 2) / 8))
+}
+
+describe('multichannel', () => {
+  describe('formatChannelSelection', () => {
+    it('should label channels from 1 and the mixdown', () => {
+      expect(formatChannelSelection(0)).toBe('ch1')
+      expect(formatChannelSelection(1)).toBe('ch2')
+      expect(formatChannelSelection('sum')).toBe('合計（全チャンネルの平均）')
+    })
+  })
+
+  describe('normalizeChannelSelection', () => {
+    it('should keep valid selections', () => {
+      expect(normalizeChannelSelection(1, 2)).toBe(1)
+      expect(normalizeChannelSelection('sum', 2)).toBe('sum')
+    })
+
+    it('should fall back to the first channel for missing or out-of-range selections', () => {
+      expect(normalizeChannelSelection(undefined, 2)).toBe(0)
+      expect(normalizeChannelSelection(2, 2)).toBe(0)
+      expect(normalizeChannelSelection(-1, 2)).toBe(0)
+      expect(normalizeChannelSelection('sum', 1)).toBe(0)
+    })
+  })
+
+  describe('mixdownChannels', () => {
+    it('should average channels and truncate to the shortest one', () => {
+      const mixed = mixdownChannels([new Float32Array([1, 0.5, 1]), new Float32Array([0, -0.5])])
+
+      expect(Array.from(mixed)).toEqual([0.5, 0])
+    })
+  })
+
+  describe('selectChannelData', () => {
+    it('should return the selected channel without copying', () => {
+      const channels = [new Float32Array([1]), new Float32Array([2])]
+
+      expect(selectChannelData(channels, 1)).toBe(channels[1])
+      expect(Array.from(selectChannelData(channels, 'sum'))).toEqual([1.5])
+    })
+  })
+
+  describe('estimateChannelDelay', () => {
+    it('should estimate a positive delay when the target arrives later', () => {
+      // 48kHz で 24 サンプル = 0.5ms
+      const delay = estimateChannelDelay(gaussianAt(100, 400), gaussianAt(124, 400, 0.3), 48000)
+
+      expect(delay!.delayMs).toBeCloseTo(0.5, 3)
+      expect(delay!.correlation).toBeCloseTo(1, 3)
+    })
+
+    it('should estimate a negative delay when the target arrives earlier', () => {
+      const delay = estimateChannelDelay(gaussianAt(200, 400), gaussianAt(152, 400), 48000)
+
+      expect(delay!.delayMs).toBeCloseTo(-1, 3)
+    })
+
+    it('should refine the delay to sub-sample precision', () => {
+      // 2kHz で 10.5 サンプル = 5.25ms
+      const delay = estimateChannelDelay(gaussianAt(100, 400), gaussianAt(110.5, 400), 2000)
+
+      expect(delay!.delayMs).toBeCloseTo(5.25, 1)
+    })
+
+    it('should detect channels with inverted polarity', () => {
+      const delay = estimateChannelDelay(gaussianAt(100, 400), gaussianAt(112, 400, -1), 48000)
+
+      expect(delay!.delayMs).toBeCloseTo(0.25, 3)
+      expect(delay!.correlation).toBeCloseTo(-1, 3)
+    })
+
+    it('should only search within the maximum delay', () => {
+      // 0.5ms を超える遅延は範囲外
+      const delay = estimateChannelDelay(gaussianAt(100, 400), gaussianAt(148, 400), 48000, 0.5)
+
+      expect(Math.abs(delay!.delayMs)).toBeLessThanOrEqual(0.5)
+    })
+
+    it('should return null for silent channels', () => {
+      expect(estimateChannelDelay(new Float32Array(100), gaussianAt(50, 100), 48000)).toBeNull()
+    })
+  })
+
+  describe('formatChannelDelay', () => {
+    it('should format the delay with its sign and correlation', () => {
+      expect(formatChannelDelay({ delayMs: 0.5, correlation: 0.987 })).toBe('+0.50 ms（相関 0.99）')
+      expect(formatChannelDelay({ delayMs: -1.25, correlation: -0.8 })).toBe('-1.25 ms（相関 -0.80）')
+      expect(formatChannelDelay(null)).toBe('-')
+    })
+  })
+})
@@ -0,0 +1,49 @@
+Feature: 分数オクターブ帯域
+  # description
+  パワースペクトルを 1/N オクターブ幅の帯域ごとに平均し、聴感に近い周波数分解能で比較する
+
+  Scenario: 中心周波数から帯域の上下限を求める
+    Given: 中心周波数 1kHz の1オクターブ帯域
+    When: 帯域を求める
+    Then: 下限は 1kHz/√2、上限は 1kHz×√2 になる
+
+  Scenario: 1kHz を基準にオクターブ帯域を並べる
+    Given: 20Hz〜20kHz の範囲
+    When: オクターブ帯域を取得する
+    Then: 中心周波数 31.25Hz〜16kHz の10帯域になり、1kHz を含む
+
+  Scenario: 1/3 オクターブでは1オクターブに3帯域並ぶ
+    Given: 500Hz〜1999Hz の範囲
+    When: 1/3 オクターブ帯域を取得する
+    Then: 6帯域になる
+
+  Scenario: 対数的に等間隔な周波数を求める
+    Given: 100Hz〜400Hz の範囲と1オクターブあたり2点
+    When: 周波数を求める
+    Then: 100Hz から √2 倍ずつの5点になる
+
+  Scenario: 帯域内の bin の平均パワーを求める
+    Given: 1 bin が 10Hz のパワースペクトル
+    When: 100Hz〜200Hz の帯域の平均パワーを求める
+    Then: 100Hz〜200Hz の bin の平均になる
+
+  Scenario: 1 bin より狭い帯域では最も近い bin の値を使う
+    Given: 1 bin が 10Hz のパワースペクトル
+    When: 1001Hz〜1004Hz の帯域の平均パワーを求める
+    Then: 1000Hz の bin の値になる
+
+  Scenario: ナイキスト周波数を超える帯域は NaN になる
+    Given: ナイキスト周波数が 2kHz のパワースペクトル
+    When: 中心周波数 4kHz の帯域の平均パワーを求める
+    Then: NaN が返される
+
+  Scenario: 周波数ごとに分数オクターブ幅で平滑化する
+    Given: ナイキスト周波数が 2kHz のパワースペクトル
+    When: 1kHz と 4kHz で 1/1 オクターブ幅の平滑化を行う
+    Then: 1kHz は 1kHz を中心とする 1 オクターブ帯域の平均パワーになる
+    And: ナイキスト周波数を超える 4kHz は NaN になる
+
+  Scenario: 帯域の中心周波数を表示用にフォーマットする
+    Given: 31.25Hz、1kHz、1.26kHz、16kHz の中心周波数
+    When: 表示用の文字列に変換する
+    Then: "31"、"1k"、"1.26k"、"16k" になる
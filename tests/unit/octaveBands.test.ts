@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateBandPowers,
+  formatBandFrequency,
+  getBandAround,
+  getFractionalOctaveBands,
+  getLogFrequencyGrid,
+  smoothSpectrum,
+} from '../../src/utils/octaveBands'
+
+describe('octaveBands', () => {
+  describe('getBandAround', () => {
+    it('should return band edges half a band width around the center', () => {
+      const band = getBandAround(1000, 1)
+
+      expect(band.lowHz).toBeCloseTo(1000 / Math.SQRT2, 6)
+      expect(band.highHz).toBeCloseTo(1000 * Math.SQRT2, 6)
+    })
+  })
+
+  describe('getFractionalOctaveBands', () => {
+    it('should return octave bands centered on 1kHz', () => {
+      const centers = getFractionalOctaveBands(1, 20, 20000).map(band => band.centerHz)
+
+      expect(centers).toHaveLength(10)
+      expect(centers[0]).toBeCloseTo(31.25, 6)
+      expect(centers).toContain(1000)
+      expect(centers[9]).toBeCloseTo(16000, 6)
+    })
+
+    it('should return three bands per octave for 1/3 octave', () => {
+      expect(getFractionalOctaveBands(3, 500, 1999)).toHaveLength(6)
+    })
+  })
+
+  describe('getLogFrequencyGrid', () => {
+    it('should space frequencies evenly on a log scale', () => {
+      const grid = getLogFrequencyGrid(100, 400, 2)
+
+      expect(grid).toHaveLength(5)
+      expect(grid[1]).toBeCloseTo(100 * Math.SQRT2, 6)
+      expect(grid[4]).toBeCloseTo(400, 6)
+    })
+  })
+
+  describe('calculateBandPowers', () => {
+    // power[i] = i, 1 bin = 10Hz
+    const spectrum = { power: Float64Array.from({ length: 200 }, (_, i) => i), binHz: 10 }
+
+    it('should average the bins inside each band', () => {
+      const [power] = calculateBandPowers(spectrum, [{ centerHz: 150, lowHz: 100, highHz: 200 }])
+
+      expect(power).toBeCloseTo(15, 6)
+    })
+
+    it('should use the nearest bin when the band is narrower than a bin', () => {
+      const [power] = calculateBandPowers(spectrum, [{ centerHz: 1002, lowHz: 1001, highHz: 1004 }])
+
+      expect(power).toBe(100)
+    })
+
+    it('should return NaN for bands above the Nyquist frequency', () => {
+      const [power] = calculateBandPowers(spectrum, [getBandAround(4000, 1)])
+
+      expect(power).toBeNaN()
+    })
+  })
+
+  describe('smoothSpectrum', () => {
+    it('should average a fractional-octave band around each frequency', () => {
+      const spectrum = { power: Float64Array.from({ length: 200 }, (_, i) => i), binHz: 10 }
+
+      const smoothed = smoothSpectrum(spectrum, 1, [1000, 4000])
+
+      expect(smoothed[0]).toBeCloseTo(calculateBandPowers(spectrum, [getBandAround(1000, 1)])[0], 10)
+      expect(smoothed[1]).toBeNaN()
+    })
+  })
+
+  describe('formatBandFrequency', () => {
+    it('should format band centers compactly', () => {
+      expect(formatBandFrequency(31.25)).toBe('31')
+      expect(formatBandFrequency(1000)).toBe('1k')
+      expect(formatBandFrequency(1259.92)).toBe('1.26k')
+      expect(formatBandFrequency(16000)).toBe('16k')
+    })
+  })
+})
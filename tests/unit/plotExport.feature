@@ -0,0 +1,45 @@
+Feature: グラフ・スペクトルデータの書き出し
+  # description
+  グラフの画像やパワースペクトルの CSV を書き出すときに、窓関数・平均化の方法などの解析設定を記録する。
+  画像にはグラフの下に、CSV には先頭のコメント行に設定を書き込む
+
+  Scenario: 1回の FFT による解析設定を説明する
+    Given: ハン窓・平均化なしの解析設定
+    When: FFT サイズ 2048、48kHz の設定の説明を作成する
+    Then: サンプルレート・窓関数・FFT サイズが記載される
+
+  Scenario: Welch 法のセグメント長とオーバーラップを説明する
+    Given: フラットトップ窓・セグメント長 4096・オーバーラップ 75% の Welch 法の設定
+    When: 設定の説明を作成する
+    Then: 窓関数とセグメント長・オーバーラップが記載される
+
+  Scenario: スペクトルの表示方法を説明する
+    Given: 曲線表示（平滑化なし・1/6 オクターブ）と帯域表示
+    When: 表示方法の説明を作成する
+    Then: 曲線は平滑化幅、帯域表示は帯域内の平均パワーであることが記載される
+
+  Scenario: スペクトログラムの STFT の設定を説明する
+    Given: ハミング窓・FFT サイズ 1024・フレーム間隔 256
+    When: スペクトログラムの設定の説明を作成する
+    Then: サンプルレート・窓関数・FFT サイズ・フレーム間隔が記載される
+
+  Scenario: スペクトログラムの表示方法を説明する
+    Given: メル尺度の周波数軸・Magma・-90〜-10 dB・12.34〜56.78 ms の表示
+    When: スペクトログラムの表示方法の説明を作成する
+    Then: 周波数軸・カラーマップ・色の範囲・時間範囲が記載される
+
+  Scenario: 解析設定をコメント行としてデータの前に記録する
+    Given: 1 つの測定のパワースペクトル
+    When: 解析設定付きの CSV を作成する
+    Then: 「#」で始まる設定の行、列名の行、周波数ごとのレベル (dB) の行が順に並ぶ
+
+  Scenario: 測定ごとに最大周波数までのデータを並べる
+    Given: ビン間隔の異なる 2 つの測定のパワースペクトル
+    When: 最大周波数 100Hz で CSV を作成する
+    Then: 測定ごとに 100Hz までの行が並ぶ
+    And: カンマを含む測定名は引用符で囲まれる
+
+  Scenario: 帯域ごとのレベルを解析設定付きで書き出す
+    Given: 1 つの測定の 1kHz 帯域のレベル
+    When: 帯域レベルの CSV を作成する
+    Then: 設定のコメント行、列名の行、帯域の中心・下限・上限周波数とレベルの行が順に並ぶ
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBandLevelCsv,
+  buildSpectrumCsv,
+  formatSpectrogramSettings,
+  formatSpectrogramView,
+  formatSpectrumSettings,
+  formatSpectrumView,
+} from '../../src/utils/plotExport'
+import { DEFAULT_SPECTRUM_SETTINGS } from '../../src/utils/dsp'
+
+describe('plotExport', () => {
+  describe('formatSpectrumSettings', () => {
+    it('should describe a single FFT analysis', () => {
+      expect(formatSpectrumSettings(DEFAULT_SPECTRUM_SETTINGS, 2048, 48000)).toEqual([
+        'サンプルレート: 48000 Hz',
+        '窓関数: ハン',
+        '平均化: なし（全体を1回のFFT） (FFTサイズ 2048)',
+      ])
+    })
+
+    it('should describe the Welch segment length and overlap', () => {
+      const lines = formatSpectrumSettings(
+        { windowFunction: 'flatTop', averaging: 'welch', segmentSize: 4096, overlap: 0.75 },
+        2048,
+        44100
+      )
+
+      expect(lines).toContain('窓関数: フラットトップ')
+      expect(lines).toContain('平均化: Welch法 (セグメント長 4096、オーバーラップ 75%)')
+    })
+  })
+
+  describe('formatSpectrumView', () => {
+    it('should describe the smoothing of the curve or the band view', () => {
+      expect(formatSpectrumView('curve', 0)).toBe('表示: 曲線（平滑化 なし）')
+      expect(formatSpectrumView('curve', 6)).toBe('表示: 曲線（平滑化 1/6 オクターブ）')
+      expect(formatSpectrumView('bands', 6)).toBe('表示: 1/3オクターブバンド（帯域内の平均パワー）')
+    })
+  })
+
+  describe('formatSpectrogramSettings', () => {
+    it('should describe the STFT parameters', () => {
+      expect(formatSpectrogramSettings('hamming', 1024, 256, 48000)).toEqual([
+        'サンプルレート: 48000 Hz',
+        '窓関数: ハミング',
+        'STFT: FFTサイズ 1024、フレーム間隔 256',
+      ])
+    })
+  })
+
+  describe('formatSpectrogramView', () => {
+    it('should describe the frequency axis, colormap, level range and time range', () => {
+      expect(formatSpectrogramView('mel', 'magma', -90, -10, { startMs: 12.34, endMs: 56.78 })).toBe(
+        '表示: 周波数軸 メル、カラーマップ Magma、-90〜-10 dB、12.3〜56.8 ms'
+      )
+    })
+  })
+
+  describe('buildSpectrumCsv', () => {
+    it('should record the settings as comments before the data', () => {
+      const csv = buildSpectrumCsv(
+        [{ name: 'A', power: new Float64Array([1, 0.01, 0]), binHz: 100 }],
+        ['窓関数: ハン']
+      )
+
+      expect(csv.split('\n')).toEqual([
+        '# 窓関数: ハン',
+        'name,frequency_hz,power_db',
+        'A,0.00,0.00',
+        'A,100.00,-20.00',
+        'A,200.00,-100.00',
+      ])
+    })
+
+    it('should list each series and stop at the maximum frequency', () => {
+      const csv = buildSpectrumCsv(
+        [
+          { name: 'A', power: new Float64Array([1, 1, 1]), binHz: 100 },
+          { name: 'B, 2', power: new Float64Array([1, 1, 1, 1, 1]), binHz: 50 },
+        ],
+        [],
+        100
+      )
+
+      expect(csv.split('\n').slice(1)).toEqual([
+        'A,0.00,0.00',
+        'A,100.00,0.00',
+        '"B, 2",0.00,0.00',
+        '"B, 2",50.00,0.00',
+        '"B, 2",100.00,0.00',
+      ])
+    })
+  })
+
+  describe('buildBandLevelCsv', () => {
+    it('should list the band edges and levels after the settings', () => {
+      const csv = buildBandLevelCsv(
+        [{ name: 'A', levels: [{ band: { centerHz: 1000, lowHz: 890.9, highHz: 1122.5 }, level: -42.5 }] }],
+        ['窓関数: ハン']
+      )
+
+      expect(csv.split('\n')).toEqual([
+        '# 窓関数: ハン',
+        'name,center_hz,low_hz,high_hz,level_db',
+        'A,1000.00,890.90,1122.50,-42.50',
+      ])
+    })
+  })
+})
@@ -0,0 +1,41 @@
+Feature: 複数の測定をまとめたプロジェクトファイル
+  # description
+  測定ごとのファイルをディレクトリに分けて1つの tar に格納し、先頭に一覧（project.json）を置く。
+  読み込み時は一覧の順に測定ごとのファイルを取り出す
+
+  Scenario: 測定を格納するディレクトリ名
+    Given: 空白やスラッシュ、日本語を含む測定名がある
+    When: ディレクトリ名を作成する
+    Then: 使えない文字は "_" に置き換えられ、日本語は残る
+    And: 先頭に 3 桁の連番が付く
+
+  Scenario: プロジェクトファイルのファイルを作成する
+    Given: 同じ名前の 2 つの測定がある
+    When: プロジェクトファイルのファイルを作成する
+    Then: 先頭に project.json が置かれる
+    And: 各測定のファイルは連番の付いた別々のディレクトリに格納される
+    And: project.json には測定名とディレクトリが一覧の順に記録される
+
+  Scenario: プロジェクトファイルを読み込む
+    Given: 作成したプロジェクトファイルのファイルがある
+    When: プロジェクトとして読み込む
+    Then: 一覧の順に測定ごとのファイルが取り出される
+    And: ファイル名からディレクトリが除かれる
+
+    Given: プロジェクトファイルを tar に書き出して読み込んだファイルがある
+    When: プロジェクトとして読み込む
+    Then: 測定ごとのファイルが取り出される
+
+  Scenario: 1つの測定の測定データ
+    Given: project.json を含まない測定データがある
+    When: プロジェクトとして読み込む
+    Then: null が返される
+
+  Scenario: 一覧に問題があるプロジェクトファイル
+    Given: 項目の型が違う、対応していないバージョン、または JSON として読み込めない project.json がある
+    When: プロジェクトとして読み込む
+    Then: 問題のある項目を示すエラーになる
+
+    Given: 一覧にある測定のディレクトリがない
+    When: プロジェクトとして読み込む
+    Then: そのディレクトリのファイルがないというエラーになる
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { createPaxTar, parseTar } from '../../src/utils/audioExport'
+import {
+  PROJECT_MANIFEST_FILE,
+  buildProjectBundle,
+  getMeasurementDirectory,
+  readProjectBundle,
+  toSafeFileName,
+} from '../../src/utils/projectBundle'
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+const measurements = [
+  { name: 'QK80 打鍵', files: [{ name: 'metadata.json', data: '{"a":1}' }, { name: 'recording.wav', data: encode('RIFF') }] },
+  { name: 'QK80 打鍵', files: [{ name: 'metadata.json', data: '{"b":2}' }] },
+]
+
+// jsdom の Blob は arrayBuffer() を持たないため FileReader で読む
+const readBlob = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as ArrayBuffer)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsArrayBuffer(blob)
+})
+
+// tar から読み込んだときと同じ形（文字列のファイルはバイト列にする）
+const toArchiveFiles = (files: { name: string; data: ArrayBuffer | string }[]) =>
+  files.map(({ name, data }) => ({ name, data: typeof data === 'string' ? encode(data) : data }))
+
+describe('projectBundle', () => {
+  describe('getMeasurementDirectory', () => {
+    it('should number directories and replace unsafe characters', () => {
+      expect(toSafeFileName('QK80 MK2/onDesk 打鍵')).toBe('QK80_MK2_onDesk_打鍵')
+      expect(getMeasurementDirectory('QK80 打鍵', 0)).toBe('001_QK80_打鍵')
+      expect(getMeasurementDirectory('QK80 打鍵', 11)).toBe('012_QK80_打鍵')
+    })
+  })
+
+  describe('buildProjectBundle', () => {
+    it('should put a manifest first and each measurement in its own directory', () => {
+      const files = buildProjectBundle(measurements, new Date('2024-05-01T10:00:00Z'))
+
+      expect(files.map(f => f.name)).toEqual([
+        PROJECT_MANIFEST_FILE,
+        '001_QK80_打鍵/metadata.json',
+        '001_QK80_打鍵/recording.wav',
+        '002_QK80_打鍵/metadata.json',
+      ])
+      expect(JSON.parse(files[0].data as string)).toEqual({
+        version: '1.0',
+        exportedAt: '2024-05-01T10:00:00.000Z',
+        measurements: [
+          { name: 'QK80 打鍵', directory: '001_QK80_打鍵' },
+          { name: 'QK80 打鍵', directory: '002_QK80_打鍵' },
+        ],
+      })
+    })
+  })
+
+  describe('readProjectBundle', () => {
+    it('should split the files of each measurement in manifest order', () => {
+      const result = readProjectBundle(toArchiveFiles(buildProjectBundle(measurements)))
+
+      if (!result?.ok) throw new Error('project bundle could not be read')
+      expect(result.measurements.map(m => m.name)).toEqual(['QK80 打鍵', 'QK80 打鍵'])
+      expect(result.measurements.map(m => m.files.map(f => f.name))).toEqual([
+        ['metadata.json', 'recording.wav'],
+        ['metadata.json'],
+      ])
+      expect(new TextDecoder().decode(result.measurements[1].files[0].data)).toBe('{"b":2}')
+    })
+
+    it('should read a bundle written to and parsed from a tar file', async () => {
+      const tar = createPaxTar(buildProjectBundle(measurements))
+      const result = readProjectBundle(parseTar(await readBlob(tar)))
+
+      expect(result?.ok).toBe(true)
+      if (result?.ok) expect(result.measurements.map(m => m.files.length)).toEqual([2, 1])
+    })
+
+    it('should return null for a single measurement archive', () => {
+      expect(readProjectBundle(toArchiveFiles(measurements[0].files))).toBeNull()
+    })
+
+    it('should report an invalid manifest', () => {
+      expect(readProjectBundle([{ name: PROJECT_MANIFEST_FILE, data: encode('{"version":"1.0","exportedAt":"2024-05-01","measurements":[{"name":1}]}') }])).toEqual({
+        ok: false,
+        errors: [
+          'measurements[0].name は文字列である必要があります（値: 1）',
+          'measurements[0].directory がありません',
+        ],
+      })
+      expect(readProjectBundle([{ name: PROJECT_MANIFEST_FILE, data: encode('{"version":"2.0"}') }])).toEqual({
+        ok: false,
+        errors: ['バージョン 2.0 のプロジェクトファイルには対応していません'],
+      })
+      expect(readProjectBundle([{ name: PROJECT_MANIFEST_FILE, data: encode('{') }])?.ok).toBe(false)
+    })
+
+    it('should report measurements whose directory is missing', () => {
+      const files = toArchiveFiles(buildProjectBundle(measurements)).filter(f => !f.name.startsWith('002_'))
+
+      expect(readProjectBundle(files)).toEqual({
+        ok: false,
+        errors: ['002_QK80_打鍵 のファイルがありません'],
+      })
+    })
+  })
+})
@@ -0,0 +1,33 @@
+Feature: サンプルレート変換
+  # description
+  サンプルレートの異なる測定を比較・読み込みできるよう、Kaiser 窓付き sinc 補間で帯域制限しながらサンプルレートを変換する
+
+  Scenario: 変換後のサンプル数を求める
+    Given: 48kHz で 48000 サンプルの波形
+    When: 44.1kHz に変換したときのサンプル数を求める
+    Then: 44100 サンプルになる
+
+  Scenario: サンプルレートが同じ場合は変換しない
+    Given: 48kHz の波形
+    When: 48kHz に変換する
+    Then: 元の波形がそのまま返される
+
+  Scenario: アップサンプリングで正弦波を再現する
+    Given: 44.1kHz の 1kHz 正弦波
+    When: 48kHz に変換する
+    Then: 48kHz で生成した 1kHz 正弦波との誤差が 0.001 未満になる
+
+  Scenario: 変換先のナイキスト周波数より低い成分はレベルを保つ
+    Given: 48kHz の 1kHz 正弦波
+    When: 16kHz に変換する
+    Then: RMS は元の正弦波と同じ 1/√2 になる
+
+  Scenario: 変換先のナイキスト周波数より高い成分は除去する
+    Given: 48kHz の 12kHz 正弦波
+    When: 16kHz に変換する
+    Then: エイリアシングが起きず、RMS が 0.001 未満になる
+
+  Scenario: 直流成分を保つ
+    Given: 値が 0.5 で一定の波形
+    When: 44.1kHz に変換する
+    Then: 変換後も 0.5 のままになる
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { getResampledLength, resample } from '../../src/utils/resampler'
+import { arrayRms } from '../../src/utils/arrayStats'
+
+function sine(frequency: number, sampleRate: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+}
+
+// フィルタの端の影響を除いた中央部分
+function middle(data: Float32Array, margin = 200): Float32Array {
+  return data.subarray(margin, data.length - margin)
+}
+
+describe('resampler', () => {
+  describe('getResampledLength', () => {
+    it('should scale the length by the rate ratio', () => {
+      expect(getResampledLength(48000, 48000, 44100)).toBe(44100)
+      expect(getResampledLength(100, 44100, 48000)).toBe(109)
+    })
+  })
+
+  describe('resample', () => {
+    it('should return the original data when the rates are equal', () => {
+      const data = sine(1000, 48000, 100)
+
+      expect(resample(data, 48000, 48000)).toBe(data)
+    })
+
+    it('should reproduce a sine wave when upsampling', () => {
+      const output = resample(sine(1000, 44100, 4410), 44100, 48000)
+      const expected = sine(1000, 48000, output.length)
+
+      let maxError = 0
+      for (let i = 200; i < output.length - 200; i++) {
+        maxError = Math.max(maxError, Math.abs(output[i] - expected[i]))
+      }
+      expect(output.length).toBe(4800)
+      expect(maxError).toBeLessThan(1e-3)
+    })
+
+    it('should keep the level of frequencies below the new Nyquist frequency', () => {
+      const output = resample(sine(1000, 48000, 4800), 48000, 16000)
+
+      expect(arrayRms(middle(output))).toBeCloseTo(Math.SQRT1_2, 3)
+    })
+
+    it('should remove frequencies above the new Nyquist frequency', () => {
+      const output = resample(sine(12000, 48000, 4800), 48000, 16000)
+
+      expect(arrayRms(middle(output))).toBeLessThan(1e-3)
+    })
+
+    it('should preserve DC', () => {
+      const output = resample(new Float32Array(1000).fill(0.5), 48000, 44100)
+
+      for (const value of middle(output)) {
+        expect(value).toBeCloseTo(0.5, 3)
+      }
+    })
+  })
+})
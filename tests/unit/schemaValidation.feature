@@ -0,0 +1,27 @@
+Feature: 読み込んだ JSON の検証
+  # description
+  項目ごとの検証を組み合わせて形式を定義し、
+  問題のある項目をパス付きですべて集める
+
+  Scenario: 形式に合う値を受け付ける
+    Given: 必須・省略可能・null 可能・配列の項目を持つ形式がある
+    When: 形式に合う値を検証する
+    Then: エラーはない
+
+  Scenario: 問題のある項目をすべて集める
+    Given: 必須の項目がなく、型や値の範囲が違う項目がある値がある
+    When: 値を検証する
+    Then: 項目ごとにパスを付けたエラーが順に集められる
+
+  Scenario: オブジェクトでない値
+    When: 配列や文字列をオブジェクトとして検証する
+    Then: オブジェクトである必要があるというエラーになる
+
+  Scenario: 有限でない数値
+    When: NaN を数値として検証する
+    Then: 数値である必要があるというエラーになる
+
+  Scenario: エラーメッセージの値の表記
+    Given: 100 文字の文字列がある
+    When: エラーメッセージ用に表記する
+    Then: 40 文字で切り詰めて「…」を付ける
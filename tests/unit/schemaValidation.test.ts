@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  arrayOf,
+  describeValue,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  type Check,
+} from '../../src/utils/schemaValidation'
+
+const validate = (check: Check, value: unknown): string[] => {
+  const errors: string[] = []
+  check(value, '', errors)
+  return errors
+}
+
+describe('schemaValidation', () => {
+  const schema = object({
+    name: string,
+    count: number(0, true),
+    note: optional(string),
+    file: nullable(string),
+    items: arrayOf(object({ kind: oneOf(['a', 'b']) })),
+  })
+
+  it('should accept values that match the schema', () => {
+    expect(validate(schema, { name: 'x', count: 3, file: null, items: [{ kind: 'a' }] })).toEqual([])
+    expect(validate(schema, { name: 'x', count: 0, note: 'memo', file: 'a.wav', items: [] })).toEqual([])
+  })
+
+  it('should collect every error with its path', () => {
+    expect(validate(schema, { count: 1.5, file: 1, items: [{ kind: 'a' }, { kind: 'c' }] })).toEqual([
+      'name がありません',
+      'count は 0 以上の整数である必要があります（値: 1.5）',
+      'file は文字列である必要があります（値: 1）',
+      'items[1].kind は a / b のいずれかである必要があります（値: "c"）',
+    ])
+  })
+
+  it('should reject values that are not objects', () => {
+    expect(validate(schema, [])).toEqual(['データ全体 はオブジェクトである必要があります（値: []）'])
+    expect(validate(object({ nested: object({}) }), { nested: 'x' })).toEqual([
+      'nested はオブジェクトである必要があります（値: "x"）',
+    ])
+  })
+
+  it('should reject numbers that are not finite', () => {
+    expect(validate(object({ level: number() }), { level: NaN })).toEqual(['level は数値である必要があります（値: null）'])
+  })
+
+  it('should shorten long values in messages', () => {
+    expect(describeValue('a'.repeat(100))).toBe(`"${'a'.repeat(39)}…`)
+    expect(describeValue(undefined)).toBe('undefined')
+  })
+})
@@ -0,0 +1,54 @@
+Feature: 2つの測定の比較
+  # description
+  同期加算波形の差（A − B）を周波数帯域・時間領域の指標で求め、
+  個別ウィンドウがある場合は打鍵ごとのばらつきに対して差が有意かを検定する
+
+  Scenario: パワーを dB に変換する
+    Given: パワー 1、100、0
+    When: dB に変換する
+    Then: 0dB、20dB、下限の -100dB になる
+
+  Scenario: 差分スペクトルを求める
+    Given: パワーが4倍異なる2つのスペクトル
+    When: 1/3 オクターブで平滑化した差分スペクトルを求める
+    Then: どの周波数でも約 +6dB になる
+
+  Scenario: ナイキスト周波数を超える周波数では差を求めない
+    Given: B のナイキスト周波数が 5120Hz の2つのスペクトル
+    When: 1kHz と 8kHz の差を求める
+    Then: 1kHz は 0dB、8kHz は NaN になる
+
+  Scenario: 個別ウィンドウがない場合は帯域ごとの差だけを求める
+    Given: パワーが10倍異なる2つのスペクトル
+    When: オクターブ帯域ごとのレベル差を求める
+    Then: 差は +10dB になり、有意差の判定は行わない
+
+  Scenario: 打鍵ごとのばらつきより大きい差を有意と判定する
+    Given: 打鍵ごとのレベルがおよそ 6dB 異なり、ばらつきが小さい2つの測定
+    When: オクターブ帯域ごとのレベル差を検定する
+    Then: 打鍵ごとの差の平均は約 6dB になり、有意と判定される
+
+  Scenario: 打鍵ごとのばらつきの範囲内の差は有意としない
+    Given: 打鍵ごとのレベルの分布が同じ2つの測定
+    When: オクターブ帯域ごとのレベル差を検定する
+    Then: 有意と判定されない
+
+  Scenario: 時間領域の指標を求める
+    Given: 1ms の位置に振幅 0.5 のピークがあり、2ms の位置で -20dB を上回る波形
+    When: 時間領域の指標を求める
+    Then: ピークレベルは約 -6dB、ピーク位置は 1ms、減衰時間は 1ms になる
+
+  Scenario: 空の波形では時間領域の指標を求めない
+    Given: 空の波形
+    When: 時間領域の指標を求める
+    Then: null が返される
+
+  Scenario: 時間領域の指標を打鍵ごとに検定する
+    Given: ピークが2倍異なり、打鍵ごとのばらつきが小さい2つの測定
+    When: 時間領域の指標を比較する
+    Then: ピークレベルの差は約 +6dB で有意と判定され、値が変わらないピーク位置は検定しない
+
+  Scenario: どちらかの波形が空の場合は比較しない
+    Given: A の波形が空
+    When: 時間領域の指標を比較する
+    Then: 空の配列が返される
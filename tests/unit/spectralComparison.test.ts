@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateDifferenceCurve,
+  calculateTimeDomainMetrics,
+  compareBandLevels,
+  compareTimeDomainMetrics,
+  powerToDb,
+} from '../../src/utils/spectralComparison'
+import { getFractionalOctaveBands } from '../../src/utils/octaveBands'
+
+// 全 bin が同じパワーのスペクトル
+function flatSpectrum(power: number, length = 1024, binHz = 20) {
+  return { power: new Float64Array(length).fill(power), binHz }
+}
+
+// ピーク位置とピーク後の振幅を指定した波形
+function clickWaveform(peak: number, tail: number, length = 480) {
+  const waveform = new Float32Array(length)
+  waveform[48] = peak
+  waveform[96] = tail
+  return waveform
+}
+
+const SCALES_A = [1.9, 2.0, 2.1, 2.05, 1.95]
+const SCALES_B = [1.0, 1.05, 0.95, 1.02, 0.98]
+
+describe('spectralComparison', () => {
+  describe('powerToDb', () => {
+    it('should convert power to dB with a floor', () => {
+      expect(powerToDb(1)).toBe(0)
+      expect(powerToDb(100)).toBeCloseTo(20, 10)
+      expect(powerToDb(0)).toBe(-100)
+    })
+  })
+
+  describe('calculateDifferenceCurve', () => {
+    it('should return the level difference A − B in dB', () => {
+      const difference = calculateDifferenceCurve(flatSpectrum(4), flatSpectrum(1), [100, 1000, 5000], 3)
+
+      for (const value of difference) {
+        expect(value).toBeCloseTo(6.02, 2)
+      }
+    })
+
+    it('should return NaN above the Nyquist frequency of either spectrum', () => {
+      // B のナイキスト周波数は 512 × 10Hz = 5120Hz
+      const difference = calculateDifferenceCurve(flatSpectrum(1), flatSpectrum(1, 512, 10), [1000, 8000], 3)
+
+      expect(difference[0]).toBeCloseTo(0, 10)
+      expect(difference[1]).toBeNaN()
+    })
+  })
+
+  describe('compareBandLevels', () => {
+    const bands = getFractionalOctaveBands(1, 100, 8000)
+
+    it('should compare band levels without significance when windows are missing', () => {
+      const result = compareBandLevels(flatSpectrum(10), flatSpectrum(1), bands)
+
+      expect(result).toHaveLength(bands.length)
+      expect(result[0].delta).toBeCloseTo(10, 10)
+      expect(result[0].significance).toBeNull()
+    })
+
+    it('should detect a significant difference across keystrokes', () => {
+      const result = compareBandLevels(
+        flatSpectrum(4),
+        flatSpectrum(1),
+        bands,
+        SCALES_A.map(s => flatSpectrum(s * s)),
+        SCALES_B.map(s => flatSpectrum(s * s))
+      )
+
+      const significance = result[0].significance!
+      expect(significance.countA).toBe(5)
+      expect(significance.meanDifference).toBeCloseTo(6, 0)
+      expect(significance.significant).toBe(true)
+    })
+
+    it('should not flag a difference within the keystroke variation', () => {
+      const result = compareBandLevels(
+        flatSpectrum(1),
+        flatSpectrum(1),
+        bands,
+        SCALES_A.map(s => flatSpectrum(s)),
+        [...SCALES_A].reverse().map(s => flatSpectrum(s))
+      )
+
+      expect(result[0].significance!.significant).toBe(false)
+    })
+  })
+
+  describe('calculateTimeDomainMetrics', () => {
+    it('should calculate peak, crest factor and decay time', () => {
+      const metrics = calculateTimeDomainMetrics(clickWaveform(0.5, 0.06), 48000)!
+
+      expect(metrics.peakLevel).toBeCloseTo(-6.02, 2)
+      expect(metrics.crestFactor).toBeCloseTo(metrics.peakLevel - metrics.rmsLevel, 10)
+      expect(metrics.peakTime).toBeCloseTo(1, 10)
+      expect(metrics.decayTime).toBeCloseTo(1, 10)
+    })
+
+    it('should return null for an empty waveform', () => {
+      expect(calculateTimeDomainMetrics(new Float32Array(0), 48000)).toBeNull()
+    })
+  })
+
+  describe('compareTimeDomainMetrics', () => {
+    it('should compare metrics and test them across keystrokes', () => {
+      const result = compareTimeDomainMetrics(
+        clickWaveform(0.5, 0.06),
+        48000,
+        clickWaveform(0.25, 0.03),
+        48000,
+        SCALES_A.map(s => clickWaveform(0.25 * s, 0.03)),
+        SCALES_B.map(s => clickWaveform(0.25 * s, 0.03))
+      )
+
+      const peakLevel = result.find(r => r.key === 'peakLevel')!
+      expect(peakLevel.delta).toBeCloseTo(6.02, 2)
+      expect(peakLevel.significance!.significant).toBe(true)
+      // ピーク位置はどの打鍵も同じため検定できない
+      expect(result.find(r => r.key === 'peakTime')!.significance).toBeNull()
+    })
+
+    it('should return an empty list when a waveform is empty', () => {
+      expect(compareTimeDomainMetrics(new Float32Array(0), 48000, clickWaveform(0.5, 0), 48000)).toEqual([])
+    })
+  })
+})
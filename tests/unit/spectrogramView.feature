@@ -0,0 +1,79 @@
+Feature: スペクトログラムの表示
+  # description
+  セルごとの fillRect では大きなスペクトログラムで描画が止まるため、表示サイズの画素を直接作って描画する
+  周波数軸（線形・対数・メル）、カラーマップ（Viridis・Magma・グレースケール）、色の範囲、時間範囲のズーム、ホバー位置の値の表示に対応する
+
+  Scenario: matplotlib のカラーマップの色を使う
+    Given: Viridis と Magma のカラーマップ
+    When: 色の表を作成する
+    Then: 256 段階で、両端の色が matplotlib のカラーマップと一致する
+
+  Scenario: グレースケールは線形に補間する
+    Given: グレースケールのカラーマップ
+    When: 色の表を作成する
+    Then: 中央の段階は (128, 128, 128) になる
+
+  Scenario: 色の範囲外のレベルは端の色にする
+    Given: -80〜0 dB の色の範囲
+    When: -120 dB と 10 dB の色を求める
+    Then: カラーマップの最初と最後の色になる
+
+  Scenario: メル尺度に変換する
+    Given: 1000Hz と 4321Hz
+    When: メル尺度に変換する
+    Then: 1000Hz は約 1000 mel になり、逆変換で元の周波数に戻る
+
+  Scenario: 線形の周波数軸
+    Given: 最大 20kHz の線形の周波数軸
+    When: 周波数と軸上の位置を変換する
+    Then: 10kHz は中央、1/4 の位置は 5kHz になる
+
+  Scenario: 対数の周波数軸は 20Hz から始まる
+    Given: 最大 20kHz の対数の周波数軸
+    When: 周波数を軸上の位置に変換する
+    Then: 20Hz 以下は下端、20Hz と 20kHz の幾何平均は中央になる
+
+  Scenario: メル尺度の周波数軸
+    Given: 最大 8kHz のメル尺度の周波数軸
+    When: 周波数と軸上の位置を変換する
+    Then: 位置はメル値に比例し、逆変換で元の周波数に戻る
+
+  Scenario: 最大周波数を超える目盛りは表示しない
+    Given: 最大 5kHz の線形軸と最大 1kHz のメル軸
+    When: 目盛りの周波数を求める
+    Then: 最大周波数以下の目盛りだけが返される
+
+  Scenario: 表示サイズの画素を作る
+    Given: 10 フレーム・4 ビンのスペクトログラム
+    When: 幅 2・高さ 4 の画素を作る
+    Then: 不透明な RGBA の画素が 2 × 4 個作られる
+
+  Scenario: 1画素に複数のフレームが入っても短いピークを残す
+    Given: フレーム 7・ビン 3 だけにパワーがあるスペクトログラム
+    When: 1列に 5 フレームずつ入る幅で画素を作る
+    Then: ピークを含む列の最上段だけが最大の色になり、他は最小の色になる
+
+  Scenario: 時間範囲内のフレームだけを表示する
+    Given: フレーム 7 にピークがあるスペクトログラム
+    When: フレーム 0〜4 の時間範囲で画素を作る
+    Then: ピークは表示されない
+
+  Scenario: ホバー位置に最も近いフレームとビンの値を取得する
+    Given: フレーム 7・ビン 3 にパワー 1 があるスペクトログラム
+    When: 18.4ms・400Hz の位置の値を取得する
+    Then: フレームの中心の 18ms、ビンの周波数 375Hz、0 dB が返される
+
+  Scenario: スペクトログラムの外の位置は端のフレーム・ビンにする
+    Given: 10 フレーム・4 ビンのスペクトログラム
+    When: 1000ms・1000Hz の位置の値を取得する
+    Then: 最後のフレーム（22ms）と最後のビン（375Hz）の値が返される
+
+  Scenario: 空のスペクトログラムでは値を返さない
+    Given: フレームのないスペクトログラム
+    When: 位置の値を取得する
+    Then: null が返される
+
+  Scenario: 最大周波数以下の最大レベルを求める
+    Given: 375Hz のビンだけにパワー 1 があるスペクトログラム
+    When: 最大周波数 500Hz と 200Hz で最大レベルを求める
+    Then: 0 dB と -100 dB（パワーなし）になる
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createFrequencyAxis,
+  getColormapColor,
+  getColormapTable,
+  getFrequencyTicks,
+  getSpectrogramCell,
+  getSpectrogramPeakDB,
+  hzToMel,
+  melToHz,
+  renderSpectrogramPixels,
+  type SpectrogramFrames,
+} from '../../src/utils/spectrogramView'
+import type { Spectrogram } from '../../src/utils/dsp'
+
+// 1 bin = 125Hz、フレーム t の中心が (2t + 4) ms のスペクトログラム（フレーム 7・ビン 3 だけパワー 1）
+const frames: SpectrogramFrames = { sampleRate: 1000, fftSize: 8, hopSize: 2 }
+function createSpectrogram(): Spectrogram {
+  const data = new Float64Array(10 * 4)
+  data[7 * 4 + 3] = 1
+  return { data, timeSteps: 10, freqBins: 4 }
+}
+
+function pixelAt(pixels: Uint8ClampedArray, width: number, x: number, y: number): number[] {
+  const p = (y * width + x) * 4
+  return Array.from(pixels.slice(p, p + 4))
+}
+
+describe('spectrogramView', () => {
+  describe('getColormapTable', () => {
+    it('should start and end with the colors of the matplotlib colormaps', () => {
+      const viridis = getColormapTable('viridis')
+      expect(viridis.length).toBe(256 * 3)
+      expect(Array.from(viridis.slice(0, 3))).toEqual([68, 1, 84])
+      expect(Array.from(viridis.slice(-3))).toEqual([253, 231, 37])
+
+      const magma = getColormapTable('magma')
+      expect(Array.from(magma.slice(0, 3))).toEqual([0, 0, 4])
+      expect(Array.from(magma.slice(-3))).toEqual([252, 253, 191])
+    })
+
+    it('should interpolate the grayscale linearly', () => {
+      const grayscale = getColormapTable('grayscale')
+      expect(Array.from(grayscale.slice(128 * 3, 128 * 3 + 3))).toEqual([128, 128, 128])
+    })
+  })
+
+  describe('getColormapColor', () => {
+    it('should clamp levels outside of the range to the ends of the colormap', () => {
+      expect(getColormapColor('viridis', -120, -80, 0)).toBe('rgb(68, 1, 84)')
+      expect(getColormapColor('viridis', 10, -80, 0)).toBe('rgb(253, 231, 37)')
+    })
+  })
+
+  describe('hzToMel / melToHz', () => {
+    it('should map 1000 Hz to about 1000 mel and convert back', () => {
+      expect(hzToMel(1000)).toBeCloseTo(1000, 0)
+      expect(melToHz(hzToMel(4321))).toBeCloseTo(4321, 6)
+    })
+  })
+
+  describe('createFrequencyAxis', () => {
+    it('should place frequencies linearly', () => {
+      const axis = createFrequencyAxis('linear', 20000)
+
+      expect(axis.toPosition(10000)).toBeCloseTo(0.5, 10)
+      expect(axis.fromPosition(0.25)).toBeCloseTo(5000, 6)
+    })
+
+    it('should place frequencies logarithmically from 20 Hz', () => {
+      const axis = createFrequencyAxis('log', 20000)
+
+      expect(axis.toPosition(20)).toBe(0)
+      expect(axis.toPosition(10)).toBe(0)
+      expect(axis.toPosition(Math.sqrt(20 * 20000))).toBeCloseTo(0.5, 10)
+    })
+
+    it('should place frequencies on the mel scale', () => {
+      const axis = createFrequencyAxis('mel', 8000)
+
+      expect(axis.toPosition(1000)).toBeCloseTo(hzToMel(1000) / hzToMel(8000), 10)
+      expect(axis.fromPosition(axis.toPosition(3000))).toBeCloseTo(3000, 6)
+    })
+  })
+
+  describe('getFrequencyTicks', () => {
+    it('should omit ticks above the maximum frequency', () => {
+      expect(getFrequencyTicks('linear', 5000)).toEqual([1000, 2000, 5000])
+      expect(getFrequencyTicks('mel', 1000)).toEqual([50, 100, 200, 500, 1000])
+    })
+  })
+
+  describe('renderSpectrogramPixels', () => {
+    const options = {
+      width: 2,
+      height: 4,
+      frames,
+      timeRange: { startMs: 4, endMs: 22 },
+      axis: createFrequencyAxis('linear', 500),
+      minDB: -60,
+      maxDB: 0,
+      colormap: 'viridis' as const,
+    }
+
+    it('should create opaque RGBA pixels of the display size', () => {
+      const pixels = renderSpectrogramPixels(createSpectrogram(), options)
+
+      expect(pixels.length).toBe(2 * 4 * 4)
+      expect(pixelAt(pixels, 2, 0, 3)[3]).toBe(255)
+    })
+
+    it('should keep a short peak visible when a pixel covers several frames', () => {
+      const pixels = renderSpectrogramPixels(createSpectrogram(), options)
+
+      // 右の列（フレーム 5〜9）の最上段（375〜500Hz）にピークが入る
+      expect(pixelAt(pixels, 2, 1, 0)).toEqual([253, 231, 37, 255])
+      expect(pixelAt(pixels, 2, 0, 0)).toEqual([68, 1, 84, 255])
+      expect(pixelAt(pixels, 2, 1, 1)).toEqual([68, 1, 84, 255])
+    })
+
+    it('should show only the frames in the time range', () => {
+      const pixels = renderSpectrogramPixels(createSpectrogram(), { ...options, timeRange: { startMs: 4, endMs: 12 } })
+
+      expect(pixelAt(pixels, 2, 1, 0)).toEqual([68, 1, 84, 255])
+    })
+  })
+
+  describe('getSpectrogramCell', () => {
+    it('should return the nearest frame and bin', () => {
+      expect(getSpectrogramCell(createSpectrogram(), frames, 18.4, 400)).toEqual({ timeMs: 18, frequency: 375, level: 0 })
+    })
+
+    it('should clamp positions outside of the spectrogram', () => {
+      const cell = getSpectrogramCell(createSpectrogram(), frames, 1000, 1000)
+
+      expect(cell?.timeMs).toBe(22)
+      expect(cell?.frequency).toBe(375)
+    })
+
+    it('should return null for an empty spectrogram', () => {
+      expect(getSpectrogramCell({ data: new Float64Array(0), timeSteps: 0, freqBins: 4 }, frames, 0, 0)).toBeNull()
+    })
+  })
+
+  describe('getSpectrogramPeakDB', () => {
+    it('should return the peak level below the maximum frequency', () => {
+      expect(getSpectrogramPeakDB(createSpectrogram(), 1000, 500)).toBe(0)
+      expect(getSpectrogramPeakDB(createSpectrogram(), 1000, 200)).toBe(-100)
+    })
+  })
+})
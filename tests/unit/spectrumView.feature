@@ -0,0 +1,44 @@
+Feature: スペクトルの表示用データ
+  # description
+  FFT の bin のままではばらつきが大きく比較しにくいため、
+  1/1・1/3・1/6・1/12・1/24 オクターブの平滑化した曲線と、1/3 オクターブ帯域ごとのレベルを表示できるようにする
+
+  Scenario: 平滑化幅の表示名
+    Given: 平滑化幅 0 と 3
+    When: 表示名を求める
+    Then: "なし" と "1/3 オクターブ" になる
+
+  Scenario: 平滑化しない場合は範囲内の bin をそのまま使う
+    Given: 1 bin が 10Hz のパワースペクトル
+    When: 平滑化なしで 20Hz〜1kHz の曲線を求める
+    Then: 20Hz〜1kHz の bin のレベルが並ぶ
+
+  Scenario: 直流成分は曲線に含めない
+    Given: 1 bin が 10Hz のパワースペクトル
+    When: 平滑化なしで 0Hz から曲線を求める
+    Then: 最初の点は 10Hz になる
+
+  Scenario: 平滑化した曲線は対数的に等間隔な周波数で求める
+    Given: 1 bin が 10Hz のパワースペクトル
+    When: 1/3 オクターブで 20Hz〜10kHz の曲線を求める
+    Then: 1 オクターブあたり 48 点の周波数で値が求められる
+
+  Scenario: 平滑化幅が広いほどばらつきが小さくなる
+    Given: ノイズのようにばらつくパワースペクトル
+    When: 平滑化なし・1/24・1/3 オクターブで 5kHz〜15kHz の曲線を求める
+    Then: 平滑化幅が広いほど最大と最小のレベルの差が小さくなり、1/3 オクターブでは 0.5dB 未満になる
+
+  Scenario: ナイキスト周波数を超える周波数は曲線に含めない
+    Given: ナイキスト周波数が 20kHz のパワースペクトル
+    When: 1/6 オクターブで 24kHz までの曲線を求める
+    Then: 20kHz 以上の周波数は含まれない
+
+  Scenario: 1/3 オクターブ帯域ごとの平均レベルを求める
+    Given: パワーが一定 (0.01) のパワースペクトル
+    When: 20kHz までの 1/3 オクターブ帯域のレベルを求める
+    Then: 中心周波数が 20Hz〜20kHz の 29 帯域のレベルが求められ、1kHz 帯域は -20dB になる
+
+  Scenario: ナイキスト周波数を超える帯域は除く
+    Given: ナイキスト周波数が 5kHz のパワースペクトル
+    When: 20kHz までの 1/3 オクターブ帯域のレベルを求める
+    Then: 中心周波数が 5kHz 未満の帯域だけが返される
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SMOOTHED_POINTS_PER_OCTAVE,
+  calculateSpectrumCurve,
+  calculateThirdOctaveLevels,
+  formatSmoothing,
+} from '../../src/utils/spectrumView'
+import { toDB } from '../../src/utils/dsp'
+
+// 再現性のある疑似乱数のパワースペクトル（1 bin = 10Hz, ナイキスト周波数 20kHz）
+function noisySpectrum(): { power: Float64Array; binHz: number } {
+  let state = 1
+  const power = Float64Array.from({ length: 2000 }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return 0.01 * (0.5 + state / 2147483648)
+  })
+  return { power, binHz: 10 }
+}
+
+describe('spectrumView', () => {
+  describe('formatSmoothing', () => {
+    it('should label the smoothing width', () => {
+      expect(formatSmoothing(0)).toBe('なし')
+      expect(formatSmoothing(3)).toBe('1/3 オクターブ')
+    })
+  })
+
+  describe('calculateSpectrumCurve', () => {
+    it('should return the bins within the frequency range without smoothing', () => {
+      const spectrum = noisySpectrum()
+
+      const curve = calculateSpectrumCurve(spectrum, 0, 20, 1000)
+
+      expect(curve.frequencies[0]).toBe(20)
+      expect(curve.frequencies[curve.frequencies.length - 1]).toBe(1000)
+      expect(curve.levels[0]).toBe(toDB(spectrum.power[2]))
+    })
+
+    it('should skip the DC bin', () => {
+      expect(calculateSpectrumCurve(noisySpectrum(), 0, 0, 100).frequencies[0]).toBe(10)
+    })
+
+    it('should evaluate smoothed levels on a log frequency grid', () => {
+      const curve = calculateSpectrumCurve(noisySpectrum(), 3, 20, 10000)
+
+      // 20Hz〜10kHz は約 9 オクターブ
+      expect(curve.frequencies.length).toBeCloseTo(Math.log2(10000 / 20) * SMOOTHED_POINTS_PER_OCTAVE + 1, -1)
+      expect(curve.frequencies[1] / curve.frequencies[0]).toBeCloseTo(Math.pow(2, 1 / SMOOTHED_POINTS_PER_OCTAVE), 6)
+    })
+
+    it('should reduce the ripple of a noisy spectrum as the band gets wider', () => {
+      const spectrum = noisySpectrum()
+      const ripple = (fraction: number) => {
+        const levels = calculateSpectrumCurve(spectrum, fraction, 5000, 15000).levels
+        return Math.max(...levels) - Math.min(...levels)
+      }
+
+      expect(ripple(24)).toBeLessThan(ripple(0))
+      expect(ripple(3)).toBeLessThan(ripple(24))
+      expect(ripple(3)).toBeLessThan(0.5)
+    })
+
+    it('should omit frequencies above the Nyquist frequency', () => {
+      const curve = calculateSpectrumCurve(noisySpectrum(), 6, 20, 24000)
+
+      expect(Math.max(...curve.frequencies)).toBeLessThan(20000)
+    })
+  })
+
+  describe('calculateThirdOctaveLevels', () => {
+    it('should return the mean level of each third-octave band', () => {
+      const spectrum = { power: new Float64Array(2000).fill(0.01), binHz: 10 }
+
+      const levels = calculateThirdOctaveLevels(spectrum, 20000)
+
+      // 中心周波数が 1kHz × 2^(k/3) で 20Hz〜20kHz に入る帯域（k = -16 〜 12）
+      expect(levels.length).toBe(29)
+      expect(levels.find(({ band }) => band.centerHz === 1000)?.level).toBeCloseTo(-20, 6)
+    })
+
+    it('should exclude bands above the Nyquist frequency', () => {
+      const spectrum = { power: new Float64Array(500).fill(1), binHz: 10 }
+
+      const levels = calculateThirdOctaveLevels(spectrum, 20000)
+
+      expect(levels.every(({ band }) => band.centerHz < 5000)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,56 @@
+Feature: Web Worker によるスペクトル解析
+  # description
+  長い録音を読み込んでも UI が止まらないよう、パワースペクトルとスペクトログラム、
+  比較表示の波形のサンプルレート変換・正規化とパワースペクトルを Web Worker で計算する。
+  結果のバッファはコピーせずに転送し、Worker を使えない環境ではメインスレッドで計算する
+
+  Scenario: パワースペクトルとスペクトログラムを計算する
+    Given: 4096 サンプルの正弦波
+    When: FFT サイズ 1024、間隔 256 で解析する
+    Then: 共通処理で計算したパワースペクトル・スペクトログラムと一致する
+
+  Scenario: 解析設定の窓関数と平均化の方法を使う
+    Given: 4096 サンプルの正弦波
+    When: ブラックマン・ハリス窓、セグメント長 512 の Welch 法の設定で解析する
+    Then: パワースペクトルは Welch 法、スペクトログラムはブラックマン・ハリス窓で計算される
+
+  Scenario: 比較表示の波形を変換・正規化して解析する
+    Given: 44100Hz で振幅 0.5 の正弦波
+    When: 48000Hz・ピーク正規化・FFT サイズ 1024 で解析する
+    Then: 48000Hz に変換した波形にピークを揃えるゲインを掛けた波形と、そのパワースペクトルが返される
+
+    Given: ゲイン 1 を指定した、変換先と同じサンプルレートの波形
+    When: 解析する
+    Then: 正規化せず、元の波形がそのまま返される
+
+  Scenario: 結果のバッファを転送して送信する
+    Given: ワーカーが解析要求 (id 7) を受け取る
+    When: 要求を処理する
+    Then: id 7 の解析結果が送信される
+    And: パワースペクトルとスペクトログラムのバッファが転送対象になる
+
+  Scenario: 比較表示の波形の結果は同じバッファを重ねて転送しない
+    Given: 同じ波形を2つ含み、変換もゲインもかからない比較表示の解析要求 (id 5)
+    When: 要求を処理する
+    Then: id 5 の2つの解析結果が送信される
+    And: 波形のバッファは1回だけ、各パワースペクトルのバッファとともに転送対象になる
+
+  Scenario: 不正な FFT サイズはエラーを送信する
+    Given: FFT サイズ 1000 の解析要求 (id 3)
+    When: 要求を処理する
+    Then: id 3 のエラーが送信される
+
+  Scenario: Worker を使えない環境ではメインスレッドで計算する
+    Given: Worker が定義されていない環境
+    When: 解析を要求する
+    Then: メインスレッドで計算した結果が返される
+
+  Scenario: Worker を使えない環境では比較表示の波形もメインスレッドで解析する
+    Given: Worker が定義されていない環境
+    When: 比較表示の波形の解析を要求する
+    Then: メインスレッドで計算した結果が返される
+
+  Scenario: 不正な要求は失敗する
+    Given: Worker が定義されていない環境
+    When: FFT サイズ 1000 で解析を要求する
+    Then: エラーで失敗する
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeSpectrum,
+  computeTraceSpectra,
+  handleSpectrumRequest,
+  requestSpectrumAnalysis,
+  requestTraceSpectra,
+  type TraceSpectraOptions,
+  type SpectrumWorkerResponse,
+} from '../../src/utils/spectrumWorker'
+import {
+  DEFAULT_SPECTRUM_SETTINGS,
+  computePowerSpectrum,
+  computeSpectrogram,
+  computeSpectrum,
+  computeWelchSpectrum,
+} from '../../src/utils/dsp'
+import { resample } from '../../src/utils/resampler'
+import { calculateNormalizationGain } from '../../src/utils/waveformNormalization'
+
+function sine(frequency: number, sampleRate: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+}
+
+// 送信されたメッセージと転送されたバッファを記録するフェイクポート
+function createFakePort() {
+  const messages: { message: SpectrumWorkerResponse; transfer: Transferable[] }[] = []
+  return {
+    messages,
+    postMessage(message: SpectrumWorkerResponse, options?: StructuredSerializeOptions) {
+      messages.push({ message, transfer: options?.transfer ?? [] })
+    },
+  }
+}
+
+describe('spectrumWorker', () => {
+  describe('analyzeSpectrum', () => {
+    it('should compute the power spectrum and spectrogram', () => {
+      const data = sine(1000, 48000, 4096)
+
+      const analysis = analyzeSpectrum(data, 1024, 256, DEFAULT_SPECTRUM_SETTINGS)
+
+      expect(analysis.powerSpectrum).toEqual(computePowerSpectrum(data, 1024))
+      expect(analysis.spectrogram).toEqual(computeSpectrogram(data, 1024, 256))
+    })
+
+    it('should use the window function and averaging of the settings', () => {
+      const data = sine(1000, 48000, 4096)
+      const settings = { windowFunction: 'blackmanHarris', averaging: 'welch', segmentSize: 512, overlap: 0.5 } as const
+
+      const analysis = analyzeSpectrum(data, 1024, 256, settings)
+
+      expect(analysis.powerSpectrum).toEqual(computeWelchSpectrum(data, 512, 0.5, 'blackmanHarris'))
+      expect(analysis.spectrogram).toEqual(computeSpectrogram(data, 1024, 256, 'blackmanHarris'))
+    })
+  })
+
+  describe('computeTraceSpectra', () => {
+    const options: TraceSpectraOptions = { sampleRate: 48000, normalizationMode: 'peak', fftSize: 1024, settings: DEFAULT_SPECTRUM_SETTINGS }
+
+    it('should resample, normalize and analyze each trace', () => {
+      const data = sine(1000, 44100, 2048).map(v => v * 0.5)
+
+      const [trace] = computeTraceSpectra([{ data, sampleRate: 44100, gain: null }], options)
+
+      const resampled = resample(data, 44100, 48000)
+      const gain = calculateNormalizationGain(resampled, 48000, 'peak')
+      expect(trace.gain).toBe(gain)
+      expect(trace.waveform).toEqual(resampled.map(v => v * gain))
+      expect(trace.spectrum).toEqual(computeSpectrum(trace.waveform, 1024, DEFAULT_SPECTRUM_SETTINGS))
+    })
+
+    it('should use the given gain instead of normalizing', () => {
+      const data = sine(1000, 48000, 1024)
+
+      const [trace] = computeTraceSpectra([{ data, sampleRate: 48000, gain: 1 }], options)
+
+      expect(trace.gain).toBe(1)
+      expect(trace.waveform).toBe(data)
+    })
+  })
+
+  describe('handleSpectrumRequest', () => {
+    it('should post the result with its buffers transferred', () => {
+      const port = createFakePort()
+
+      handleSpectrumRequest(
+        { id: 7, type: 'analysis', data: sine(1000, 48000, 2048), fftSize: 512, hopSize: 128, settings: DEFAULT_SPECTRUM_SETTINGS },
+        port
+      )
+
+      expect(port.messages).toHaveLength(1)
+      const { message, transfer } = port.messages[0]
+      expect(message).toMatchObject({ id: 7, type: 'analysis' })
+      if (message.type === 'analysis') {
+        expect(transfer).toEqual([message.analysis.powerSpectrum.buffer, message.analysis.spectrogram.data.buffer])
+        expect(message.analysis.spectrogram.timeSteps).toBe(13)
+      }
+    })
+
+    it('should transfer each trace buffer once', () => {
+      const port = createFakePort()
+      const data = sine(1000, 48000, 1024)
+
+      handleSpectrumRequest({
+        id: 5,
+        type: 'traceSpectra',
+        sources: [{ data, sampleRate: 48000, gain: 1 }, { data, sampleRate: 48000, gain: 1 }],
+        options: { sampleRate: 48000, normalizationMode: 'none', fftSize: 1024, settings: DEFAULT_SPECTRUM_SETTINGS },
+      }, port)
+
+      const { message, transfer } = port.messages[0]
+      expect(message).toMatchObject({ id: 5, type: 'traceSpectra' })
+      if (message.type === 'traceSpectra') {
+        expect(message.traces).toHaveLength(2)
+        expect(transfer).toEqual([data.buffer, message.traces[0].spectrum.buffer, message.traces[1].spectrum.buffer])
+      }
+    })
+
+    it('should post an error for an invalid FFT size', () => {
+      const port = createFakePort()
+
+      handleSpectrumRequest(
+        { id: 3, type: 'analysis', data: new Float32Array(100), fftSize: 1000, hopSize: 250, settings: DEFAULT_SPECTRUM_SETTINGS },
+        port
+      )
+
+      expect(port.messages[0].message).toMatchObject({ id: 3, type: 'error' })
+    })
+  })
+
+  describe('requestSpectrumAnalysis', () => {
+    it('should compute on the main thread when Worker is unavailable', async () => {
+      expect(typeof Worker).toBe('undefined')
+      const data = sine(1000, 48000, 2048)
+
+      const analysis = await requestSpectrumAnalysis(data, 512, 128, DEFAULT_SPECTRUM_SETTINGS)
+
+      expect(analysis).toEqual(analyzeSpectrum(data, 512, 128, DEFAULT_SPECTRUM_SETTINGS))
+    })
+
+    it('should compute trace spectra on the main thread when Worker is unavailable', async () => {
+      const sources = [{ data: sine(1000, 44100, 2048), sampleRate: 44100, gain: null }]
+      const options: TraceSpectraOptions = { sampleRate: 48000, normalizationMode: 'rms', fftSize: 4096, settings: DEFAULT_SPECTRUM_SETTINGS }
+
+      expect(await requestTraceSpectra(sources, options)).toEqual(computeTraceSpectra(sources, options))
+    })
+
+    it('should reject an invalid request', async () => {
+      await expect(requestSpectrumAnalysis(new Float32Array(100), 1000, 250, DEFAULT_SPECTRUM_SETTINGS)).rejects.toThrow()
+    })
+  })
+})
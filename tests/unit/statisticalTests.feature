@@ -0,0 +1,38 @@
+Feature: 統計的検定
+  # description
+  打鍵ごとの測定値から、2つの測定の差が打鍵間のばらつきに対して有意かを判定する
+
+  Scenario: 正則化不完全ベータ関数が既知の値と一致する
+    Given: パラメータ (1, 1) と (2, 1)
+    When: x = 0.3 で正則化不完全ベータ関数を計算する
+    Then: それぞれ x と x² に一致し、x = 0 では 0、x = 1 では 1 になる
+
+  Scenario: t 分布の両側 p 値が既知の臨界値と一致する
+    Given: 自由度 10 の t 分布
+    When: t = 0 と t = ±2.228 の両側 p 値を計算する
+    Then: それぞれ 1 と 0.05 になる
+
+  Scenario: Welch の t 検定が参照値と一致する
+    Given: 標本 [1, 2, 3, 4, 5] と [2, 4, 6, 8, 10]
+    When: Welch の t 検定を行う
+    Then: t = -1.8974、自由度 5.8824、p 値 0.1075 になる
+
+  Scenario: 標本が2個未満の場合は検定しない
+    Given: 1個だけの標本がある
+    When: Welch の t 検定を行う
+    Then: null が返される
+
+  Scenario: 両方の分散が0の場合は検定しない
+    Given: すべて同じ値の2つの標本がある
+    When: Welch の t 検定を行う
+    Then: null が返される
+
+  Scenario: Benjamini–Hochberg 法で p 値を補正する
+    Given: p 値 [0.01, 0.04, 0.03, 0.005] がある
+    When: 多重比較を補正する
+    Then: 入力と同じ順序で [0.02, 0.04, 0.04, 0.02] になる
+
+  Scenario: NaN の p 値は補正の対象から除く
+    Given: NaN を含む p 値がある
+    When: 多重比較を補正する
+    Then: NaN はそのまま残り、残りの p 値だけで補正される
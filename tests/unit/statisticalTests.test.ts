@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  adjustPValuesBenjaminiHochberg,
+  regularizedIncompleteBeta,
+  studentTTwoTailedPValue,
+  welchTTest,
+} from '../../src/utils/statisticalTests'
+
+describe('statisticalTests', () => {
+  describe('regularizedIncompleteBeta', () => {
+    it('should match closed forms for simple parameters', () => {
+      // I_x(1, 1) = x, I_x(2, 1) = x^2
+      expect(regularizedIncompleteBeta(0.3, 1, 1)).toBeCloseTo(0.3, 10)
+      expect(regularizedIncompleteBeta(0.3, 2, 1)).toBeCloseTo(0.09, 10)
+      expect(regularizedIncompleteBeta(0, 2, 3)).toBe(0)
+      expect(regularizedIncompleteBeta(1, 2, 3)).toBe(1)
+    })
+  })
+
+  describe('studentTTwoTailedPValue', () => {
+    it('should return known critical values of the t distribution', () => {
+      expect(studentTTwoTailedPValue(0, 10)).toBeCloseTo(1, 10)
+      expect(studentTTwoTailedPValue(2.228, 10)).toBeCloseTo(0.05, 3)
+      expect(studentTTwoTailedPValue(-2.228, 10)).toBeCloseTo(0.05, 3)
+    })
+  })
+
+  describe('welchTTest', () => {
+    it('should match the reference Welch t-test result', () => {
+      const result = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10])!
+
+      expect(result.meanDifference).toBe(-3)
+      expect(result.t).toBeCloseTo(-1.8974, 4)
+      expect(result.df).toBeCloseTo(5.8824, 4)
+      expect(result.pValue).toBeCloseTo(0.1075, 4)
+    })
+
+    it('should return null when a sample has fewer than two values', () => {
+      expect(welchTTest([1], [1, 2, 3])).toBeNull()
+    })
+
+    it('should return null when both samples have zero variance', () => {
+      expect(welchTTest([1, 1, 1], [2, 2, 2])).toBeNull()
+    })
+  })
+
+  describe('adjustPValuesBenjaminiHochberg', () => {
+    it('should adjust p-values keeping the input order', () => {
+      const adjusted = adjustPValuesBenjaminiHochberg([0.01, 0.04, 0.03, 0.005])
+
+      expect(adjusted[0]).toBeCloseTo(0.02, 10)
+      expect(adjusted[1]).toBeCloseTo(0.04, 10)
+      expect(adjusted[2]).toBeCloseTo(0.04, 10)
+      expect(adjusted[3]).toBeCloseTo(0.02, 10)
+    })
+
+    it('should skip NaN values', () => {
+      const adjusted = adjustPValuesBenjaminiHochberg([NaN, 0.02, 0.04])
+
+      expect(adjusted[0]).toBeNaN()
+      expect(adjusted[1]).toBeCloseTo(0.04, 10)
+      expect(adjusted[2]).toBeCloseTo(0.04, 10)
+    })
+  })
+})
@@ -0,0 +1,23 @@
+Feature: 時間軸（横軸ズーム）
+  # description
+  波形とスペクトログラムで同じ時間範囲を表示するため、ズーム範囲と目盛り間隔の計算を共有する
+
+  Scenario: ズームしていない場合は波形全体を表示する
+    Given: 長さ 120ms の波形
+    When: ズーム範囲なしで表示範囲を求める
+    Then: 0〜120ms になる
+
+  Scenario: ズーム範囲を波形の長さに収める
+    Given: 長さ 120ms の波形
+    When: 10〜50ms と -5〜200ms のズーム範囲で表示範囲を求める
+    Then: 10〜50ms と 0〜120ms になる
+
+  Scenario: 波形の外のズーム範囲は全体表示に戻す
+    Given: 長さ 120ms の波形（別の測定に切り替えた後など）
+    When: 150〜200ms のズーム範囲で表示範囲を求める
+    Then: 0〜120ms になる
+
+  Scenario: 表示幅に合わせて目盛り間隔を広げる
+    Given: 40ms・150ms・10秒の表示幅
+    When: 時間軸の目盛り間隔を求める
+    Then: 10ms・50ms・500ms になる
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { getTimeStep, getVisibleTimeRange } from '../../src/utils/timeAxis'
+
+describe('timeAxis', () => {
+  describe('getVisibleTimeRange', () => {
+    it('should show the whole waveform without zoom', () => {
+      expect(getVisibleTimeRange(null, 120)).toEqual({ startMs: 0, endMs: 120 })
+    })
+
+    it('should keep a zoom range within the waveform', () => {
+      expect(getVisibleTimeRange({ startMs: 10, endMs: 50 }, 120)).toEqual({ startMs: 10, endMs: 50 })
+      expect(getVisibleTimeRange({ startMs: -5, endMs: 200 }, 120)).toEqual({ startMs: 0, endMs: 120 })
+    })
+
+    it('should fall back to the whole waveform when the zoom range is outside of it', () => {
+      expect(getVisibleTimeRange({ startMs: 150, endMs: 200 }, 120)).toEqual({ startMs: 0, endMs: 120 })
+    })
+  })
+
+  describe('getTimeStep', () => {
+    it('should widen the tick interval for longer ranges', () => {
+      expect(getTimeStep(40)).toBe(10)
+      expect(getTimeStep(150)).toBe(50)
+      expect(getTimeStep(10000)).toBe(500)
+    })
+  })
+})
@@ -0,0 +1,38 @@
+Feature: 比較表示の波形の時間合わせ
+  # description
+  測定ごとに波形の先頭からピークまでの時間が異なるため、揃える位置を求めて共通の時間軸に並べる
+
+  Scenario: 先頭で揃えて短い波形に合わせる
+    Given: 長さ 100 と 80 の波形がある
+    When: 先頭で揃え、短い波形に合わせる
+    Then: 時間軸の長さは 80 になる
+
+  Scenario: ピークで揃えて短い波形に合わせる
+    Given: ピーク位置 20（長さ 100）と 50（長さ 80）の波形がある
+    When: ピークで揃え、短い波形に合わせる
+    Then: ピークより前は 20、全体の長さは 50 になる
+
+  Scenario: ピークで揃えて長い波形に合わせる
+    Given: ピーク位置 20（長さ 100）と 50（長さ 80）の波形がある
+    When: ピークで揃え、長い波形に合わせる
+    Then: ピークより前は 50、全体の長さは 130 になる
+
+  Scenario: 波形がない場合は空の時間軸にする
+    Given: 波形がない
+    When: 時間軸を求める
+    Then: 長さ 0 の時間軸が返される
+
+  Scenario: 相互相関でサブサンプル精度に揃える
+    Given: 3.4 サンプルずれたなめらかなパルスがある
+    When: 相互相関で揃える位置を求める
+    Then: 揃える位置の差は約 3.4 サンプルになる
+
+  Scenario: 時間軸上の位置から波形の値を取得する
+    Given: 波形 [0, 1, 2, 3] がある
+    When: 揃える位置と lead から時間軸上の値を取得する
+    Then: 対応するインデックスの値（小数位置は線形補間）が返される
+
+  Scenario: 波形の範囲外では値を返さない
+    Given: 波形 [0, 1, 2, 3] がある
+    When: 波形の範囲外に対応する時間軸上の位置を指定する
+    Then: null が返される
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateTracePositions,
+  calculateTraceTimeline,
+  sampleTrace,
+} from '../../src/utils/traceAlignment'
+
+// 指定した位置にピークがある波形
+function pulseAt(index: number, length: number): Float32Array {
+  const data = new Float32Array(length)
+  data[index] = 1
+  return data
+}
+
+// 指定した位置を中心にしたなめらかなパルス
+function gaussianAt(center: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.exp(-((i - center) ** 2) / 8))
+}
+
+describe('traceAlignment', () => {
+  describe('calculateTraceTimeline', () => {
+    it('should truncate to the shortest waveform when aligned at the start', () => {
+      const timeline = calculateTraceTimeline([pulseAt(20, 100), pulseAt(50, 80)], 'start', 'truncate', 48000)
+
+      expect(timeline).toEqual({ positions: [0, 0], lead: 0, length: 80 })
+    })
+
+    it('should keep only the range covered by all waveforms when truncating', () => {
+      const timeline = calculateTraceTimeline([pulseAt(20, 100), pulseAt(50, 80)], 'peak', 'truncate', 48000)
+
+      expect(timeline).toEqual({ positions: [20, 50], lead: 20, length: 50 })
+    })
+
+    it('should cover the range of all waveforms when padding', () => {
+      const timeline = calculateTraceTimeline([pulseAt(20, 100), pulseAt(50, 80)], 'peak', 'pad', 48000)
+
+      expect(timeline).toEqual({ positions: [20, 50], lead: 50, length: 130 })
+    })
+
+    it('should return an empty timeline without waveforms', () => {
+      expect(calculateTraceTimeline([], 'peak', 'pad', 48000)).toEqual({ positions: [], lead: 0, length: 0 })
+    })
+  })
+
+  describe('calculateTracePositions', () => {
+    it('should align shifted waveforms with sub-sample precision by cross-correlation', () => {
+      const positions = calculateTracePositions([gaussianAt(40, 200), gaussianAt(43.4, 200)], 'xcorr', 48000)
+
+      expect(positions[1] - positions[0]).toBeCloseTo(3.4, 0)
+    })
+  })
+
+  describe('sampleTrace', () => {
+    const waveform = Float32Array.from([0, 1, 2, 3])
+
+    it('should map timeline positions to waveform indices', () => {
+      // 揃える位置 2、lead 3 → 時間軸 t = 3 が波形のインデックス 2
+      expect(sampleTrace(waveform, 2, 3, 3)).toBe(2)
+      expect(sampleTrace(waveform, 1.5, 1, 1)).toBeCloseTo(1.5, 10)
+    })
+
+    it('should return null outside the waveform', () => {
+      expect(sampleTrace(waveform, 0, 1, 0)).toBeNull()
+      expect(sampleTrace(waveform, 0, 0, 4)).toBeNull()
+    })
+  })
+})
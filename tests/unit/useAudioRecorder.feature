@@ -27,6 +27,11 @@ Feature: 音声録音カスタムフック
     When: initializeAudio() を呼び出す
     Then: canRecordが true になる
 
+  Scenario: ブラウザの音声処理を無効にしてマイクを要求する
+    Given: フックが初期化されている
+    When: initializeAudio() を呼び出す
+    Then: getUserMedia は echoCancellation, noiseSuppression, autoGainControl を false として呼び出される
+
   Scenario: マイクアクセスが拒否される
     Given: フックが初期化されている
     And: マイクアクセスが拒否される設定である
@@ -39,6 +44,25 @@ Feature: 音声録音カスタムフック
     When: startRecording() を呼び出す
     Then: startRecording関数が定義されている
 
+  Scenario: キャプチャワークレットのブロックを録音しキーイベントをサンプル位置に対応付ける
+    Given: 録音時間 50ms でフックが初期化されている
+    And: initializeAudio() と startRecording() が成功している
+    When: ワークレットから先頭フレーム 48000 のブロックが届く
+    And: AudioContext.currentTime が 1.1 秒の時点で KeyA を押す
+    And: 2 つめのブロックが届いた後、録音時間が経過して停止通知が届く
+    Then: ワークレットに停止メッセージが送られている
+    And: recordingDataは 2 ブロック分の 4096 サンプルである
+    And: recordingChannelsは 1 チャンネルである
+    And: キーダウンのタイムスタンプは 100ms（4800 サンプル目）である
+
+  Scenario: 多チャンネルの入力をすべて録音する
+    Given: 入力トラックのチャンネル数が 2 である
+    And: initializeAudio() と startRecording() が成功している
+    When: ワークレットから 2 チャンネルのブロックが届き、停止通知が届く
+    Then: キャプチャノードは 2 チャンネルで作成されている
+    And: recordingChannelsは 2 チャンネルである
+    And: recordingDataは 1 チャンネル目である
+
   Scenario: 初期化なしでは録音を開始できない
     Given: フックが初期化されている
     When: initializeAudio()を呼ばずに startRecording() を呼び出す
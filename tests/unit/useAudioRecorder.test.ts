@@ -51,6 +51,22 @@ describe('useAudioRecorder', () => {
       })
     })
 
+    it('should request microphone without browser audio processing', async () => {
+      const { result } = renderHook(() => useAudioRecorder())
+
+      await act(async () => {
+        await result.current.initializeAudio()
+      })
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+        audio: expect.objectContaining({
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        }),
+      })
+    })
+
     it('should handle microphone access denied', async () => {
       const mockGetUserMedia = vi.fn().mockRejectedValue(
         new Error('Permission denied')
@@ -82,6 +98,83 @@ describe('useAudioRecorder', () => {
       expect(result.current.startRecording).toBeDefined()
     })
 
+    it('should record blocks from the capture worklet and map key events to sample positions', async () => {
+      vi.mocked(navigator.mediaDevices.getUserMedia).mockResolvedValue(new MediaStream())
+      const { result } = renderHook(() => useAudioRecorder({ recordingDuration: 50 }))
+
+      await act(async () => {
+        await result.current.initializeAudio()
+      })
+      await act(async () => {
+        await result.current.startRecording()
+      })
+
+      const captureNode = vi.mocked(AudioWorkletNode).mock.results[0].value
+      const audioContext = vi.mocked(AudioContext).mock.results[0].value
+      const postBlock = (startFrame: number) => {
+        captureNode.port.onmessage({ data: { type: 'block', startFrame, channels: [new Float32Array(2048)] } })
+      }
+
+      act(() => {
+        postBlock(48000)
+        // 1.1秒 = フレーム 52800 → 先頭フレームから 4800 サンプル後
+        audioContext.currentTime = 1.1
+        window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyA', key: 'a' }))
+        postBlock(50048)
+      })
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      })
+      expect(captureNode.port.postMessage).toHaveBeenCalledWith({ type: 'stop' })
+
+      act(() => {
+        captureNode.port.onmessage({ data: { type: 'stopped', totalFrames: 4096 } })
+      })
+
+      expect(result.current.isRecording).toBe(false)
+      expect(result.current.recordingData?.length).toBe(4096)
+      expect(result.current.recordingChannels).toHaveLength(1)
+      expect(result.current.keyDownTimestamps[0]).toBeCloseTo(100)
+      expect(result.current.keyDownEvents[0].code).toBe('KeyA')
+    })
+
+    it('should capture every channel of a multichannel input', async () => {
+      const stream = new MediaStream()
+      vi.mocked(stream.getAudioTracks).mockReturnValue([
+        { label: 'Stereo Mic', getSettings: () => ({ channelCount: 2 }) } as unknown as MediaStreamTrack,
+      ])
+      vi.mocked(navigator.mediaDevices.getUserMedia).mockResolvedValue(stream)
+      const { result } = renderHook(() => useAudioRecorder({ recordingDuration: 50 }))
+
+      await act(async () => {
+        await result.current.initializeAudio()
+      })
+      await act(async () => {
+        await result.current.startRecording()
+      })
+
+      expect(AudioWorkletNode).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.any(String),
+        expect.objectContaining({ channelCount: 2, processorOptions: { channelCount: 2 } })
+      )
+      const captureNode = vi.mocked(AudioWorkletNode).mock.results.at(-1)!.value
+      act(() => {
+        captureNode.port.onmessage({ data: { type: 'block', startFrame: 0, channels: [new Float32Array(2048), new Float32Array(2048).fill(0.5)] } })
+      })
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 100))
+      })
+      act(() => {
+        captureNode.port.onmessage({ data: { type: 'stopped', totalFrames: 2048 } })
+      })
+
+      expect(result.current.recordingChannels).toHaveLength(2)
+      expect(result.current.recordingChannels?.[1][0]).toBe(0.5)
+      expect(result.current.recordingData?.[0]).toBe(0)
+    })
+
     it('should not start recording without initialization', async () => {
       const { result } = renderHook(() => useAudioRecorder())
 
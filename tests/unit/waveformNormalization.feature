@@ -0,0 +1,48 @@
+Feature: 比較表示の波形の正規化
+  # description
+  録音ゲインが異なる測定どうしを比較できるよう、ピーク・RMS・ラウドネスのいずれかで波形ごとのレベルを揃える
+
+  Scenario: フルスケールの 997Hz 正弦波のラウドネスを測る
+    Given: 48kHz で振幅 1 の 997Hz 正弦波がある
+    When: ラウドネスを計算する
+    Then: 約 -3.01 LUFS になる
+
+  Scenario: サンプルレートが異なっても同じラウドネスになる
+    Given: 44.1kHz で振幅 1 の 997Hz 正弦波がある
+    When: ラウドネスを計算する
+    Then: 約 -3.01 LUFS になる
+
+  Scenario: 低域は K 特性で減衰する
+    Given: 振幅 1 の 20Hz 正弦波がある
+    When: ラウドネスを計算する
+    Then: -10 LUFS より小さくなる
+
+  Scenario: 正規化しない場合はゲインを掛けない
+    Given: 正規化の方法が「なし」
+    When: ゲインを求める
+    Then: ゲインは 1 になる
+
+  Scenario: ピークをフルスケールに揃える
+    Given: ピークが 0.5 の波形がある
+    When: ピークで正規化するゲインを求める
+    Then: ゲインは 2 になる
+
+  Scenario: RMS レベルを -20dBFS に揃える
+    Given: 振幅 0.5 の正弦波がある
+    When: RMS で正規化する
+    Then: 正規化後の RMS は 0.1 になる
+
+  Scenario: ラウドネスを -20 LUFS に揃える
+    Given: 振幅 0.5 の正弦波がある
+    When: ラウドネスで正規化する
+    Then: 正規化後のラウドネスは -20 LUFS になる
+
+  Scenario: 無音や空の波形はゲインを掛けない
+    Given: 無音または空の波形がある
+    When: ゲインを求める
+    Then: ゲインは 1 になる
+
+  Scenario: ゲインが 1 の場合は元の波形をそのまま使う
+    Given: 波形がある
+    When: ゲイン 1 とゲイン 2 を掛ける
+    Then: ゲイン 1 では同じ配列が返り、ゲイン 2 では値が2倍になる
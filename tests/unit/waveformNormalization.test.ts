@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyGain,
+  calculateLoudness,
+  calculateNormalizationGain,
+} from '../../src/utils/waveformNormalization'
+import { arrayRms } from '../../src/utils/arrayStats'
+
+function sine(frequency: number, amplitude: number, sampleRate: number, durationSec = 1): Float32Array {
+  const data = new Float32Array(Math.round(sampleRate * durationSec))
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  }
+  return data
+}
+
+describe('waveformNormalization', () => {
+  describe('calculateLoudness', () => {
+    it('should measure a full-scale 997Hz sine at about -3.01 LUFS', () => {
+      expect(calculateLoudness(sine(997, 1, 48000), 48000)).toBeCloseTo(-3.01, 1)
+    })
+
+    it('should give the same loudness at other sample rates', () => {
+      expect(calculateLoudness(sine(997, 1, 44100), 44100)).toBeCloseTo(-3.01, 1)
+    })
+
+    it('should attenuate low frequencies', () => {
+      expect(calculateLoudness(sine(20, 1, 48000), 48000)).toBeLessThan(-10)
+    })
+  })
+
+  describe('calculateNormalizationGain', () => {
+    const data = sine(997, 0.5, 48000)
+
+    it('should return 1 when normalization is disabled', () => {
+      expect(calculateNormalizationGain(data, 48000, 'none')).toBe(1)
+    })
+
+    it('should scale the peak to full scale', () => {
+      expect(calculateNormalizationGain(Float32Array.from([0.5, -0.25]), 48000, 'peak')).toBe(2)
+    })
+
+    it('should scale the RMS level to -20dBFS', () => {
+      const gain = calculateNormalizationGain(data, 48000, 'rms')
+
+      expect(arrayRms(applyGain(data, gain))).toBeCloseTo(0.1, 4)
+    })
+
+    it('should scale the loudness to -20 LUFS', () => {
+      const gain = calculateNormalizationGain(data, 48000, 'loudness')
+
+      expect(calculateLoudness(applyGain(data, gain), 48000)).toBeCloseTo(-20, 2)
+    })
+
+    it('should return 1 for silence or empty data', () => {
+      expect(calculateNormalizationGain(new Float32Array(100), 48000, 'peak')).toBe(1)
+      expect(calculateNormalizationGain(new Float32Array(100), 48000, 'loudness')).toBe(1)
+      expect(calculateNormalizationGain(new Float32Array(0), 48000, 'rms')).toBe(1)
+    })
+  })
+
+  describe('applyGain', () => {
+    it('should return the original data when the gain is 1', () => {
+      const data = Float32Array.from([0.1, 0.2])
+
+      expect(applyGain(data, 1)).toBe(data)
+      const doubled = applyGain(data, 2)
+      expect(doubled[0]).toBeCloseTo(0.2, 6)
+      expect(doubled[1]).toBeCloseTo(0.4, 6)
+    })
+  })
+})
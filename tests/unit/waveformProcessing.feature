@@ -48,6 +48,23 @@ Feature: 波形同期加算処理
     When: ウィンドウ終端を計算する
     Then: 終端タイムスタンプは [200, 300, 400] である
 
+  Scenario: キーグループでタイムスタンプを絞り込む
+    Given: KeyA, Space, KeyB, Space のキーダウンタイムスタンプ [100, 200, 300, 400] がある
+    And: 終端タイムスタンプが [150, 250, 350, 450] である
+    When: space グループで絞り込む
+    Then: タイムスタンプは [200, 400] である
+    And: 終端タイムスタンプは [250, 450] である
+
+  Scenario: 全キーを指定した場合は絞り込まない
+    Given: キー情報付きのタイムスタンプがある
+    When: all グループで絞り込む
+    Then: 元のタイムスタンプと終端タイムスタンプが返される
+
+  Scenario: キー情報がないタイムスタンプは除外する
+    Given: キー情報がないタイムスタンプがある
+    When: alpha グループで絞り込む
+    Then: 空の配列が返される
+
   Scenario: 不十分なタイムスタンプを処理する
     Given: 1000サンプルの音声データがある
     And: タイムスタンプが [100] のみである
@@ -62,7 +79,7 @@ Feature: 波形同期加算処理
     And: タイムスタンプが [10, 60, 110] である（3ウィンドウ）
     And: 終端タイムスタンプが [40, 90, 140] である（各30ms）
     And: オフセットが 0ms である
-    And: ピーク同期が無効である
+    And: 揃え方がキーイベント基準（none）である
     When: 同期加算平均を計算する
     Then: 波形が生成される
     And: ウィンドウ数は 3 である
@@ -90,7 +107,7 @@ Feature: 波形同期加算処理
     And: インデックス 55, 110, 165 にピークがある
     And: タイムスタンプが [50, 100, 150] である
     And: 終端タイムスタンプが [80, 130, 180] である
-    And: ピーク同期が有効である
+    And: 揃え方がピーク（peak）である
     And: ピーク位置が 5ms である
     When: 同期加算平均を計算する
     Then: 波形が生成される
@@ -103,3 +120,167 @@ Feature: 波形同期加算処理
     When: 同期加算平均を計算する
     Then: 波形が生成される
     And: 出力波形の長さが 0より大きい
+
+  Scenario: 打鍵音のオンセットを検出する
+    Given: 48000Hzのサンプルレートで 1000 サンプル目から始まる打鍵音がある
+    When: オンセットを検出する
+    Then: オンセット位置は 1000 サンプル目付近である
+    And: オンセット位置はピーク位置より前である
+
+  Scenario: 打鍵音の前の小さなノイズを無視する
+    Given: 微小なノイズの中に 2500 サンプル目から始まる打鍵音がある
+    When: オンセットを検出する
+    Then: オンセット位置は 2500 サンプル目付近である
+
+  Scenario: 無音ではピーク位置を返す
+    Given: 無音のデータがある
+    When: オンセットを検出する
+    Then: 0 が返される
+
+  Scenario: キーイベントのない録音から打鍵を検出する
+    Given: 100ms, 300ms, 500ms に打鍵音がある録音データがある
+    And: 300ms の打鍵音は他より弱い
+    When: 録音全体からオンセットを検出する
+    Then: 3 つのオンセットがそれぞれ 100ms, 300ms, 500ms 付近で検出される
+
+  Scenario: 最小間隔より近いオンセットはまとめる
+    Given: 10ms 間隔で2つの打鍵音がある
+    When: 最小間隔 30ms でオンセットを検出する
+    Then: 1 つのオンセットのみ検出される
+
+  Scenario: 無音の録音ではオンセットを検出しない
+    Given: 無音の録音データがある
+    When: 録音全体からオンセットを検出する
+    Then: 空の配列が返される
+
+  Scenario: オンセット同期モードでオンセットを揃える
+    Given: 48000Hzのサンプルレートの音声データがある
+    And: キーイベントから 2ms, 5ms, 3ms 遅れて打鍵音が始まる
+    And: 揃え方がオンセット（onset）である
+    And: ピーク位置が 5ms である
+    When: 同期加算平均を計算する
+    Then: ウィンドウ数は 3 である
+    And: 平均波形のオンセットは 5ms（240サンプル）付近である
+
+  Scenario: 押下音と続く小さなリリース音をペアにする
+    Given: 100ms と 500ms に押下音、200ms と 600ms に小さなリリース音がある
+    When: 打鍵音からキーイベントを推定する
+    Then: keyDown は 100ms, 500ms 付近になる
+    And: keyUp は 200ms, 600ms 付近になる
+
+  Scenario: 最大押下時間より後の打鍵音は次の押下とみなす
+    Given: 100ms に押下音、その 400ms 後に小さな打鍵音がある
+    When: 最大押下時間 300ms で打鍵音からキーイベントを推定する
+    Then: keyDown は 2 回、keyUp は 0 回になる
+
+  Scenario: 相互相関でサブサンプルのずれを求める
+    Given: 48000Hzで 100, 100.3, 100.7, 101.2, 99.6 サンプル遅れた同じ打鍵音のウィンドウがある
+    When: 初期位置 100 から相互相関で揃える
+    Then: 各ウィンドウの位置の差は遅れの差と 0.05 サンプル程度の精度で一致する
+
+  Scenario: ウィンドウが1つの場合は初期位置を返す
+    Given: ウィンドウが1つだけある
+    When: 相互相関で揃える
+    Then: 初期位置がそのまま返される
+
+  Scenario: 最大振幅の位置が入れ替わる場合も相互相関で鋭い平均波形を得る
+    Given: 押下音の 3ms 後の底打ち音の大きさが打鍵ごとに変わる録音データがある
+    When: 揃え方をピークと相互相関（xcorr）でそれぞれ同期加算する
+    Then: 相互相関で揃えた平均波形のエネルギーはピークで揃えた場合より大きい
+
+  Scenario: 中央値とトリム平均で1つのウィンドウのスパイクを抑える
+    Given: 同じ形の5つのウィンドウのうち1つだけに大きなスパイクがある
+    When: 平均・中央値・トリム平均（上下20%）でそれぞれ同期加算する
+    Then: 平均ではスパイクの影響が残る
+    And: 中央値とトリム平均ではスパイクのない波形と一致する
+
+  Scenario: 既定では外れ値ウィンドウを除外しない
+    Given: 1つのウィンドウにスパイクがある録音データがある
+    When: 平均化の設定を指定せずに同期加算する
+    Then: すべてのウィンドウが使用され、除外数は 0 である
+
+  Scenario: 中央値波形との相関が低いウィンドウを除外する
+    Given: 6回の打鍵のうち1回が打鍵音ではない雑音に置き換わっている
+    When: 外れ値除外を有効にして同期加算する
+    Then: 雑音のウィンドウだけが「相関が低い」理由で除外される
+    And: 使用したウィンドウ数は 5 である
+
+  Scenario: ピークレベルが外れ値のウィンドウを除外する
+    Given: 6回の打鍵のうち1回だけ振幅が10倍である
+    When: 外れ値除外を有効にして同期加算する
+    Then: 振幅の大きいウィンドウが「ピークレベルが外れ値」の理由で除外される
+    And: 平均波形のピークは残りのウィンドウと同程度になる
+
+  Scenario: ウィンドウが3つ未満の場合は外れ値を判定しない
+    Given: 振幅の大きく異なる2回の打鍵がある
+    When: 外れ値除外を有効にして同期加算する
+    Then: 2つのウィンドウがどちらも使用される
+
+  Scenario: 手動で除外したウィンドウは平均化に使用しない
+    Given: 3つのウィンドウのうち3つ目だけ振幅が大きい
+    When: 3つ目のウィンドウのタイムスタンプを除外して同期加算する
+    Then: 使用したウィンドウ数は 2、手動除外数は 1 である
+    And: 平均波形は残り2つのウィンドウの平均になる
+
+  Scenario: すべてのウィンドウを除外した場合は平均波形を返さない
+    Given: 2つのウィンドウがある
+    When: 両方のタイムスタンプを除外して同期加算する
+    Then: 平均波形は null である
+    And: 個別ウィンドウの情報は残る
+
+  Scenario: 外れ値の判定は手動で除外していないウィンドウのみで行う
+    Given: 6回の打鍵のうち1回だけ振幅が10倍である
+    When: 振幅の大きいウィンドウを手動で除外し、外れ値除外を有効にして同期加算する
+    Then: 手動除外数は 1、外れ値として除外した数は 0 である
+
+  Scenario: 除外したタイムスタンプは半サンプル以内の誤差を許して照合する
+    Given: 3つのウィンドウがあり、3つ目との差が半サンプル未満、2つ目との差が半サンプルを超えるタイムスタンプを除外している
+    When: 同期加算する
+    Then: 3つ目のウィンドウだけが手動で除外される
+
+  Scenario: 書き出して読み込んだ測定でも手動の除外が保たれる
+    Given: 小数を含むタイムスタンプの4回の打鍵があり、3つ目のウィンドウを手動で除外している
+    When: timestamps.csv と除外リストを書き出して読み込み、録音データから再計算する
+    Then: 3つ目のウィンドウが除外され、平均波形は書き出す前と一致する
+
+  Scenario: 切り出したウィンドウを平均化し直す
+    Given: 同期加算した個別ウィンドウがある
+    When: 同じ設定で個別ウィンドウを平均化し直す
+    Then: 同期加算の結果と一致する
+    And: 一部のウィンドウだけを平均化すると、そのウィンドウの平均になる
+
+    Given: ウィンドウがない
+    When: 平均化する
+    Then: 平均波形は null である
+
+  Scenario: 個別ウィンドウをキーグループで絞り込む
+    Given: 英字キー・スペースキー・キーイベントのないウィンドウがある
+    When: 英字キーで絞り込む
+    Then: 半サンプル以内の誤差でキーイベントと対応する英字キーのウィンドウだけが残る
+    And: 全キーの場合は絞り込まない
+
+  Scenario: ウィンドウの手動除外を切り替える
+    Given: 除外していないウィンドウがある
+    When: 除外を切り替える
+    Then: タイムスタンプが昇順の位置に加わる
+
+    Given: 半サンプル以内の誤差で除外しているタイムスタンプが複数ある
+    When: そのウィンドウの除外を切り替える
+    Then: 誤差内のタイムスタンプがすべて取り除かれる
+
+  Scenario: 各サンプル位置の標準偏差と有効ウィンドウ数を返す
+    Given: 同じ位置の振幅が 1, 2, 3 の3つのウィンドウがある
+    When: 同期加算平均を計算する
+    Then: その位置の有効ウィンドウ数は 3 である
+    And: その位置の標準偏差は 1 である
+
+  Scenario: 一貫性スコアは同じ打鍵音で1に近く、雑音が多いと下がる
+    Given: 5回の同じ打鍵音がある
+    When: 雑音なし、および打鍵ごとに異なる雑音を加えて同期加算する
+    Then: 雑音なしの一貫性スコアは 1 である
+    And: 雑音ありの一貫性スコアは 0.9 未満である
+
+  Scenario: ウィンドウが1つの場合は一貫性スコアを計算しない
+    Given: ウィンドウが1つだけある
+    When: 同期加算平均を計算する
+    Then: 一貫性スコアは null である
@@ -3,7 +3,33 @@ import {
   findPeakIndex,
   calculateWindowEndTimestamps,
   calculateSyncAveragedWaveform,
+  filterTimestampsByKeyGroup,
+  filterWindowsByKeyGroup,
+  averageSyncWindows,
+  findOnsetIndex,
+  detectOnsets,
+  detectKeyEvents,
+  alignByCrossCorrelation,
+  isTimestampExcluded,
+  toggleExcludedTimestamp,
+  DEFAULT_AVERAGING_OPTIONS,
 } from '../../src/utils/waveformProcessing'
+import { createUnknownKeyEvent } from '../../src/utils/keyEvents'
+import { buildTimestampsCsv, parseTimestampsCsv } from '../../src/utils/audioExport'
+
+// 指定位置から始まる減衰正弦波（打鍵音の模擬）を書き込む
+function addClick(data: Float32Array, startIndex: number, sampleRate: number, amplitude = 1) {
+  const length = Math.floor(sampleRate * 0.01)
+  for (let i = 0; i < length && startIndex + i < data.length; i++) {
+    const t = i / sampleRate
+    data[startIndex + i] += amplitude * Math.exp(-t * 800) * Math.sin(2 * Math.PI * 3000 * t + Math.PI / 4)
+  }
+}
+
+// 連続時間の打鍵音モデル（サブサンプル遅延の波形を作るため）
+function clickAt(t: number): number {
+  return t < 0 ? 0 : Math.exp(-t * 800) * Math.sin(2 * Math.PI * 3000 * t)
+}
 
 describe('waveformProcessing', () => {
   describe('findPeakIndex', () => {
@@ -34,6 +60,113 @@ describe('waveformProcessing', () => {
     })
   })
 
+  describe('findOnsetIndex', () => {
+    const sampleRate = 48000
+
+    it('should find the start of a click before its peak', () => {
+      const data = new Float32Array(4800)
+      addClick(data, 1000, sampleRate)
+
+      const onsetIndex = findOnsetIndex(data, sampleRate)
+      expect(Math.abs(onsetIndex - 1000)).toBeLessThanOrEqual(2)
+      expect(onsetIndex).toBeLessThan(findPeakIndex(data))
+    })
+
+    it('should ignore low-level noise before the click', () => {
+      const data = new Float32Array(4800)
+      for (let i = 0; i < data.length; i++) {
+        data[i] = 0.001 * Math.sin(i * 0.7)
+      }
+      addClick(data, 2500, sampleRate)
+
+      expect(Math.abs(findOnsetIndex(data, sampleRate) - 2500)).toBeLessThanOrEqual(2)
+    })
+
+    it('should fall back to peak index for silence', () => {
+      const data = new Float32Array(100)
+      expect(findOnsetIndex(data, sampleRate)).toBe(0)
+    })
+  })
+
+  describe('detectOnsets', () => {
+    const sampleRate = 48000
+
+    it('should detect each click in a recording without key events', () => {
+      const data = new Float32Array(sampleRate)
+      addClick(data, 4800, sampleRate)        // 100ms
+      addClick(data, 14400, sampleRate, 0.5)  // 300ms（弱い打鍵）
+      addClick(data, 24000, sampleRate)       // 500ms
+
+      const onsets = detectOnsets(data, sampleRate)
+      expect(onsets).toHaveLength(3)
+      expect(onsets[0]).toBeCloseTo(100, 0)
+      expect(onsets[1]).toBeCloseTo(300, 0)
+      expect(onsets[2]).toBeCloseTo(500, 0)
+    })
+
+    it('should merge onsets closer than the minimum interval', () => {
+      const data = new Float32Array(sampleRate / 2)
+      addClick(data, 4800, sampleRate)
+      addClick(data, 5280, sampleRate, 0.8) // 10ms後
+
+      expect(detectOnsets(data, sampleRate, { minIntervalMs: 30 })).toHaveLength(1)
+    })
+
+    it('should return empty array for silence', () => {
+      expect(detectOnsets(new Float32Array(4800), sampleRate)).toEqual([])
+    })
+  })
+
+  describe('detectKeyEvents', () => {
+    const sampleRate = 48000
+
+    it('should pair each press with the following quieter release', () => {
+      const data = new Float32Array(sampleRate)
+      addClick(data, 4800, sampleRate)         // 100ms 押下
+      addClick(data, 9600, sampleRate, 0.3)    // 200ms リリース
+      addClick(data, 24000, sampleRate)        // 500ms 押下
+      addClick(data, 28800, sampleRate, 0.3)   // 600ms リリース
+
+      const { keyDownTimestamps, keyUpTimestamps } = detectKeyEvents(data, sampleRate)
+      expect(keyDownTimestamps).toHaveLength(2)
+      expect(keyUpTimestamps).toHaveLength(2)
+      expect(keyDownTimestamps[0]).toBeCloseTo(100, 0)
+      expect(keyUpTimestamps[0]).toBeCloseTo(200, 0)
+      expect(keyDownTimestamps[1]).toBeCloseTo(500, 0)
+      expect(keyUpTimestamps[1]).toBeCloseTo(600, 0)
+    })
+
+    it('should treat a click after maxHoldMs as the next press', () => {
+      const data = new Float32Array(sampleRate)
+      addClick(data, 4800, sampleRate)
+      addClick(data, 24000, sampleRate, 0.3) // 400ms後
+
+      const { keyDownTimestamps, keyUpTimestamps } = detectKeyEvents(data, sampleRate, { maxHoldMs: 300 })
+      expect(keyDownTimestamps).toHaveLength(2)
+      expect(keyUpTimestamps).toHaveLength(0)
+    })
+  })
+
+  describe('alignByCrossCorrelation', () => {
+    it('should recover sub-sample delays between windows', () => {
+      const sampleRate = 48000
+      const delays = [100, 100.3, 100.7, 101.2, 99.6]
+      const windows = delays.map(delay =>
+        Float32Array.from({ length: 960 }, (_, n) => clickAt((n - delay) / sampleRate))
+      )
+
+      const positions = alignByCrossCorrelation(windows, delays.map(() => 100), sampleRate)
+
+      delays.forEach((delay, i) => {
+        expect(positions[i] - positions[0]).toBeCloseTo(delay - delays[0], 1)
+      })
+    })
+
+    it('should return initial positions for a single window', () => {
+      expect(alignByCrossCorrelation([new Float32Array(10)], [3], 48000)).toEqual([3])
+    })
+  })
+
   describe('calculateWindowEndTimestamps', () => {
     it('should calculate end timestamps based on next event', () => {
       const keyDownTimes = [100, 200, 300]
@@ -73,6 +206,35 @@ describe('waveformProcessing', () => {
     })
   })
 
+  describe('filterTimestampsByKeyGroup', () => {
+    const events = ['KeyA', 'Space', 'KeyB', 'Space'].map((code, i) => ({
+      ...createUnknownKeyEvent(100 + i * 100),
+      code,
+    }))
+    const timestamps = [100, 200, 300, 400]
+    const endTimestamps = [150, 250, 350, 450]
+
+    it('should keep only timestamps of the given key group', () => {
+      const result = filterTimestampsByKeyGroup(timestamps, endTimestamps, events, 'space')
+
+      expect(result.timestamps).toEqual([200, 400])
+      expect(result.endTimestamps).toEqual([250, 450])
+    })
+
+    it('should return all timestamps for "all"', () => {
+      const result = filterTimestampsByKeyGroup(timestamps, endTimestamps, events, 'all')
+
+      expect(result.timestamps).toEqual(timestamps)
+      expect(result.endTimestamps).toEqual(endTimestamps)
+    })
+
+    it('should drop timestamps without key information', () => {
+      const result = filterTimestampsByKeyGroup(timestamps, endTimestamps, [], 'alpha')
+
+      expect(result.timestamps).toEqual([])
+    })
+  })
+
   describe('calculateSyncAveragedWaveform', () => {
     it('should handle insufficient timestamps', () => {
       const audioData = new Float32Array(1000)
@@ -81,7 +243,7 @@ describe('waveformProcessing', () => {
         timestamps: [100],
         endTimestamps: [200],
         offsetMs: 0,
-        peakAlign: false,
+        alignMode: 'none' as const,
         peakPositionMs: 0,
         sampleRate: 1000, // 1 sample = 1ms for simplicity
       }
@@ -106,7 +268,7 @@ describe('waveformProcessing', () => {
         timestamps: [10, 60, 110], // 3 windows
         endTimestamps: [40, 90, 140], // Each window is 30ms
         offsetMs: 0,
-        peakAlign: false,
+        alignMode: 'none' as const,
         peakPositionMs: 0,
         sampleRate,
       }
@@ -128,7 +290,7 @@ describe('waveformProcessing', () => {
         timestamps: [10, 60, 110, 160, 210], // 5 timestamps
         endTimestamps: [40, 90, 140, 190, 240],
         offsetMs: 0,
-        peakAlign: false,
+        alignMode: 'none' as const,
         peakPositionMs: 0,
         sampleRate,
       }
@@ -149,7 +311,7 @@ describe('waveformProcessing', () => {
         timestamps: [50, 100, 150],
         endTimestamps: [80, 130, 180],
         offsetMs: 10, // Start 10ms before timestamp
-        peakAlign: false,
+        alignMode: 'none' as const,
         peakPositionMs: 0,
         sampleRate,
       }
@@ -161,7 +323,7 @@ describe('waveformProcessing', () => {
       expect(result.windows[0].timestampMs).toBe(50) // timestamps[1] - offsetMs
     })
 
-    it('should align peaks when peakAlign is true', () => {
+    it('should align peaks when alignMode is peak', () => {
       const sampleRate = 1000
       const audioData = new Float32Array(300)
       
@@ -175,7 +337,7 @@ describe('waveformProcessing', () => {
         timestamps: [50, 100, 150],
         endTimestamps: [80, 130, 180],
         offsetMs: 0,
-        peakAlign: true,
+        alignMode: 'peak' as const,
         peakPositionMs: 5, // Place peak at 5ms in output
         sampleRate,
       }
@@ -188,6 +350,63 @@ describe('waveformProcessing', () => {
       expect(result.windows[0].peakIndex).toBeGreaterThan(0)
     })
 
+    it('should align detected onsets when alignMode is onset', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      // キーイベントから 2ms, 5ms, 3ms 遅れて打鍵音が始まる
+      addClick(audioData, 4896, sampleRate)
+      addClick(audioData, 14640, sampleRate)
+      addClick(audioData, 24144, sampleRate)
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 300, 500],
+        endTimestamps: [150, 350, 550],
+        offsetMs: 5,
+        alignMode: 'onset',
+        peakPositionMs: 5,
+        sampleRate,
+      })
+
+      expect(result.windowCount).toBe(3)
+      const onsetPositions = result.windows.map(w => w.onsetIndex)
+      expect(onsetPositions[1] - onsetPositions[0]).toBeCloseTo(144, -1)
+      // 揃えた後の平均波形のオンセットは指定したピーク位置（5ms = 240サンプル）になる
+      expect(Math.abs(findOnsetIndex(result.waveform!, sampleRate) - 240)).toBeLessThanOrEqual(2)
+    })
+
+    it('should produce a sharper average with xcorr when the peak flips between lobes', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      const timestamps = [100, 200, 300, 400, 500, 600]
+      timestamps.forEach((timestampMs, i) => {
+        // 押下音の 3ms 後の底打ち音の大きさが打鍵ごとに変わり、最大振幅の位置が入れ替わる
+        const start = (timestampMs + 2) * 48 + i * 0.37
+        const thudAmplitude = i % 2 === 0 ? 1.3 : 0.7
+        for (let n = Math.floor(start); n < start + 960; n++) {
+          const t = (n - start) / sampleRate
+          audioData[n] += clickAt(t) + thudAmplitude * clickAt(t - 0.003)
+        }
+      })
+
+      const averageFor = (alignMode: 'peak' | 'xcorr') => calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode,
+        peakPositionMs: 10,
+        sampleRate,
+      })
+
+      const peakResult = averageFor('peak')
+      const xcorrResult = averageFor('xcorr')
+      expect(xcorrResult.windowCount).toBe(6)
+      // ずれたウィンドウ同士は打ち消し合うため、よく揃っているほど平均波形のエネルギーが大きい
+      const energy = (waveform: Float32Array) => waveform.reduce((sum, v) => sum + v * v, 0)
+      expect(energy(xcorrResult.waveform!)).toBeGreaterThan(energy(peakResult.waveform!) * 1.1)
+    })
+
     it('should handle windows with different lengths', () => {
       const sampleRate = 1000
       const audioData = new Float32Array(500)
@@ -197,7 +416,7 @@ describe('waveformProcessing', () => {
         timestamps: [50, 100, 200],
         endTimestamps: [80, 150, 250], // Different lengths: 30ms, 50ms, 50ms
         offsetMs: 0,
-        peakAlign: false,
+        alignMode: 'none' as const,
         peakPositionMs: 0,
         sampleRate,
       }
@@ -210,4 +429,383 @@ describe('waveformProcessing', () => {
       expect(result.waveform!.length).toBeGreaterThan(0)
     })
   })
+
+  describe('calculateSyncAveragedWaveform (robust averaging)', () => {
+    // 同じ形の5つのウィンドウのうち1つだけに大きなスパイクがある
+    const createSpikeData = () => {
+      const audioData = new Float32Array(600)
+      for (let w = 0; w < 5; w++) {
+        const start = 100 + w * 100
+        for (let i = 0; i < 20; i++) {
+          audioData[start + i] = Math.sin(i / 3)
+        }
+      }
+      audioData[300 + 5] += 10
+      return audioData
+    }
+    const spikeParams = {
+      timestamps: [100, 200, 300, 400, 500],
+      endTimestamps: [150, 250, 350, 450, 550],
+      offsetMs: 0,
+      alignMode: 'none' as const,
+      peakPositionMs: 0,
+      sampleRate: 1000,
+    }
+
+    it('should suppress a spike in one window with median and trimmed mean', () => {
+      const audioData = createSpikeData()
+      const averageWith = (method: 'mean' | 'trimmedMean' | 'median') => calculateSyncAveragedWaveform({
+        ...spikeParams,
+        audioData,
+        averaging: { ...DEFAULT_AVERAGING_OPTIONS, method, trimRatio: 0.2 },
+      }).waveform!
+
+      expect(averageWith('mean')[5]).toBeCloseTo(Math.sin(5 / 3) + 2, 5)
+      expect(averageWith('median')[5]).toBeCloseTo(Math.sin(5 / 3), 5)
+      expect(averageWith('trimmedMean')[5]).toBeCloseTo(Math.sin(5 / 3), 5)
+    })
+
+    it('should not reject any window by default', () => {
+      const result = calculateSyncAveragedWaveform({ ...spikeParams, audioData: createSpikeData() })
+
+      expect(result.windowCount).toBe(5)
+      expect(result.rejectedCount).toBe(0)
+      expect(result.windows.every(w => w.rejection === null)).toBe(true)
+    })
+
+    it('should reject a window with low correlation to the median waveform', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      const timestamps = [100, 200, 300, 400, 500, 600]
+      timestamps.forEach((timestampMs, i) => {
+        const start = (timestampMs + 2) * 48
+        if (i === 3) {
+          // 打鍵音ではない雑音（別の周波数の持続音）
+          for (let n = 0; n < 960; n++) {
+            audioData[start + n] = 0.8 * Math.sin(2 * Math.PI * 700 * n / sampleRate)
+          }
+        } else {
+          addClick(audioData, start, sampleRate)
+        }
+      })
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate,
+        averaging: { ...DEFAULT_AVERAGING_OPTIONS, rejectOutliers: true },
+      })
+
+      expect(result.windowCount).toBe(5)
+      expect(result.rejectedCount).toBe(1)
+      expect(result.windows[3].rejection?.reason).toBe('lowCorrelation')
+      expect(result.windows[3].rejection!.value).toBeLessThan(0.5)
+      expect(result.windows.filter(w => w.rejection !== null)).toHaveLength(1)
+    })
+
+    it('should reject a window whose peak level is an outlier', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      const timestamps = [100, 200, 300, 400, 500, 600]
+      const amplitudes = [1, 0.9, 1.1, 0.95, 1.05, 10]
+      timestamps.forEach((timestampMs, i) => {
+        addClick(audioData, (timestampMs + 2) * 48, sampleRate, amplitudes[i])
+      })
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode: 'peak',
+        peakPositionMs: 5,
+        sampleRate,
+        averaging: { ...DEFAULT_AVERAGING_OPTIONS, rejectOutliers: true },
+      })
+
+      expect(result.rejectedCount).toBe(1)
+      expect(result.windows[5].rejection?.reason).toBe('peakLevel')
+      expect(result.windows[5].rejection!.value).toBeGreaterThan(3.5)
+      // 除外後の平均波形のピークは残りのウィンドウの平均程度になる
+      const peak = Math.max(...Array.from(result.waveform!, Math.abs))
+      expect(peak).toBeLessThan(1.2)
+    })
+
+    it('should not reject windows when there are fewer than three', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      addClick(audioData, 102 * 48, sampleRate)
+      addClick(audioData, 202 * 48, sampleRate, 10)
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 200],
+        endTimestamps: [140, 240],
+        offsetMs: 5,
+        alignMode: 'peak',
+        peakPositionMs: 5,
+        sampleRate,
+        averaging: { ...DEFAULT_AVERAGING_OPTIONS, rejectOutliers: true },
+      })
+
+      expect(result.windowCount).toBe(2)
+      expect(result.rejectedCount).toBe(0)
+    })
+  })
+
+  describe('calculateSyncAveragedWaveform (manual exclusion)', () => {
+    it('should leave manually excluded windows out of the average', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+      audioData[205] = 1
+      audioData[305] = 4
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 200, 300],
+        endTimestamps: [150, 250, 350],
+        offsetMs: 0,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate: 1000,
+        excludedTimestamps: [300],
+      })
+
+      expect(result.windowCount).toBe(2)
+      expect(result.excludedCount).toBe(1)
+      expect(result.windows.map(w => w.excluded)).toEqual([false, false, true])
+      expect(result.waveform![5]).toBeCloseTo(1)
+    })
+
+    it('should return no waveform but keep windows when every window is excluded', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+      audioData[205] = 1
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 200],
+        endTimestamps: [150, 250],
+        offsetMs: 0,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate: 1000,
+        excludedTimestamps: [100, 200],
+      })
+
+      expect(result.waveform).toBeNull()
+      expect(result.windows).toHaveLength(2)
+    })
+
+    it('should judge outliers only among windows that are not excluded', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      const timestamps = [100, 200, 300, 400, 500, 600]
+      const amplitudes = [1, 0.9, 1.1, 0.95, 1.05, 10]
+      timestamps.forEach((timestampMs, i) => {
+        addClick(audioData, (timestampMs + 2) * 48, sampleRate, amplitudes[i])
+      })
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode: 'peak',
+        peakPositionMs: 5,
+        sampleRate,
+        averaging: { ...DEFAULT_AVERAGING_OPTIONS, rejectOutliers: true },
+        excludedTimestamps: [600],
+      })
+
+      expect(result.excludedCount).toBe(1)
+      expect(result.rejectedCount).toBe(0)
+      expect(result.windows[5].rejection).toBeNull()
+      expect(result.windowCount).toBe(5)
+    })
+
+    it('should match excluded timestamps within half a sample', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+      audioData[205] = 1
+      audioData[305] = 4
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 200, 300],
+        endTimestamps: [150, 250, 350],
+        offsetMs: 0,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate: 1000,
+        excludedTimestamps: [300.0004, 200.6],
+      })
+
+      expect(result.windows.map(w => w.excluded)).toEqual([false, false, true])
+      expect(result.excludedCount).toBe(1)
+    })
+
+    it('should keep exclusions after exporting and importing the measurement', () => {
+      const sampleRate = 48000
+      const audioData = new Float32Array(sampleRate)
+      const keyDownEvents = [100.123456789, 200.98765432101, 300.5000000001, 400.25].map(t => createUnknownKeyEvent(t))
+      keyDownEvents.forEach(({ timestampMs }, i) => {
+        addClick(audioData, Math.round((timestampMs + 2) * 48), sampleRate, i === 2 ? 10 : 1)
+      })
+      const excludedTimestamps = [keyDownEvents[2].timestampMs]
+
+      // 書き出した timestamps.csv とメタ情報の除外リストを読み込み、録音データから再計算する
+      const imported = parseTimestampsCsv(buildTimestampsCsv(keyDownEvents, []))
+      const importedExclusions = JSON.parse(JSON.stringify({ attack: excludedTimestamps })).attack as number[]
+      const recompute = (timestamps: number[], excluded: number[]) => calculateSyncAveragedWaveform({
+        audioData,
+        timestamps,
+        endTimestamps: timestamps.map(t => t + 40),
+        offsetMs: 5,
+        alignMode: 'peak',
+        peakPositionMs: 5,
+        sampleRate,
+        excludedTimestamps: excluded,
+      })
+      const original = recompute(keyDownEvents.map(e => e.timestampMs), excludedTimestamps)
+      const restored = recompute(imported.keyDownTimestamps, importedExclusions)
+
+      expect(restored.windows.map(w => w.excluded)).toEqual([false, false, true, false])
+      expect(restored.excludedCount).toBe(1)
+      expect(restored.waveform).toEqual(original.waveform)
+    })
+  })
+
+  describe('averageSyncWindows', () => {
+    it('should reproduce the sync average from the same windows', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+      audioData[205] = 2
+      audioData[305] = 4
+      const params = { alignMode: 'peak' as const, peakPositionMs: 5, sampleRate: 1000 }
+      const result = calculateSyncAveragedWaveform({
+        ...params,
+        audioData,
+        timestamps: [100, 200, 300],
+        endTimestamps: [150, 250, 350],
+        offsetMs: 0,
+        excludedTimestamps: [300],
+      })
+
+      const reaveraged = averageSyncWindows(result.windows, params)
+
+      expect(reaveraged).toEqual(result)
+      expect(averageSyncWindows(result.windows.slice(0, 1), params).waveform![5]).toBeCloseTo(1)
+    })
+
+    it('should return no waveform for no windows', () => {
+      expect(averageSyncWindows([], { alignMode: 'none', peakPositionMs: 0, sampleRate: 1000 }).waveform).toBeNull()
+    })
+  })
+
+  describe('filterWindowsByKeyGroup', () => {
+    it('should keep windows whose key event is in the group', () => {
+      const window = (timestampMs: number) => ({
+        data: new Float32Array(1), peakIndex: 0, onsetIndex: 0, alignIndex: 0, timestampMs, windowLengthMs: 1, excluded: false, rejection: null,
+      })
+      const windows = [window(100), window(200), window(300.004), window(400)]
+      const events = [
+        { ...createUnknownKeyEvent(100), code: 'KeyA' },
+        { ...createUnknownKeyEvent(200), code: 'Space' },
+        { ...createUnknownKeyEvent(300), code: 'KeyB' },
+      ]
+
+      expect(filterWindowsByKeyGroup(windows, events, 'alpha', 48000).map(w => w.timestampMs)).toEqual([100, 300.004])
+      expect(filterWindowsByKeyGroup(windows, events, 'all', 48000)).toBe(windows)
+    })
+  })
+
+  describe('isTimestampExcluded / toggleExcludedTimestamp', () => {
+    it('should treat timestamps within half a sample as the same window', () => {
+      expect(isTimestampExcluded(300, [300.01], 48000)).toBe(true)
+      expect(isTimestampExcluded(300, [300.02], 48000)).toBe(false)
+      expect(isTimestampExcluded(300, [], 48000)).toBe(false)
+    })
+
+    it('should add a timestamp that is not excluded in sorted order', () => {
+      expect(toggleExcludedTimestamp([100, 300], 200.5, 48000)).toEqual([100, 200.5, 300])
+    })
+
+    it('should remove every excluded timestamp that matches the window', () => {
+      expect(toggleExcludedTimestamp([100, 200.004, 200.006, 300], 200, 48000)).toEqual([100, 300])
+    })
+  })
+
+  describe('calculateSyncAveragedWaveform (spread)', () => {
+    it('should return per-sample standard deviation and sample counts', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+      audioData[205] = 2
+      audioData[305] = 3
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100, 200, 300],
+        endTimestamps: [150, 250, 350],
+        offsetMs: 0,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate: 1000,
+      })
+
+      expect(result.spread).not.toBeNull()
+      expect(result.spread!.sampleCounts[5]).toBe(3)
+      // 1, 2, 3 の不偏標準偏差は 1
+      expect(result.spread!.standardDeviation[5]).toBeCloseTo(1)
+      expect(result.spread!.standardDeviation[0]).toBe(0)
+    })
+
+    it('should give a consistency score near 1 for identical windows and lower for noisy ones', () => {
+      const sampleRate = 48000
+      const timestamps = [100, 200, 300, 400, 500]
+      const consistencyFor = (noiseAmplitude: number) => {
+        const audioData = new Float32Array(sampleRate)
+        timestamps.forEach((timestampMs, i) => {
+          addClick(audioData, (timestampMs + 2) * 48, sampleRate)
+          // 打鍵ごとに異なる周波数の雑音を加える
+          for (let n = 0; n < 1920; n++) {
+            audioData[timestampMs * 48 + n] += noiseAmplitude * Math.sin(2 * Math.PI * (500 + i * 300) * n / sampleRate)
+          }
+        })
+        return calculateSyncAveragedWaveform({
+          audioData,
+          timestamps,
+          endTimestamps: timestamps.map(t => t + 40),
+          offsetMs: 0,
+          alignMode: 'none',
+          peakPositionMs: 0,
+          sampleRate,
+        }).spread!.consistency!
+      }
+
+      expect(consistencyFor(0)).toBeCloseTo(1, 5)
+      expect(consistencyFor(0.5)).toBeLessThan(0.9)
+    })
+
+    it('should not calculate consistency for a single window', () => {
+      const audioData = new Float32Array(400)
+      audioData[105] = 1
+
+      const result = calculateSyncAveragedWaveform({
+        audioData,
+        timestamps: [100],
+        endTimestamps: [150],
+        offsetMs: 0,
+        alignMode: 'none',
+        peakPositionMs: 0,
+        sampleRate: 1000,
+      })
+
+      expect(result.spread!.consistency).toBeNull()
+    })
+  })
 })
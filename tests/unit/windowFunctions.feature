@@ -0,0 +1,40 @@
+Feature: 窓関数
+  # description
+  短い過渡音や長い録音に合わせて、矩形・ハン・ハミング・ブラックマン・ハリス・テューキー・フラットトップの窓関数を選べるようにする。
+  係数は窓の種類と長さごとにキャッシュし、パワー利得で窓によるレベルの違いを補正できるようにする
+
+  Scenario: 窓は中央で 1 になり左右対称である
+    Given: すべての種類の長さ 65 の窓
+    When: 係数を計算する
+    Then: 中央の係数は 1 で、左右対称になる
+
+  Scenario: 窓の種類に応じて両端を絞る
+    Given: 長さ 9 の各種の窓
+    When: 先頭の係数を確認する
+    Then: 矩形窓は 1、ハン窓は 0、ハミング窓は 0.08、ブラックマン・ハリス窓は 0.00006 になる
+    And: フラットトップ窓は両端付近が負になる
+
+  Scenario: テューキー窓は中央の半分が平坦である
+    Given: 長さ 101 のテューキー窓 (α=0.5)
+    When: 係数を計算する
+    Then: 両端 25% ずつは 0 から 1 へ滑らかに変化し、中央の半分は 1 になる
+
+  Scenario: 同じ種類と長さの係数を使い回す
+    Given: 長さ 128 のハン窓の係数を計算済みである
+    When: もう一度係数を取得する
+    Then: 同じ配列が返される
+
+  Scenario: 長さ 1 の窓は 1 になる
+    Given: すべての種類の長さ 1 の窓
+    When: 係数を計算する
+    Then: 係数は 1 になる
+
+  Scenario: パワー利得は係数の二乗平均である
+    Given: 矩形窓とハン窓
+    When: パワー利得を計算する
+    Then: 矩形窓は 1、ハン窓は約 0.375 になる
+
+  Scenario: 波形に窓関数を掛ける
+    Given: 値がすべて 2 の長さ 5 の波形
+    When: ハン窓を掛ける
+    Then: 0, 1, 2, 1, 0 になる
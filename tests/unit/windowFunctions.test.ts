@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  WINDOW_FUNCTION_LABELS,
+  applyWindow,
+  getWindowCoefficients,
+  getWindowPowerGain,
+  type WindowFunction,
+} from '../../src/utils/windowFunctions'
+
+const WINDOW_FUNCTIONS = Object.keys(WINDOW_FUNCTION_LABELS) as WindowFunction[]
+
+describe('windowFunctions', () => {
+  describe('getWindowCoefficients', () => {
+    it('should be symmetric with a peak of one at the center', () => {
+      for (const type of WINDOW_FUNCTIONS) {
+        const coefficients = getWindowCoefficients(type, 65)
+
+        expect(coefficients[32]).toBeCloseTo(1, 5)
+        for (let i = 0; i < 32; i++) {
+          expect(coefficients[i]).toBeCloseTo(coefficients[64 - i], 10)
+        }
+      }
+    })
+
+    it('should taper the ends according to the window type', () => {
+      expect(getWindowCoefficients('rectangular', 9)[0]).toBe(1)
+      expect(getWindowCoefficients('hann', 9)[0]).toBeCloseTo(0)
+      expect(getWindowCoefficients('hamming', 9)[0]).toBeCloseTo(0.08)
+      expect(getWindowCoefficients('blackmanHarris', 9)[0]).toBeCloseTo(0.00006, 5)
+      // フラットトップ窓は両端付近が負になる
+      expect(Math.min(...getWindowCoefficients('flatTop', 65))).toBeLessThan(0)
+    })
+
+    it('should keep the middle half of a Tukey window flat', () => {
+      const coefficients = getWindowCoefficients('tukey', 101)
+
+      expect(coefficients[0]).toBeCloseTo(0)
+      expect(coefficients[12]).toBeGreaterThan(0)
+      expect(coefficients[12]).toBeLessThan(1)
+      for (let i = 25; i <= 75; i++) {
+        expect(coefficients[i]).toBe(1)
+      }
+    })
+
+    it('should return the same cached array for the same type and length', () => {
+      expect(getWindowCoefficients('hann', 128)).toBe(getWindowCoefficients('hann', 128))
+    })
+
+    it('should return one for a single sample', () => {
+      for (const type of WINDOW_FUNCTIONS) {
+        expect(getWindowCoefficients(type, 1)[0]).toBe(1)
+      }
+    })
+  })
+
+  describe('getWindowPowerGain', () => {
+    it('should be the mean square of the coefficients', () => {
+      expect(getWindowPowerGain('rectangular', 1024)).toBe(1)
+      expect(getWindowPowerGain('hann', 4096)).toBeCloseTo(0.375, 3)
+    })
+  })
+
+  describe('applyWindow', () => {
+    it('should multiply the waveform by the coefficients', () => {
+      const data = new Float32Array([2, 2, 2, 2, 2])
+
+      const windowed = applyWindow(data, 'hann')
+
+      expect(Array.from(windowed)).toEqual([0, 1, 2, 1, 0].map(v => expect.closeTo(v, 6)))
+    })
+  })
+})